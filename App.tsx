@@ -1,12 +1,13 @@
 
-import React, { useState, useCallback, useEffect } from 'react';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
 import Layout from './components/Layout';
 import ModelControls from './components/ModelControls';
 import AnalysisBoard from './components/AnalysisBoard';
 import DataPreview from './components/DataPreview';
 import AIAssistant from './components/AIAssistant';
-import { ModelType, AssetClass, SynthesisParameters, SynthesisResult } from './types';
-import { generateSynthesizedData } from './services/synthesisEngine';
+import CalibrationPanel from './components/CalibrationPanel';
+import { ModelType, AssetClass, SynthesisParameters, SynthesisResult, MarketCalendar, SamplingFrequency } from './types';
+import { runSynthesisInWorker, isAbortError } from './services/synthesisClient';
 import { getAnalysisInsights } from './services/geminiService';
 
 const INITIAL_PARAMS: SynthesisParameters = {
@@ -15,6 +16,9 @@ const INITIAL_PARAMS: SynthesisParameters = {
   initialValue: 100,
   timeHorizon: 365,
   dt: 1 / 252,
+  startDate: new Date().toISOString().slice(0, 10),
+  calendar: MarketCalendar.NYSE,
+  frequency: SamplingFrequency.DAILY,
   mu: 0.08,
   sigma: 0.20,
   kappa: 2.0,
@@ -39,6 +43,8 @@ const App: React.FC = () => {
   const [result, setResult] = useState<SynthesisResult | null>(null);
   const [insights, setInsights] = useState<string | null>(null);
   const [isGenerating, setIsGenerating] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const runRef = useRef<AbortController | null>(null);
   const [isDark, setIsDark] = useState(() => {
     if (typeof window !== 'undefined') {
       return localStorage.getItem('theme') === 'dark' || 
@@ -59,25 +65,32 @@ const App: React.FC = () => {
 
   const toggleTheme = () => setIsDark(!isDark);
 
+  // Parameters changed under a running synthesis: its output is already stale
+  const cancelGeneration = useCallback(() => {
+    runRef.current?.abort();
+  }, []);
+
   const undo = useCallback(() => {
     if (past.length === 0) return;
+    cancelGeneration();
     const previous = past[past.length - 1];
     const newPast = past.slice(0, past.length - 1);
     
     setFuture([params, ...future]);
     setParams(previous);
     setPast(newPast);
-  }, [past, params, future]);
+  }, [past, params, future, cancelGeneration]);
 
   const redo = useCallback(() => {
     if (future.length === 0) return;
+    cancelGeneration();
     const next = future[0];
     const newFuture = future.slice(1);
     
     setPast([...past, params]);
     setParams(next);
     setFuture(newFuture);
-  }, [future, params, past]);
+  }, [future, params, past, cancelGeneration]);
 
   // Keyboard Shortcuts
   useEffect(() => {
@@ -101,41 +114,54 @@ const App: React.FC = () => {
     const updated = { ...params, ...newParams };
     if (JSON.stringify(updated) === JSON.stringify(params)) return;
 
+    cancelGeneration();
+
     setPast(prev => [...prev.slice(-(MAX_HISTORY - 1)), params]);
     setParams(updated);
     setFuture([]); // Clear redo history on new change
   };
 
   const generateData = useCallback(async (overridingParams?: SynthesisParameters) => {
+    runRef.current?.abort();
+    const controller = new AbortController();
+    runRef.current = controller;
+
     setIsGenerating(true);
+    setProgress(0);
     setInsights(null);
     
     const targetParams = overridingParams || params;
 
-    setTimeout(async () => {
-      try {
-        const newResult = generateSynthesizedData(targetParams);
-        setResult(newResult);
-        
-        // Fix: Explicitly type accumulator and handle unknown/undefined in correlation strength calculation to resolve TS errors
-        const summaryStr = JSON.stringify({
-          category: targetParams.assetClass,
-          model: targetParams.modelType,
-          mu: targetParams.mu,
-          sigma: targetParams.sigma,
-          finalValue: newResult.data[newResult.data.length - 1].value,
-          vol: newResult.summary.vol,
-          correlationStrength: Object.values(targetParams.correlations || {}).reduce((acc: number, val: any) => acc + Math.abs(val || 0), 0)
-        });
-        
-        const aiText = await getAnalysisInsights(summaryStr);
-        setInsights(aiText);
-      } catch (err) {
-        console.error("Synthesis error:", err);
-      } finally {
+    try {
+      const newResult = await runSynthesisInWorker(targetParams, {
+        signal: controller.signal,
+        onProgress: (completed, total) => setProgress(completed / total),
+        onPartial: partial => setResult(partial)
+      });
+      setResult(newResult);
+      
+      // Fix: Explicitly type accumulator and handle unknown/undefined in correlation strength calculation to resolve TS errors
+      const summaryStr = JSON.stringify({
+        category: targetParams.assetClass,
+        model: targetParams.modelType,
+        mu: targetParams.mu,
+        sigma: targetParams.sigma,
+        finalValue: newResult.data[newResult.data.length - 1].value,
+        vol: newResult.summary.vol,
+        correlationStrength: Object.values(targetParams.correlations || {}).reduce((acc: number, val: any) => acc + Math.abs(val || 0), 0)
+      });
+      
+      const aiText = await getAnalysisInsights(summaryStr);
+      if (!controller.signal.aborted) setInsights(aiText);
+    } catch (err) {
+      if (!isAbortError(err)) console.error("Synthesis error:", err);
+    } finally {
+      // A newer run owns the busy state once it has replaced this controller
+      if (runRef.current === controller) {
+        runRef.current = null;
         setIsGenerating(false);
       }
-    }, 600);
+    }
   }, [params]);
 
   useEffect(() => {
@@ -161,6 +187,7 @@ const App: React.FC = () => {
         onUndo={undo}
         onRedo={redo}
       />
+      <CalibrationPanel params={params} onApply={fitted => handleScenarioApplied({ ...params, ...fitted })} />
       <AIAssistant onScenarioApplied={handleScenarioApplied} />
     </>
   );
@@ -181,7 +208,7 @@ const App: React.FC = () => {
       {result ? (
         <div key={JSON.stringify(params)} className="animate-in fade-in slide-in-from-bottom-4 duration-700">
           <AnalysisBoard result={result} insights={insights} isDark={isDark} />
-          <DataPreview data={result.data} title={`${params.assetClass.replace(/_/g, ' ')} Dataset Preview`} />
+          <DataPreview result={result} title={`${params.assetClass.replace(/_/g, ' ')} Dataset Preview`} />
         </div>
       ) : (
         <div className="flex flex-col items-center justify-center py-32 bg-white dark:bg-slate-900 rounded-2xl border border-dashed border-slate-200 dark:border-slate-800 transition-colors">
@@ -193,7 +220,8 @@ const App: React.FC = () => {
       {isGenerating && result && (
         <div className="fixed bottom-8 right-8 bg-indigo-600 text-white px-6 py-3 rounded-full shadow-2xl flex items-center gap-3 animate-bounce z-50">
           <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
-          <span className="text-sm font-bold tracking-tight">Re-synthesizing Data...</span>
+          <span className="text-sm font-bold tracking-tight">Re-synthesizing Data... {Math.round(progress * 100)}%</span>
+          <button onClick={cancelGeneration} className="ml-1 px-2 py-0.5 text-[10px] font-extrabold uppercase tracking-widest bg-white/20 hover:bg-white/30 rounded-full transition-colors">Cancel</button>
         </div>
       )}
     </Layout>
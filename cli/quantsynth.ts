@@ -0,0 +1,423 @@
+#!/usr/bin/env node
+/**
+ * Headless batch generation:
+ *   quantsynth generate --config scenario.json --paths 1000 --seed 42 --out data.parquet
+ *
+ * Configs use the same SynthesisParameters JSON as the app (a file exported
+ * from the app's "Export JSON" button works too). Quoted globs such as
+ * "scenarios/*.json" are expanded here so batches work without a shell.
+ */
+import fs from 'fs';
+import path from 'path';
+import { AssetClass, CurveModel, DataPoint, DayCount, EventType, FundamentalSeries, MacroSystem, SwaptionVolModel, Tick, VolSurfaceModel, OptionStyle, BarrierType, LegType, DiscretizationScheme, MarketCalendar, ModelType, SamplingFrequency, ScenarioMode, SynthesisParameters, SynthesisResult } from '../types';
+import { generateSynthesizedData, convertToCSV, convertEnsembleToCSV, convertBarsToCSV, convertTicksToCSV, convertSurfaceToCSV, FUNDAMENTAL_HEADERS, fundamentalColumns, MACRO_HEADERS, macroColumns } from '../services/synthesisEngine';
+import { ParquetColumn, writeParquet } from '../services/parquet';
+import { parseIsoDate, resolveStepSize } from '../services/calendar';
+import { CURVE_TENORS, tenorLabel } from '../services/yieldCurve';
+import { transitionError } from '../services/regimeSwitching';
+import { requestedVar, varError } from '../services/macroSystem';
+import { applyScenario, findScenario, HISTORICAL_SCENARIOS, scenarioFactorFor, scenarioTag } from '../services/scenarioLibrary';
+
+type OutputFormat = 'csv' | 'json' | 'parquet';
+const REGIME_FIELDS = ['mu', 'sigma', 'kappa', 'theta', 'lambda'] as const;
+type OutputSeries = 'points' | 'bars' | 'ticks' | 'surface';
+
+interface GenerateOptions {
+  configs: string[];
+  paths?: number;
+  seed?: number;
+  out?: string;
+  format?: OutputFormat;
+  series?: OutputSeries;
+  scenario?: string;
+  scenarioMode?: string;
+  scenarioStart?: number;
+}
+
+const USAGE = `Usage: quantsynth generate --config <file|glob> [--config ...] [options]
+
+Options:
+  --config, -c   SynthesisParameters JSON file or glob (repeatable)
+  --paths, -n    Monte Carlo paths per scenario (overrides numPaths)
+  --seed, -s     Random seed (overrides seed; shared by every scenario in a batch)
+  --out, -o      Output file, or a directory when several configs match
+  --format, -f   csv | json | parquet (default: from --out extension, else csv)
+  --series       points | bars | ticks | surface (default: points). bars/ticks
+                 turn on bar (and tick) generation for the primary path; ticks
+                 need intraday frequency; surface needs an OPTION config with
+                 volSurfaceModel
+  --scenario     Historical episode replayed on the primary path (points
+                 series, single path): ${HISTORICAL_SCENARIOS.map(sc => sc.id).join(', ')}
+  --scenario-mode
+                 overlay | terminal (default: overlay)
+  --scenario-start
+                 Point index where the episode starts (overlay, default 0)
+                 or hits (terminal, default last)
+  --help, -h     Show this message`;
+
+const fail = (message: string): never => {
+  console.error(`quantsynth: ${message}`);
+  process.exit(1);
+};
+
+const parseArgs = (argv: string[]): { command?: string; options: GenerateOptions } => {
+  const [command, ...rest] = argv;
+  const options: GenerateOptions = { configs: [] };
+  let lastFlag: string | undefined;
+
+  for (let i = 0; i < rest.length; i++) {
+    const arg = rest[i];
+    const next = () => rest[++i] ?? fail(`Missing value for ${arg}`);
+
+    switch (arg) {
+      case '--config': case '-c': options.configs.push(next()); break;
+      case '--paths': case '-n': options.paths = Number(next()); break;
+      case '--seed': case '-s': options.seed = Number(next()); break;
+      case '--out': case '-o': options.out = next(); break;
+      case '--format': case '-f': options.format = next() as OutputFormat; break;
+      case '--series': options.series = next() as OutputSeries; break;
+      case '--scenario': options.scenario = next(); break;
+      case '--scenario-mode': options.scenarioMode = next(); break;
+      case '--scenario-start': options.scenarioStart = Number(next()); break;
+      case '--help': case '-h': console.log(USAGE); process.exit(0);
+      default:
+        // Unquoted globs arrive shell-expanded: extra words after --config are more configs
+        if (!arg.startsWith('-') && (lastFlag === '--config' || lastFlag === '-c')) options.configs.push(arg);
+        else fail(`Unknown argument "${arg}"\n\n${USAGE}`);
+        continue;
+    }
+    lastFlag = arg;
+  }
+
+  if (options.paths !== undefined && !(Number.isInteger(options.paths) && options.paths >= 1)) fail('--paths must be a positive integer');
+  if (options.seed !== undefined && !Number.isFinite(options.seed)) fail('--seed must be a number');
+  if (options.format && !['csv', 'json', 'parquet'].includes(options.format)) fail(`Unsupported format "${options.format}"`);
+  if (options.series && !['points', 'bars', 'ticks', 'surface'].includes(options.series)) fail(`Unsupported series "${options.series}"`);
+  if (options.scenario !== undefined && !findScenario(options.scenario)) fail(`Unknown scenario "${options.scenario}"`);
+  if (options.scenarioMode !== undefined && !['overlay', 'terminal'].includes(options.scenarioMode)) fail(`Unsupported scenario mode "${options.scenarioMode}"`);
+  if (options.scenarioStart !== undefined && !(Number.isInteger(options.scenarioStart) && options.scenarioStart >= 0)) fail('--scenario-start must be a non-negative integer');
+  if ((options.scenarioMode !== undefined || options.scenarioStart !== undefined) && options.scenario === undefined) fail('--scenario-mode and --scenario-start need --scenario');
+  return { command, options };
+};
+
+const globToRegExp = (segment: string): RegExp =>
+  new RegExp('^' + segment.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '[^/]*').replace(/\?/g, '[^/]') + '$');
+
+/**
+ * Expand `*`, `?` and `**` against the filesystem. Patterns without wildcards
+ * are returned as-is so missing files are reported by name.
+ */
+const expandGlob = (pattern: string): string[] => {
+  if (!/[*?]/.test(pattern)) return [pattern];
+
+  const segments = pattern.split(/[\\/]/);
+  const firstWild = segments.findIndex(s => /[*?]/.test(s));
+  const base = segments.slice(0, firstWild).join('/') || (path.isAbsolute(pattern) ? '/' : '.');
+
+  const walk = (dir: string, remaining: string[]): string[] => {
+    if (remaining.length === 0) return [dir];
+    const [head, ...tail] = remaining;
+    if (!fs.existsSync(dir) || !fs.statSync(dir).isDirectory()) return [];
+    const entries = fs.readdirSync(dir, { withFileTypes: true });
+
+    if (head === '**') {
+      return [
+        ...walk(dir, tail),
+        ...entries.filter(e => e.isDirectory()).flatMap(e => walk(path.join(dir, e.name), remaining))
+      ];
+    }
+    const matcher = globToRegExp(head);
+    return entries.filter(e => matcher.test(e.name)).flatMap(e => walk(path.join(dir, e.name), tail));
+  };
+
+  return walk(base, segments.slice(firstWild)).filter(f => fs.statSync(f).isFile());
+};
+
+const loadConfig = (file: string): SynthesisParameters => {
+  let raw: any;
+  try {
+    raw = JSON.parse(fs.readFileSync(file, 'utf8'));
+  } catch (err: any) {
+    return fail(`${file}: ${err?.code === 'ENOENT' ? 'file not found' : err?.message}`);
+  }
+
+  // Accept the app's JSON export ({ seed, parameters, data }) as well as bare parameters
+  const params = (raw?.parameters && typeof raw.parameters === 'object' ? raw.parameters : raw) as SynthesisParameters;
+  if (!Object.values(ModelType).includes(params.modelType)) fail(`${file}: unknown modelType "${params.modelType}"`);
+  if (!Object.values(AssetClass).includes(params.assetClass)) fail(`${file}: unknown assetClass "${params.assetClass}"`);
+  if (params.scheme !== undefined && !Object.values(DiscretizationScheme).includes(params.scheme)) fail(`${file}: unknown scheme "${params.scheme}"`);
+  if (params.calendar !== undefined && !Object.values(MarketCalendar).includes(params.calendar)) fail(`${file}: unknown calendar "${params.calendar}"`);
+  if (params.frequency !== undefined && !Object.values(SamplingFrequency).includes(params.frequency)) fail(`${file}: unknown frequency "${params.frequency}"`);
+  if (params.startDate !== undefined && !parseIsoDate(params.startDate)) fail(`${file}: startDate must be YYYY-MM-DD`);
+  if (params.dayCount !== undefined && !Object.values(DayCount).includes(params.dayCount)) fail(`${file}: unknown dayCount "${params.dayCount}"`);
+  if (params.swaptionVolModel !== undefined && !Object.values(SwaptionVolModel).includes(params.swaptionVolModel)) fail(`${file}: unknown swaptionVolModel "${params.swaptionVolModel}"`);
+  if (params.optionStyle !== undefined && !Object.values(OptionStyle).includes(params.optionStyle)) fail(`${file}: unknown optionStyle "${params.optionStyle}"`);
+  (params.portfolio ?? []).forEach((leg, k) => {
+    if (!Object.values(LegType).includes(leg.type)) fail(`${file}: portfolio[${k}] has unknown type "${leg.type}"`);
+    if (leg.style !== undefined && !Object.values(OptionStyle).includes(leg.style)) fail(`${file}: portfolio[${k}] has unknown style "${leg.style}"`);
+    if (!leg.id) fail(`${file}: portfolio[${k}] needs an id`);
+  });
+  if (params.barrierType !== undefined && !Object.values(BarrierType).includes(params.barrierType)) fail(`${file}: unknown barrierType "${params.barrierType}"`);
+  if (params.volSurfaceModel !== undefined && !Object.values(VolSurfaceModel).includes(params.volSurfaceModel)) fail(`${file}: unknown volSurfaceModel "${params.volSurfaceModel}"`);
+  if (params.curveModel !== undefined && !Object.values(CurveModel).includes(params.curveModel)) fail(`${file}: unknown curveModel "${params.curveModel}"`);
+  const regimeCount = params.regimes?.length ?? 0;
+  (params.regimes ?? []).forEach((regime, k) => {
+    if (!REGIME_FIELDS.every(f => Number.isFinite(regime[f]))) fail(`${file}: regimes[${k}] needs numeric ${REGIME_FIELDS.join(', ')}`);
+    if (regime.sigma < 0 || regime.lambda < 0) fail(`${file}: regimes[${k}] sigma and lambda must be non-negative`);
+  });
+  if (regimeCount >= 2 && params.regimeTransition !== undefined) {
+    const error = transitionError(params.regimeTransition, regimeCount);
+    if (error) fail(`${file}: regimeTransition: ${error}`);
+  }
+  (params.fundamentalSeries ?? []).forEach(series => {
+    if (!Object.values(FundamentalSeries).includes(series)) fail(`${file}: unknown fundamentalSeries "${series}"`);
+  });
+  (params.events ?? []).forEach((event, k) => {
+    if (!Object.values(EventType).includes(event.type)) fail(`${file}: events[${k}] has unknown type "${event.type}"`);
+    if (!parseIsoDate(event.date ?? '')) fail(`${file}: events[${k}] date must be YYYY-MM-DD`);
+    if (event.jumpSigma !== undefined && !(event.jumpSigma >= 0)) fail(`${file}: events[${k}] jumpSigma must be non-negative`);
+  });
+  if (params.macroSystem !== undefined && !Object.values(MacroSystem).includes(params.macroSystem)) fail(`${file}: unknown macroSystem "${params.macroSystem}"`);
+  if (params.macroSystem === MacroSystem.VAR) {
+    const error = varError(requestedVar({ ...params, dt: resolveStepSize(params) }));
+    if (error) fail(`${file}: VAR: ${error}`);
+  }
+  if (params.initialRegime !== undefined && !(Number.isInteger(params.initialRegime) && params.initialRegime >= 0 && params.initialRegime < regimeCount)) {
+    fail(`${file}: initialRegime must index into regimes`);
+  }
+  if (!(params.initialValue !== undefined && Number.isFinite(params.initialValue))) fail(`${file}: initialValue is required`);
+  if (!(params.timeHorizon >= 1)) fail(`${file}: timeHorizon must be >= 1`);
+  return { ...params, dt: resolveStepSize(params) };
+};
+
+const pointColumns = (data: DataPoint[]): ParquetColumn[] => {
+  const column = (name: string, pick: (d: DataPoint) => number | undefined): ParquetColumn =>
+    ({ name, type: 'double', values: data.map(pick) });
+  const assetIds = Object.keys(data[0]?.assetValues || {});
+  const legIds = (data[0]?.legs ?? []).map(l => l.id);
+
+  // Same columns as convertToCSV; all-empty optional columns are dropped
+  const columns: ParquetColumn[] = [
+    { name: 'Index', type: 'int64', values: data.map(d => d.index) },
+    { name: 'Date', type: 'string', values: data.map(d => d.timestamp) },
+    column('Value', d => d.value),
+    column('Underlying', d => d.underlyingValue),
+    column('PE_Ratio', d => d.peRatio),
+    column('Earnings', d => d.expectedEarnings),
+    column('MarketProxy', d => d.benchmarkValue),
+    column('Variance', d => d.variance),
+    column('CondVol', d => d.conditionalVol),
+    column('Delta', d => d.greeks?.delta),
+    column('Gamma', d => d.greeks?.gamma),
+    column('Vega', d => d.greeks?.vega),
+    column('Theta', d => d.greeks?.theta),
+    column('Rho', d => d.greeks?.rho),
+    ...assetIds.map(id => column(`Asset_${id}`, d => d.assetValues?.[id])),
+    ...legIds.map((id, k) => column(`Leg_${id}`, d => d.legs?.[k]?.value)),
+    ...CURVE_TENORS.flatMap((tenor, k) => [
+      column(`Zero_${tenorLabel(tenor)}`, d => d.curve?.zeroRates[k]),
+      column(`DF_${tenorLabel(tenor)}`, d => d.curve?.discountFactors[k]),
+      column(`Par_${tenorLabel(tenor)}`, d => d.curve?.parRates[k])
+    ]),
+    column('BondPrice', d => d.bond?.price),
+    column('YTM', d => d.bond?.ytm),
+    column('MacaulayDur', d => d.bond?.macaulayDuration),
+    column('ModifiedDur', d => d.bond?.modifiedDuration),
+    column('Convexity', d => d.bond?.convexity),
+    column('DV01', d => d.bond?.dv01),
+    column('ZCB', d => d.bond?.zeroCouponPrice),
+    ...fundamentalColumns(data).map(k => column(FUNDAMENTAL_HEADERS[k], d => d.fundamentals?.[k])),
+    ...macroColumns(data).map(k => column(MACRO_HEADERS[k]!, d => d.macro?.[k])),
+    ...(data[0]?.regime !== undefined ? [{ name: 'Regime', type: 'int64' as const, values: data.map(d => d.regime ?? -1) }] : []),
+    ...(data.some(d => d.events) ? [{ name: 'Events', type: 'string' as const, values: data.map(d => d.events?.join('|') ?? '') }] : [])
+  ];
+  return columns.filter(c => c.type !== 'double' || c.values.some(v => v !== undefined));
+};
+
+const barColumns = (data: DataPoint[]): ParquetColumn[] => {
+  const bars = data.filter(d => d.bar);
+  return [
+    { name: 'Index', type: 'int64', values: bars.map(d => d.index) },
+    { name: 'Date', type: 'string', values: bars.map(d => d.timestamp) },
+    { name: 'Open', type: 'double', values: bars.map(d => d.bar!.open) },
+    { name: 'High', type: 'double', values: bars.map(d => d.bar!.high) },
+    { name: 'Low', type: 'double', values: bars.map(d => d.bar!.low) },
+    { name: 'Close', type: 'double', values: bars.map(d => d.bar!.close) },
+    { name: 'Volume', type: 'int64', values: bars.map(d => d.bar!.volume) }
+  ];
+};
+
+const tickColumns = (ticks: Tick[]): ParquetColumn[] => [
+  { name: 'Timestamp', type: 'string', values: ticks.map(t => t.timestamp) },
+  { name: 'Bar', type: 'int64', values: ticks.map(t => t.barIndex) },
+  { name: 'Price', type: 'double', values: ticks.map(t => t.price) },
+  { name: 'Size', type: 'int64', values: ticks.map(t => t.size) },
+  { name: 'Side', type: 'string', values: ticks.map(t => t.side) },
+  { name: 'Bid', type: 'double', values: ticks.map(t => t.bid) },
+  { name: 'Ask', type: 'double', values: ticks.map(t => t.ask) }
+];
+
+// Long format: one row per point, expiry and strike
+const surfaceColumns = (data: DataPoint[]): ParquetColumn[] => {
+  const rows = data.flatMap(d => {
+    const s = d.volSurface;
+    if (!s) return [];
+    return s.expiries.flatMap((expiry, e) => s.moneyness.map((m, j) => ({
+      date: d.timestamp, expiry, m, strike: s.strikes[e][j], iv: s.iv[e][j], price: s.prices[e][j]
+    })));
+  });
+  return [
+    { name: 'Date', type: 'string', values: rows.map(r => r.date) },
+    { name: 'Expiry', type: 'double', values: rows.map(r => r.expiry) },
+    { name: 'Moneyness', type: 'double', values: rows.map(r => r.m) },
+    { name: 'Strike', type: 'double', values: rows.map(r => r.strike) },
+    { name: 'IV', type: 'double', values: rows.map(r => r.iv) },
+    { name: 'Price', type: 'double', values: rows.map(r => r.price) }
+  ];
+};
+
+const ensembleColumns = (result: SynthesisResult): ParquetColumn[] => {
+  const { numPaths, steps, paths, bands } = result.ensemble!;
+  return [
+    { name: 'Index', type: 'int64', values: bands.map(b => b.index) },
+    { name: 'Date', type: 'string', values: bands.map(b => b.timestamp) },
+    ...Array.from({ length: numPaths }, (_, p): ParquetColumn => ({
+      name: `Path_${p}`,
+      type: 'double',
+      values: Array.from(paths.subarray(p * steps, (p + 1) * steps))
+    }))
+  ];
+};
+
+/**
+ * Single-path runs export the full DataPoint table; ensembles export the path
+ * matrix (one column per path), mirroring the app's CSV exports. Bars,
+ * ticks and the vol surface always come from the primary path.
+ */
+const serialize = (result: SynthesisResult, format: OutputFormat, series: OutputSeries, scenario?: string): string | Uint8Array => {
+  const meta = { seed: result.seed, parameters: result.parameters, ...(scenario && { scenario }) };
+  const parquetMeta: Record<string, string> = { seed: String(result.seed), parameters: JSON.stringify(result.parameters), ...(scenario && { scenario }) };
+  if (series === 'bars') {
+    if (format === 'csv') return convertBarsToCSV(result.data, meta);
+    if (format === 'json') return JSON.stringify({ ...meta, bars: result.data.filter(d => d.bar).map(d => ({ index: d.index, timestamp: d.timestamp, ...d.bar })) }, null, 2);
+    return writeParquet(barColumns(result.data), parquetMeta);
+  }
+  if (series === 'ticks') {
+    const ticks = result.ticks ?? [];
+    if (format === 'csv') return convertTicksToCSV(ticks, meta);
+    if (format === 'json') return JSON.stringify({ ...meta, ticks }, null, 2);
+    return writeParquet(tickColumns(ticks), parquetMeta);
+  }
+  if (series === 'surface') {
+    if (format === 'csv') return convertSurfaceToCSV(result.data, meta);
+    if (format === 'json') return JSON.stringify({ ...meta, surface: result.data.filter(d => d.volSurface).map(d => ({ index: d.index, timestamp: d.timestamp, ...d.volSurface })) }, null, 2);
+    return writeParquet(surfaceColumns(result.data), parquetMeta);
+  }
+  switch (format) {
+    case 'csv':
+      return result.ensemble ? convertEnsembleToCSV(result.ensemble, 'paths', meta) : convertToCSV(result.data, meta);
+    case 'json':
+      return JSON.stringify({
+        ...meta,
+        data: result.data,
+        ...(result.ensemble && {
+          ensemble: {
+            numPaths: result.ensemble.numPaths,
+            bands: result.ensemble.bands,
+            paths: Array.from({ length: result.ensemble.numPaths }, (_, p) =>
+              Array.from(result.ensemble!.paths.subarray(p * result.ensemble!.steps, (p + 1) * result.ensemble!.steps)))
+          }
+        })
+      }, null, 2);
+    case 'parquet':
+      return writeParquet(result.ensemble ? ensembleColumns(result) : pointColumns(result.data), parquetMeta);
+  }
+};
+
+const formatFromPath = (file: string | undefined): OutputFormat | undefined => {
+  const ext = file ? path.extname(file).slice(1).toLowerCase() : '';
+  return ext === 'csv' || ext === 'json' || ext === 'parquet' ? ext : undefined;
+};
+
+const runGenerate = (options: GenerateOptions) => {
+  if (options.configs.length === 0) fail(`--config is required\n\n${USAGE}`);
+
+  const files = [...new Set(options.configs.flatMap(expandGlob))].sort();
+  if (files.length === 0) fail(`No config files match ${options.configs.join(', ')}`);
+
+  const batch = files.length > 1;
+  const format = options.format ?? (batch ? undefined : formatFromPath(options.out)) ?? 'csv';
+  const series = options.series ?? 'points';
+  if (batch && options.out && formatFromPath(options.out)) fail('--out must be a directory when several configs match');
+  const outDir = batch ? options.out ?? '.' : undefined;
+  const targetFor = (file: string) => (outDir ? path.join(outDir, `${path.basename(file, path.extname(file))}.${format}`) : options.out);
+  // Configs with the same name in different directories would overwrite each other's output
+  const claimed = new Map<string, string>();
+  files.forEach(file => {
+    const target = targetFor(file);
+    if (!target) return;
+    const other = claimed.get(target);
+    if (other) fail(`${other} and ${file} would both be written to ${target}; rename one of them`);
+    claimed.set(target, file);
+  });
+  if (outDir) fs.mkdirSync(outDir, { recursive: true });
+
+  for (const file of files) {
+    const params = loadConfig(file);
+    if (options.paths !== undefined) params.numPaths = options.paths;
+    if (options.seed !== undefined) params.seed = options.seed;
+    if (series === 'bars' || series === 'ticks') params.generateBars = true;
+    if (series === 'ticks') {
+      if (params.frequency !== SamplingFrequency.INTRADAY) fail(`${file}: --series ticks needs frequency INTRADAY`);
+      params.generateTicks = true;
+    }
+    if (series === 'surface' && (params.assetClass !== AssetClass.OPTION || !params.volSurfaceModel)) {
+      fail(`${file}: --series surface needs assetClass OPTION and a volSurfaceModel`);
+    }
+
+    const started = Date.now();
+    let result: SynthesisResult;
+    try {
+      result = generateSynthesizedData(params);
+    } catch (err: any) {
+      return fail(`${file}: ${err?.message || 'synthesis failed'}`);
+    }
+
+    // Historical episodes are replayed on the primary path after generation
+    let scenario: string | undefined;
+    if (options.scenario) {
+      if (series !== 'points' || result.ensemble) fail(`${file}: --scenario applies to single-path points output`);
+      if (!scenarioFactorFor(params.assetClass)) fail(`${file}: no scenario factor moves assetClass ${params.assetClass}`);
+      const episode = findScenario(options.scenario)!;
+      const mode = options.scenarioMode === 'terminal' ? ScenarioMode.TERMINAL : ScenarioMode.OVERLAY;
+      const start = options.scenarioStart ?? (mode === ScenarioMode.TERMINAL ? result.data.length - 1 : 0);
+      if (start >= result.data.length) fail(`${file}: --scenario-start must be below ${result.data.length}`);
+      result = { ...result, data: applyScenario(result, episode, mode, start).data };
+      scenario = scenarioTag(episode, mode, start);
+    }
+
+    const target = targetFor(file);
+    const content = serialize(result, format, series, scenario);
+
+    if (target) fs.writeFileSync(target, content);
+    else process.stdout.write(typeof content === 'string' ? content + '\n' : content);
+
+    const paths = result.ensemble?.numPaths ?? 1;
+    // Progress goes to stderr so stdout stays clean when piping data
+    console.error(`${file} -> ${target ?? 'stdout'} (${paths} path${paths > 1 ? 's' : ''} x ${result.data.length} steps, seed ${result.seed}, ${Date.now() - started}ms)`);
+  }
+};
+
+const { command, options } = parseArgs(process.argv.slice(2));
+switch (command) {
+  case 'generate':
+    runGenerate(options);
+    break;
+  case undefined:
+  case '--help':
+  case '-h':
+    console.log(USAGE);
+    break;
+  default:
+    fail(`Unknown command "${command}"\n\n${USAGE}`);
+}
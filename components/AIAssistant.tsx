@@ -2,6 +2,7 @@
 import React, { useState } from 'react';
 import { getEconomicScenario } from '../services/geminiService';
 import { ModelType, SynthesisParameters, AssetClass } from '../types';
+import { HISTORICAL_SCENARIOS, scenarioPrompt } from '../services/scenarioLibrary';
 
 interface AIAssistantProps {
   onScenarioApplied: (params: SynthesisParameters) => void;
@@ -12,6 +13,8 @@ const PREDEFINED_SCENARIOS = [
   { name: 'Stagflation', prompt: 'High inflation rate with negative GDP growth and high structural seasonality.' },
   { name: 'Carry Trade', prompt: 'FX currency pair where the domestic rate is 7% and foreign rate is 1%, leading to sustained currency appreciation.' },
   { name: 'Supply Shock', prompt: 'Commodity prices surging with massive seasonal spikes and high volatility.' },
+  // Historical episodes, described from the scenario library's factor moves
+  ...HISTORICAL_SCENARIOS.map(s => ({ name: s.name, prompt: scenarioPrompt(s) })),
 ];
 
 const AIAssistant: React.FC<AIAssistantProps> = ({ onScenarioApplied }) => {
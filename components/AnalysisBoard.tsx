@@ -1,9 +1,27 @@
 
 import React, { useRef, useState, useEffect, useMemo } from 'react';
-import { AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Brush, LineChart, Line, Legend } from 'recharts';
-import { SynthesisResult, AssetClass } from '../types';
+import { AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Brush, LineChart, Line, Legend, ReferenceArea, ReferenceLine } from 'recharts';
+import { SynthesisResult, AssetClass, FactorShock, EventType } from '../types';
+import { legLabel } from '../services/portfolio';
+import { canHedge } from '../services/hedging';
+import { buildRevaluation, ZERO_SHOCK } from '../services/stressTesting';
+import { regimeOccupancy, regimeSpans } from '../services/regimeSwitching';
+import { EVENT_LABELS } from '../services/eventSchedule';
+import { HISTORICAL_SCENARIOS, scenarioFactorFor, scenarioShock, terminalMoves } from '../services/scenarioLibrary';
 import { toPng } from 'html-to-image';
 import { jsPDF } from 'jspdf';
+import ValidationPanel from './ValidationPanel';
+import ConvergencePanel from './ConvergencePanel';
+import CandlestickChart from './CandlestickChart';
+import YieldCurvePanel from './YieldCurvePanel';
+import BondPanel from './BondPanel';
+import FundamentalsPanel from './FundamentalsPanel';
+import MacroPanel from './MacroPanel';
+import VolSurfacePanel from './VolSurfacePanel';
+import BookPanel from './BookPanel';
+import HedgingPanel from './HedgingPanel';
+import StressGridPanel from './StressGridPanel';
+import ScenarioPanel from './ScenarioPanel';
 import './AnalysisBoard.css';
 
 interface AnalysisBoardProps {
@@ -50,11 +68,20 @@ const GREEKS_INFO = {
   }
 };
 
-const STRESS_PRESETS = [
-  { id: 'normal', label: 'Flat', values: { asset: 0, vol: 0, time: 0, rates: 0 } },
-  { id: 'black_monday', label: 'Market Crash', values: { asset: -20, vol: 50, time: 1, rates: -5 } },
-  { id: 'bull_run', label: 'Bull Run', values: { asset: 15, vol: -10, time: 5, rates: 2 } },
-  { id: 'time_decay', label: 'Last Week', values: { asset: 0, vol: 0, time: 7, rates: 0 } },
+const JOINT_ASSET_COLORS = ['#10b981', '#f59e0b', '#ec4899', '#8b5cf6', '#0ea5e9', '#64748b'];
+const REGIME_COLORS = ['#10b981', '#f43f5e', '#f59e0b', '#0ea5e9'];
+const EVENT_COLORS: Record<EventType, string> = {
+  [EventType.EARNINGS]: '#8b5cf6',
+  [EventType.CENTRAL_BANK]: '#0ea5e9',
+  [EventType.CPI]: '#f59e0b',
+  [EventType.CUSTOM]: '#64748b'
+};
+const regimeShade = (regime: number) => ({ fill: REGIME_COLORS[regime % REGIME_COLORS.length], fillOpacity: 0.08, strokeOpacity: 0 });
+
+// Historical episodes from the scenario library are appended per run
+const STRESS_PRESETS: { id: string; label: string; values: FactorShock }[] = [
+  { id: 'normal', label: 'Flat', values: ZERO_SHOCK },
+  { id: 'time_decay', label: 'Last Week', values: { ...ZERO_SHOCK, time: 7 } },
 ];
 
 const AnalysisBoard: React.FC<AnalysisBoardProps> = ({ result, insights, isDark }) => {
@@ -79,16 +106,26 @@ const AnalysisBoard: React.FC<AnalysisBoardProps> = ({ result, insights, isDark
     return Object.values(corrs).reduce((acc: number, val: any) => acc + (val || 0), 0);
   }, [parameters.correlations]);
 
+  const ensemble = result.ensemble;
+
   const chartData = useMemo(() => {
-    return data.map(d => ({
-      ...d,
-      delta: d.greeks?.delta,
-      gamma: d.greeks?.gamma,
-      vega: d.greeks?.vega,
-      theta: d.greeks?.theta,
-      rho: d.greeks?.rho
-    }));
-  }, [data]);
+    return data.map((d, i) => {
+      const band = ensemble?.bands[i];
+      return {
+        ...d,
+        delta: d.greeks?.delta,
+        gamma: d.greeks?.gamma,
+        vega: d.greeks?.vega,
+        theta: d.greeks?.theta,
+        rho: d.greeks?.rho,
+        // Range tuples render as filled bands in recharts Area
+        fan90: band ? [band.p5, band.p95] : undefined,
+        fan50: band ? [band.p25, band.p75] : undefined,
+        median: band?.p50,
+        instVol: d.conditionalVol ?? (d.variance !== undefined ? Math.sqrt(Math.max(d.variance, 0)) : undefined)
+      };
+    });
+  }, [data, ensemble]);
 
   const isZoomed = range.start !== 0 || range.end !== data.length - 1;
 
@@ -142,44 +179,55 @@ const AnalysisBoard: React.FC<AnalysisBoardProps> = ({ result, insights, isDark
   };
 
   const latestPoint = data[data.length - 1];
-  const hasGreeks = [AssetClass.OPTION, AssetClass.SWAPTION].includes(parameters.assetClass);
+  const jointAssets = parameters.assets || [];
+  const hasBenchmark = latestPoint.benchmarkValue !== undefined;
+  const latestInstVol: number | undefined = chartData[chartData.length - 1]?.instVol;
+  const overlayActive = showBenchmark && hasBenchmark;
+  const hasGreeks = [AssetClass.OPTION, AssetClass.SWAP, AssetClass.SWAPTION].includes(parameters.assetClass);
+
+  // Regime runs shade the primary chart; each point's regime holds until the next point
+  const regimes = data[0]?.regime !== undefined ? parameters.regimes ?? [] : [];
+  const occupancy = useMemo(() => regimeOccupancy(data, regimes.length), [data, regimes.length]);
+  const regimeBands = useMemo(() => regimeSpans(data)
+    .filter(span => span.end >= range.start && span.start <= range.end)
+    .map(span => ({
+      regime: span.regime,
+      x1: data[Math.max(span.start, range.start)].timestamp,
+      x2: data[Math.min(span.end + 1, range.end)].timestamp
+    })), [data, range]);
+
+  // Scheduled events that landed on the displayed window, marked on the primary chart
+  const eventMarks = useMemo(() => data
+    .slice(range.start, range.end + 1)
+    .filter(d => d.events)
+    .map(d => ({ timestamp: d.timestamp, type: d.events![0] })), [data, range]);
+  const eventTypes = Array.from(new Set<EventType>(data.flatMap(d => d.events ?? [])));
+
+  const bookLegs = latestPoint.legs;
+  const isBook = !!bookLegs?.length;
+
+  const revaluation = useMemo(() => buildRevaluation(result), [result]);
+  const stressPresets = useMemo(() => [
+    ...STRESS_PRESETS,
+    ...HISTORICAL_SCENARIOS.map(sc => ({ id: sc.id, label: sc.name, values: scenarioShock(terminalMoves(sc), parameters, latestPoint.underlyingValue ?? 0) }))
+  ], [parameters, latestPoint]);
 
   // Shock Calculation Logic
   const shockImpact = useMemo(() => {
-    if (!hasGreeks || !latestPoint.greeks) return { pnl: 0, newPrice: latestPoint.value, percent: 0 };
-    
-    const { delta = 0, gamma = 0, vega = 0, theta = 0, rho = 0 } = latestPoint.greeks;
-    // Use the actual underlying spot at the end of the simulation
-    const underlyingSpot = latestPoint.underlyingValue || parameters.initialValue;
-    let pnl = 0;
-
-    switch (shockType) {
-      case 'asset':
-        const dS = underlyingSpot * (shockMagnitude / 100);
-        // Taylor series second-order approximation: ΔP ≈ Δ * dS + 0.5 * Γ * dS^2
-        pnl = (delta * dS) + (0.5 * gamma * Math.pow(dS, 2));
-        break;
-      case 'vol':
-        // Standard BS Vega is ∂P/∂σ. 1 unit of shock = 1 percentage point = 0.01.
-        pnl = vega * (shockMagnitude / 100);
-        break;
-      case 'time':
-        // Theta is rate of change with time (usually annualized or per day). 
-        // We assume daily theta in our mathUtils and magnitude is in days passed.
-        pnl = theta * (shockMagnitude / 365); 
-        break;
-      case 'rates':
-        // Rho is ∂P/∂r. 1 unit of shock = 1 percentage point = 0.01.
-        pnl = rho * (shockMagnitude / 100);
-        break;
-    }
-
-    return { 
-      pnl, 
-      newPrice: Math.max(0, latestPoint.value + pnl),
-      percent: latestPoint.value !== 0 ? (pnl / latestPoint.value) * 100 : 0
+    if (!revaluation) return { pnl: 0, newPrice: latestPoint.value, percent: 0, legPnl: [], fullPnl: undefined };
+    const shock = { ...ZERO_SHOCK, [shockType]: shockMagnitude };
+    const pnl = revaluation.taylor(shock);
+
+    return {
+      pnl,
+      // Not floored: the Taylor estimate can overshoot below zero, which the full revaluation shows
+      newPrice: latestPoint.value + pnl,
+      percent: latestPoint.value !== 0 ? (pnl / Math.abs(latestPoint.value)) * 100 : 0,
+      // A book is shocked leg by leg; the legs add up to the book's P&L
+      legPnl: revaluation.legTaylor(shock),
+      fullPnl: revaluation.full?.(shock)
     };
-  }, [shockType, shockMagnitude, latestPoint, parameters.initialValue, hasGreeks]);
+  }, [shockType, shockMagnitude, latestPoint, revaluation]);
 
   const StatCard = ({ label, value, sub, highlight }: { label: string, value: string, sub?: string, highlight?: boolean }) => (
     <div className={`p-4 rounded-xl border shadow-sm transition-all ${highlight ? 'bg-indigo-50 border-indigo-200 dark:bg-indigo-900/20 dark:border-indigo-800' : 'bg-white dark:bg-slate-900 border-slate-200 dark:border-slate-800'}`}>
@@ -194,7 +242,7 @@ const AnalysisBoard: React.FC<AnalysisBoardProps> = ({ result, insights, isDark
   const tooltipBg = isDark ? "rgba(15, 23, 42, 0.95)" : "rgba(255, 255, 255, 0.95)";
   const tooltipBorder = isDark ? "#334155" : "#e2e8f0";
 
-  const applyPreset = (preset: typeof STRESS_PRESETS[0]) => {
+  const applyPreset = (preset: typeof stressPresets[0]) => {
     const val = preset.values[shockType];
     setShockMagnitude(val);
   };
@@ -209,12 +257,14 @@ const AnalysisBoard: React.FC<AnalysisBoardProps> = ({ result, insights, isDark
           <h3 className="text-xs font-bold text-slate-800 dark:text-slate-200 uppercase tracking-widest">Analysis Terminal</h3>
         </div>
         <div className="flex gap-2">
+          {hasBenchmark && (
           <button 
             onClick={() => setShowBenchmark(!showBenchmark)}
             className={`px-3 py-1.5 text-xs font-semibold rounded-md transition-all border ${showBenchmark ? 'bg-indigo-600 text-white border-indigo-500 shadow-md shadow-indigo-100 dark:shadow-none' : 'bg-white dark:bg-slate-800 text-slate-600 dark:text-slate-300 border-slate-200 dark:border-slate-700'}`}
           >
             {showBenchmark ? 'Market Overlay: On' : 'Market Overlay: Off'}
           </button>
+          )}
           {isZoomed && (
             <button onClick={resetZoom} className="px-3 py-1.5 text-xs font-semibold text-indigo-600 bg-indigo-50 dark:bg-indigo-900/30 dark:text-indigo-300 border border-indigo-100 dark:border-indigo-800 rounded-md transition-all active:scale-95">Reset View</button>
           )}
@@ -225,14 +275,18 @@ const AnalysisBoard: React.FC<AnalysisBoardProps> = ({ result, insights, isDark
 
       <div ref={boardRef} className="space-y-6">
         <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
-          <StatCard label="Final Synth Value" value={latestPoint.value.toFixed(4)} />
-          <StatCard label="Benchmark Coupling" value={`${(effectiveRho * 100).toFixed(1)}%`} sub="Effective ρ Coefficient" highlight={Math.abs(effectiveRho) > 0.5} />
+          <StatCard label="Final Synth Value" value={latestPoint.value.toFixed(4)} sub={ensemble ? `Ensemble median ${ensemble.bands[ensemble.bands.length - 1].p50.toFixed(4)}` : undefined} />
+          {result.correlation ? (
+            <StatCard label="Joint Assets" value={`${jointAssets.length + 1}`} sub={result.correlation.repaired ? 'Matrix repaired to nearest PSD' : 'Cholesky-correlated shocks'} highlight={result.correlation.repaired} />
+          ) : (
+            <StatCard label="Benchmark Coupling" value={`${(effectiveRho * 100).toFixed(1)}%`} sub="Effective ρ Coefficient" highlight={Math.abs(effectiveRho) > 0.5} />
+          )}
           {hasGreeks ? (
             <StatCard label="Current Delta" value={latestPoint.greeks?.delta?.toFixed(4) || 'N/A'} highlight />
           ) : (
-            <StatCard label="Realized Vol" value={summary.vol.toFixed(4)} highlight={summary.vol > 0.3} />
+            <StatCard label="Level Std. Dev." value={summary.vol.toFixed(4)} sub="Dispersion of levels; see Validation for return vol" highlight={summary.vol > 0.3} />
           )}
-          <StatCard label="Time Horizon" value={`${parameters.timeHorizon} Steps`} sub={`${(parameters.timeHorizon/252).toFixed(2)} Annualized`} />
+          <StatCard label="Time Horizon" value={`${parameters.timeHorizon} Steps`} sub={`${(parameters.timeHorizon * parameters.dt).toFixed(2)} Annualized`} />
         </div>
 
         {/* Primary Path Chart */}
@@ -240,14 +294,32 @@ const AnalysisBoard: React.FC<AnalysisBoardProps> = ({ result, insights, isDark
           <div className="flex items-center justify-between mb-6">
             <div>
               <h3 className="font-bold text-slate-800 dark:text-slate-100 uppercase tracking-wider text-xs">Synthesis & Benchmark Correlation</h3>
-              <p className="text-[10px] text-slate-400 dark:text-slate-500 font-medium">{parameters.modelType} logic + {showBenchmark ? 'Factor Coupling Active' : 'Factor Coupling Isolated'}</p>
+              <p className="text-[10px] text-slate-400 dark:text-slate-500 font-medium">{parameters.modelType} logic + {jointAssets.length > 0 ? `Joint Simulation (${jointAssets.length + 1} Assets)` : overlayActive ? 'Factor Coupling Active' : 'Factor Coupling Isolated'}</p>
             </div>
             <div className="flex gap-4 items-center">
               <div className="flex items-center gap-1.5">
                 <div className="w-3 h-3 rounded-full bg-indigo-600"></div>
                 <span className="text-[9px] font-bold text-slate-500 uppercase">Primary Asset</span>
               </div>
-              {showBenchmark && (
+              {ensemble && (
+                <div className="flex items-center gap-1.5">
+                  <div className="w-3 h-3 rounded-sm bg-indigo-600/25"></div>
+                  <span className="text-[9px] font-bold text-slate-500 uppercase">{ensemble.numPaths.toLocaleString()}-Path Fan</span>
+                </div>
+              )}
+              {regimes.map((r, k) => (
+                <div key={k} className="flex items-center gap-1.5" title={`${(occupancy[k] * 100).toFixed(1)}% of points`}>
+                  <div className="w-3 h-3 rounded-sm" style={{ backgroundColor: REGIME_COLORS[k % REGIME_COLORS.length], opacity: 0.35 }}></div>
+                  <span className="text-[9px] font-bold text-slate-500 uppercase">{r.label || `Regime ${k}`} {(occupancy[k] * 100).toFixed(0)}%</span>
+                </div>
+              ))}
+              {eventTypes.map(type => (
+                <div key={type} className="flex items-center gap-1.5">
+                  <div className="w-0.5 h-3" style={{ backgroundColor: EVENT_COLORS[type] }}></div>
+                  <span className="text-[9px] font-bold text-slate-500 uppercase">{EVENT_LABELS[type]}</span>
+                </div>
+              ))}
+              {overlayActive && (
                 <div className="flex items-center gap-1.5">
                   <div className="w-3 h-0.5 border-t-2 border-dashed border-slate-400"></div>
                   <span className="text-[9px] font-bold text-slate-500 uppercase">Composite Benchmark</span>
@@ -272,8 +344,25 @@ const AnalysisBoard: React.FC<AnalysisBoardProps> = ({ result, insights, isDark
                     borderRadius: '8px', border: `1px solid ${tooltipBorder}`, backgroundColor: tooltipBg, color: isDark ? '#fff' : '#000', fontSize: '11px'
                   }}
                 />
-                <Area type="monotone" dataKey="value" stroke="#6366f1" strokeWidth={3} fillOpacity={1} fill="url(#colorValue)" name="Primary Value" isAnimationActive={false} />
-                {showBenchmark && (
+                {regimes.length > 0 && regimeBands.map((band, k) => (
+                  <React.Fragment key={k}>
+                    <ReferenceArea x1={band.x1} x2={band.x2} {...regimeShade(band.regime)} />
+                  </React.Fragment>
+                ))}
+                {eventMarks.map(mark => (
+                  <ReferenceLine key={mark.timestamp} x={mark.timestamp} stroke={EVENT_COLORS[mark.type]} strokeDasharray="2 3" strokeOpacity={0.7} />
+                ))}
+                {ensemble ? (
+                  <>
+                    <Area type="monotone" dataKey="fan90" stroke="none" fill="#6366f1" fillOpacity={0.12} name="P5–P95" isAnimationActive={false} />
+                    <Area type="monotone" dataKey="fan50" stroke="none" fill="#6366f1" fillOpacity={0.25} name="P25–P75" isAnimationActive={false} />
+                    <Line type="monotone" dataKey="median" stroke="#4338ca" strokeWidth={2} dot={false} name="Median" isAnimationActive={false} />
+                    <Line type="monotone" dataKey="value" stroke="#6366f1" strokeWidth={1} strokeOpacity={0.6} dot={false} name="Path #0" isAnimationActive={false} />
+                  </>
+                ) : (
+                  <Area type="monotone" dataKey="value" stroke="#6366f1" strokeWidth={3} fillOpacity={1} fill="url(#colorValue)" name="Primary Value" isAnimationActive={false} />
+                )}
+                {overlayActive && (
                   <Line type="monotone" dataKey="benchmarkValue" stroke="#94a3b8" strokeWidth={2} strokeDasharray="5 5" dot={false} name="Market Benchmark" isAnimationActive={false} />
                 )}
                 <Brush dataKey="timestamp" height={40} stroke={axisColor} fill={isDark ? "#0f172a" : "#f8fafc"} startIndex={range.start} endIndex={range.end} onChange={handleBrushChange} />
@@ -282,6 +371,90 @@ const AnalysisBoard: React.FC<AnalysisBoardProps> = ({ result, insights, isDark
           </div>
         </div>
 
+        {/* Intraday OHLCV Bars */}
+        {data[0]?.bar && <CandlestickChart data={data} range={range} isDark={isDark} />}
+
+        {/* Term Structure */}
+        {data[0]?.curve && <YieldCurvePanel data={data} range={range} isDark={isDark} />}
+
+        {/* Coupon Bond Off the Short Rate */}
+        {data[0]?.bond && <BondPanel data={data} params={parameters} isDark={isDark} />}
+
+        {/* Earnings and Per-Share Fundamentals */}
+        {data[0]?.fundamentals && <FundamentalsPanel data={data} isDark={isDark} />}
+
+        {/* Joint Macro Panel */}
+        {data[0]?.macro && <MacroPanel data={data} system={parameters.macroSystem!} isDark={isDark} />}
+
+        {/* Multi-Leg Book */}
+        {isBook && <BookPanel data={data} legs={parameters.portfolio ?? []} range={range} isDark={isDark} />}
+
+        {/* Delta Hedging Simulator */}
+        {canHedge(parameters, data) && <HedgingPanel data={data} params={parameters} seed={result.seed} isDark={isDark} />}
+
+        {/* Implied Vol Surface */}
+        {data[0]?.volSurface && <VolSurfacePanel data={data} range={range} model={parameters.volSurfaceModel} isDark={isDark} />}
+
+        {/* Stochastic Volatility Path */}
+        {latestInstVol !== undefined && (
+          <div className="bg-white dark:bg-slate-900 p-6 rounded-xl border border-slate-200 dark:border-slate-800 shadow-sm transition-colors">
+            <div className="flex items-center justify-between mb-4">
+              <div>
+                <h3 className="font-bold text-slate-800 dark:text-slate-100 uppercase tracking-wider text-xs">{latestPoint.conditionalVol !== undefined ? 'Conditional Volatility' : 'Instantaneous Volatility'}</h3>
+                <p className="text-[10px] text-slate-400 dark:text-slate-500 font-medium">{latestPoint.conditionalVol !== undefined ? 'Annualized √h from the GARCH variance recursion' : '√v from the simulated variance process'}</p>
+              </div>
+              <span className="text-[10px] font-mono font-bold text-indigo-500">{(latestInstVol * 100).toFixed(2)}%</span>
+            </div>
+            <div className="h-[160px] w-full">
+              <ResponsiveContainer width="100%" height="100%">
+                <AreaChart data={chartData} syncId="quantSync">
+                  <CartesianGrid strokeDasharray="3 3" vertical={false} stroke={gridColor} />
+                  <XAxis dataKey="timestamp" hide />
+                  <YAxis tick={{fontSize: 9, fill: axisColor}} axisLine={false} tickLine={false} domain={[0, 'auto']} tickFormatter={(v: number) => `${(v * 100).toFixed(0)}%`} />
+                  <Tooltip contentStyle={{ borderRadius: '8px', border: `1px solid ${tooltipBorder}`, backgroundColor: tooltipBg, fontSize: '10px' }} formatter={(v: any) => `${(Number(v) * 100).toFixed(2)}%`} />
+                  <Area type="monotone" dataKey="instVol" stroke="#f59e0b" strokeWidth={1.5} fill="#f59e0b" fillOpacity={0.12} name="Inst. Vol" isAnimationActive={false} />
+                </AreaChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+        )}
+
+        {/* Joint Asset Small Multiples */}
+        {result.correlation && jointAssets.length > 0 && (
+          <div className="bg-white dark:bg-slate-900 p-6 rounded-xl border border-slate-200 dark:border-slate-800 shadow-sm transition-colors">
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="font-bold text-slate-800 dark:text-slate-100 uppercase tracking-wider text-xs">Jointly Simulated Assets</h3>
+              <span className="text-[10px] text-slate-400 dark:text-slate-500 font-medium">Correlation to primary shown per panel</span>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {jointAssets.map((asset, k) => (
+                <div key={asset.id} className="p-3 rounded-lg border border-slate-100 dark:border-slate-800 bg-slate-50/50 dark:bg-slate-800/30">
+                  <div className="flex items-center justify-between mb-1">
+                    <span className="text-[10px] font-extrabold text-slate-700 dark:text-slate-200 uppercase">{asset.label}</span>
+                    <span className="text-[9px] font-mono font-bold text-indigo-500">ρ {result.correlation!.matrix[0][k + 1].toFixed(2)}</span>
+                  </div>
+                  <div className="h-[110px] w-full">
+                    <ResponsiveContainer width="100%" height="100%">
+                      <LineChart data={chartData} syncId="quantSync">
+                        <XAxis dataKey="timestamp" hide />
+                        <YAxis tick={{fontSize: 9, fill: axisColor}} axisLine={false} tickLine={false} domain={['auto', 'auto']} width={40} />
+                        <Tooltip contentStyle={{ borderRadius: '8px', border: `1px solid ${tooltipBorder}`, backgroundColor: tooltipBg, fontSize: '10px' }} />
+                        <Line type="monotone" dataKey={(d: any) => d.assetValues?.[asset.id]} stroke={JOINT_ASSET_COLORS[k % JOINT_ASSET_COLORS.length]} strokeWidth={1.5} dot={false} name={asset.label} isAnimationActive={false} />
+                      </LineChart>
+                    </ResponsiveContainer>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Stylized Facts Validation */}
+        <ValidationPanel data={data} dt={parameters.dt} isDark={isDark} />
+
+        {/* Discretization Scheme Convergence */}
+        <ConvergencePanel params={parameters} isDark={isDark} />
+
         {/* Greeks Multi-Chart & Stress Test Tool */}
         {hasGreeks && (
           <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
@@ -332,7 +505,7 @@ const AnalysisBoard: React.FC<AnalysisBoardProps> = ({ result, insights, isDark
                 <div className="flex flex-col md:flex-row md:items-center justify-between mb-6 gap-4">
                   <div>
                     <h4 className="text-[10px] font-bold text-indigo-600 dark:text-indigo-400 uppercase tracking-widest">Sensitivity Stress Test</h4>
-                    <p className="text-[9px] text-slate-400 dark:text-slate-500 font-medium italic">Taylor series approximation based on instantaneous Greeks</p>
+                    <p className="text-[9px] text-slate-400 dark:text-slate-500 font-medium italic">Taylor series approximation based on instantaneous Greeks{isBook && <> of all {bookLegs!.length} legs</>}</p>
                   </div>
                   <div className="flex flex-wrap gap-1">
                     {[
@@ -361,7 +534,7 @@ const AnalysisBoard: React.FC<AnalysisBoardProps> = ({ result, insights, isDark
                   <div className="md:col-span-2 space-y-4">
                     <div className="flex justify-between items-center">
                       <span className="text-[10px] font-bold text-slate-600 dark:text-slate-400 uppercase">
-                        Magnitude: <span className="text-indigo-600 dark:text-indigo-400 font-mono text-xs">{shockMagnitude > 0 ? '+' : ''}{shockMagnitude}{shockType === 'time' ? ' Days' : '%'}</span>
+                        Magnitude: <span className="text-indigo-600 dark:text-indigo-400 font-mono text-xs">{shockMagnitude > 0 ? '+' : ''}{shockMagnitude}{shockType === 'time' ? ' Days' : shockType === 'vol' && revaluation && revaluation.volUnit < 0.01 ? ' bp' : '%'}</span>
                       </span>
                       <button onClick={() => setShockMagnitude(0)} className="text-[8px] font-bold text-slate-400 hover:text-indigo-500 uppercase tracking-tighter">Reset</button>
                     </div>
@@ -377,8 +550,8 @@ const AnalysisBoard: React.FC<AnalysisBoardProps> = ({ result, insights, isDark
                     
                     <div className="pt-2">
                        <p className="text-[9px] font-bold text-slate-400 uppercase mb-2 tracking-tight">Quick Presets</p>
-                       <div className="flex gap-1.5">
-                          {STRESS_PRESETS.map(preset => (
+                       <div className="flex flex-wrap gap-1.5">
+                          {stressPresets.map(preset => (
                             <button
                               key={preset.id}
                               onClick={() => applyPreset(preset)}
@@ -415,6 +588,27 @@ const AnalysisBoard: React.FC<AnalysisBoardProps> = ({ result, insights, isDark
                     </div>
                   </div>
                 </div>
+
+                {shockImpact.fullPnl !== undefined && (
+                  <div className="mt-4 flex items-center justify-between px-3 py-2 rounded-lg bg-slate-50 dark:bg-slate-800/50 text-[10px] font-mono">
+                    <span className="text-slate-500 dark:text-slate-400">Full revaluation <span className={`font-bold ${shockImpact.fullPnl >= 0 ? 'text-emerald-500' : 'text-rose-500'}`}>{shockImpact.fullPnl >= 0 ? '+' : ''}{shockImpact.fullPnl.toFixed(4)}</span> → {(latestPoint.value + shockImpact.fullPnl).toFixed(4)}</span>
+                    <span className="text-slate-500 dark:text-slate-400">Taylor error <span className="font-bold text-amber-500">{(shockImpact.pnl - shockImpact.fullPnl) >= 0 ? '+' : ''}{(shockImpact.pnl - shockImpact.fullPnl).toFixed(4)}</span></span>
+                  </div>
+                )}
+
+                {isBook && (
+                  <div className="mt-4 grid grid-cols-1 md:grid-cols-2 gap-2">
+                    {shockImpact.legPnl.map(l => {
+                      const leg = parameters.portfolio?.find(p => p.id === l.id);
+                      return (
+                        <div key={l.id} className="flex items-center justify-between px-3 py-1.5 rounded-lg bg-slate-50 dark:bg-slate-800/50 text-[10px] font-mono">
+                          <span className="text-slate-500 dark:text-slate-400">{leg ? legLabel(leg) : l.id}</span>
+                          <span className={`font-bold ${l.pnl >= 0 ? 'text-emerald-500' : 'text-rose-500'}`}>{l.pnl >= 0 ? '+' : ''}{l.pnl.toFixed(4)}</span>
+                        </div>
+                      );
+                    })}
+                  </div>
+                )}
               </div>
             </div>
 
@@ -438,6 +632,12 @@ const AnalysisBoard: React.FC<AnalysisBoardProps> = ({ result, insights, isDark
           </div>
         )}
 
+        {/* Multi-Factor Full Revaluation */}
+        {revaluation?.full && <StressGridPanel revaluation={revaluation} presets={stressPresets} isDark={isDark} />}
+
+        {/* Historical Scenario Replay */}
+        {scenarioFactorFor(parameters.assetClass) && <ScenarioPanel result={result} isDark={isDark} />}
+
         {insights && (
           <div className="bg-indigo-900 dark:bg-indigo-950 text-white p-6 rounded-xl shadow-xl shadow-indigo-100 dark:shadow-none border border-indigo-800 transition-all">
             <h3 className="text-indigo-200 text-xs font-bold uppercase tracking-widest mb-3 flex items-center gap-2">
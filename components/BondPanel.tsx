@@ -0,0 +1,73 @@
+import React, { useMemo } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend } from 'recharts';
+import { DataPoint, SynthesisParameters } from '../types';
+
+interface BondPanelProps {
+  data: DataPoint[];
+  params: SynthesisParameters;
+  isDark: boolean;
+}
+
+const BondPanel: React.FC<BondPanelProps> = ({ data, params, isDark }) => {
+  const chartData = useMemo(() => data.filter(d => d.bond).map(d => ({
+    timestamp: d.timestamp,
+    price: d.bond!.price,
+    ytm: d.bond!.ytm * 100
+  })), [data]);
+
+  const latest = [...data].reverse().find(d => d.bond)?.bond;
+  if (!latest) return null;
+  const matured = !data[data.length - 1].bond;
+
+  const gridColor = isDark ? "#1e293b" : "#f1f5f9";
+  const axisColor = isDark ? "#475569" : "#94a3b8";
+  const tooltipBg = isDark ? "rgba(15, 23, 42, 0.95)" : "rgba(255, 255, 255, 0.95)";
+  const tooltipBorder = isDark ? "#334155" : "#e2e8f0";
+
+  const stats = [
+    { label: 'Dirty Price', value: latest.price.toFixed(4) },
+    { label: 'YTM', value: `${(latest.ytm * 100).toFixed(3)}%` },
+    { label: 'Macaulay', value: `${latest.macaulayDuration.toFixed(3)}y` },
+    { label: 'Mod. Duration', value: latest.modifiedDuration.toFixed(3) },
+    { label: 'Convexity', value: latest.convexity.toFixed(2) },
+    { label: 'DV01', value: latest.dv01.toFixed(4) }
+  ];
+
+  return (
+    <div className="bg-white dark:bg-slate-900 p-6 rounded-xl border border-slate-200 dark:border-slate-800 shadow-sm transition-colors">
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h3 className="font-bold text-slate-800 dark:text-slate-100 uppercase tracking-wider text-xs">Bond Analytics</h3>
+          <p className="text-[10px] text-slate-400 dark:text-slate-500 font-medium">
+            {((params.couponRate ?? 0.04) * 100).toFixed(2)}% coupon, {params.couponFrequency ?? 2}x per year, {params.bondMaturity ?? 10}y maturity, priced with affine zero-coupon bonds
+            {matured && <> · matured during the run</>}
+          </p>
+        </div>
+      </div>
+      <div className="grid grid-cols-3 md:grid-cols-6 gap-3 mb-4">
+        {stats.map(s => (
+          <div key={s.label} className="p-2 rounded-lg bg-slate-50 dark:bg-slate-800/50">
+            <p className="text-[8px] font-bold text-slate-400 uppercase tracking-widest">{s.label}</p>
+            <p className="text-xs font-mono font-bold text-slate-800 dark:text-slate-100">{s.value}</p>
+          </div>
+        ))}
+      </div>
+      <div className="h-[200px] w-full">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={chartData} syncId="quantSync">
+            <CartesianGrid strokeDasharray="3 3" vertical={false} stroke={gridColor} />
+            <XAxis dataKey="timestamp" hide />
+            <YAxis yAxisId="price" tick={{fontSize: 9, fill: axisColor}} axisLine={false} tickLine={false} domain={['auto', 'auto']} width={50} />
+            <YAxis yAxisId="ytm" orientation="right" tick={{fontSize: 9, fill: axisColor}} axisLine={false} tickLine={false} domain={['auto', 'auto']} width={40} tickFormatter={(v: number) => `${v.toFixed(2)}%`} />
+            <Tooltip contentStyle={{ borderRadius: '8px', border: `1px solid ${tooltipBorder}`, backgroundColor: tooltipBg, fontSize: '10px' }} formatter={(v: any, name: any) => (name === 'YTM' ? `${Number(v).toFixed(3)}%` : Number(v).toFixed(4))} />
+            <Legend verticalAlign="top" height={24} iconType="circle" wrapperStyle={{ fontSize: '9px' }} />
+            <Line yAxisId="price" type="monotone" dataKey="price" name="Price" stroke="#6366f1" strokeWidth={1.5} dot={false} isAnimationActive={false} />
+            <Line yAxisId="ytm" type="monotone" dataKey="ytm" name="YTM" stroke="#f59e0b" strokeWidth={1.5} dot={false} isAnimationActive={false} />
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+};
+
+export default BondPanel;
@@ -0,0 +1,97 @@
+import React, { useMemo } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend, ReferenceLine } from 'recharts';
+import { DataPoint, LegType, OptionLeg } from '../types';
+import { legLabel } from '../services/portfolio';
+
+interface BookPanelProps {
+  data: DataPoint[];
+  legs: OptionLeg[];
+  range: { start: number; end: number };
+  isDark: boolean;
+}
+
+const LEG_COLORS = ['#f59e0b', '#10b981', '#f43f5e', '#0ea5e9', '#8b5cf6', '#ec4899', '#64748b'];
+const PAYOFF_POINTS = 81;
+
+// Exercise value per unit at underlying level S; exotic legs are shown with their vanilla payoff
+const legPayoff = (leg: OptionLeg, S: number) => {
+  if (leg.type === LegType.UNDERLYING) return S;
+  return Math.max(0, leg.type === LegType.CALL ? S - leg.strike : leg.strike - S);
+};
+
+const BookPanel: React.FC<BookPanelProps> = ({ data, legs, range, isDark }) => {
+  const chartData = useMemo(() => data.slice(range.start, range.end + 1).map(d => {
+    const row: Record<string, number | string> = { timestamp: d.timestamp, total: d.value };
+    d.legs?.forEach(l => { row[l.id] = l.value; });
+    return row;
+  }), [data, range]);
+
+  // P&L at expiry against the book's cost at the first point, over ±50% of the spot range
+  const payoffData = useMemo(() => {
+    const entry = data[0]?.value ?? 0;
+    const spots = data.map(d => d.underlyingValue ?? 0);
+    const strikes = legs.filter(l => l.type !== LegType.UNDERLYING).map(l => l.strike);
+    const lo = 0.5 * Math.min(...spots, ...strikes), hi = 1.5 * Math.max(...spots, ...strikes);
+    return Array.from({ length: PAYOFF_POINTS }, (_, k) => {
+      const S = lo + (hi - lo) * k / (PAYOFF_POINTS - 1);
+      return { spot: +S.toFixed(2), pnl: legs.reduce((acc, leg) => acc + leg.quantity * legPayoff(leg, S), 0) - entry };
+    });
+  }, [data, legs]);
+
+  if (legs.length === 0 || !data[0]?.legs) return null;
+  const lastSpot = data[data.length - 1].underlyingValue;
+
+  const gridColor = isDark ? "#1e293b" : "#f1f5f9";
+  const axisColor = isDark ? "#475569" : "#94a3b8";
+  const tooltipBg = isDark ? "rgba(15, 23, 42, 0.95)" : "rgba(255, 255, 255, 0.95)";
+  const tooltipBorder = isDark ? "#334155" : "#e2e8f0";
+
+  return (
+    <div className="bg-white dark:bg-slate-900 p-6 rounded-xl border border-slate-200 dark:border-slate-800 shadow-sm transition-colors">
+      <div className="mb-4">
+        <h3 className="font-bold text-slate-800 dark:text-slate-100 uppercase tracking-wider text-xs">Strategy Book</h3>
+        <p className="text-[10px] text-slate-400 dark:text-slate-500 font-medium">
+          {legs.length} legs on the simulated underlying · value and Greeks are summed per step
+        </p>
+      </div>
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div>
+          <p className="text-[9px] font-bold text-slate-400 uppercase tracking-widest mb-2">Position Values</p>
+          <div className="h-[220px] w-full">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={chartData} syncId="quantSync">
+                <CartesianGrid strokeDasharray="3 3" vertical={false} stroke={gridColor} />
+                <XAxis dataKey="timestamp" hide />
+                <YAxis tick={{fontSize: 9, fill: axisColor}} axisLine={false} tickLine={false} domain={['auto', 'auto']} width={50} />
+                <Tooltip contentStyle={{ borderRadius: '8px', border: `1px solid ${tooltipBorder}`, backgroundColor: tooltipBg, fontSize: '10px' }} formatter={(v: any) => Number(v).toFixed(4)} />
+                <Legend verticalAlign="top" height={24} iconType="circle" wrapperStyle={{ fontSize: '9px' }} />
+                <Line type="monotone" dataKey="total" name="Book" stroke="#6366f1" strokeWidth={2} dot={false} isAnimationActive={false} />
+                {legs.map((leg, k) => (
+                  <Line key={leg.id} type="monotone" dataKey={leg.id} name={legLabel(leg)} stroke={LEG_COLORS[k % LEG_COLORS.length]} strokeWidth={1} strokeDasharray="4 2" dot={false} isAnimationActive={false} />
+                ))}
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+        <div>
+          <p className="text-[9px] font-bold text-slate-400 uppercase tracking-widest mb-2">P&L at Expiry vs Entry Cost</p>
+          <div className="h-[220px] w-full">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={payoffData}>
+                <CartesianGrid strokeDasharray="3 3" vertical={false} stroke={gridColor} />
+                <XAxis dataKey="spot" type="number" domain={['dataMin', 'dataMax']} tick={{fontSize: 9, fill: axisColor}} axisLine={false} tickLine={false} tickFormatter={(v: number) => v.toFixed(0)} />
+                <YAxis tick={{fontSize: 9, fill: axisColor}} axisLine={false} tickLine={false} domain={['auto', 'auto']} width={50} />
+                <Tooltip contentStyle={{ borderRadius: '8px', border: `1px solid ${tooltipBorder}`, backgroundColor: tooltipBg, fontSize: '10px' }} labelFormatter={(s: any) => `Spot ${s}`} formatter={(v: any) => Number(v).toFixed(4)} />
+                <ReferenceLine y={0} stroke={axisColor} />
+                {lastSpot !== undefined && <ReferenceLine x={lastSpot} stroke="#f59e0b" strokeDasharray="3 3" />}
+                <Line type="linear" dataKey="pnl" name="P&L" stroke="#6366f1" strokeWidth={2} dot={false} isAnimationActive={false} />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BookPanel;
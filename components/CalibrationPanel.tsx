@@ -0,0 +1,185 @@
+import React, { useState } from 'react';
+import { CalibrationResult, HistoricalSeries, ModelType, SynthesisParameters } from '../types';
+import { CALIBRATABLE_MODELS, calibrateModel, parseHistoricalCSV, pickPriceSeries } from '../services/calibration';
+
+interface CalibrationPanelProps {
+  params: SynthesisParameters;
+  onApply: (params: Partial<SynthesisParameters>) => void;
+}
+
+const MODEL_LABELS: Partial<Record<ModelType, string>> = {
+  [ModelType.EQUITY_GBM]: 'GBM',
+  [ModelType.EQUITY_MERTON_JUMP]: 'Merton Jump',
+  [ModelType.INTEREST_RATE_VASICEK]: 'Vasicek',
+  [ModelType.OU_PROCESS]: 'Ornstein-Uhlenbeck',
+  [ModelType.INTEREST_RATE_CIR]: 'CIR'
+};
+
+const OBSERVATION_FREQUENCIES = [
+  { label: 'Daily', dt: 1 / 252 },
+  { label: 'Weekly', dt: 1 / 52 },
+  { label: 'Monthly', dt: 1 / 12 }
+];
+
+const formatEstimate = (v: number) => (Math.abs(v) >= 1000 || (Math.abs(v) < 0.001 && v !== 0) ? v.toExponential(3) : v.toFixed(4));
+
+const CalibrationPanel: React.FC<CalibrationPanelProps> = ({ params, onApply }) => {
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [series, setSeries] = useState<HistoricalSeries[]>([]);
+  const [column, setColumn] = useState(0);
+  const [modelType, setModelType] = useState<ModelType>(CALIBRATABLE_MODELS.includes(params.modelType) ? params.modelType : ModelType.EQUITY_GBM);
+  const [dt, setDt] = useState(OBSERVATION_FREQUENCIES[0].dt);
+  const [result, setResult] = useState<CalibrationResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setResult(null);
+    setError(null);
+    try {
+      const parsed = parseHistoricalCSV(await file.text());
+      setSeries(parsed);
+      setColumn(pickPriceSeries(parsed));
+      setFileName(file.name);
+    } catch (err: any) {
+      setSeries([]);
+      setFileName(null);
+      setError(err?.message || 'Could not read CSV');
+    }
+  };
+
+  const runCalibration = () => {
+    const selected = series[column];
+    if (!selected) return;
+    setError(null);
+    try {
+      setResult(calibrateModel(selected.values, modelType, dt));
+    } catch (err: any) {
+      setResult(null);
+      setError(err?.message || 'Calibration failed');
+    }
+  };
+
+  const selectClass = "w-full p-2 text-[11px] bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 text-slate-900 dark:text-slate-100 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:outline-none";
+  const labelClass = "block text-[9px] font-bold text-slate-400 dark:text-slate-500 uppercase tracking-widest mb-1";
+
+  return (
+    <div className="p-6 border-t border-slate-100 dark:border-slate-800">
+      <div className="mb-4">
+        <h3 className="text-xs font-bold text-indigo-600 dark:text-indigo-400 uppercase tracking-widest mb-1">Historical Calibration</h3>
+        <p className="text-[10px] text-slate-500 dark:text-slate-400 leading-relaxed font-medium">
+          Fit model parameters to an uploaded price or rate history (CSV).
+        </p>
+      </div>
+
+      <label className="flex items-center justify-center gap-2 w-full py-2.5 mb-3 text-[10px] font-bold text-slate-600 dark:text-slate-300 bg-white dark:bg-slate-800 border border-dashed border-slate-300 dark:border-slate-600 hover:border-indigo-400 rounded-lg cursor-pointer transition-colors">
+        <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12" /></svg>
+        <span className="truncate">{fileName ?? 'Upload CSV'}</span>
+        <input type="file" accept=".csv,text/csv,.txt" className="hidden" onChange={handleFile} />
+      </label>
+
+      {series.length > 0 && (
+        <div className="space-y-3">
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <label className={labelClass}>Column</label>
+              <select className={selectClass} value={column} onChange={(e) => { setColumn(Number(e.target.value)); setResult(null); }}>
+                {series.map((s, i) => <option key={s.name + i} value={i}>{s.name} ({s.values.length})</option>)}
+              </select>
+            </div>
+            <div>
+              <label className={labelClass}>Frequency</label>
+              <select className={selectClass} value={dt} onChange={(e) => { setDt(Number(e.target.value)); setResult(null); }}>
+                {OBSERVATION_FREQUENCIES.map(f => <option key={f.label} value={f.dt}>{f.label}</option>)}
+              </select>
+            </div>
+          </div>
+          <div>
+            <label className={labelClass}>Model</label>
+            <select className={selectClass} value={modelType} onChange={(e) => { setModelType(e.target.value as ModelType); setResult(null); }}>
+              {CALIBRATABLE_MODELS.map(m => <option key={m} value={m}>{MODEL_LABELS[m]}</option>)}
+            </select>
+          </div>
+          <button
+            onClick={runCalibration}
+            className="w-full py-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg text-[10px] font-extrabold shadow-lg shadow-indigo-200 dark:shadow-none transition-all"
+          >
+            Calibrate
+          </button>
+        </div>
+      )}
+
+      {error && (
+        <div className="mt-3 p-3 bg-red-50 dark:bg-red-900/20 border border-red-100 dark:border-red-800 rounded-lg">
+          <p className="text-[10px] text-red-600 dark:text-red-400 font-bold leading-snug">{error}</p>
+        </div>
+      )}
+
+      {result && (
+        <div className="mt-3 bg-white dark:bg-slate-800 p-4 rounded-xl border border-indigo-100 dark:border-indigo-900 animate-in fade-in slide-in-from-top-2 duration-300">
+          <div className="flex items-start justify-between mb-3">
+            <div>
+              <h4 className="text-[10px] font-extrabold text-slate-900 dark:text-white uppercase tracking-tight">{MODEL_LABELS[result.modelType]} Fit</h4>
+              <p className="text-[9px] text-slate-500 dark:text-slate-400 italic">{result.method} · n = {result.numObservations}</p>
+            </div>
+            <div className="bg-indigo-50 dark:bg-indigo-900/50 px-2 py-0.5 rounded text-[8px] font-bold text-indigo-600 dark:text-indigo-400">FITTED</div>
+          </div>
+
+          <table className="w-full text-[10px] font-mono mb-3">
+            <thead>
+              <tr className="text-[8px] text-slate-400 uppercase">
+                <th className="text-left font-bold pb-1">Parameter</th>
+                <th className="text-right font-bold pb-1">Estimate</th>
+                <th className="text-right font-bold pb-1">Std. Err.</th>
+              </tr>
+            </thead>
+            <tbody className="text-slate-700 dark:text-slate-200">
+              {result.estimates.map(e => (
+                <tr key={e.key}>
+                  <td className="py-0.5 font-sans text-slate-500 dark:text-slate-400">{e.label}</td>
+                  <td className="py-0.5 text-right font-bold">{formatEstimate(e.value)}</td>
+                  <td className="py-0.5 text-right text-slate-400">{Number.isFinite(e.stdError) ? formatEstimate(e.stdError) : '—'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          <div className="grid grid-cols-3 gap-2 mb-3">
+            {[
+              { label: 'Log-Lik', value: result.logLikelihood.toFixed(1) },
+              { label: 'AIC', value: result.aic.toFixed(1) },
+              { label: 'BIC', value: result.bic.toFixed(1) }
+            ].map(s => (
+              <div key={s.label} className="bg-slate-50 dark:bg-slate-900/50 p-1.5 rounded text-center border border-slate-100 dark:border-slate-800">
+                <p className="text-[8px] text-slate-400 uppercase font-bold">{s.label}</p>
+                <p className="text-[10px] text-slate-900 dark:text-white font-mono font-bold">{s.value}</p>
+              </div>
+            ))}
+          </div>
+
+          <div className="space-y-0.5 mb-4">
+            {result.diagnostics.map(d => (
+              <div key={d.label} className="flex justify-between text-[9px]">
+                <span className="text-slate-500 dark:text-slate-400">{d.label}</span>
+                <span className="font-mono font-bold text-slate-700 dark:text-slate-200">{d.value}</span>
+              </div>
+            ))}
+          </div>
+
+          <button
+            onClick={() => onApply(result.params)}
+            className="w-full py-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg text-[10px] font-extrabold shadow-lg shadow-indigo-200 dark:shadow-none transition-all"
+          >
+            Apply Fitted Parameters
+          </button>
+          <p className="mt-2 text-[9px] text-slate-400 dark:text-slate-500 text-center">Starts the synthesis from the last observed value.</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CalibrationPanel;
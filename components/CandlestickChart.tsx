@@ -0,0 +1,99 @@
+import React, { useMemo } from 'react';
+import { ComposedChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { DataPoint } from '../types';
+
+interface CandlestickChartProps {
+  data: DataPoint[];
+  range: { start: number; end: number };
+  isDark: boolean;
+}
+
+// Candles stop being legible beyond this many bars, so only the latest are drawn
+const MAX_CANDLES = 240;
+const UP_COLOR = '#10b981';
+const DOWN_COLOR = '#f43f5e';
+
+/**
+ * Candle drawn inside the [low, high] range bar: the wick spans the bar's
+ * full height and the body is placed by interpolating open/close within it.
+ */
+const Candle = (props: any) => {
+  const { x, y, width, height, payload } = props;
+  if (!payload || height === undefined) return null;
+  const { open, high, low, close } = payload;
+  const span = high - low;
+  const toY = (price: number) => (span > 0 ? y + (high - price) / span * height : y);
+  const color = close >= open ? UP_COLOR : DOWN_COLOR;
+  const bodyTop = toY(Math.max(open, close));
+  const bodyHeight = Math.max(1, Math.abs(toY(open) - toY(close)));
+  const centre = x + width / 2;
+  return (
+    <g>
+      <line x1={centre} x2={centre} y1={y} y2={y + Math.max(height, 1)} stroke={color} strokeWidth={1} />
+      <rect x={x + width * 0.15} y={bodyTop} width={Math.max(1, width * 0.7)} height={bodyHeight} fill={color} />
+    </g>
+  );
+};
+
+const CandlestickChart: React.FC<CandlestickChartProps> = ({ data, range, isDark }) => {
+  const candles = useMemo(() => {
+    const visible = data.slice(range.start, range.end + 1).filter(d => d.bar);
+    return visible.slice(-MAX_CANDLES).map(d => ({
+      timestamp: d.timestamp,
+      ...d.bar!,
+      range: [d.bar!.low, d.bar!.high]
+    }));
+  }, [data, range]);
+
+  if (candles.length === 0) return null;
+  const truncated = data.slice(range.start, range.end + 1).length > candles.length;
+  const maxVolume = Math.max(...candles.map(c => c.volume), 1);
+
+  const gridColor = isDark ? "#1e293b" : "#f1f5f9";
+  const axisColor = isDark ? "#475569" : "#94a3b8";
+  const tooltipBg = isDark ? "rgba(15, 23, 42, 0.95)" : "rgba(255, 255, 255, 0.95)";
+  const tooltipBorder = isDark ? "#334155" : "#e2e8f0";
+
+  return (
+    <div className="bg-white dark:bg-slate-900 p-6 rounded-xl border border-slate-200 dark:border-slate-800 shadow-sm transition-colors">
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h3 className="font-bold text-slate-800 dark:text-slate-100 uppercase tracking-wider text-xs">OHLCV Bars</h3>
+          <p className="text-[10px] text-slate-400 dark:text-slate-500 font-medium">
+            Underlying bars from Brownian bridges between simulated points
+            {truncated && <> · latest {candles.length} of the selected range</>}
+          </p>
+        </div>
+      </div>
+      <div className="h-[260px] w-full">
+        <ResponsiveContainer width="100%" height="100%">
+          <ComposedChart data={candles} barCategoryGap={1}>
+            <CartesianGrid strokeDasharray="3 3" vertical={false} stroke={gridColor} />
+            <XAxis dataKey="timestamp" tick={{fontSize: 9, fill: axisColor}} axisLine={false} tickLine={false} minTickGap={40} />
+            <YAxis yAxisId="price" tick={{fontSize: 9, fill: axisColor}} axisLine={false} tickLine={false} domain={['auto', 'auto']} width={50} tickFormatter={(v: number) => v.toFixed(2)} />
+            {/* Volume sits in the bottom quarter of the panel */}
+            <YAxis yAxisId="volume" orientation="right" hide domain={[0, maxVolume * 4]} />
+            <Tooltip
+              content={({ active, payload }: any) => {
+                if (!active || !payload?.length) return null;
+                const c = payload[0].payload;
+                return (
+                  <div className="px-2 py-1.5 text-[10px] font-mono rounded-lg border" style={{ backgroundColor: tooltipBg, borderColor: tooltipBorder }}>
+                    <p className="font-bold text-slate-500">{c.timestamp}</p>
+                    <p className="text-slate-700 dark:text-slate-200">O {c.open.toFixed(4)} H {c.high.toFixed(4)}</p>
+                    <p className="text-slate-700 dark:text-slate-200">L {c.low.toFixed(4)} C {c.close.toFixed(4)}</p>
+                    <p className="text-slate-400">Vol {c.volume.toLocaleString()}</p>
+                  </div>
+                );
+              }}
+            />
+            <Bar yAxisId="volume" dataKey="volume" fill={axisColor} fillOpacity={0.35} isAnimationActive={false} />
+            <Bar yAxisId="price" dataKey="range" shape={Candle} isAnimationActive={false} />
+          </ComposedChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+};
+
+export default CandlestickChart;
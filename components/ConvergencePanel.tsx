@@ -0,0 +1,159 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine, Legend } from 'recharts';
+import { ConvergenceReport, DiscretizationScheme, SynthesisParameters } from '../types';
+import { runConvergenceInWorker, isAbortError } from '../services/synthesisClient';
+
+interface ConvergencePanelProps {
+  params: SynthesisParameters;
+  isDark: boolean;
+}
+
+const SCHEME_LABELS: Record<DiscretizationScheme, string> = {
+  [DiscretizationScheme.EULER]: 'Euler',
+  [DiscretizationScheme.MILSTEIN]: 'Milstein',
+  [DiscretizationScheme.EXACT]: 'Exact',
+  [DiscretizationScheme.LOG_EULER]: 'Log-Euler'
+};
+const SCHEME_COLORS = ['#6366f1', '#f59e0b', '#10b981', '#ec4899'];
+
+const schemeLabel = (scheme?: DiscretizationScheme) => (scheme ? SCHEME_LABELS[scheme] : 'Native');
+
+const formatStat = (v: number | undefined) => {
+  if (v === undefined) return '—';
+  return Math.abs(v) >= 1 ? v.toFixed(3) : v.toPrecision(3);
+};
+
+const ConvergencePanel: React.FC<ConvergencePanelProps> = ({ params, isDark }) => {
+  const [report, setReport] = useState<ConvergenceReport | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [progress, setProgress] = useState(0);
+  const runRef = useRef<AbortController | null>(null);
+
+  // Don't leave a worker running after the panel goes away
+  useEffect(() => () => runRef.current?.abort(), []);
+
+  const runCheck = async () => {
+    runRef.current?.abort();
+    const controller = new AbortController();
+    runRef.current = controller;
+    setIsRunning(true);
+    setProgress(0);
+
+    try {
+      setReport(await runConvergenceInWorker(params, undefined, {
+        signal: controller.signal,
+        onProgress: (completed, total) => setProgress(completed / total)
+      }));
+      setError(null);
+    } catch (err: any) {
+      if (!isAbortError(err)) setError(err?.message || 'Convergence check failed');
+    } finally {
+      if (runRef.current === controller) {
+        runRef.current = null;
+        setIsRunning(false);
+      }
+    }
+  };
+
+  const cancelCheck = () => runRef.current?.abort();
+
+  const schemes = report ? Array.from(new Set<DiscretizationScheme | undefined>(report.rows.map(r => r.scheme))) : [];
+  // One chart row per step count, one line per scheme
+  const chartData = report
+    ? Array.from(new Set<number>(report.rows.map(r => r.steps))).map(steps => {
+        const point: Record<string, number> = { steps };
+        report.rows.filter(r => r.steps === steps).forEach(r => { point[schemeLabel(r.scheme)] = r.std; });
+        return point;
+      })
+    : [];
+  const showNegatives = report?.rows.some(r => r.negativeShare > 0);
+
+  const gridColor = isDark ? "#1e293b" : "#f1f5f9";
+  const axisColor = isDark ? "#475569" : "#94a3b8";
+  const tooltipBg = isDark ? "rgba(15, 23, 42, 0.95)" : "rgba(255, 255, 255, 0.95)";
+  const tooltipBorder = isDark ? "#334155" : "#e2e8f0";
+
+  return (
+    <div className="bg-white dark:bg-slate-900 p-6 rounded-xl border border-slate-200 dark:border-slate-800 shadow-sm transition-colors">
+      <div className="flex flex-col md:flex-row md:items-center justify-between mb-4 gap-3">
+        <div>
+          <h3 className="font-bold text-slate-800 dark:text-slate-100 uppercase tracking-wider text-xs">Discretization Convergence</h3>
+          <p className="text-[10px] text-slate-400 dark:text-slate-500 font-medium">
+            Terminal moments over a fixed {(params.timeHorizon * params.dt).toFixed(2)}y horizon at dt×8, ×4, ×2, ×1
+            {report && <> · {report.numPaths} paths per run</>}
+          </p>
+        </div>
+        <button
+          onClick={isRunning ? cancelCheck : runCheck}
+          className="px-2.5 py-1 text-[9px] font-bold text-slate-600 dark:text-slate-300 bg-slate-100 dark:bg-slate-800 hover:bg-slate-200 dark:hover:bg-slate-700 rounded-md transition-colors uppercase"
+        >
+          {isRunning ? `Cancel (${Math.round(progress * 100)}%)` : report ? 'Re-run Check' : 'Run Check'}
+        </button>
+      </div>
+
+      {error && <p className="mb-3 text-[10px] font-bold text-rose-500">{error}</p>}
+
+      {report && (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <div className="overflow-x-auto">
+            <table className="w-full text-[10px]">
+              <thead>
+                <tr className="text-[8px] text-slate-400 uppercase">
+                  <th className="text-left font-bold pb-1.5">Scheme</th>
+                  <th className="text-right font-bold pb-1.5">Steps</th>
+                  <th className="text-right font-bold pb-1.5">Mean</th>
+                  <th className="text-right font-bold pb-1.5" title="Monte Carlo mean minus the continuous-time mean">Bias</th>
+                  <th className="text-right font-bold pb-1.5" title="Standard error of the Monte Carlo mean">± SE</th>
+                  <th className="text-right font-bold pb-1.5">Std</th>
+                  <th className="text-right font-bold pb-1.5" title="Monte Carlo std minus the continuous-time std">Std Bias</th>
+                  {showNegatives && <th className="text-right font-bold pb-1.5">P(x&lt;0)</th>}
+                </tr>
+              </thead>
+              <tbody className="font-mono text-slate-700 dark:text-slate-200">
+                {report.rows.map(r => (
+                  <tr key={`${r.scheme}-${r.steps}`} className="border-t border-slate-100 dark:border-slate-800">
+                    <td className="py-1 font-sans text-slate-500 dark:text-slate-400">{schemeLabel(r.scheme)}</td>
+                    <td className="py-1 text-right">{r.steps}</td>
+                    <td className="py-1 text-right font-bold">{formatStat(r.mean)}</td>
+                    <td className={`py-1 text-right ${r.meanBias !== undefined && Math.abs(r.meanBias) > 2 * r.standardError ? 'text-amber-500 font-bold' : ''}`}>{formatStat(r.meanBias)}</td>
+                    <td className="py-1 text-right text-slate-400">{formatStat(r.standardError)}</td>
+                    <td className="py-1 text-right">{formatStat(r.std)}</td>
+                    <td className="py-1 text-right">{formatStat(r.stdBias)}</td>
+                    {showNegatives && <td className={`py-1 text-right ${r.negativeShare > 0 ? 'text-rose-500 font-bold' : ''}`}>{(r.negativeShare * 100).toFixed(1)}%</td>}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <p className="mt-2 text-[9px] text-slate-400 dark:text-slate-500">
+              {report.analyticMean !== undefined
+                ? <>Continuous-time mean {formatStat(report.analyticMean)}{report.analyticStd !== undefined && <>, std {formatStat(report.analyticStd)}</>}. Biases beyond 2 SE are highlighted.</>
+                : 'No closed-form moments for this model; compare rows against the finest step.'}
+            </p>
+          </div>
+
+          <div>
+            <p className="text-[9px] font-bold text-slate-400 uppercase tracking-widest mb-2">Terminal Std vs Steps</p>
+            <div className="h-[220px] w-full">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={chartData}>
+                  <CartesianGrid strokeDasharray="3 3" vertical={false} stroke={gridColor} />
+                  <XAxis dataKey="steps" tick={{fontSize: 9, fill: axisColor}} axisLine={false} tickLine={false} />
+                  <YAxis tick={{fontSize: 9, fill: axisColor}} axisLine={false} tickLine={false} domain={['auto', 'auto']} width={50} tickFormatter={(v: number) => formatStat(v)} />
+                  <Tooltip contentStyle={{ borderRadius: '8px', border: `1px solid ${tooltipBorder}`, backgroundColor: tooltipBg, fontSize: '10px' }} formatter={(v: any) => formatStat(Number(v))} />
+                  <Legend verticalAlign="top" height={24} iconType="circle" wrapperStyle={{ fontSize: '9px' }} />
+                  {report.analyticStd !== undefined && <ReferenceLine y={report.analyticStd} stroke={axisColor} strokeDasharray="4 4" />}
+                  {schemes.map((scheme, k) => (
+                    <Line key={schemeLabel(scheme)} type="monotone" dataKey={schemeLabel(scheme)} stroke={SCHEME_COLORS[k % SCHEME_COLORS.length]} strokeWidth={2} dot={{ r: 3 }} isAnimationActive={false} />
+                  ))}
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ConvergencePanel;
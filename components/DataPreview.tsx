@@ -1,32 +1,77 @@
 
 import React from 'react';
-import { DataPoint } from '../types';
-import { convertToCSV, downloadFile } from '../services/synthesisEngine';
+import { SynthesisResult } from '../types';
+import { convertToCSV, convertEnsembleToCSV, convertBarsToCSV, convertTicksToCSV, convertSurfaceToCSV, downloadFile } from '../services/synthesisEngine';
+import { EVENT_LABELS } from '../services/eventSchedule';
 
 interface DataPreviewProps {
-  data: DataPoint[];
+  result: SynthesisResult;
   title: string;
 }
 
-const DataPreview: React.FC<DataPreviewProps> = ({ data, title }) => {
+const DataPreview: React.FC<DataPreviewProps> = ({ result, title }) => {
+  const { data, seed, parameters } = result;
+
   const exportCSV = () => {
-    const csv = convertToCSV(data);
+    const csv = convertToCSV(data, { seed, parameters });
     downloadFile(csv, `quantsynth_${Date.now()}.csv`, 'text/csv');
   };
 
   const exportJSON = () => {
-    const json = JSON.stringify(data, null, 2);
+    const json = JSON.stringify({ seed, parameters, data, ticks: result.ticks }, null, 2);
     downloadFile(json, `quantsynth_${Date.now()}.json`, 'application/json');
   };
 
+  const exportEnsemble = (mode: 'paths' | 'bands') => {
+    if (!result.ensemble) return;
+    const csv = convertEnsembleToCSV(result.ensemble, mode, { seed, parameters });
+    downloadFile(csv, `quantsynth_${mode}_${Date.now()}.csv`, 'text/csv');
+  };
+
+  const exportBars = () => {
+    const csv = convertBarsToCSV(data, { seed, parameters });
+    downloadFile(csv, `quantsynth_bars_${Date.now()}.csv`, 'text/csv');
+  };
+
+  const exportTicks = () => {
+    if (!result.ticks) return;
+    const csv = convertTicksToCSV(result.ticks, { seed, parameters });
+    downloadFile(csv, `quantsynth_ticks_${Date.now()}.csv`, 'text/csv');
+  };
+
+  const exportSurface = () => {
+    const csv = convertSurfaceToCSV(data, { seed, parameters });
+    downloadFile(csv, `quantsynth_surface_${Date.now()}.csv`, 'text/csv');
+  };
+
+  const hasBars = data.length > 0 && !!data[0].bar;
+  const hasSurface = data.length > 0 && !!data[0].volSurface;
   const hasGreeks = data.length > 0 && !!data[0].greeks;
   const hasPE = data.length > 0 && data[0].peRatio !== undefined;
+  const hasVariance = data.length > 0 && data[0].variance !== undefined;
+  const hasCondVol = data.length > 0 && data[0].conditionalVol !== undefined;
+  const hasRegime = data.length > 0 && data[0].regime !== undefined;
+  const hasEvents = data.some(d => d.events);
+  const jointAssets = (parameters.assets || []).filter(a => data[0]?.assetValues?.[a.id] !== undefined);
+  const columnCount = 3 + (hasPE ? 2 : 0) + (hasVariance ? 1 : 0) + (hasCondVol ? 1 : 0) + (hasRegime ? 1 : 0) + (hasEvents ? 1 : 0) + (hasGreeks ? 5 : 0) + jointAssets.length;
 
   return (
     <div className="bg-white dark:bg-slate-900 rounded-xl border border-slate-200 dark:border-slate-800 shadow-sm overflow-hidden mt-6 transition-colors">
       <div className="px-6 py-4 border-b border-slate-100 dark:border-slate-800 flex items-center justify-between bg-slate-50/50 dark:bg-slate-800/50">
-        <h3 className="font-bold text-slate-800 dark:text-slate-200 uppercase tracking-wider text-xs">{title}</h3>
+        <div className="flex items-center gap-3">
+          <h3 className="font-bold text-slate-800 dark:text-slate-200 uppercase tracking-wider text-xs">{title}</h3>
+          <span className="text-[9px] font-mono font-bold text-slate-400 dark:text-slate-500 bg-slate-100 dark:bg-slate-800 px-1.5 py-0.5 rounded">SEED {seed}</span>
+        </div>
         <div className="flex gap-2">
+          {result.ensemble && (
+            <>
+              <button onClick={() => exportEnsemble('paths')} className="px-3 py-1.5 text-xs font-semibold text-slate-600 dark:text-slate-300 bg-slate-100 dark:bg-slate-800 hover:bg-slate-200 dark:hover:bg-slate-700 rounded-md transition-colors">Export Paths</button>
+              <button onClick={() => exportEnsemble('bands')} className="px-3 py-1.5 text-xs font-semibold text-slate-600 dark:text-slate-300 bg-slate-100 dark:bg-slate-800 hover:bg-slate-200 dark:hover:bg-slate-700 rounded-md transition-colors">Export Bands</button>
+            </>
+          )}
+          {hasBars && <button onClick={exportBars} className="px-3 py-1.5 text-xs font-semibold text-slate-600 dark:text-slate-300 bg-slate-100 dark:bg-slate-800 hover:bg-slate-200 dark:hover:bg-slate-700 rounded-md transition-colors">Export Bars</button>}
+          {result.ticks && <button onClick={exportTicks} className="px-3 py-1.5 text-xs font-semibold text-slate-600 dark:text-slate-300 bg-slate-100 dark:bg-slate-800 hover:bg-slate-200 dark:hover:bg-slate-700 rounded-md transition-colors">Export Ticks</button>}
+          {hasSurface && <button onClick={exportSurface} className="px-3 py-1.5 text-xs font-semibold text-slate-600 dark:text-slate-300 bg-slate-100 dark:bg-slate-800 hover:bg-slate-200 dark:hover:bg-slate-700 rounded-md transition-colors">Export Surface</button>}
           <button onClick={exportCSV} className="px-3 py-1.5 text-xs font-semibold text-indigo-600 dark:text-indigo-400 bg-indigo-50 dark:bg-indigo-900/30 hover:bg-indigo-100 dark:hover:bg-indigo-900/50 rounded-md transition-colors">Export CSV</button>
           <button onClick={exportJSON} className="px-3 py-1.5 text-xs font-semibold text-slate-600 dark:text-slate-300 bg-slate-100 dark:bg-slate-800 hover:bg-slate-200 dark:hover:bg-slate-700 rounded-md transition-colors">Export JSON</button>
         </div>
@@ -44,6 +89,21 @@ const DataPreview: React.FC<DataPreviewProps> = ({ data, title }) => {
                   <th className="px-6 py-3 border-b border-slate-100 dark:border-slate-700 whitespace-nowrap">Earnings</th>
                 </>
               )}
+              {hasVariance && (
+                <th className="px-6 py-3 border-b border-slate-100 dark:border-slate-700 whitespace-nowrap">Variance</th>
+              )}
+              {hasCondVol && (
+                <th className="px-6 py-3 border-b border-slate-100 dark:border-slate-700 whitespace-nowrap">Cond. Vol</th>
+              )}
+              {hasRegime && (
+                <th className="px-6 py-3 border-b border-slate-100 dark:border-slate-700 whitespace-nowrap">Regime</th>
+              )}
+              {hasEvents && (
+                <th className="px-6 py-3 border-b border-slate-100 dark:border-slate-700 whitespace-nowrap">Events</th>
+              )}
+              {jointAssets.map(a => (
+                <th key={a.id} className="px-6 py-3 border-b border-slate-100 dark:border-slate-700 whitespace-nowrap">{a.label}</th>
+              ))}
               {hasGreeks && (
                 <>
                   <th className="px-6 py-3 border-b border-slate-100 dark:border-slate-700">Delta</th>
@@ -67,6 +127,21 @@ const DataPreview: React.FC<DataPreviewProps> = ({ data, title }) => {
                     <td className="px-6 py-3">{row.expectedEarnings?.toFixed(2) || '-'}</td>
                   </>
                 )}
+                {hasVariance && (
+                  <td className="px-6 py-3">{row.variance?.toFixed(6) ?? '-'}</td>
+                )}
+                {hasCondVol && (
+                  <td className="px-6 py-3">{row.conditionalVol !== undefined ? `${(row.conditionalVol * 100).toFixed(2)}%` : '-'}</td>
+                )}
+                {hasRegime && (
+                  <td className="px-6 py-3 whitespace-nowrap">{parameters.regimes?.[row.regime!]?.label || row.regime}</td>
+                )}
+                {hasEvents && (
+                  <td className="px-6 py-3 whitespace-nowrap">{row.events?.map(e => EVENT_LABELS[e]).join(', ') || '-'}</td>
+                )}
+                {jointAssets.map(a => (
+                  <td key={a.id} className="px-6 py-3">{row.assetValues?.[a.id]?.toFixed(4) ?? '-'}</td>
+                ))}
                 {hasGreeks && (
                   <>
                     <td className="px-6 py-3">{row.greeks?.delta?.toFixed(4) || '0.0000'}</td>
@@ -80,7 +155,7 @@ const DataPreview: React.FC<DataPreviewProps> = ({ data, title }) => {
             ))}
             {data.length > 100 && (
               <tr>
-                <td colSpan={hasGreeks ? (hasPE ? 10 : 8) : (hasPE ? 5 : 3)} className="px-6 py-3 text-center text-slate-400 dark:text-slate-500 italic bg-slate-50/20 dark:bg-slate-800/20">
+                <td colSpan={columnCount} className="px-6 py-3 text-center text-slate-400 dark:text-slate-500 italic bg-slate-50/20 dark:bg-slate-800/20">
                   Showing first 100 rows of {data.length} total points
                 </td>
               </tr>
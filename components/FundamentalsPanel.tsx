@@ -0,0 +1,107 @@
+import React, { useMemo } from 'react';
+import { ComposedChart, BarChart, Bar, Cell, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend, ReferenceLine } from 'recharts';
+import { DataPoint } from '../types';
+
+interface FundamentalsPanelProps {
+  data: DataPoint[];
+  isDark: boolean;
+}
+
+const FundamentalsPanel: React.FC<FundamentalsPanelProps> = ({ data, isDark }) => {
+  const chartData = useMemo(() => data.filter(d => d.fundamentals).map(d => ({
+    timestamp: d.timestamp,
+    reported: d.expectedEarnings,
+    latent: d.fundamentals!.earningsPower,
+    dividend: d.fundamentals!.dividend,
+    bookValue: d.fundamentals!.bookValue,
+    revenue: d.fundamentals!.revenue
+  })), [data]);
+
+  const reports = useMemo(() => data.filter(d => d.fundamentals?.surprise !== undefined).map(d => ({
+    timestamp: d.timestamp,
+    surprise: d.fundamentals!.surprise! * 100
+  })), [data]);
+
+  const latest = data[data.length - 1];
+  if (!latest?.fundamentals) return null;
+  const { dividend, bookValue, revenue } = latest.fundamentals;
+  const meanAbsSurprise = reports.length > 0 ? reports.reduce((acc, r) => acc + Math.abs(r.surprise), 0) / reports.length : 0;
+  const beatRate = reports.length > 0 ? reports.filter(r => r.surprise > 0).length / reports.length : 0;
+
+  const gridColor = isDark ? "#1e293b" : "#f1f5f9";
+  const axisColor = isDark ? "#475569" : "#94a3b8";
+  const tooltipBg = isDark ? "rgba(15, 23, 42, 0.95)" : "rgba(255, 255, 255, 0.95)";
+  const tooltipBorder = isDark ? "#334155" : "#e2e8f0";
+
+  const stats = [
+    { label: 'Reported EPS', value: (latest.expectedEarnings ?? 0).toFixed(3) },
+    { label: 'P/E', value: (latest.peRatio ?? 0).toFixed(2) },
+    { label: 'Reports', value: reports.length.toString() },
+    { label: 'Mean |Surprise|', value: `${meanAbsSurprise.toFixed(2)}%` },
+    { label: 'Beat Rate', value: `${(beatRate * 100).toFixed(0)}%` },
+    ...(dividend !== undefined ? [{ label: 'Dividend Yield', value: `${(dividend / latest.value * 100).toFixed(2)}%` }] : []),
+    ...(bookValue !== undefined ? [{ label: 'P/B', value: (latest.value / bookValue).toFixed(2) }] : []),
+    ...(revenue !== undefined ? [{ label: 'P/S', value: (latest.value / revenue).toFixed(2) }] : [])
+  ];
+
+  return (
+    <div className="bg-white dark:bg-slate-900 p-6 rounded-xl border border-slate-200 dark:border-slate-800 shadow-sm transition-colors">
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h3 className="font-bold text-slate-800 dark:text-slate-100 uppercase tracking-wider text-xs">Stochastic Fundamentals</h3>
+          <p className="text-[10px] text-slate-400 dark:text-slate-500 font-medium">
+            Per-share run rates · reported EPS steps on quarterly reports off the latent earnings process
+          </p>
+        </div>
+      </div>
+      <div className="grid grid-cols-3 md:grid-cols-8 gap-3 mb-4">
+        {stats.map(s => (
+          <div key={s.label} className="p-2 rounded-lg bg-slate-50 dark:bg-slate-800/50">
+            <p className="text-[8px] font-bold text-slate-400 uppercase tracking-widest">{s.label}</p>
+            <p className="text-xs font-mono font-bold text-slate-800 dark:text-slate-100">{s.value}</p>
+          </div>
+        ))}
+      </div>
+      <div className="h-[200px] w-full">
+        <ResponsiveContainer width="100%" height="100%">
+          <ComposedChart data={chartData} syncId="quantSync">
+            <CartesianGrid strokeDasharray="3 3" vertical={false} stroke={gridColor} />
+            <XAxis dataKey="timestamp" hide />
+            <YAxis yAxisId="eps" tick={{fontSize: 9, fill: axisColor}} axisLine={false} tickLine={false} domain={['auto', 'auto']} width={50} />
+            {(bookValue !== undefined || revenue !== undefined) && (
+              <YAxis yAxisId="scale" orientation="right" tick={{fontSize: 9, fill: axisColor}} axisLine={false} tickLine={false} domain={['auto', 'auto']} width={50} />
+            )}
+            <Tooltip contentStyle={{ borderRadius: '8px', border: `1px solid ${tooltipBorder}`, backgroundColor: tooltipBg, fontSize: '10px' }} formatter={(v: any) => Number(v).toFixed(4)} />
+            <Legend verticalAlign="top" height={24} iconType="circle" wrapperStyle={{ fontSize: '9px' }} />
+            <Line yAxisId="eps" type="monotone" dataKey="latent" name="Latent EPS" stroke={axisColor} strokeWidth={1} strokeDasharray="3 3" dot={false} isAnimationActive={false} />
+            <Line yAxisId="eps" type="stepAfter" dataKey="reported" name="Reported EPS" stroke="#6366f1" strokeWidth={2} dot={false} isAnimationActive={false} />
+            {dividend !== undefined && <Line yAxisId="eps" type="stepAfter" dataKey="dividend" name="Dividend" stroke="#10b981" strokeWidth={1.5} dot={false} isAnimationActive={false} />}
+            {bookValue !== undefined && <Line yAxisId="scale" type="monotone" dataKey="bookValue" name="Book Value" stroke="#f59e0b" strokeWidth={1.5} dot={false} isAnimationActive={false} />}
+            {revenue !== undefined && <Line yAxisId="scale" type="stepAfter" dataKey="revenue" name="Revenue" stroke="#0ea5e9" strokeWidth={1.5} dot={false} isAnimationActive={false} />}
+          </ComposedChart>
+        </ResponsiveContainer>
+      </div>
+      {reports.length > 0 && (
+        <div className="mt-4">
+          <p className="mb-1 text-[9px] font-bold text-slate-400 uppercase tracking-widest">Earnings Surprise (%)</p>
+          <div className="h-[120px] w-full">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={reports}>
+                <CartesianGrid strokeDasharray="3 3" vertical={false} stroke={gridColor} />
+                <XAxis dataKey="timestamp" hide />
+                <YAxis tick={{fontSize: 9, fill: axisColor}} axisLine={false} tickLine={false} width={50} />
+                <Tooltip contentStyle={{ borderRadius: '8px', border: `1px solid ${tooltipBorder}`, backgroundColor: tooltipBg, fontSize: '10px' }} formatter={(v: any) => `${Number(v).toFixed(2)}%`} />
+                <ReferenceLine y={0} stroke={axisColor} />
+                <Bar dataKey="surprise" name="Surprise" isAnimationActive={false}>
+                  {reports.map(r => <Cell key={r.timestamp} fill={r.surprise >= 0 ? '#10b981' : '#f43f5e'} />)}
+                </Bar>
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FundamentalsPanel;
@@ -0,0 +1,232 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { LineChart, Line, BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine, Legend } from 'recharts';
+import { DataPoint, HedgeErrorReport, HedgeSettings, SynthesisParameters } from '../types';
+import { DEFAULT_HEDGE_SETTINGS, simulateDeltaHedge } from '../services/hedging';
+import { convertHedgeToCSV, downloadFile } from '../services/synthesisEngine';
+import { runHedgeInWorker, isAbortError } from '../services/synthesisClient';
+
+interface HedgingPanelProps {
+  data: DataPoint[];
+  params: SynthesisParameters;
+  seed: number;
+  isDark: boolean;
+}
+
+const ATTRIBUTION = [
+  { key: 'delta', label: 'Delta', color: '#6366f1' },
+  { key: 'gamma', label: 'Gamma', color: '#f43f5e' },
+  { key: 'theta', label: 'Theta', color: '#10b981' },
+  { key: 'vega', label: 'Vega', color: '#8b5cf6' },
+  { key: 'costs', label: 'Costs', color: '#f59e0b' },
+  { key: 'residual', label: 'Residual', color: '#64748b' }
+] as const;
+const HISTOGRAM_BINS = 30;
+
+const formatPnl = (v: number) => (Math.abs(v) >= 1 ? v.toFixed(3) : v.toPrecision(3));
+
+const HedgingPanel: React.FC<HedgingPanelProps> = ({ data, params, seed, isDark }) => {
+  const [settings, setSettings] = useState<HedgeSettings>(DEFAULT_HEDGE_SETTINGS);
+  const [report, setReport] = useState<HedgeErrorReport | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [progress, setProgress] = useState(0);
+  const runRef = useRef<AbortController | null>(null);
+
+  // Don't leave a worker running after the panel goes away
+  useEffect(() => () => runRef.current?.abort(), []);
+
+  const ledger = useMemo(() => simulateDeltaHedge(data, params, settings), [data, params, settings]);
+
+  // Running sums of each attribution term alongside the hedged book
+  const cumulative = useMemo(() => {
+    const totals: Record<string, number> = {};
+    return ledger.map(s => {
+      const row: Record<string, number | string> = { timestamp: s.timestamp, book: s.book };
+      ATTRIBUTION.forEach(({ key }) => {
+        totals[key] = (totals[key] ?? 0) + s[key];
+        row[key] = totals[key];
+      });
+      return row;
+    });
+  }, [ledger]);
+
+  const histogram = useMemo(() => {
+    if (!report || report.errors.length === 0) return [];
+    const lo = Math.min(...report.errors), hi = Math.max(...report.errors);
+    const width = (hi - lo) / HISTOGRAM_BINS || 1;
+    const counts = new Array<number>(HISTOGRAM_BINS).fill(0);
+    report.errors.forEach(e => { counts[Math.min(HISTOGRAM_BINS - 1, Math.floor((e - lo) / width))]++; });
+    return counts.map((count, k) => ({ bin: +(lo + (k + 0.5) * width).toPrecision(3), count }));
+  }, [report]);
+
+  const cancelDistribution = () => runRef.current?.abort();
+
+  const updateSetting = (patch: Partial<HedgeSettings>) => {
+    // A distribution still running was for the old settings
+    cancelDistribution();
+    setSettings(prev => ({ ...prev, ...patch }));
+    setReport(null);
+  };
+
+  const runDistribution = async () => {
+    runRef.current?.abort();
+    const controller = new AbortController();
+    runRef.current = controller;
+    setIsRunning(true);
+    setProgress(0);
+
+    try {
+      setReport(await runHedgeInWorker({ ...params, seed }, settings, undefined, {
+        signal: controller.signal,
+        onProgress: (completed, total) => setProgress(completed / total)
+      }));
+      setError(null);
+    } catch (err: any) {
+      if (!isAbortError(err)) setError(err?.message || 'Hedge simulation failed');
+    } finally {
+      if (runRef.current === controller) {
+        runRef.current = null;
+        setIsRunning(false);
+      }
+    }
+  };
+
+  const exportLedger = () => {
+    downloadFile(convertHedgeToCSV(ledger, { seed, parameters: params }), `quantsynth_hedge_${Date.now()}.csv`, 'text/csv');
+  };
+
+  if (ledger.length < 2) return null;
+  const last = cumulative[cumulative.length - 1];
+  const trades = ledger.filter(s => s.rebalanced).length;
+
+  const gridColor = isDark ? "#1e293b" : "#f1f5f9";
+  const axisColor = isDark ? "#475569" : "#94a3b8";
+  const tooltipBg = isDark ? "rgba(15, 23, 42, 0.95)" : "rgba(255, 255, 255, 0.95)";
+  const tooltipBorder = isDark ? "#334155" : "#e2e8f0";
+  const inputClass = "w-full px-2 py-1 text-[10px] font-mono bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-md text-slate-700 dark:text-slate-200 focus:outline-none focus:ring-1 focus:ring-indigo-500";
+
+  return (
+    <div className="bg-white dark:bg-slate-900 p-6 rounded-xl border border-slate-200 dark:border-slate-800 shadow-sm transition-colors">
+      <div className="flex flex-col md:flex-row md:items-center justify-between mb-4 gap-3">
+        <div>
+          <h3 className="font-bold text-slate-800 dark:text-slate-100 uppercase tracking-wider text-xs">Delta Hedging</h3>
+          <p className="text-[10px] text-slate-400 dark:text-slate-500 font-medium">
+            Short the option, hold delta shares and finance at the risk-free rate · {trades} rebalances over {ledger.length - 1} steps to expiry
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={exportLedger}
+            className="px-2.5 py-1 text-[9px] font-bold text-slate-600 dark:text-slate-300 bg-slate-100 dark:bg-slate-800 hover:bg-slate-200 dark:hover:bg-slate-700 rounded-md transition-colors uppercase"
+          >
+            Export Ledger
+          </button>
+          <button
+            onClick={isRunning ? cancelDistribution : runDistribution}
+            className="px-2.5 py-1 text-[9px] font-bold text-slate-600 dark:text-slate-300 bg-slate-100 dark:bg-slate-800 hover:bg-slate-200 dark:hover:bg-slate-700 rounded-md transition-colors uppercase"
+          >
+            {isRunning ? `Cancel (${Math.round(progress * 100)}%)` : report ? 'Re-run Distribution' : 'Run Distribution'}
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-3 gap-3 mb-4 max-w-md">
+        <div>
+          <p className="text-[8px] font-bold text-slate-400 uppercase tracking-widest mb-1">Rebalance Every (Steps)</p>
+          <input type="number" min="1" step="1" className={inputClass} value={settings.rebalanceEvery} onChange={(e) => updateSetting({ rebalanceEvery: Math.max(1, Math.round(parseFloat(e.target.value) || 1)) })} />
+        </div>
+        <div>
+          <p className="text-[8px] font-bold text-slate-400 uppercase tracking-widest mb-1">Cost (bps of Notional)</p>
+          <input type="number" min="0" step="1" className={inputClass} value={settings.costBps} onChange={(e) => updateSetting({ costBps: Math.max(0, parseFloat(e.target.value) || 0) })} />
+        </div>
+        <div>
+          <p className="text-[8px] font-bold text-slate-400 uppercase tracking-widest mb-1">Fixed Cost per Trade</p>
+          <input type="number" min="0" step="0.01" className={inputClass} value={settings.fixedCost} onChange={(e) => updateSetting({ fixedCost: Math.max(0, parseFloat(e.target.value) || 0) })} />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-7 gap-3 mb-4">
+        <div className="p-2 rounded-lg bg-indigo-50 dark:bg-indigo-900/20">
+          <p className="text-[8px] font-bold text-slate-400 uppercase tracking-widest">Hedged P&L</p>
+          <p className="text-xs font-mono font-bold text-indigo-600 dark:text-indigo-400">{formatPnl(last.book as number)}</p>
+        </div>
+        {ATTRIBUTION.map(a => (
+          <div key={a.key} className="p-2 rounded-lg bg-slate-50 dark:bg-slate-800/50">
+            <p className="text-[8px] font-bold uppercase tracking-widest" style={{ color: a.color }}>{a.label}</p>
+            <p className="text-xs font-mono font-bold text-slate-800 dark:text-slate-100">{formatPnl(last[a.key] as number)}</p>
+          </div>
+        ))}
+      </div>
+
+      <p className="text-[9px] font-bold text-slate-400 uppercase tracking-widest mb-2">Cumulative P&L Attribution</p>
+      <div className="h-[220px] w-full">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={cumulative} syncId="quantSync">
+            <CartesianGrid strokeDasharray="3 3" vertical={false} stroke={gridColor} />
+            <XAxis dataKey="timestamp" hide />
+            <YAxis tick={{fontSize: 9, fill: axisColor}} axisLine={false} tickLine={false} domain={['auto', 'auto']} width={50} tickFormatter={(v: number) => formatPnl(v)} />
+            <Tooltip contentStyle={{ borderRadius: '8px', border: `1px solid ${tooltipBorder}`, backgroundColor: tooltipBg, fontSize: '10px' }} formatter={(v: any) => Number(v).toFixed(4)} />
+            <Legend verticalAlign="top" height={24} iconType="circle" wrapperStyle={{ fontSize: '9px' }} />
+            <ReferenceLine y={0} stroke={axisColor} />
+            <Line type="monotone" dataKey="book" name="Hedged P&L" stroke={isDark ? "#e2e8f0" : "#0f172a"} strokeWidth={2} dot={false} isAnimationActive={false} />
+            {ATTRIBUTION.map(a => (
+              <Line key={a.key} type="monotone" dataKey={a.key} name={a.label} stroke={a.color} strokeWidth={1.2} dot={false} isAnimationActive={false} />
+            ))}
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+
+      {error && <p className="mt-3 text-[10px] font-bold text-rose-500">{error}</p>}
+
+      {report && (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mt-6">
+          <div>
+            <p className="text-[9px] font-bold text-slate-400 uppercase tracking-widest mb-2">Terminal Hedging Error · {report.numPaths} Paths</p>
+            <div className="h-[200px] w-full">
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={histogram}>
+                  <CartesianGrid strokeDasharray="3 3" vertical={false} stroke={gridColor} />
+                  <XAxis dataKey="bin" tick={{fontSize: 9, fill: axisColor}} axisLine={false} tickLine={false} />
+                  <YAxis tick={{fontSize: 9, fill: axisColor}} axisLine={false} tickLine={false} width={30} allowDecimals={false} />
+                  <Tooltip contentStyle={{ borderRadius: '8px', border: `1px solid ${tooltipBorder}`, backgroundColor: tooltipBg, fontSize: '10px' }} labelFormatter={(b: any) => `P&L ≈ ${b}`} />
+                  <Bar dataKey="count" name="Paths" fill="#6366f1" isAnimationActive={false} />
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+            <p className="mt-2 text-[9px] font-mono text-slate-500 dark:text-slate-400">
+              mean {formatPnl(report.mean)} · std {formatPnl(report.std)} · p5 {formatPnl(report.p5)} · p50 {formatPnl(report.p50)} · p95 {formatPnl(report.p95)} · costs {formatPnl(report.meanCost)}
+            </p>
+          </div>
+          <div className="overflow-x-auto">
+            <p className="text-[9px] font-bold text-slate-400 uppercase tracking-widest mb-2">Error vs Rebalance Interval</p>
+            <table className="w-full text-[10px]">
+              <thead>
+                <tr className="text-[8px] text-slate-400 uppercase">
+                  <th className="text-left font-bold pb-1.5">Every (Steps)</th>
+                  <th className="text-right font-bold pb-1.5">Mean</th>
+                  <th className="text-right font-bold pb-1.5">Std</th>
+                  <th className="text-right font-bold pb-1.5">Mean Costs</th>
+                </tr>
+              </thead>
+              <tbody className="font-mono text-slate-700 dark:text-slate-200">
+                {report.byInterval.map(row => (
+                  <tr key={row.rebalanceEvery} className={`border-t border-slate-100 dark:border-slate-800 ${row.rebalanceEvery === settings.rebalanceEvery ? 'font-bold text-indigo-600 dark:text-indigo-400' : ''}`}>
+                    <td className="py-1 font-sans">{row.rebalanceEvery}</td>
+                    <td className="py-1 text-right">{formatPnl(row.mean)}</td>
+                    <td className="py-1 text-right">{formatPnl(row.std)}</td>
+                    <td className="py-1 text-right">{formatPnl(row.meanCost)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <p className="mt-2 text-[9px] text-slate-400 dark:text-slate-500">
+              Paths regenerated from the next seeds with the same model; each interval re-hedges the same paths, so std should grow roughly with √interval.
+            </p>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default HedgingPanel;
@@ -0,0 +1,99 @@
+import React, { useMemo } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend } from 'recharts';
+import { AssetClass, DataPoint, MacroSystem } from '../types';
+import { MACRO_LABELS, MACRO_VARIABLES } from '../services/macroSystem';
+
+interface MacroPanelProps {
+  data: DataPoint[];
+  system: MacroSystem;
+  isDark: boolean;
+}
+
+const MACRO_COLORS: Partial<Record<AssetClass, string>> = {
+  [AssetClass.CENTRAL_BANK_RATE]: '#6366f1',
+  [AssetClass.INFLATION_RATE]: '#f43f5e',
+  [AssetClass.UNEMPLOYMENT_RATE]: '#f59e0b',
+  [AssetClass.GDP_GROWTH]: '#10b981',
+  [AssetClass.TOTAL_PRODUCTIVITY]: '#0ea5e9'
+};
+
+const correlation = (a: number[], b: number[]): number => {
+  const n = Math.min(a.length, b.length);
+  if (n < 2) return 0;
+  const ma = a.reduce((acc, v) => acc + v, 0) / n;
+  const mb = b.reduce((acc, v) => acc + v, 0) / n;
+  let cov = 0, va = 0, vb = 0;
+  for (let k = 0; k < n; k++) {
+    cov += (a[k] - ma) * (b[k] - mb);
+    va += (a[k] - ma) ** 2;
+    vb += (b[k] - mb) ** 2;
+  }
+  return va > 0 && vb > 0 ? cov / Math.sqrt(va * vb) : 0;
+};
+
+const MacroPanel: React.FC<MacroPanelProps> = ({ data, system, isDark }) => {
+  const chartData = useMemo(() => data.map(d => ({ timestamp: d.timestamp, ...d.macro })), [data]);
+
+  // The textbook co-movements: policy follows inflation, inflation falls with slack, unemployment falls with growth
+  const links = useMemo(() => {
+    const series = (v: AssetClass) => data.map(d => d.macro?.[v] ?? 0);
+    const unemployment = series(AssetClass.UNEMPLOYMENT_RATE);
+    const unemploymentChange = unemployment.slice(1).map((u, k) => u - unemployment[k]);
+    return [
+      { label: 'Taylor ρ(i, π)', value: correlation(series(AssetClass.CENTRAL_BANK_RATE), series(AssetClass.INFLATION_RATE)) },
+      { label: 'Phillips ρ(π, u)', value: correlation(series(AssetClass.INFLATION_RATE), unemployment) },
+      { label: 'Okun ρ(g, Δu)', value: correlation(series(AssetClass.GDP_GROWTH).slice(1), unemploymentChange) }
+    ];
+  }, [data]);
+
+  const latest = data[data.length - 1]?.macro;
+  if (!latest) return null;
+
+  const gridColor = isDark ? "#1e293b" : "#f1f5f9";
+  const axisColor = isDark ? "#475569" : "#94a3b8";
+  const tooltipBg = isDark ? "rgba(15, 23, 42, 0.95)" : "rgba(255, 255, 255, 0.95)";
+  const tooltipBorder = isDark ? "#334155" : "#e2e8f0";
+
+  return (
+    <div className="bg-white dark:bg-slate-900 p-6 rounded-xl border border-slate-200 dark:border-slate-800 shadow-sm transition-colors">
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h3 className="font-bold text-slate-800 dark:text-slate-100 uppercase tracking-wider text-xs">Macro Panel</h3>
+          <p className="text-[10px] text-slate-400 dark:text-slate-500 font-medium">
+            {system === MacroSystem.VAR ? 'VAR(p) with user coefficients' : 'IS curve, Phillips curve, Taylor rule and Okun\'s law'} · all five series move jointly and export as one panel (%)
+          </p>
+        </div>
+      </div>
+      <div className="grid grid-cols-2 md:grid-cols-8 gap-3 mb-4">
+        {MACRO_VARIABLES.map(v => (
+          <div key={v} className="p-2 rounded-lg bg-slate-50 dark:bg-slate-800/50">
+            <p className="text-[8px] font-bold text-slate-400 uppercase tracking-widest">{MACRO_LABELS[v]}</p>
+            <p className="text-xs font-mono font-bold" style={{ color: MACRO_COLORS[v] }}>{latest[v]?.toFixed(2)}%</p>
+          </div>
+        ))}
+        {links.map(l => (
+          <div key={l.label} className="p-2 rounded-lg bg-indigo-50 dark:bg-indigo-900/20">
+            <p className="text-[8px] font-bold text-slate-400 uppercase tracking-widest">{l.label}</p>
+            <p className="text-xs font-mono font-bold text-slate-800 dark:text-slate-100">{l.value >= 0 ? '+' : ''}{l.value.toFixed(2)}</p>
+          </div>
+        ))}
+      </div>
+      <div className="h-[220px] w-full">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={chartData} syncId="quantSync">
+            <CartesianGrid strokeDasharray="3 3" vertical={false} stroke={gridColor} />
+            <XAxis dataKey="timestamp" hide />
+            <YAxis tick={{fontSize: 9, fill: axisColor}} axisLine={false} tickLine={false} domain={['auto', 'auto']} width={50} />
+            <Tooltip contentStyle={{ borderRadius: '8px', border: `1px solid ${tooltipBorder}`, backgroundColor: tooltipBg, fontSize: '10px' }} formatter={(v: any) => `${Number(v).toFixed(3)}%`} />
+            <Legend verticalAlign="top" height={24} iconType="circle" wrapperStyle={{ fontSize: '9px' }} />
+            {MACRO_VARIABLES.map(v => (
+              <Line key={v} type="monotone" dataKey={v} name={MACRO_LABELS[v]} stroke={MACRO_COLORS[v]} strokeWidth={1.5} dot={false} isAnimationActive={false} />
+            ))}
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+};
+
+export default MacroPanel;
@@ -1,6 +1,19 @@
 
 import React, { useState, useMemo, useEffect } from 'react';
-import { ModelType, AssetClass, SynthesisParameters, CorrelationFactors } from '../types';
+import { ModelType, AssetClass, SynthesisParameters, CorrelationFactors, AssetSpec, DiscretizationScheme, MarketCalendar, SamplingFrequency, CurveModel, CurveFactorSpec, DayCount, SwaptionVolModel, VolSurfaceModel, OptionStyle, BarrierType, LegType, OptionLeg, RegimeSpec, EventType, ScheduledEvent, FundamentalSeries, MacroStructure, MacroSystem } from '../types';
+import { generateSeed } from '../services/mathUtils';
+import { MAX_ENSEMBLE_CELLS } from '../services/synthesisEngine';
+import { buildSchedule, CALENDAR_SESSIONS, parseIsoDate, resolveStepSize } from '../services/calendar';
+import { appliesTo, defaultEventTerms, EVENT_LABELS, eventCalendar } from '../services/eventSchedule';
+import { DEFAULT_FUNDAMENTALS } from '../services/fundamentals';
+import { DEFAULT_MACRO_STRUCTURE, MACRO_LABELS, MACRO_VARIABLES, MAX_VAR_LAGS, requestedVar, structuralVar, varError, varMean, varSpectralRadius } from '../services/macroSystem';
+import { BOND_MODELS } from '../services/bondPricing';
+import { DEFAULT_NORMAL_VOL, DEFAULT_NOTIONAL } from '../services/swapPricing';
+import { nextLegId, STRATEGY_PRESETS } from '../services/portfolio';
+import { defaultRegimes, defaultTransition, expectedDurations, MAX_REGIMES, stationaryDistribution, transitionError } from '../services/regimeSwitching';
+import { DEFAULT_SURFACE_CURVATURE, DEFAULT_SURFACE_EXPIRIES, DEFAULT_SURFACE_MONEYNESS } from '../services/volSurface';
+import { CURVE_ASSET_CLASSES, CURVE_FACTOR_LABELS, DEFAULT_CURVE_CORRELATION, DEFAULT_CURVE_FACTORS } from '../services/yieldCurve';
+import { buildFactorCorrelationMatrix, resizeCorrelationMatrix, minEigenvalue, DEFAULT_FACTOR_ASSETS } from '../services/correlation';
 
 interface ModelControlsProps {
   params: SynthesisParameters;
@@ -13,20 +26,17 @@ interface ModelControlsProps {
   onRedo: () => void;
 }
 
+const HORIZON_UNITS: Record<SamplingFrequency, string> = {
+  [SamplingFrequency.INTRADAY]: 'Bars',
+  [SamplingFrequency.DAILY]: 'Days',
+  [SamplingFrequency.WEEKLY]: 'Weeks',
+  [SamplingFrequency.MONTHLY]: 'Months'
+};
+
 interface ValidationErrors {
   [key: string]: string | null;
 }
 
-// Fixed standard market cross-correlations for context in the matrix
-const MARKET_CROSS_CORRS = {
-  equity_rates: 0.15,
-  equity_vol: -0.72,
-  equity_comm: 0.25,
-  rates_vol: -0.10,
-  rates_comm: 0.05,
-  vol_comm: -0.15
-};
-
 const MODEL_INSIGHTS = {
   [ModelType.EQUITY_GBM]: {
     name: 'Geometric Brownian Motion',
@@ -62,7 +72,7 @@ const MODEL_INSIGHTS = {
     description: 'Similar to Vasicek but volatility scales with the square root of the rate, preventing negative values.',
     useCase: 'Modern interest rate modeling and credit spreads where positivity is required.',
     behavior: 'Volatility vanishes as the rate approaches zero, creating a natural floor.',
-    deepDive: 'CIR improves upon Vasicek by introducing a state-dependent volatility term (√r). As rates drop toward zero, the random "noise" also decreases, making it mathematically impossible for rates to become negative under the Feller condition. This is the gold standard for modeling yields that must remain positive.'
+    deepDive: 'CIR improves upon Vasicek by introducing a state-dependent volatility term (√r). As rates drop toward zero, the random "noise" also decreases, making it mathematically impossible for rates to become negative under the Feller condition. This is the gold standard for modeling yields that must remain positive. A discretized Euler path can still step below zero; the Exact scheme samples the noncentral chi-square transition and never does.'
   },
   [ModelType.OU_PROCESS]: {
     name: 'Ornstein-Uhlenbeck',
@@ -73,6 +83,42 @@ const MODEL_INSIGHTS = {
     behavior: 'Strictly mean-reverting. Higher κ values result in a more "pinned" process.',
     deepDive: 'The OU process is used to model stationary variables. Unlike GBM, which has no "memory" of its starting point, the OU process is "attracted" to its long-term mean. In finance, it is the go-to model for the VIX (volatility index) and pair-trading strategies where the spread is expected to revert to zero.'
   },
+  [ModelType.HESTON]: {
+    name: 'Heston Stochastic Volatility',
+    math: 'dv = κ_v(θ_v - v)dt + ξ√v dW_v',
+    category: 'Stochastic Volatility',
+    description: 'Variance follows its own mean-reverting square-root process, correlated with the price shocks through ρ_sv.',
+    useCase: 'Option desks, volatility smile/skew generation, and leverage-effect studies.',
+    behavior: 'Negative ρ_sv produces the equity leverage effect: sell-offs coincide with volatility spikes.',
+    deepDive: 'Heston (1993) lets instantaneous variance v mean-revert toward θ_v at speed κ_v, with vol-of-vol ξ. Because the price and variance shocks are correlated, the return distribution becomes skewed and fat-tailed, which is what produces realistic implied volatility smiles. Variance is simulated with a full truncation scheme: it may dip below zero between steps, but only its positive part ever enters the drift and diffusion, which keeps the discretization stable even when the Feller condition 2κ_vθ_v > ξ² is violated.'
+  },
+  [ModelType.GARCH]: {
+    name: 'GARCH(1,1)',
+    math: 'h_t = ω + αε²_{t-1} + βh_{t-1}',
+    category: 'Volatility Clustering',
+    description: 'Returns whose conditional variance responds to yesterday\'s shock and decays geometrically at rate α + β.',
+    useCase: 'Risk engines, VaR backtesting, and realistic daily return series with volatility clustering.',
+    behavior: 'Large moves are followed by large moves. Persistence α + β close to 1 gives long-lived volatility regimes.',
+    deepDive: 'Bollerslev\'s GARCH(1,1) makes today\'s variance a weighted blend of a constant ω, the last squared shock, and the last variance. Innovations are Student-t with ν degrees of freedom, rescaled to unit variance, so both the clustering and the fat tails seen in real returns are reproduced. When ω is left blank it is chosen so the long-run volatility equals Realized σ.'
+  },
+  [ModelType.GJR_GARCH]: {
+    name: 'GJR-GARCH',
+    math: 'h_t = ω + (α + γ·1[ε<0])ε²_{t-1} + βh_{t-1}',
+    category: 'Asymmetric Volatility',
+    description: 'GARCH with an extra loading γ on negative shocks, so sell-offs raise volatility more than rallies.',
+    useCase: 'Equity index returns and any series with a pronounced leverage effect.',
+    behavior: 'Positive γ makes downside moves feed volatility harder, skewing the return distribution.',
+    deepDive: 'Glosten, Jagannathan and Runkle (1993) add an indicator term so that negative shocks contribute (α + γ)ε² to next period\'s variance while positive shocks contribute only αε². Covariance stationarity requires α + γ/2 + β < 1. With ω left blank it is targeted so the unconditional volatility equals Realized σ.'
+  },
+  [ModelType.EGARCH]: {
+    name: 'EGARCH',
+    math: 'ln h_t = ω + β ln h_{t-1} + α(|z| - E|z|) + γz',
+    category: 'Asymmetric Volatility',
+    description: 'Models log-variance, so volatility stays positive without parameter constraints and reacts asymmetrically through γ.',
+    useCase: 'Leverage-effect studies and volatility series where positivity constraints on α, β are inconvenient.',
+    behavior: 'Negative γ raises volatility after down moves; |β| < 1 keeps log-variance stationary.',
+    deepDive: 'Nelson\'s EGARCH (1991) works on ln h, so any real-valued parameters give a positive variance. The magnitude term α(|z| - E|z|) captures clustering, while the sign term γz captures asymmetry. E|z| is the exact mean absolute value of the unit-variance Student-t innovation. With ω left blank the log-variance is centred on ln(σ²dt).'
+  },
   [ModelType.MACRO_INFLATION]: {
     name: 'Macro Structural Model',
     math: 'Trend + Cycle + Shock',
@@ -100,27 +146,27 @@ const Tooltip: React.FC<{ text: string }> = ({ text }) => (
   </div>
 );
 
-const CorrelationMatrix: React.FC<{ correlations: CorrelationFactors }> = ({ correlations }) => {
-  const factors = [
-    { id: 'asset', label: 'ASSET', name: 'Primary Asset' },
-    { id: 'equity', label: 'EQ', name: 'Equity Index' },
-    { id: 'rates', label: 'IR', name: 'Treasury Rates' },
-    { id: 'volatility', label: 'VOL', name: 'Volatility (VIX)' },
-    { id: 'commodity', label: 'COM', name: 'Commodity Basket' }
-  ];
+interface MatrixFactor {
+  id: string;
+  label: string;
+  name: string;
+}
 
-  const getCorrelationValue = (rowId: string, colId: string): number => {
-    if (rowId === colId) return 1.0;
-    
-    // Primary Asset relationships (from state)
-    if (rowId === 'asset' || colId === 'asset') {
-      const otherId = rowId === 'asset' ? colId : rowId;
-      return (correlations as any)[otherId] ?? 0;
-    }
+const CorrelationMatrix: React.FC<{
+  factors: MatrixFactor[];
+  matrix: number[][];
+  onCellChange: (row: number, col: number, value: number) => void;
+  title?: string;
+}> = ({ factors, matrix, onCellChange, title = 'Cross-Factor Risk Matrix' }) => {
+  const [editing, setEditing] = useState<{ row: number; col: number; draft: string } | null>(null);
 
-    // Standard market factor relationships
-    const key = [rowId, colId].sort().join('_');
-    return (MARKET_CROSS_CORRS as any)[key] ?? 0;
+  const lambdaMin = useMemo(() => minEigenvalue(matrix), [matrix]);
+
+  const commitEdit = () => {
+    if (!editing) return;
+    const parsed = parseFloat(editing.draft);
+    if (!isNaN(parsed)) onCellChange(editing.row, editing.col, Math.max(-1, Math.min(1, parsed)));
+    setEditing(null);
   };
 
   const getColor = (val: number) => {
@@ -140,14 +186,14 @@ const CorrelationMatrix: React.FC<{ correlations: CorrelationFactors }> = ({ cor
   return (
     <div className="flex flex-col gap-2 mb-6 p-4 bg-slate-50 dark:bg-slate-900/50 rounded-xl border border-slate-200 dark:border-slate-800 shadow-inner overflow-hidden">
       <div className="flex justify-between items-center mb-3">
-        <span className="text-[9px] font-bold text-slate-400 uppercase tracking-widest">Cross-Factor Risk Matrix</span>
+        <span className="text-[9px] font-bold text-slate-400 uppercase tracking-widest">{title}</span>
         <div className="flex gap-2 text-[8px] font-bold text-slate-400 uppercase tracking-tighter">
            <span className="flex items-center gap-1"><div className="w-2 h-2 rounded-sm bg-rose-500/40"></div> Negative</span>
            <span className="flex items-center gap-1"><div className="w-2 h-2 rounded-sm bg-indigo-500/40"></div> Positive</span>
         </div>
       </div>
       
-      <div className="grid grid-cols-6 gap-1">
+      <div className="grid gap-1" style={{ gridTemplateColumns: `repeat(${factors.length + 1}, minmax(0, 1fr))` }}>
         {/* Empty top-left cell */}
         <div className="h-8"></div>
         {/* Column Headers */}
@@ -158,25 +204,45 @@ const CorrelationMatrix: React.FC<{ correlations: CorrelationFactors }> = ({ cor
         ))}
 
         {/* Rows */}
-        {factors.map(row => (
+        {factors.map((row, i) => (
           <React.Fragment key={`row-${row.id}`}>
             {/* Row Header */}
             <div className="h-10 flex items-center justify-end pr-2 text-[8px] font-extrabold text-slate-400 dark:text-slate-600 uppercase">
               {row.label}
             </div>
             {/* Cells */}
-            {factors.map(col => {
-              const val = getCorrelationValue(row.id, col.id);
-              const isEditable = (row.id === 'asset' || col.id === 'asset') && row.id !== col.id;
+            {factors.map((col, j) => {
+              const val = matrix[i]?.[j] ?? (i === j ? 1 : 0);
+              const isEditable = i !== j;
+              const isEditing = editing?.row === i && editing?.col === j;
               
               return (
                 <div 
                   key={`${row.id}-${col.id}`}
-                  className={`h-10 flex flex-col items-center justify-center rounded-lg border border-slate-200/50 dark:border-slate-700/50 transition-all group relative cursor-default ${getColor(val)} ${isEditable ? 'ring-1 ring-indigo-500/20' : ''}`}
+                  onClick={() => isEditable && !isEditing && setEditing({ row: i, col: j, draft: val.toFixed(2) })}
+                  className={`h-10 flex flex-col items-center justify-center rounded-lg border border-slate-200/50 dark:border-slate-700/50 transition-all group relative ${getColor(val)} ${isEditable ? 'ring-1 ring-indigo-500/20 cursor-pointer hover:ring-indigo-500/60' : 'cursor-default'}`}
                 >
-                  <span className="text-[9px] font-mono font-bold leading-none">
-                    {val === 1.0 ? '1.0' : val.toFixed(1)}
-                  </span>
+                  {isEditing ? (
+                    <input
+                      autoFocus
+                      type="number"
+                      step="0.05"
+                      min="-1"
+                      max="1"
+                      className="w-full h-full bg-white dark:bg-slate-900 text-[9px] font-mono font-bold text-center rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                      value={editing.draft}
+                      onChange={(e) => setEditing({ row: i, col: j, draft: e.target.value })}
+                      onBlur={commitEdit}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') commitEdit();
+                        if (e.key === 'Escape') setEditing(null);
+                      }}
+                    />
+                  ) : (
+                    <span className="text-[9px] font-mono font-bold leading-none">
+                      {val === 1.0 ? '1.0' : val.toFixed(1)}
+                    </span>
+                  )}
                   
                   {/* Tooltip on hover */}
                   <div className="absolute bottom-full left-1/2 -translate-x-1/2 mb-2 hidden group-hover:block z-50 pointer-events-none">
@@ -193,10 +259,44 @@ const CorrelationMatrix: React.FC<{ correlations: CorrelationFactors }> = ({ cor
           </React.Fragment>
         ))}
       </div>
+
+      {lambdaMin < -1e-10 && (
+        <p className="text-[9px] font-bold text-amber-600 dark:text-amber-400 leading-snug mt-1">
+          Not positive semi-definite (λ_min = {lambdaMin.toFixed(3)}). The engine will repair it to the nearest correlation matrix before Cholesky sampling.
+        </p>
+      )}
     </div>
   );
 };
 
+const FUNDAMENTAL_SERIES_LABELS: Record<FundamentalSeries, string> = {
+  [FundamentalSeries.DIVIDENDS]: 'Dividends',
+  [FundamentalSeries.BOOK_VALUE]: 'Book Value',
+  [FundamentalSeries.REVENUE]: 'Revenue'
+};
+
+// Symbols for the macro panel's matrix headers, in MACRO_VARIABLES order
+const MACRO_SYMBOLS = ['i', 'π', 'u', 'g', 'a'];
+
+const MACRO_STRUCTURE_FIELDS: { key: Exclude<keyof MacroStructure, 'shockVol'>; label: string; step: number }[] = [
+  { key: 'neutralRate', label: 'r* (%)', step: 0.25 },
+  { key: 'inflationTarget', label: 'π* (%)', step: 0.25 },
+  { key: 'naturalUnemployment', label: 'u* (%)', step: 0.25 },
+  { key: 'potentialGrowth', label: 'g* (%)', step: 0.25 },
+  { key: 'productivityGrowth', label: 'ā (%)', step: 0.25 },
+  { key: 'taylorInflation', label: 'Taylor π', step: 0.1 },
+  { key: 'taylorOutput', label: 'Taylor gap', step: 0.1 },
+  { key: 'rateSmoothing', label: 'Rate speed', step: 0.5 },
+  { key: 'phillipsSlope', label: 'Phillips λ', step: 0.05 },
+  { key: 'inflationReversion', label: 'Anchoring κπ', step: 0.1 },
+  { key: 'okunCoefficient', label: 'Okun', step: 0.1 },
+  { key: 'rateSensitivity', label: 'IS β', step: 0.1 },
+  { key: 'growthReversion', label: 'Growth κg', step: 0.1 },
+  { key: 'productivityReversion', label: 'TFP κa', step: 0.1 }
+];
+
+const FACTOR_SHORT_LABELS: Record<string, string> = { equity: 'EQ', rates: 'IR', volatility: 'VOL', commodity: 'COM' };
+
 const ModelControls: React.FC<ModelControlsProps> = ({ 
   params, 
   onParamChange, 
@@ -209,27 +309,269 @@ const ModelControls: React.FC<ModelControlsProps> = ({
 }) => {
   const [isLibraryOpen, setIsLibraryOpen] = useState(false);
   const [errors, setErrors] = useState<ValidationErrors>({});
+  // Free text while typing; parsed into customHolidays on blur
+  const [holidayDraft, setHolidayDraft] = useState((params.customHolidays ?? []).join(', '));
+
+  useEffect(() => {
+    setHolidayDraft((params.customHolidays ?? []).join(', '));
+  }, [params.customHolidays]);
+
+  // Surface grid lists, parsed on blur like the holidays
+  const [expiryDraft, setExpiryDraft] = useState((params.surfaceExpiries ?? DEFAULT_SURFACE_EXPIRIES).map(t => +t.toFixed(4)).join(', '));
+  const [moneynessDraft, setMoneynessDraft] = useState((params.surfaceMoneyness ?? DEFAULT_SURFACE_MONEYNESS).join(', '));
+
+  useEffect(() => {
+    setExpiryDraft((params.surfaceExpiries ?? DEFAULT_SURFACE_EXPIRIES).map(t => +t.toFixed(4)).join(', '));
+  }, [params.surfaceExpiries]);
+
+  useEffect(() => {
+    setMoneynessDraft((params.surfaceMoneyness ?? DEFAULT_SURFACE_MONEYNESS).join(', '));
+  }, [params.surfaceMoneyness]);
+
+  const parseList = (text: string): number[] => text.split(/[\s,;]+/).filter(Boolean).map(Number);
 
   const inputClass = (field: string) => `w-full px-3 py-2 bg-slate-50 dark:bg-slate-800 border ${errors[field] ? 'border-rose-500 focus:ring-rose-500' : 'border-slate-200 dark:border-slate-700 focus:ring-indigo-500'} rounded-md text-sm text-slate-900 dark:text-slate-100 focus:outline-none focus:ring-2 focus:border-transparent transition-all`;
+  // Dense inputs for matrix cells and table rows
+  const cellInputClass = (field: string) => `w-full px-1 py-1 text-[10px] font-mono bg-white dark:bg-slate-800 border ${errors[field] ? 'border-rose-500' : 'border-slate-200 dark:border-slate-700'} rounded text-slate-900 dark:text-slate-100 focus:outline-none focus:ring-1 focus:ring-indigo-500`;
   const labelClass = "inline-block text-xs font-semibold text-slate-600 dark:text-slate-400 mb-1 uppercase tracking-wider";
 
   const isDerivative = [AssetClass.OPTION, AssetClass.FORWARD, AssetClass.FUTURE, AssetClass.SWAP, AssetClass.SWAPTION].includes(params.assetClass);
   const isOption = params.assetClass === AssetClass.OPTION;
   const isSwaption = params.assetClass === AssetClass.SWAPTION;
+  const isNormalVol = isSwaption && params.swaptionVolModel === SwaptionVolModel.BACHELIER;
+  const isSwap = params.assetClass === AssetClass.SWAP;
   const isMacro = [AssetClass.CENTRAL_BANK_RATE, AssetClass.INFLATION_RATE, AssetClass.UNEMPLOYMENT_RATE, AssetClass.TOTAL_PRODUCTIVITY, AssetClass.GDP_GROWTH].includes(params.assetClass);
   const isFixedIncome = params.assetClass === AssetClass.FIXED_INCOME;
   const isCommodity = params.assetClass === AssetClass.COMMODITY;
   const isEquity = params.assetClass === AssetClass.EQUITY;
   const isFX = params.assetClass === AssetClass.FX;
+  const hasCurveChoice = CURVE_ASSET_CLASSES.includes(params.assetClass);
+  const hasBondPricing = isFixedIncome && BOND_MODELS.includes(params.modelType);
 
   const currentModelInfo = MODEL_INSIGHTS[params.modelType] || MODEL_INSIGHTS[ModelType.EQUITY_GBM];
 
+  const frequency = params.frequency ?? SamplingFrequency.DAILY;
+  const calendar = params.calendar ?? MarketCalendar.WEEKDAYS;
+  const session = CALENDAR_SESSIONS[calendar];
+
+  // Keep dt in step with the sampling choice so the sidebar matches what the engine will use
+  const handleScheduleChange = (changes: Partial<SynthesisParameters>) => {
+    onParamChange({ ...changes, dt: resolveStepSize({ ...params, ...changes }) });
+  };
+
+  // Switching curve models resets factors and correlation, whose sizes differ per model
+  const handleCurveModelChange = (model: CurveModel | undefined) => {
+    onParamChange(model
+      ? { curveModel: model, curveFactors: DEFAULT_CURVE_FACTORS[model].map(f => ({ ...f })), curveCorrelation: DEFAULT_CURVE_CORRELATION[model].map(row => [...row]) }
+      : { curveModel: undefined });
+  };
+
+  const curveFactors = params.curveModel ? (params.curveFactors?.length ? params.curveFactors : DEFAULT_CURVE_FACTORS[params.curveModel]) : [];
+  const curveCorrelation = params.curveModel ? resizeCorrelationMatrix(params.curveCorrelation ?? DEFAULT_CURVE_CORRELATION[params.curveModel], curveFactors.length) : [];
+
+  const handleCurveFactorChange = (index: number, key: keyof CurveFactorSpec, value: number) => {
+    onParamChange({ curveFactors: curveFactors.map((f, i) => (i === index ? { ...f, [key]: value } : f)) });
+  };
+
+  const handleCurveCorrelationChange = (row: number, col: number, value: number) => {
+    const next = curveCorrelation.map(r => [...r]);
+    next[row][col] = value;
+    next[col][row] = value;
+    onParamChange({ curveCorrelation: next });
+  };
+
   const handleCorrelationChange = (factor: keyof CorrelationFactors, val: string) => {
     const numericVal = parseFloat(val);
     const newCorrs = { ...params.correlations, [factor]: numericVal };
     onParamChange({ correlations: newCorrs });
   };
 
+  // Joint simulation: the matrix spans the primary asset plus params.assets.
+  // Before that, it shows the primary + market factors; the first edit switches
+  // to joint mode with those factors as simulated assets.
+  const jointAssets = params.assets || [];
+  const isJoint = jointAssets.length > 0;
+  const matrixFactors: MatrixFactor[] = [
+    { id: 'asset', label: 'ASSET', name: 'Primary Asset' },
+    ...(isJoint ? jointAssets : DEFAULT_FACTOR_ASSETS).map(a => ({
+      id: a.id,
+      label: FACTOR_SHORT_LABELS[a.id] || a.label.slice(0, 4),
+      name: a.label
+    }))
+  ];
+  const correlationMatrix = useMemo(
+    () => isJoint
+      ? resizeCorrelationMatrix(params.correlationMatrix, jointAssets.length + 1)
+      : buildFactorCorrelationMatrix(params.correlations || {}),
+    [isJoint, params.correlationMatrix, params.correlations, jointAssets.length]
+  );
+
+  const handleMatrixCellChange = (row: number, col: number, value: number) => {
+    const next = correlationMatrix.map(r => [...r]);
+    next[row][col] = value;
+    next[col][row] = value;
+    onParamChange(isJoint ? { correlationMatrix: next } : { assets: DEFAULT_FACTOR_ASSETS, correlationMatrix: next });
+  };
+
+  const updateJointAsset = (index: number, patch: Partial<AssetSpec>) => {
+    onParamChange({ assets: jointAssets.map((a, k) => (k === index ? { ...a, ...patch } : a)) });
+  };
+
+  // Numeric asset fields keep their last value while the input is blank or half-typed
+  const updateJointAssetNumber = (index: number, field: 'initialValue' | 'mu' | 'sigma' | 'kappa' | 'theta', raw: string) => {
+    const value = parseFloat(raw);
+    if (Number.isFinite(value)) updateJointAsset(index, { [field]: value });
+  };
+
+  const portfolio = params.portfolio ?? [];
+
+  const updateLeg = (index: number, patch: Partial<OptionLeg>) => {
+    onParamChange({ portfolio: portfolio.map((l, k) => (k === index ? { ...l, ...patch } : l)) });
+  };
+
+  const addLeg = () => {
+    const leg: OptionLeg = { id: nextLegId(portfolio), type: LegType.CALL, quantity: 1, strike: params.strikePrice || 100, expiry: params.expiryTime || 1 };
+    onParamChange({ portfolio: [...portfolio, leg] });
+  };
+
+  const removeLeg = (index: number) => {
+    const remaining = portfolio.filter((_, k) => k !== index);
+    onParamChange({ portfolio: remaining.length > 0 ? remaining : undefined });
+  };
+
+  const applyStrategy = (id: string) => {
+    const preset = STRATEGY_PRESETS.find(p => p.id === id);
+    if (!preset) return;
+    onParamChange({ portfolio: preset.build(params).map((leg, k) => ({ ...leg, id: `leg-${k + 1}` })) });
+  };
+
+  // Regime switching needs two regimes; the matrix grows and shrinks with the list
+  const regimes = params.regimes ?? [];
+  const regimeTransition = regimes.length >= 2 ? (params.regimeTransition ?? defaultTransition(regimes.length)) : [];
+  const regimeTransitionError = regimes.length >= 2 ? transitionError(regimeTransition, regimes.length) : undefined;
+  const regimeStats = useMemo(() => (regimes.length >= 2 && !regimeTransitionError
+    ? { stationary: stationaryDistribution(regimeTransition), durations: expectedDurations(regimeTransition) }
+    : undefined), [regimes.length, regimeTransition, regimeTransitionError]);
+
+  const updateRegime = (index: number, patch: Partial<RegimeSpec>) => {
+    onParamChange({ regimes: regimes.map((r, k) => (k === index ? { ...r, ...patch } : r)) });
+  };
+
+  const addRegime = () => {
+    if (regimes.length === 0) {
+      onParamChange({ regimes: defaultRegimes(params), regimeTransition: defaultTransition(2), initialRegime: 0 });
+      return;
+    }
+    const n = regimes.length + 1;
+    const stay = 0.98;
+    onParamChange({
+      regimes: [...regimes, { ...regimes[regimes.length - 1], label: `Regime ${n}` }],
+      regimeTransition: [
+        ...regimeTransition.map(row => [...row, 0]),
+        Array.from({ length: n }, (_, j) => (j === n - 1 ? stay : (1 - stay) / (n - 1)))
+      ]
+    });
+  };
+
+  const removeRegime = (index: number) => {
+    const remaining = regimes.filter((_, k) => k !== index);
+    if (remaining.length < 2) {
+      onParamChange({ regimes: undefined, regimeTransition: undefined, initialRegime: undefined });
+      return;
+    }
+    // Renormalise each row over the regimes that are left
+    const next = regimeTransition.filter((_, i) => i !== index).map((row, i) => {
+      const kept = row.filter((_, j) => j !== index);
+      const sum = kept.reduce((acc, p) => acc + p, 0);
+      return sum > 0 ? kept.map(p => p / sum) : kept.map((_, j) => (j === i ? 1 : 0));
+    });
+    onParamChange({ regimes: remaining, regimeTransition: next, initialRegime: Math.min(params.initialRegime ?? 0, remaining.length - 1) });
+  };
+
+  const handleTransitionChange = (row: number, col: number, value: number) => {
+    onParamChange({ regimeTransition: regimeTransition.map((r, i) => (i === row ? r.map((p, j) => (j === col ? value : p)) : [...r])) });
+  };
+
+  const fundamentalSeries = params.fundamentalSeries ?? [];
+  const toggleFundamentalSeries = (series: FundamentalSeries) => {
+    const next = fundamentalSeries.includes(series) ? fundamentalSeries.filter(s => s !== series) : [...fundamentalSeries, series];
+    onParamChange({ fundamentalSeries: next.length > 0 ? next : undefined });
+  };
+
+  // Joint macro panel: VAR fields left unset show the structural model's VAR(1) at this step
+  const macroStructure: MacroStructure = { ...DEFAULT_MACRO_STRUCTURE, ...params.macroStructure };
+  const macroVar = useMemo(() => requestedVar({ ...params, dt: resolveStepSize(params) }), [params]);
+  const macroVarError = isMacro && params.macroSystem === MacroSystem.VAR ? varError(macroVar) : undefined;
+  const macroVarStats = useMemo(() => (params.macroSystem === MacroSystem.VAR && !macroVarError
+    ? { radius: varSpectralRadius(macroVar.coefficients), mean: varMean(macroVar) }
+    : undefined), [params.macroSystem, macroVar, macroVarError]);
+
+  const updateMacroStructure = (patch: Partial<MacroStructure>) => {
+    onParamChange({ macroStructure: { ...params.macroStructure, ...patch } });
+  };
+
+  const setVarLags = (lags: number) => {
+    const zero = MACRO_VARIABLES.map(() => MACRO_VARIABLES.map(() => 0));
+    onParamChange({ varCoefficients: Array.from({ length: lags }, (_, l) => macroVar.coefficients[l] ?? zero) });
+  };
+
+  const handleVarCoefficientChange = (lag: number, row: number, col: number, value: number) => {
+    onParamChange({
+      varCoefficients: macroVar.coefficients.map((A, l) => (l === lag ? A.map((r, i) => (i === row ? r.map((a, j) => (j === col ? value : a)) : r)) : A))
+    });
+  };
+
+  const seedVarFromStructure = () => {
+    const seeded = structuralVar(macroStructure, resolveStepSize(params));
+    onParamChange({ varCoefficients: seeded.coefficients, varIntercept: seeded.intercept, varShockVol: seeded.shockVol });
+  };
+
+  // Event schedule: presets fill the run's span with one type's recurring dates
+  const events = params.events ?? [];
+  const runSpan = useMemo(() => {
+    const { timestamps } = buildSchedule(params, params.timeHorizon);
+    return { start: timestamps[0].slice(0, 10), end: timestamps[timestamps.length - 1].slice(0, 10) };
+  }, [params.startDate, params.calendar, params.customHolidays, params.frequency, params.intradayMinutes, params.dt, params.timeHorizon]);
+  const presetEventTypes = Object.values(EventType).filter(t => t !== EventType.CUSTOM && appliesTo(t, params.assetClass));
+
+  const setEvents = (next: ScheduledEvent[]) => {
+    onParamChange({ events: next.length > 0 ? [...next].sort((a, b) => a.date.localeCompare(b.date)) : undefined });
+  };
+
+  const addEventCalendar = (type: EventType) => {
+    setEvents([...events.filter(e => e.type !== type), ...eventCalendar(type, params.assetClass, runSpan.start, runSpan.end)]);
+  };
+
+  const addEvent = () => {
+    const type = presetEventTypes[0] ?? EventType.CUSTOM;
+    setEvents([...events, { date: runSpan.end, type, ...defaultEventTerms(type, params.assetClass) }]);
+  };
+
+  const updateEvent = (index: number, patch: Partial<ScheduledEvent>) => {
+    onParamChange({ events: events.map((e, k) => (k === index ? { ...e, ...patch } : e)) });
+  };
+
+  const addJointAsset = () => {
+    let n = jointAssets.length + 1;
+    while (jointAssets.some(a => a.id === `asset_${n}`)) n++;
+    const asset: AssetSpec = { id: `asset_${n}`, label: `Asset ${n}`, modelType: ModelType.EQUITY_GBM, assetClass: AssetClass.EQUITY, initialValue: 100, mu: 0.05, sigma: 0.2 };
+    onParamChange({
+      assets: [...jointAssets, asset],
+      correlationMatrix: resizeCorrelationMatrix(correlationMatrix, jointAssets.length + 2)
+    });
+  };
+
+  const removeJointAsset = (index: number) => {
+    const drop = index + 1; // Row/column 0 is the primary asset
+    const remaining = jointAssets.filter((_, k) => k !== index);
+    onParamChange({
+      assets: remaining.length > 0 ? remaining : undefined,
+      correlationMatrix: remaining.length > 0
+        ? correlationMatrix.filter((_, i) => i !== drop).map(r => r.filter((_, j) => j !== drop))
+        : undefined
+    });
+  };
+
   const isMeanReverting = [
     ModelType.INTEREST_RATE_VASICEK, 
     ModelType.INTEREST_RATE_CIR, 
@@ -238,6 +580,18 @@ const ModelControls: React.FC<ModelControlsProps> = ({
   ].includes(params.modelType);
 
   const isMertonJump = params.modelType === ModelType.EQUITY_MERTON_JUMP;
+  const isHeston = params.modelType === ModelType.HESTON;
+  const fellerSatisfied = 2 * (params.kappaV ?? 2.0) * (params.thetaV ?? 0.04) > Math.pow(params.xi ?? 0.3, 2);
+  const isGarch = [ModelType.GARCH, ModelType.GJR_GARCH, ModelType.EGARCH].includes(params.modelType);
+  const isEgarch = params.modelType === ModelType.EGARCH;
+  // Heston and the GARCH family step with their own fixed schemes
+  const hasSchemeChoice = !isHeston && !isGarch;
+  const isLogNormal = params.modelType === ModelType.EQUITY_GBM || isMertonJump;
+  const defaultGarchGamma = isEgarch ? -0.1 : 0.06;
+  // Persistence of the variance recursion; stationarity needs it below 1
+  const garchPersistence = isEgarch
+    ? Math.abs(params.garchBeta ?? 0.9)
+    : (params.garchAlpha ?? 0.05) + (params.garchBeta ?? 0.9) + (params.modelType === ModelType.GJR_GARCH ? (params.garchGamma ?? 0.06) / 2 : 0);
 
   // Validation Logic
   useEffect(() => {
@@ -247,19 +601,128 @@ const ModelControls: React.FC<ModelControlsProps> = ({
     if (params.sigma < 0 || params.sigma > 1.5) newErrors.sigma = "Range: 0 - 1.5";
     if (params.mu !== undefined && (params.mu < -1 || params.mu > 1)) newErrors.mu = "Range: -1 - 1";
     if (params.timeHorizon < 1 || params.timeHorizon > 5000) newErrors.timeHorizon = "Range: 1 - 5000";
+    if (params.startDate && !parseIsoDate(params.startDate)) newErrors.startDate = "Invalid date";
+    if (params.calendar === MarketCalendar.CUSTOM && (params.customHolidays ?? []).some(d => !parseIsoDate(d))) newErrors.customHolidays = "Use YYYY-MM-DD dates";
+    if (params.frequency === SamplingFrequency.INTRADAY && params.intradayMinutes !== undefined && (params.intradayMinutes < 1 || params.intradayMinutes > session.close - session.open)) {
+      newErrors.intradayMinutes = `Range: 1 - ${session.close - session.open}`;
+    }
+    if (params.curveModel && hasCurveChoice) {
+      if ((params.curveFactors ?? []).some(f => !(f.kappa >= 0 && f.kappa <= 50) || !(f.sigma >= 0 && f.sigma <= 0.5) || !Number.isFinite(f.initial) || !Number.isFinite(f.theta))) {
+        newErrors.curveFactors = "κ 0 - 50, σ 0 - 0.5";
+      }
+      if (params.curveModel === CurveModel.NSS && ((params.nssTau1 ?? 2) <= 0 || (params.nssTau2 ?? 8) <= 0)) newErrors.nssTau1 = "Must be > 0";
+    }
+    if (hasBondPricing) {
+      if (params.bondMaturity !== undefined && (params.bondMaturity <= 0 || params.bondMaturity > 100)) newErrors.bondMaturity = "Range: 0 - 100";
+      if (params.couponRate !== undefined && (params.couponRate < 0 || params.couponRate > 1)) newErrors.couponRate = "Range: 0% - 100%";
+      if (params.faceValue !== undefined && params.faceValue <= 0) newErrors.faceValue = "Must be > 0";
+    }
+    if (params.generateBars) {
+      if (params.barSubSteps !== undefined && (params.barSubSteps < 1 || params.barSubSteps > 500)) newErrors.barSubSteps = "Range: 1 - 500";
+      if (params.dailyVolume !== undefined && params.dailyVolume <= 0) newErrors.dailyVolume = "Must be > 0";
+      if (params.generateTicks) {
+        if (params.ticksPerBar !== undefined && (params.ticksPerBar < 0 || params.ticksPerBar > 1000)) newErrors.ticksPerBar = "Range: 0 - 1000";
+        if (params.tickSize !== undefined && params.tickSize <= 0) newErrors.tickSize = "Must be > 0";
+        if (params.spreadBps !== undefined && (params.spreadBps < 0 || params.spreadBps > 1000)) newErrors.spreadBps = "Range: 0 - 1000";
+        if (params.microNoiseBps !== undefined && (params.microNoiseBps < 0 || params.microNoiseBps > 1000)) newErrors.microNoiseBps = "Range: 0 - 1000";
+      }
+    }
+    if (params.numPaths !== undefined) {
+      if (!Number.isInteger(params.numPaths) || params.numPaths < 1 || params.numPaths > 20000) newErrors.numPaths = "Whole number: 1 - 20000";
+      else if (params.numPaths * (params.timeHorizon + 1) > MAX_ENSEMBLE_CELLS) newErrors.numPaths = "Too many paths for this horizon";
+    }
     if (isMeanReverting) {
       if (params.kappa !== undefined && (params.kappa < 0 || params.kappa > 50)) newErrors.kappa = "Range: 0 - 50";
       if (params.theta !== undefined && (params.theta < -1 || params.theta > 1000)) newErrors.theta = "Unstable value";
     }
+    if (isHeston) {
+      if (params.kappaV !== undefined && (params.kappaV < 0 || params.kappaV > 50)) newErrors.kappaV = "Range: 0 - 50";
+      if (params.thetaV !== undefined && (params.thetaV < 0 || params.thetaV > 4)) newErrors.thetaV = "Range: 0 - 4";
+      if (params.xi !== undefined && (params.xi < 0 || params.xi > 5)) newErrors.xi = "Range: 0 - 5";
+      if (params.rhoSV !== undefined && (params.rhoSV < -1 || params.rhoSV > 1)) newErrors.rhoSV = "Range: -1 - 1";
+    }
+    if (isGarch) {
+      if (params.garchAlpha !== undefined && (params.garchAlpha < (isEgarch ? -1 : 0) || params.garchAlpha > 1)) newErrors.garchAlpha = isEgarch ? "Range: -1 - 1" : "Range: 0 - 1";
+      if (params.garchBeta !== undefined && (params.garchBeta < (isEgarch ? -1 : 0) || params.garchBeta >= 1)) newErrors.garchBeta = isEgarch ? "Range: -1 - 1" : "Range: 0 - 1";
+      if (params.garchGamma !== undefined && (params.garchGamma < -1 || params.garchGamma > 1)) newErrors.garchGamma = "Range: -1 - 1";
+      if (params.garchOmega !== undefined && !isEgarch && params.garchOmega < 0) newErrors.garchOmega = "Must be >= 0";
+      if (params.studentNu !== undefined && (params.studentNu <= 2 || params.studentNu > 500)) newErrors.studentNu = "Range: > 2";
+      if (params.garchOmega === undefined && garchPersistence >= 1) newErrors.garchBeta = "Non-stationary: set ω";
+    }
     if (isDerivative || isOption || isSwaption) {
-      if (params.strikePrice !== undefined && params.strikePrice <= 0) newErrors.strikePrice = "Must be > 0";
+      // Normal-vol swaptions price negative strikes
+      if (params.strikePrice !== undefined && params.strikePrice <= 0 && !isNormalVol) newErrors.strikePrice = "Must be > 0";
       if (params.expiryTime !== undefined && (params.expiryTime < 0.01 || params.expiryTime > 20)) newErrors.expiryTime = "Range: 0.01 - 20";
-      if (params.impliedVol !== undefined && (params.impliedVol < 0 || params.impliedVol > 2.0)) newErrors.impliedVol = "Range: 0 - 2.0";
+      if (isNormalVol) {
+        if (params.normalVol !== undefined && !(params.normalVol >= 0 && params.normalVol <= 0.05)) newErrors.normalVol = "Range: 0 - 0.05 (500bp)";
+      } else if (params.impliedVol !== undefined && !(params.impliedVol >= 0 && params.impliedVol <= 2.0)) newErrors.impliedVol = "Range: 0 - 2.0";
       if (params.riskFreeRate !== undefined && (params.riskFreeRate < -0.2 || params.riskFreeRate > 0.3)) newErrors.riskFreeRate = "Range: -20% to 30%";
     }
+    if (isOption) {
+      if (params.optionStyle === OptionStyle.BARRIER && params.barrierLevel !== undefined && params.barrierLevel <= 0) newErrors.barrierLevel = "Must be > 0";
+      if (params.digitalPayout !== undefined && params.digitalPayout < 0) newErrors.digitalPayout = "Must be >= 0";
+      if (params.asianFixings !== undefined && (params.asianFixings < 1 || params.asianFixings > 1000)) newErrors.asianFixings = "Range: 1 - 1000";
+      if (params.exoticPaths !== undefined && (params.exoticPaths < 2 || params.exoticPaths > 100000)) newErrors.exoticPaths = "Range: 2 - 100000";
+      if (params.treeSteps !== undefined && (params.treeSteps < 10 || params.treeSteps > 2000)) newErrors.treeSteps = "Range: 10 - 2000";
+    }
+    (params.assets ?? []).forEach(asset => {
+      const meanReverting = [ModelType.INTEREST_RATE_VASICEK, ModelType.INTEREST_RATE_CIR, ModelType.OU_PROCESS, ModelType.MACRO_INFLATION].includes(asset.modelType);
+      if (!(asset.initialValue > 0)) newErrors[`asset-${asset.id}-s0`] = "Must be > 0";
+      if (asset.mu !== undefined && !(asset.mu >= -1 && asset.mu <= 1)) newErrors[`asset-${asset.id}-mu`] = "Range: -1 - 1";
+      if (asset.sigma !== undefined && !(asset.sigma > 0 && asset.sigma <= 1.5)) newErrors[`asset-${asset.id}-sigma`] = "Range: > 0 - 1.5";
+      if (meanReverting && asset.kappa !== undefined && !(asset.kappa > 0 && asset.kappa <= 50)) newErrors[`asset-${asset.id}-kappa`] = "Range: > 0 - 50";
+      if (meanReverting && asset.theta !== undefined && !(asset.theta > 0 && Number.isFinite(asset.theta))) newErrors[`asset-${asset.id}-theta`] = "Must be > 0";
+    });
+    if (isOption) {
+      (params.portfolio ?? []).forEach(leg => {
+        if (!Number.isFinite(leg.quantity)) newErrors[`leg-${leg.id}-quantity`] = "Required";
+        if (leg.type !== LegType.UNDERLYING && !(leg.strike > 0)) newErrors[`leg-${leg.id}-strike`] = "Must be > 0";
+        if (leg.type !== LegType.UNDERLYING && !(leg.expiry >= 0.01 && leg.expiry <= 20)) newErrors[`leg-${leg.id}-expiry`] = "Range: 0.01 - 20";
+      });
+    }
+    if (isOption && params.volSurfaceModel) {
+      if (params.surfaceSkew !== undefined && (params.surfaceSkew <= -1 || params.surfaceSkew >= 1)) newErrors.surfaceSkew = "Range: -1 - 1";
+      if (params.surfaceCurvature !== undefined && params.surfaceCurvature <= 0) newErrors.surfaceCurvature = "Must be > 0";
+      if (params.surfaceVolOfVol !== undefined && (params.surfaceVolOfVol < 0 || params.surfaceVolOfVol > 5)) newErrors.surfaceVolOfVol = "Range: 0 - 5";
+      if (params.surfaceMeanReversion !== undefined && (params.surfaceMeanReversion < 0 || params.surfaceMeanReversion > 50)) newErrors.surfaceMeanReversion = "Range: 0 - 50";
+      if (params.spotVolCorrelation !== undefined && (params.spotVolCorrelation < -1 || params.spotVolCorrelation > 1)) newErrors.spotVolCorrelation = "Range: -1 - 1";
+      if (params.surfaceExpiries && (params.surfaceExpiries.length === 0 || params.surfaceExpiries.some(t => !(t > 0)))) newErrors.surfaceExpiries = "Positive years";
+      if (params.surfaceMoneyness && (params.surfaceMoneyness.length < 3 || params.surfaceMoneyness.some(m => !(m > 0)))) newErrors.surfaceMoneyness = "3+ positive ratios";
+    }
+    if (isSwap || isSwaption) {
+      if (params.swapTenor !== undefined && (params.swapTenor < 0.25 || params.swapTenor > 50)) newErrors.swapTenor = "Range: 0.25 - 50";
+      if (params.notional !== undefined && params.notional <= 0) newErrors.notional = "Must be > 0";
+    }
+
+    (params.regimes ?? []).forEach((regime, k) => {
+      if (!(regime.sigma >= 0 && regime.sigma <= 1.5)) newErrors[`regime-${k}-sigma`] = "Range: 0 - 1.5";
+      if (!(regime.mu >= -1 && regime.mu <= 1)) newErrors[`regime-${k}-mu`] = "Range: -1 - 1";
+      if (isMeanReverting && !(regime.kappa >= 0 && regime.kappa <= 50)) newErrors[`regime-${k}-kappa`] = "Range: 0 - 50";
+      if (isMeanReverting && !Number.isFinite(regime.theta)) newErrors[`regime-${k}-theta`] = "Required";
+      if (!(regime.lambda >= 0 && regime.lambda <= 100)) newErrors[`regime-${k}-lambda`] = "Range: 0 - 100";
+    });
+    if (regimeTransitionError) newErrors.regimeTransition = regimeTransitionError;
+    if (isMacro && params.macroSystem === MacroSystem.STRUCTURAL) {
+      if (!(macroStructure.okunCoefficient > 0)) newErrors.okunCoefficient = "Must be > 0";
+      if (macroStructure.shockVol.length !== MACRO_VARIABLES.length || macroStructure.shockVol.some(v => !(v >= 0))) newErrors.macroShockVol = "Shock vols must be >= 0";
+    }
+    if (macroVarError) newErrors.varCoefficients = macroVarError;
+    if (isEquity && params.stochasticEarnings) {
+      if (params.earningsGrowth !== undefined && (params.earningsGrowth < -0.5 || params.earningsGrowth > 1)) newErrors.earningsGrowth = "Range: -50% - 100%";
+      if (params.earningsVol !== undefined && (params.earningsVol < 0 || params.earningsVol > 2)) newErrors.earningsVol = "Range: 0% - 200%";
+      if (params.earningsCorrelation !== undefined && (params.earningsCorrelation < -1 || params.earningsCorrelation > 1)) newErrors.earningsCorrelation = "Range: -1 - 1";
+      if (params.surpriseSigma !== undefined && (params.surpriseSigma < 0 || params.surpriseSigma > 1)) newErrors.surpriseSigma = "Range: 0% - 100%";
+      if (params.payoutRatio !== undefined && (params.payoutRatio < 0 || params.payoutRatio > 1)) newErrors.payoutRatio = "Range: 0% - 100%";
+      if (params.bookValue !== undefined && params.bookValue <= 0) newErrors.bookValue = "Must be > 0";
+      if (params.netMargin !== undefined && (params.netMargin <= 0 || params.netMargin > 1)) newErrors.netMargin = "Range: 0% - 100%";
+    }
+    (params.events ?? []).forEach((event, k) => {
+      if (!parseIsoDate(event.date)) newErrors[`event-${k}-date`] = "Invalid date";
+      if (event.jumpSigma !== undefined && !(event.jumpSigma >= 0)) newErrors[`event-${k}-jumpSigma`] = "Must be >= 0";
+    });
 
     setErrors(newErrors);
-  }, [params, isMeanReverting]);
+  }, [params, isMeanReverting, isHeston, isGarch, isEgarch, garchPersistence, session, hasCurveChoice, hasBondPricing, isSwap, isNormalVol, isOption, isEquity, isMacro, regimeTransitionError, macroVarError]);
 
   const hasErrors = Object.values(errors).some(e => e !== null && e !== undefined);
 
@@ -400,6 +863,10 @@ const ModelControls: React.FC<ModelControlsProps> = ({
           <option value={ModelType.INTEREST_RATE_VASICEK}>Vasicek (Linear Rate)</option>
           <option value={ModelType.INTEREST_RATE_CIR}>CIR (Positivity Rate)</option>
           <option value={ModelType.MACRO_INFLATION}>Macro (Structural)</option>
+          <option value={ModelType.HESTON}>Heston (Stochastic Vol)</option>
+          <option value={ModelType.GARCH}>GARCH(1,1) (Clustering)</option>
+          <option value={ModelType.GJR_GARCH}>GJR-GARCH (Asymmetric)</option>
+          <option value={ModelType.EGARCH}>EGARCH (Log-Variance)</option>
         </select>
 
         {/* Dynamic Model Insight Card */}
@@ -426,12 +893,80 @@ const ModelControls: React.FC<ModelControlsProps> = ({
       <div className="pt-4 border-t border-slate-100 dark:border-slate-800">
         <div className="flex items-center justify-between mb-3">
           <label className={labelClass}>Cross-Factor Correlation Matrix</label>
-          <Tooltip text="Visualize the relationship between the primary asset and market factors. Diagonals represent perfect self-correlation (1.0)." />
+          <Tooltip text="Click any off-diagonal cell to edit it. Editing switches to joint simulation, where every listed asset is simulated with Cholesky-correlated shocks. Diagonals represent perfect self-correlation (1.0)." />
         </div>
         
         {/* Heatmap Visualizer */}
-        <CorrelationMatrix correlations={params.correlations || {}} />
+        <CorrelationMatrix factors={matrixFactors} matrix={correlationMatrix} onCellChange={handleMatrixCellChange} />
 
+        {isJoint ? (
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <h5 className="text-[9px] font-bold text-slate-400 uppercase tracking-widest">Jointly Simulated Assets</h5>
+              <div className="flex gap-1">
+                <button onClick={addJointAsset} className="px-2 py-0.5 text-[9px] font-bold rounded bg-indigo-50 dark:bg-indigo-900/30 text-indigo-600 dark:text-indigo-400 hover:bg-indigo-100 dark:hover:bg-indigo-900/50 transition-colors">+ Asset</button>
+                <button onClick={() => onParamChange({ assets: undefined, correlationMatrix: undefined })} className="px-2 py-0.5 text-[9px] font-bold rounded bg-slate-100 dark:bg-slate-800 text-slate-500 hover:bg-slate-200 dark:hover:bg-slate-700 transition-colors">Single Asset</button>
+              </div>
+            </div>
+            {jointAssets.map((asset, k) => {
+              const assetMeanReverting = [ModelType.INTEREST_RATE_VASICEK, ModelType.INTEREST_RATE_CIR, ModelType.OU_PROCESS, ModelType.MACRO_INFLATION].includes(asset.modelType);
+              return (
+                <div key={asset.id} className="p-3 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-lg shadow-sm space-y-2">
+                  <div className="flex items-center gap-2">
+                    <input className={inputClass(`asset-${asset.id}-label`)} value={asset.label} onChange={(e) => updateJointAsset(k, { label: e.target.value })} />
+                    <button onClick={() => removeJointAsset(k)} title="Remove asset" className="p-1.5 rounded text-slate-400 hover:text-rose-500 hover:bg-rose-50 dark:hover:bg-rose-900/20 transition-colors">
+                      <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" /></svg>
+                    </button>
+                  </div>
+                  <div className="grid grid-cols-2 gap-2">
+                    <select className={inputClass(`asset-${asset.id}-model`)} value={asset.modelType} onChange={(e) => updateJointAsset(k, { modelType: e.target.value as ModelType })}>
+                      <option value={ModelType.EQUITY_GBM}>GBM</option>
+                      <option value={ModelType.EQUITY_MERTON_JUMP}>Merton</option>
+                      <option value={ModelType.OU_PROCESS}>OU</option>
+                      <option value={ModelType.INTEREST_RATE_VASICEK}>Vasicek</option>
+                      <option value={ModelType.INTEREST_RATE_CIR}>CIR</option>
+                      <option value={ModelType.MACRO_INFLATION}>Macro</option>
+                    </select>
+                    <select className={inputClass(`asset-${asset.id}-class`)} value={asset.assetClass} onChange={(e) => updateJointAsset(k, { assetClass: e.target.value as AssetClass })}>
+                      {Object.values(AssetClass).map(ac => <option key={ac} value={ac}>{ac.replace(/_/g, ' ')}</option>)}
+                    </select>
+                  </div>
+                  <div className="grid grid-cols-3 gap-2">
+                    <div>
+                      <label className={labelClass}>S₀</label>
+                      <input type="number" className={inputClass(`asset-${asset.id}-s0`)} value={asset.initialValue} onChange={(e) => updateJointAssetNumber(k, 'initialValue', e.target.value)} />
+                      <ErrorMsg field={`asset-${asset.id}-s0`} />
+                    </div>
+                    <div>
+                      <label className={labelClass}>μ</label>
+                      <input type="number" step="0.01" className={inputClass(`asset-${asset.id}-mu`)} value={asset.mu ?? 0.05} onChange={(e) => updateJointAssetNumber(k, 'mu', e.target.value)} />
+                      <ErrorMsg field={`asset-${asset.id}-mu`} />
+                    </div>
+                    <div>
+                      <label className={labelClass}>σ</label>
+                      <input type="number" step="0.01" className={inputClass(`asset-${asset.id}-sigma`)} value={asset.sigma ?? 0.2} onChange={(e) => updateJointAssetNumber(k, 'sigma', e.target.value)} />
+                      <ErrorMsg field={`asset-${asset.id}-sigma`} />
+                    </div>
+                  </div>
+                  {assetMeanReverting && (
+                    <div className="grid grid-cols-2 gap-2">
+                      <div>
+                        <label className={labelClass}>κ</label>
+                        <input type="number" step="0.1" className={inputClass(`asset-${asset.id}-kappa`)} value={asset.kappa ?? 2.0} onChange={(e) => updateJointAssetNumber(k, 'kappa', e.target.value)} />
+                        <ErrorMsg field={`asset-${asset.id}-kappa`} />
+                      </div>
+                      <div>
+                        <label className={labelClass}>θ</label>
+                        <input type="number" step="0.001" className={inputClass(`asset-${asset.id}-theta`)} value={asset.theta ?? 0.05} onChange={(e) => updateJointAssetNumber(k, 'theta', e.target.value)} />
+                        <ErrorMsg field={`asset-${asset.id}-theta`} />
+                      </div>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        ) : (
         <div className="grid grid-cols-2 gap-3">
           {[
             { id: 'equity', label: 'Equity Index', icon: '📈' },
@@ -471,6 +1006,7 @@ const ModelControls: React.FC<ModelControlsProps> = ({
             );
           })}
         </div>
+        )}
       </div>
 
       {/* Domain Specific Factors UI */}
@@ -498,6 +1034,35 @@ const ModelControls: React.FC<ModelControlsProps> = ({
                 <Tooltip text="Directly impacts the synthesized yield path and credit-risk component." />
                 <input type="number" step="0.0001" className={inputClass('cdsSpread')} value={params.cdsSpread || 0} onChange={(e) => onParamChange({ cdsSpread: parseFloat(e.target.value) })} />
               </div>
+              {hasBondPricing && (
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className={labelClass}>Bond Maturity (Y)</label>
+                    <Tooltip text="Bullet bond maturing this many years after the start date, priced each step from closed-form affine zero-coupon bonds on the simulated short rate." />
+                    <input type="number" step="0.5" min="0.1" className={inputClass('bondMaturity')} value={params.bondMaturity ?? 10} onChange={(e) => onParamChange({ bondMaturity: parseFloat(e.target.value) })} />
+                    <ErrorMsg field="bondMaturity" />
+                  </div>
+                  <div>
+                    <label className={labelClass}>Coupon (%)</label>
+                    <input type="number" step="0.25" min="0" className={inputClass('couponRate')} value={+((params.couponRate ?? 0.04) * 100).toFixed(4)} onChange={(e) => onParamChange({ couponRate: parseFloat(e.target.value) / 100 })} />
+                    <ErrorMsg field="couponRate" />
+                  </div>
+                  <div>
+                    <label className={labelClass}>Coupons / Year</label>
+                    <select className={inputClass('couponFrequency')} value={params.couponFrequency ?? 2} onChange={(e) => onParamChange({ couponFrequency: parseInt(e.target.value) })}>
+                      <option value={1}>Annual</option>
+                      <option value={2}>Semi-annual</option>
+                      <option value={4}>Quarterly</option>
+                      <option value={12}>Monthly</option>
+                    </select>
+                  </div>
+                  <div>
+                    <label className={labelClass}>Face Value</label>
+                    <input type="number" step="100" min="1" className={inputClass('faceValue')} value={params.faceValue ?? 100} onChange={(e) => onParamChange({ faceValue: parseFloat(e.target.value) })} />
+                    <ErrorMsg field="faceValue" />
+                  </div>
+                </div>
+              )}
             </div>
           )}
 
@@ -528,6 +1093,70 @@ const ModelControls: React.FC<ModelControlsProps> = ({
             </div>
           )}
 
+          {hasCurveChoice && (
+            <div className="space-y-4 p-3 bg-slate-50 dark:bg-slate-900/50 rounded-lg border border-slate-100 dark:border-slate-800">
+              <h5 className="text-[9px] font-bold text-slate-400 uppercase tracking-widest">Yield Curve</h5>
+              <div>
+                <label className={labelClass}>Term Structure Model</label>
+                <Tooltip text="Simulates a full curve alongside the path: zero rates, discount factors and par swap rates at 3M-30Y. NSS evolves level/slope/curvature factors; the Gaussian model prices bonds off a multi-factor short rate (G2++)." />
+                <select className={inputClass('curveModel')} value={params.curveModel ?? ''} onChange={(e) => handleCurveModelChange(e.target.value === '' ? undefined : e.target.value as CurveModel)}>
+                  <option value="">None (Single Rate)</option>
+                  <option value={CurveModel.NSS}>Nelson-Siegel-Svensson</option>
+                  <option value={CurveModel.GAUSSIAN_SHORT_RATE}>Two-Factor Gaussian (G2++)</option>
+                </select>
+              </div>
+              {params.curveModel && (
+                <>
+                  <div>
+                    <div className="grid grid-cols-5 gap-1 text-[8px] font-bold text-slate-400 uppercase mb-1">
+                      <span>Factor</span><span>x₀</span><span>κ</span><span>θ</span><span>σ</span>
+                    </div>
+                    {curveFactors.map((f, i) => (
+                      <div key={i} className="grid grid-cols-5 gap-1 mb-1 items-center">
+                        <span className="text-[9px] font-bold text-slate-500 dark:text-slate-400 truncate">{CURVE_FACTOR_LABELS[params.curveModel!][i] ?? `F${i + 1}`}</span>
+                        {(['initial', 'kappa', 'theta', 'sigma'] as (keyof CurveFactorSpec)[]).map(key => (
+                          <input
+                            key={key}
+                            type="number"
+                            step={key === 'kappa' ? 0.1 : 0.001}
+                            className="w-full px-1.5 py-1 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded text-[10px] font-mono text-slate-900 dark:text-slate-100 focus:outline-none focus:ring-1 focus:ring-indigo-500"
+                            value={f[key]}
+                            onChange={(e) => handleCurveFactorChange(i, key, parseFloat(e.target.value))}
+                          />
+                        ))}
+                      </div>
+                    ))}
+                    <ErrorMsg field="curveFactors" />
+                  </div>
+                  {params.curveModel === CurveModel.NSS && (
+                    <div className="grid grid-cols-2 gap-4">
+                      <div>
+                        <label className={labelClass}>τ₁ (Years)</label>
+                        <Tooltip text="Decay of the slope and first curvature loadings; the first hump peaks near this maturity." />
+                        <input type="number" step="0.1" min="0.01" className={inputClass('nssTau1')} value={params.nssTau1 ?? 2} onChange={(e) => onParamChange({ nssTau1: parseFloat(e.target.value) })} />
+                        <ErrorMsg field="nssTau1" />
+                      </div>
+                      <div>
+                        <label className={labelClass}>τ₂ (Years)</label>
+                        <Tooltip text="Decay of the second curvature loading, usually longer than τ₁." />
+                        <input type="number" step="0.1" min="0.01" className={inputClass('nssTau2')} value={params.nssTau2 ?? 8} onChange={(e) => onParamChange({ nssTau2: parseFloat(e.target.value) })} />
+                      </div>
+                    </div>
+                  )}
+                  <CorrelationMatrix
+                    title="Factor Shock Correlation"
+                    factors={curveFactors.map((_, i) => {
+                      const name = CURVE_FACTOR_LABELS[params.curveModel!][i] ?? `Factor ${i + 1}`;
+                      return { id: `curve-${i}`, label: name.split(' ')[0], name };
+                    })}
+                    matrix={curveCorrelation}
+                    onCellChange={handleCurveCorrelationChange}
+                  />
+                </>
+              )}
+            </div>
+          )}
+
           {isCommodity && (
             <div className="grid grid-cols-2 gap-4">
               <div>
@@ -549,6 +1178,96 @@ const ModelControls: React.FC<ModelControlsProps> = ({
             </div>
           )}
 
+          {isMacro && (
+            <div className="space-y-4 p-3 bg-slate-50 dark:bg-slate-900/50 rounded-lg border border-slate-100 dark:border-slate-800">
+              <h5 className="text-[9px] font-bold text-slate-400 uppercase tracking-widest">Joint Macro System</h5>
+              <div>
+                <label className={labelClass}>Engine</label>
+                <Tooltip text="Moves policy rate, inflation, unemployment, GDP growth and TFP growth together and exports all five. This run's asset class picks the displayed series and starts at S₀; the others start at their long-run means. The selected model's own parameters are not used." />
+                <select className={inputClass('macroSystem')} value={params.macroSystem ?? "off"} onChange={(e) => onParamChange({ macroSystem: e.target.value === "off" ? undefined : e.target.value as MacroSystem })}>
+                  <option value="off">Off (Single Series)</option>
+                  <option value={MacroSystem.STRUCTURAL}>Structural (Taylor + Phillips + Okun)</option>
+                  <option value={MacroSystem.VAR}>VAR(p)</option>
+                </select>
+              </div>
+              {params.macroSystem === MacroSystem.STRUCTURAL && (
+                <>
+                  <div className="grid grid-cols-3 gap-2">
+                    {MACRO_STRUCTURE_FIELDS.map(f => (
+                      <div key={f.key}>
+                        <label className="block text-[8px] font-bold text-slate-400 uppercase tracking-widest mb-0.5 truncate">{f.label}</label>
+                        <input type="number" step={f.step} className={cellInputClass(f.key)} value={macroStructure[f.key]} onChange={(e) => updateMacroStructure({ [f.key]: parseFloat(e.target.value) })} />
+                      </div>
+                    ))}
+                  </div>
+                  <ErrorMsg field="okunCoefficient" />
+                  <div>
+                    <label className={labelClass}>Annual Shock σ</label>
+                    <div className="grid grid-cols-5 gap-1">
+                      {MACRO_VARIABLES.map((v, k) => (
+                        <div key={v}>
+                          <div className="text-[8px] font-extrabold text-slate-400 text-center">{MACRO_SYMBOLS[k]}</div>
+                          <input type="number" step="0.05" min="0" className={`${cellInputClass('macroShockVol')} text-center`} value={macroStructure.shockVol[k]} onChange={(e) => updateMacroStructure({ shockVol: macroStructure.shockVol.map((x, j) => (j === k ? parseFloat(e.target.value) : x)) })} />
+                        </div>
+                      ))}
+                    </div>
+                    <ErrorMsg field="macroShockVol" />
+                  </div>
+                </>
+              )}
+              {params.macroSystem === MacroSystem.VAR && (
+                <>
+                  <div className="flex items-end gap-2">
+                    <div className="flex-1">
+                      <label className={labelClass}>Lags (p)</label>
+                      <Tooltip text="One VAR period per step, so match the sampling frequency to the coefficients. Rows are equations, columns the lagged variables." />
+                      <select className={inputClass('varLags')} value={macroVar.coefficients.length} onChange={(e) => setVarLags(parseInt(e.target.value))}>
+                        {Array.from({ length: MAX_VAR_LAGS }, (_, l) => <option key={l} value={l + 1}>{l + 1}</option>)}
+                      </select>
+                    </div>
+                    <button onClick={seedVarFromStructure} className="px-2 py-2 text-[9px] font-bold rounded bg-indigo-50 dark:bg-indigo-900/30 text-indigo-600 dark:text-indigo-400 hover:bg-indigo-100 dark:hover:bg-indigo-900/50 transition-colors uppercase">Seed From Structural</button>
+                  </div>
+                  {macroVar.coefficients.map((A, lag) => (
+                    <div key={lag}>
+                      <label className={labelClass}>A{lag + 1}</label>
+                      <div className="grid grid-cols-6 gap-1">
+                        <div></div>
+                        {MACRO_SYMBOLS.map(sym => <div key={sym} className="text-[8px] font-extrabold text-slate-400 text-center">{sym}<sub>t-{lag + 1}</sub></div>)}
+                        {A.map((row, i) => (
+                          <React.Fragment key={i}>
+                            <div className="text-[8px] font-extrabold text-slate-400 flex items-center justify-end pr-1">{MACRO_SYMBOLS[i]}</div>
+                            {row.map((a, j) => (
+                              <input key={j} type="number" step="0.01" className={`${cellInputClass('varCoefficients')} text-center`} value={+a.toFixed(6)} onChange={(e) => handleVarCoefficientChange(lag, i, j, parseFloat(e.target.value))} />
+                            ))}
+                          </React.Fragment>
+                        ))}
+                      </div>
+                    </div>
+                  ))}
+                  <div className="grid grid-cols-6 gap-1">
+                    <div></div>
+                    {MACRO_SYMBOLS.map(sym => <div key={sym} className="text-[8px] font-extrabold text-slate-400 text-center">{sym}</div>)}
+                    <div className="text-[8px] font-extrabold text-slate-400 flex items-center justify-end pr-1">c</div>
+                    {macroVar.intercept.map((c, k) => (
+                      <input key={k} type="number" step="0.01" className={`${cellInputClass('varCoefficients')} text-center`} value={+c.toFixed(6)} onChange={(e) => onParamChange({ varIntercept: macroVar.intercept.map((x, j) => (j === k ? parseFloat(e.target.value) : x)) })} />
+                    ))}
+                    <div className="text-[8px] font-extrabold text-slate-400 flex items-center justify-end pr-1">σ</div>
+                    {macroVar.shockVol.map((v, k) => (
+                      <input key={k} type="number" step="0.01" min="0" className={`${cellInputClass('varCoefficients')} text-center`} value={+v.toFixed(6)} onChange={(e) => onParamChange({ varShockVol: macroVar.shockVol.map((x, j) => (j === k ? parseFloat(e.target.value) : x)) })} />
+                    ))}
+                  </div>
+                  <ErrorMsg field="varCoefficients" />
+                  {macroVarStats && (
+                    <p className={`text-[9px] font-mono ${macroVarStats.radius >= 1 ? 'text-amber-500' : 'text-slate-400'}`}>
+                      spectral radius {macroVarStats.radius.toFixed(4)}{macroVarStats.radius >= 1 ? ' · not stationary, the panel will drift or explode' : ''}
+                      {macroVarStats.mean && macroVarStats.radius < 1 && <> · long-run {MACRO_VARIABLES.map((v, k) => `${MACRO_LABELS[v]} ${macroVarStats.mean![k].toFixed(2)}`).join(', ')}</>}
+                    </p>
+                  )}
+                </>
+              )}
+            </div>
+          )}
+
           {(isOption || isSwaption) && (
             <div className="space-y-4">
               <div className="grid grid-cols-2 gap-4">
@@ -565,12 +1284,85 @@ const ModelControls: React.FC<ModelControlsProps> = ({
                     </select>
                   </div>
               </div>
-              <div>
+              {isOption && (
+                <div>
+                  <label className={labelClass}>Option Style</label>
+                  <Tooltip text="Exotic values and Greeks are repriced at every step from the path so far; Greeks are bump-and-reprice estimates." />
+                  <select className={inputClass('optionStyle')} value={params.optionStyle ?? OptionStyle.EUROPEAN} onChange={(e) => onParamChange({ optionStyle: e.target.value as OptionStyle })}>
+                    <option value={OptionStyle.EUROPEAN}>European</option>
+                    <option value={OptionStyle.AMERICAN}>American (Binomial)</option>
+                    <option value={OptionStyle.BARRIER}>Barrier</option>
+                    <option value={OptionStyle.ASIAN}>Asian (Arithmetic, MC)</option>
+                    <option value={OptionStyle.DIGITAL}>Digital (Cash-or-Nothing)</option>
+                    <option value={OptionStyle.LOOKBACK}>Lookback (Floating Strike)</option>
+                  </select>
+                </div>
+              )}
+              {isOption && params.optionStyle === OptionStyle.BARRIER && (
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className={labelClass}>Barrier</label>
+                    <Tooltip text="Observed at every simulated point; pricing shifts the barrier to account for discrete monitoring." />
+                    <input type="number" step="1" className={inputClass('barrierLevel')} value={params.barrierLevel ?? (params.strikePrice || 100) * 1.2} onChange={(e) => onParamChange({ barrierLevel: parseFloat(e.target.value) })} />
+                    <ErrorMsg field="barrierLevel" />
+                  </div>
+                  <div>
+                    <label className={labelClass}>Barrier Type</label>
+                    <select className={inputClass('barrierType')} value={params.barrierType ?? BarrierType.UP_AND_OUT} onChange={(e) => onParamChange({ barrierType: e.target.value as BarrierType })}>
+                      <option value={BarrierType.UP_AND_OUT}>Up & Out</option>
+                      <option value={BarrierType.UP_AND_IN}>Up & In</option>
+                      <option value={BarrierType.DOWN_AND_OUT}>Down & Out</option>
+                      <option value={BarrierType.DOWN_AND_IN}>Down & In</option>
+                    </select>
+                  </div>
+                </div>
+              )}
+              {isOption && params.optionStyle === OptionStyle.ASIAN && (
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className={labelClass}>Fixings</label>
+                    <Tooltip text="Equally spaced averaging dates from the start of the run to expiry." />
+                    <input type="number" step="1" min="1" className={inputClass('asianFixings')} value={params.asianFixings ?? 52} onChange={(e) => onParamChange({ asianFixings: parseInt(e.target.value) })} />
+                    <ErrorMsg field="asianFixings" />
+                  </div>
+                  <div>
+                    <label className={labelClass}>MC Paths</label>
+                    <Tooltip text="Antithetic paths per valuation. Each step simulates paths × remaining fixings once, shared by every ensemble path; each path then costs one payoff per MC path per step, so thousands of MC paths on a large ensemble take seconds." />
+                    <input type="number" step="100" min="2" className={inputClass('exoticPaths')} value={params.exoticPaths ?? 1000} onChange={(e) => onParamChange({ exoticPaths: parseInt(e.target.value) })} />
+                    <ErrorMsg field="exoticPaths" />
+                  </div>
+                </div>
+              )}
+              {isOption && params.optionStyle === OptionStyle.AMERICAN && (
+                <div>
+                  <label className={labelClass}>Tree Steps</label>
+                  <Tooltip text="CRR tree steps. The displayed path builds a tree at every step plus seven bumped trees for Greeks, so cost grows with steps²; ensemble paths read values off one shared tree instead." />
+                  <input type="number" step="10" min="10" className={inputClass('treeSteps')} value={params.treeSteps ?? 100} onChange={(e) => onParamChange({ treeSteps: parseInt(e.target.value) })} />
+                  <ErrorMsg field="treeSteps" />
+                </div>
+              )}
+              {isOption && params.optionStyle === OptionStyle.DIGITAL && (
+                <div>
+                  <label className={labelClass}>Cash Payout</label>
+                  <input type="number" step="1" min="0" className={inputClass('digitalPayout')} value={params.digitalPayout ?? 1} onChange={(e) => onParamChange({ digitalPayout: parseFloat(e.target.value) })} />
+                  <ErrorMsg field="digitalPayout" />
+                </div>
+              )}
+              {isNormalVol ? (
+                <div>
+                  <label className={labelClass}>Normal Volatility (σ_N)</label>
+                  <Tooltip text="Absolute volatility of the forward swap rate, e.g. 0.008 = 80bp per year. Directly drives VEGA risk." />
+                  <input type="number" step="0.0005" className={inputClass('normalVol')} value={params.normalVol ?? DEFAULT_NORMAL_VOL} onChange={(e) => onParamChange({ normalVol: parseFloat(e.target.value) })} />
+                  <ErrorMsg field="normalVol" />
+                </div>
+              ) : (
+                <div>
                   <label className={labelClass}>Implied Volatility (σ_IV)</label>
-                  <Tooltip text="The volatility input for Black-Scholes pricing. Directly drives VEGA risk." />
-                  <input type="number" step="0.01" className={inputClass('impliedVol')} value={params.impliedVol || params.sigma} onChange={(e) => onParamChange({ impliedVol: parseFloat(e.target.value) })} />
+                  <Tooltip text="The lognormal volatility input for Black-Scholes and Black pricing. Directly drives VEGA risk." />
+                  <input type="number" step="0.01" className={inputClass('impliedVol')} value={params.impliedVol ?? 0.2} onChange={(e) => onParamChange({ impliedVol: parseFloat(e.target.value) })} />
                   <ErrorMsg field="impliedVol" />
-              </div>
+                </div>
+              )}
               <div>
                   <label className={labelClass}>Expiry (Years)</label>
                   <Tooltip text="Time to maturity. Drives THETA decay and RHO sensitivity." />
@@ -580,6 +1372,203 @@ const ModelControls: React.FC<ModelControlsProps> = ({
             </div>
           )}
 
+          {isOption && (
+            <div className="space-y-3 p-3 bg-slate-50 dark:bg-slate-900/50 rounded-lg border border-slate-100 dark:border-slate-800">
+              <div className="flex items-center justify-between">
+                <h5 className="text-[9px] font-bold text-slate-400 uppercase tracking-widest">Strategy Legs</h5>
+                <div className="flex gap-1">
+                  <button onClick={addLeg} className="px-2 py-0.5 text-[9px] font-bold rounded bg-indigo-50 dark:bg-indigo-900/30 text-indigo-600 dark:text-indigo-400 hover:bg-indigo-100 dark:hover:bg-indigo-900/50 transition-colors">+ Leg</button>
+                  {portfolio.length > 0 && (
+                    <button onClick={() => onParamChange({ portfolio: undefined })} className="px-2 py-0.5 text-[9px] font-bold rounded bg-slate-100 dark:bg-slate-800 text-slate-500 hover:bg-slate-200 dark:hover:bg-slate-700 transition-colors">Single Option</button>
+                  )}
+                </div>
+              </div>
+              <div>
+                <label className={labelClass}>Preset</label>
+                <Tooltip text="Builds the legs around the strike and expiry above. A book replaces the single option: the series is the summed position value, with summed Greeks." />
+                <select className={inputClass('strategyPreset')} value="" onChange={(e) => applyStrategy(e.target.value)}>
+                  <option value="">Choose a strategy…</option>
+                  {STRATEGY_PRESETS.map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+                </select>
+              </div>
+              {portfolio.map((leg, k) => (
+                <div key={leg.id} className="p-2 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-lg shadow-sm space-y-2">
+                  <div className="flex items-center gap-2">
+                    <select className={inputClass(`leg-${leg.id}-type`)} value={leg.type} onChange={(e) => updateLeg(k, { type: e.target.value as LegType })}>
+                      <option value={LegType.CALL}>Call</option>
+                      <option value={LegType.PUT}>Put</option>
+                      <option value={LegType.UNDERLYING}>Underlying</option>
+                    </select>
+                    {leg.type !== LegType.UNDERLYING && (
+                      <select className={inputClass(`leg-${leg.id}-style`)} value={leg.style ?? OptionStyle.EUROPEAN} onChange={(e) => updateLeg(k, { style: e.target.value as OptionStyle })}>
+                        {Object.values(OptionStyle).map(style => <option key={style} value={style}>{style.charAt(0) + style.slice(1).toLowerCase()}</option>)}
+                      </select>
+                    )}
+                    <button onClick={() => removeLeg(k)} title="Remove leg" className="p-1.5 rounded text-slate-400 hover:text-rose-500 hover:bg-rose-50 dark:hover:bg-rose-900/20 transition-colors">
+                      <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" /></svg>
+                    </button>
+                  </div>
+                  <div className="grid grid-cols-3 gap-2">
+                    <div>
+                      <label className={labelClass}>Qty</label>
+                      <input type="number" step="1" className={inputClass(`leg-${leg.id}-quantity`)} value={leg.quantity} onChange={(e) => updateLeg(k, { quantity: parseFloat(e.target.value) })} />
+                      <ErrorMsg field={`leg-${leg.id}-quantity`} />
+                    </div>
+                    {leg.type !== LegType.UNDERLYING && (
+                      <>
+                        <div>
+                          <label className={labelClass}>K</label>
+                          <input type="number" step="1" className={inputClass(`leg-${leg.id}-strike`)} value={leg.strike} onChange={(e) => updateLeg(k, { strike: parseFloat(e.target.value) })} />
+                          <ErrorMsg field={`leg-${leg.id}-strike`} />
+                        </div>
+                        <div>
+                          <label className={labelClass}>T (y)</label>
+                          <input type="number" step="0.1" className={inputClass(`leg-${leg.id}-expiry`)} value={leg.expiry} onChange={(e) => updateLeg(k, { expiry: parseFloat(e.target.value) })} />
+                          <ErrorMsg field={`leg-${leg.id}-expiry`} />
+                        </div>
+                      </>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {isOption && (
+            <div className="space-y-4 p-3 bg-slate-50 dark:bg-slate-900/50 rounded-lg border border-slate-100 dark:border-slate-800">
+              <h5 className="text-[9px] font-bold text-slate-400 uppercase tracking-widest">Implied Vol Surface</h5>
+              <div>
+                <label className={labelClass}>Smile Model</label>
+                <Tooltip text="Prices the option off a moving smile instead of a flat implied vol. The ATM level starts at σ_IV; skew and curvature mean-revert to the values below." />
+                <select className={inputClass('volSurfaceModel')} value={params.volSurfaceModel ?? ''} onChange={(e) => onParamChange({ volSurfaceModel: (e.target.value || undefined) as VolSurfaceModel | undefined, surfaceCurvature: undefined })}>
+                  <option value="">Off (flat σ_IV)</option>
+                  <option value={VolSurfaceModel.SVI}>SSVI</option>
+                  <option value={VolSurfaceModel.SABR}>SABR (β = 1)</option>
+                </select>
+              </div>
+              {params.volSurfaceModel && (
+                <>
+                  <div className="grid grid-cols-2 gap-4">
+                    <div>
+                      <label className={labelClass}>Skew (ρ)</label>
+                      <Tooltip text="Negative values make downside strikes trade at higher vols, as in equity indices." />
+                      <input type="number" step="0.05" className={inputClass('surfaceSkew')} value={params.surfaceSkew ?? -0.4} onChange={(e) => onParamChange({ surfaceSkew: parseFloat(e.target.value) })} />
+                      <ErrorMsg field="surfaceSkew" />
+                    </div>
+                    <div>
+                      <label className={labelClass}>{params.volSurfaceModel === VolSurfaceModel.SABR ? 'Vol of Vol (ν)' : 'Curvature (η)'}</label>
+                      <Tooltip text={params.volSurfaceModel === VolSurfaceModel.SABR ? "SABR vol-of-vol: lifts both wings of the smile." : "SSVI curvature. Above 2/√(1+|ρ|) the smile admits butterfly arbitrage."} />
+                      <input type="number" step="0.05" className={inputClass('surfaceCurvature')} value={params.surfaceCurvature ?? DEFAULT_SURFACE_CURVATURE[params.volSurfaceModel]} onChange={(e) => onParamChange({ surfaceCurvature: parseFloat(e.target.value) })} />
+                      <ErrorMsg field="surfaceCurvature" />
+                    </div>
+                    <div>
+                      <label className={labelClass}>ATM Vol of Vol</label>
+                      <Tooltip text="Volatility of log ATM vol. Skew and curvature move at half this rate." />
+                      <input type="number" step="0.1" className={inputClass('surfaceVolOfVol')} value={params.surfaceVolOfVol ?? 0.8} onChange={(e) => onParamChange({ surfaceVolOfVol: parseFloat(e.target.value) })} />
+                      <ErrorMsg field="surfaceVolOfVol" />
+                    </div>
+                    <div>
+                      <label className={labelClass}>Reversion (κ)</label>
+                      <input type="number" step="0.5" className={inputClass('surfaceMeanReversion')} value={params.surfaceMeanReversion ?? 3} onChange={(e) => onParamChange({ surfaceMeanReversion: parseFloat(e.target.value) })} />
+                      <ErrorMsg field="surfaceMeanReversion" />
+                    </div>
+                  </div>
+                  <div>
+                    <label className={labelClass}>Spot-Vol Correlation</label>
+                    <Tooltip text="Correlation of ATM vol shocks with spot shocks. Negative values raise vols as the underlying falls." />
+                    <input type="number" step="0.05" className={inputClass('spotVolCorrelation')} value={params.spotVolCorrelation ?? -0.6} onChange={(e) => onParamChange({ spotVolCorrelation: parseFloat(e.target.value) })} />
+                    <ErrorMsg field="spotVolCorrelation" />
+                  </div>
+                  <div>
+                    <label className={labelClass}>Expiries (Years)</label>
+                    <input
+                      type="text"
+                      className={inputClass('surfaceExpiries')}
+                      value={expiryDraft}
+                      onChange={(e) => setExpiryDraft(e.target.value)}
+                      onBlur={() => onParamChange({ surfaceExpiries: parseList(expiryDraft) })}
+                    />
+                    <ErrorMsg field="surfaceExpiries" />
+                  </div>
+                  <div>
+                    <label className={labelClass}>Moneyness (K / F)</label>
+                    <input
+                      type="text"
+                      className={inputClass('surfaceMoneyness')}
+                      value={moneynessDraft}
+                      onChange={(e) => setMoneynessDraft(e.target.value)}
+                      onBlur={() => onParamChange({ surfaceMoneyness: parseList(moneynessDraft) })}
+                    />
+                    <ErrorMsg field="surfaceMoneyness" />
+                  </div>
+                </>
+              )}
+            </div>
+          )}
+
+          {(isSwap || isSwaption) && (
+            <div className="space-y-4 p-3 bg-slate-50 dark:bg-slate-900/50 rounded-lg border border-slate-100 dark:border-slate-800">
+              <h5 className="text-[9px] font-bold text-slate-400 uppercase tracking-widest">{isSwaption ? 'Underlying Swap' : 'Swap Terms'}</h5>
+              {isSwap && (
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className={labelClass}>Fixed Rate (%)</label>
+                    <input type="number" step="0.05" className={inputClass('strikePrice')} value={+((params.strikePrice || 30) / 10).toFixed(4)} onChange={(e) => onParamChange({ strikePrice: parseFloat(e.target.value) * 10 })} />
+                    <ErrorMsg field="strikePrice" />
+                  </div>
+                  <div>
+                    <label className={labelClass}>Direction</label>
+                    <select className={inputClass('isCall')} value={(params.isCall ?? true) ? "payer" : "receiver"} onChange={(e) => onParamChange({ isCall: e.target.value === "payer" })}>
+                      <option value="payer">Pay Fixed</option>
+                      <option value="receiver">Receive Fixed</option>
+                    </select>
+                  </div>
+                </div>
+              )}
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className={labelClass}>Tenor (Years)</label>
+                  <Tooltip text={isSwaption ? "Length of the swap entered at expiry. Sets the annuity that scales the swaption price." : "Swap maturity from the start date."} />
+                  <input type="number" step="1" min="0.25" className={inputClass('swapTenor')} value={params.swapTenor ?? 5} onChange={(e) => onParamChange({ swapTenor: parseFloat(e.target.value) })} />
+                  <ErrorMsg field="swapTenor" />
+                </div>
+                <div>
+                  <label className={labelClass}>Payments / Year</label>
+                  <select className={inputClass('paymentFrequency')} value={params.paymentFrequency ?? 2} onChange={(e) => onParamChange({ paymentFrequency: parseInt(e.target.value) })}>
+                    <option value={1}>Annual</option>
+                    <option value={2}>Semi-annual</option>
+                    <option value={4}>Quarterly</option>
+                    <option value={12}>Monthly</option>
+                  </select>
+                </div>
+                <div>
+                  <label className={labelClass}>Notional</label>
+                  <Tooltip text="Values are for the full notional; Greeks are reported per unit notional." />
+                  <input type="number" step="100000" min="1" className={inputClass('notional')} value={params.notional ?? DEFAULT_NOTIONAL} onChange={(e) => onParamChange({ notional: parseFloat(e.target.value) })} />
+                  <ErrorMsg field="notional" />
+                </div>
+                <div>
+                  <label className={labelClass}>Day Count</label>
+                  <select className={inputClass('dayCount')} value={params.dayCount ?? DayCount.ACT_360} onChange={(e) => onParamChange({ dayCount: e.target.value as DayCount })}>
+                    <option value={DayCount.ACT_360}>ACT/360</option>
+                    <option value={DayCount.ACT_365}>ACT/365F</option>
+                    <option value={DayCount.THIRTY_360}>30/360</option>
+                  </select>
+                </div>
+              </div>
+              {isSwaption && (
+                <div>
+                  <label className={labelClass}>Vol Model</label>
+                  <Tooltip text="Black quotes lognormal vols and needs positive rates. Bachelier quotes normal vols and prices negative forwards and strikes." />
+                  <select className={inputClass('swaptionVolModel')} value={params.swaptionVolModel ?? SwaptionVolModel.BLACK} onChange={(e) => onParamChange({ swaptionVolModel: e.target.value as SwaptionVolModel })}>
+                    <option value={SwaptionVolModel.BLACK}>Black (Lognormal)</option>
+                    <option value={SwaptionVolModel.BACHELIER}>Bachelier (Normal)</option>
+                  </select>
+                </div>
+              )}
+            </div>
+          )}
+
           {isDerivative && (
             <div>
               <label className={labelClass}>Risk-Free Rate (r)</label>
@@ -607,6 +1596,89 @@ const ModelControls: React.FC<ModelControlsProps> = ({
                 <Tooltip text="Expected Earnings Per Share. Directly influences the fundamental valuation component." />
                 <input type="number" step="0.01" className={inputClass('expectedEarnings')} value={params.expectedEarnings || 5.0} onChange={(e) => onParamChange({ expectedEarnings: parseFloat(e.target.value) })} />
               </div>
+              <div className="space-y-4 p-3 bg-slate-50 dark:bg-slate-900/50 rounded-lg border border-slate-100 dark:border-slate-800">
+                <h5 className="text-[9px] font-bold text-slate-400 uppercase tracking-widest">Fundamentals</h5>
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className={labelClass}>Stochastic EPS</label>
+                    <Tooltip text="Latent EPS follows its own lognormal process, correlated with price. Reported EPS steps on quarterly report dates with a surprise against consensus, and the price reacts to it. Off: EPS grows smoothly at the growth rate." />
+                    <select className={inputClass('stochasticEarnings')} value={params.stochasticEarnings ? "on" : "off"} onChange={(e) => onParamChange({ stochasticEarnings: e.target.value === "on" })}>
+                      <option value="off">Off</option>
+                      <option value="on">On</option>
+                    </select>
+                  </div>
+                  <div>
+                    <label className={labelClass}>EPS Growth (%)</label>
+                    <input type="number" step="0.5" className={inputClass('earningsGrowth')} value={+((params.earningsGrowth ?? DEFAULT_FUNDAMENTALS.earningsGrowth) * 100).toFixed(4)} onChange={(e) => onParamChange({ earningsGrowth: parseFloat(e.target.value) / 100 })} />
+                    <ErrorMsg field="earningsGrowth" />
+                  </div>
+                </div>
+                {params.stochasticEarnings && (
+                  <>
+                    <div className="grid grid-cols-2 gap-4">
+                      <div>
+                        <label className={labelClass}>EPS Vol (%)</label>
+                        <input type="number" step="1" className={inputClass('earningsVol')} value={+((params.earningsVol ?? DEFAULT_FUNDAMENTALS.earningsVol) * 100).toFixed(4)} onChange={(e) => onParamChange({ earningsVol: parseFloat(e.target.value) / 100 })} />
+                        <ErrorMsg field="earningsVol" />
+                      </div>
+                      <div>
+                        <label className={labelClass}>EPS-Price ρ</label>
+                        <Tooltip text="Correlation between latent EPS shocks and price shocks." />
+                        <input type="number" step="0.05" className={inputClass('earningsCorrelation')} value={params.earningsCorrelation ?? DEFAULT_FUNDAMENTALS.earningsCorrelation} onChange={(e) => onParamChange({ earningsCorrelation: parseFloat(e.target.value) })} />
+                        <ErrorMsg field="earningsCorrelation" />
+                      </div>
+                    </div>
+                    <div className="grid grid-cols-2 gap-4">
+                      <div>
+                        <label className={labelClass}>Surprise σ (%)</label>
+                        <Tooltip text="Std of reported EPS over consensus. Consensus resets to each report." />
+                        <input type="number" step="0.5" className={inputClass('surpriseSigma')} value={+((params.surpriseSigma ?? DEFAULT_FUNDAMENTALS.surpriseSigma) * 100).toFixed(4)} onChange={(e) => onParamChange({ surpriseSigma: parseFloat(e.target.value) / 100 })} />
+                        <ErrorMsg field="surpriseSigma" />
+                      </div>
+                      <div>
+                        <label className={labelClass}>Price Reaction</label>
+                        <Tooltip text="Log price move per unit of surprise: at 2, a 1% beat lifts the price about 2% on the report date." />
+                        <input type="number" step="0.5" className={inputClass('surpriseReaction')} value={params.surpriseReaction ?? DEFAULT_FUNDAMENTALS.surpriseReaction} onChange={(e) => onParamChange({ surpriseReaction: parseFloat(e.target.value) })} />
+                      </div>
+                    </div>
+                    <div>
+                      <label className={labelClass}>Extra Series</label>
+                      <div className="flex flex-wrap gap-1">
+                        {Object.values(FundamentalSeries).map(series => (
+                          <button
+                            key={series}
+                            onClick={() => toggleFundamentalSeries(series)}
+                            className={`px-2 py-0.5 text-[9px] font-bold rounded uppercase transition-all ${fundamentalSeries.includes(series) ? 'bg-indigo-600 text-white' : 'bg-slate-100 dark:bg-slate-800 text-slate-500 hover:bg-slate-200 dark:hover:bg-slate-700'}`}
+                          >
+                            {FUNDAMENTAL_SERIES_LABELS[series]}
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                    {fundamentalSeries.length > 0 && (
+                      <div className="grid grid-cols-3 gap-2">
+                        <div>
+                          <label className={labelClass}>Payout (%)</label>
+                          <Tooltip text="Share of EPS paid as dividends; the rest is retained into book value." />
+                          <input type="number" step="5" className={inputClass('payoutRatio')} value={+((params.payoutRatio ?? DEFAULT_FUNDAMENTALS.payoutRatio) * 100).toFixed(4)} onChange={(e) => onParamChange({ payoutRatio: parseFloat(e.target.value) / 100 })} />
+                          <ErrorMsg field="payoutRatio" />
+                        </div>
+                        <div>
+                          <label className={labelClass}>Book / Sh</label>
+                          <input type="number" step="1" className={inputClass('bookValue')} value={params.bookValue ?? +(params.initialValue / 3).toFixed(2)} onChange={(e) => onParamChange({ bookValue: parseFloat(e.target.value) })} />
+                          <ErrorMsg field="bookValue" />
+                        </div>
+                        <div>
+                          <label className={labelClass}>Margin (%)</label>
+                          <Tooltip text="Average net margin; revenue is reported EPS over a margin redrawn at each report." />
+                          <input type="number" step="1" className={inputClass('netMargin')} value={+((params.netMargin ?? DEFAULT_FUNDAMENTALS.netMargin) * 100).toFixed(4)} onChange={(e) => onParamChange({ netMargin: parseFloat(e.target.value) / 100 })} />
+                          <ErrorMsg field="netMargin" />
+                        </div>
+                      </div>
+                    )}
+                  </>
+                )}
+              </div>
             </div>
           )}
         </div>
@@ -639,13 +1711,202 @@ const ModelControls: React.FC<ModelControlsProps> = ({
             <ErrorMsg field="mu" />
           </div>
           <div>
-             <label className={labelClass}>Horizon (Days)</label>
-             <Tooltip text="Simulation path length in trading days." />
+             <label className={labelClass}>Horizon ({HORIZON_UNITS[frequency]})</label>
+             <Tooltip text="Simulation path length in steps of the sampling frequency." />
              <input type="number" step="1" className={inputClass('timeHorizon')} value={params.timeHorizon} onChange={(e) => onParamChange({ timeHorizon: parseInt(e.target.value) })} />
              <ErrorMsg field="timeHorizon" />
           </div>
         </div>
 
+        {/* Calendar & Sampling */}
+        <div className="space-y-4 p-3 bg-slate-50 dark:bg-slate-900/50 rounded-lg border border-slate-100 dark:border-slate-800">
+          <h5 className="text-[9px] font-bold text-slate-400 uppercase tracking-widest">Calendar & Sampling</h5>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className={labelClass}>Start Date</label>
+              <Tooltip text="First timestamp. Rolls forward to the next business day (or period end) of the calendar." />
+              <input type="date" className={inputClass('startDate')} value={params.startDate ?? ''} onChange={(e) => onParamChange({ startDate: e.target.value || undefined })} />
+              <ErrorMsg field="startDate" />
+            </div>
+            <div>
+              <label className={labelClass}>Calendar</label>
+              <Tooltip text="Business days for timestamps and time-to-expiry accrual. Weekends are always skipped." />
+              <select className={inputClass('calendar')} value={calendar} onChange={(e) => handleScheduleChange({ calendar: e.target.value as MarketCalendar })}>
+                <option value={MarketCalendar.WEEKDAYS}>Weekdays Only</option>
+                <option value={MarketCalendar.NYSE}>NYSE</option>
+                <option value={MarketCalendar.TARGET}>TARGET (Euro)</option>
+                <option value={MarketCalendar.LSE}>LSE</option>
+                <option value={MarketCalendar.CUSTOM}>Custom Holidays</option>
+              </select>
+            </div>
+          </div>
+          {calendar === MarketCalendar.CUSTOM && (
+            <div>
+              <label className={labelClass}>Holidays</label>
+              <Tooltip text="Comma or newline separated ISO dates (YYYY-MM-DD)." />
+              <textarea
+                rows={2}
+                className={inputClass('customHolidays')}
+                placeholder="2025-12-25, 2026-01-01"
+                value={holidayDraft}
+                onChange={(e) => setHolidayDraft(e.target.value)}
+                onBlur={() => onParamChange({ customHolidays: holidayDraft.split(/[\s,;]+/).filter(Boolean) })}
+              />
+              <ErrorMsg field="customHolidays" />
+            </div>
+          )}
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className={labelClass}>Frequency</label>
+              <Tooltip text="Sampling interval. Sets dt: 1/252 per business day, 5/252 weekly, 21/252 monthly, or the session split into bars." />
+              <select className={inputClass('frequency')} value={frequency} onChange={(e) => handleScheduleChange({ frequency: e.target.value as SamplingFrequency })}>
+                <option value={SamplingFrequency.INTRADAY}>Intraday</option>
+                <option value={SamplingFrequency.DAILY}>Daily</option>
+                <option value={SamplingFrequency.WEEKLY}>Weekly</option>
+                <option value={SamplingFrequency.MONTHLY}>Monthly</option>
+              </select>
+            </div>
+            {frequency === SamplingFrequency.INTRADAY && (
+              <div>
+                <label className={labelClass}>Bar (Minutes)</label>
+                <Tooltip text={`Bar length within the ${Math.floor(session.open / 60)}:${String(session.open % 60).padStart(2, '0')}-${Math.floor(session.close / 60)}:${String(session.close % 60).padStart(2, '0')} exchange-local session.`} />
+                <input type="number" step="1" min="1" className={inputClass('intradayMinutes')} value={params.intradayMinutes ?? 5} onChange={(e) => handleScheduleChange({ intradayMinutes: parseInt(e.target.value) })} />
+                <ErrorMsg field="intradayMinutes" />
+              </div>
+            )}
+          </div>
+        </div>
+
+        {/* Bars & Microstructure */}
+        <div className="space-y-4 p-3 bg-slate-50 dark:bg-slate-900/50 rounded-lg border border-slate-100 dark:border-slate-800">
+          <h5 className="text-[9px] font-bold text-slate-400 uppercase tracking-widest">Bars & Microstructure</h5>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className={labelClass}>OHLCV Bars</label>
+              <Tooltip text="Fill each step with a Brownian bridge pinned to the simulated points and record open/high/low/close and volume of the underlying." />
+              <select className={inputClass('generateBars')} value={params.generateBars ? "on" : "off"} onChange={(e) => onParamChange({ generateBars: e.target.value === "on" })}>
+                <option value="off">Off</option>
+                <option value="on">On</option>
+              </select>
+            </div>
+            {params.generateBars && (
+              <div>
+                <label className={labelClass}>Bridge Sub-steps</label>
+                <Tooltip text="Grid points of the intra-bar bridge. More sub-steps widen high/low towards their continuous-time values." />
+                <input type="number" step="1" min="1" className={inputClass('barSubSteps')} value={params.barSubSteps ?? 20} onChange={(e) => onParamChange({ barSubSteps: parseInt(e.target.value) })} />
+                <ErrorMsg field="barSubSteps" />
+              </div>
+            )}
+          </div>
+          {params.generateBars && (
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className={labelClass}>Daily Volume</label>
+                <Tooltip text="Expected volume per business day, split across bars by time (and by the intraday profile). Larger moves trade more." />
+                <input type="number" step="100000" min="1" className={inputClass('dailyVolume')} value={params.dailyVolume ?? 1000000} onChange={(e) => onParamChange({ dailyVolume: parseFloat(e.target.value) })} />
+                <ErrorMsg field="dailyVolume" />
+              </div>
+              {frequency === SamplingFrequency.INTRADAY && (
+                <div>
+                  <label className={labelClass}>Tick Stream</label>
+                  <Tooltip text="Poisson trades inside each bar with bid/ask quotes on the tick grid and microstructure noise on the mid." />
+                  <select className={inputClass('generateTicks')} value={params.generateTicks ? "on" : "off"} onChange={(e) => onParamChange({ generateTicks: e.target.value === "on" })}>
+                    <option value="off">Off</option>
+                    <option value="on">On</option>
+                  </select>
+                </div>
+              )}
+            </div>
+          )}
+          {frequency === SamplingFrequency.INTRADAY && (
+            <div>
+              <div className="flex justify-between items-center">
+                <label className={labelClass}>Intraday U-Shape</label>
+                <span className="text-[10px] font-mono text-slate-500">{(params.intradayUShape ?? 0.4).toFixed(2)}</span>
+              </div>
+              <Tooltip text="Scales variance and volume over the session so open and close are busier than midday. The daily totals are unchanged; 0 is flat, 0.5 makes the ends 4x midday." />
+              <input type="range" min="0" max="0.5" step="0.05" className="w-full accent-indigo-600 h-1.5 bg-slate-200 dark:bg-slate-700 rounded-lg appearance-none cursor-pointer mt-1" value={params.intradayUShape ?? 0.4} onChange={(e) => onParamChange({ intradayUShape: parseFloat(e.target.value) })} />
+            </div>
+          )}
+          {params.generateBars && params.generateTicks && frequency === SamplingFrequency.INTRADAY && (
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className={labelClass}>Ticks / Bar</label>
+                <Tooltip text="Mean number of trades in an average bar; busier bars get proportionally more." />
+                <input type="number" step="1" min="0" className={inputClass('ticksPerBar')} value={params.ticksPerBar ?? 20} onChange={(e) => onParamChange({ ticksPerBar: parseFloat(e.target.value) })} />
+                <ErrorMsg field="ticksPerBar" />
+              </div>
+              <div>
+                <label className={labelClass}>Tick Size</label>
+                <Tooltip text="Price grid for bid and ask quotes." />
+                <input type="number" step="0.01" min="0" className={inputClass('tickSize')} value={params.tickSize ?? 0.01} onChange={(e) => onParamChange({ tickSize: parseFloat(e.target.value) })} />
+                <ErrorMsg field="tickSize" />
+              </div>
+              <div>
+                <label className={labelClass}>Spread (bps)</label>
+                <Tooltip text="Quoted bid/ask spread around the noisy mid, widened to at least one tick." />
+                <input type="number" step="1" min="0" className={inputClass('spreadBps')} value={params.spreadBps ?? 5} onChange={(e) => onParamChange({ spreadBps: parseFloat(e.target.value) })} />
+                <ErrorMsg field="spreadBps" />
+              </div>
+              <div>
+                <label className={labelClass}>Noise (bps)</label>
+                <Tooltip text="Std of i.i.d. microstructure noise added to the efficient price at each trade." />
+                <input type="number" step="0.5" min="0" className={inputClass('microNoiseBps')} value={params.microNoiseBps ?? 2} onChange={(e) => onParamChange({ microNoiseBps: parseFloat(e.target.value) })} />
+                <ErrorMsg field="microNoiseBps" />
+              </div>
+            </div>
+          )}
+        </div>
+
+        <div>
+          <label className={labelClass}>Monte Carlo Paths</label>
+          <Tooltip text="Number of independent paths simulated from the same parameters. Above 1, the chart shows a 5/25/50/75/95 percentile fan." />
+          <input type="number" step="100" min="1" className={inputClass('numPaths')} value={params.numPaths ?? 1} onChange={(e) => onParamChange({ numPaths: parseInt(e.target.value) })} />
+          <ErrorMsg field="numPaths" />
+        </div>
+
+        {hasSchemeChoice && (
+          <div>
+            <label className={labelClass}>Discretization Scheme</label>
+            <Tooltip text={isLogNormal
+              ? "Log-Euler (the default) samples the exact lognormal step. Euler and Milstein step the price level and carry dt-dependent bias."
+              : "Exact samples the true transition density (Gaussian for OU/Vasicek, noncentral chi-square for CIR) at any dt. Euler is the default; CIR uses full truncation."} />
+            <select className={inputClass('scheme')} value={params.scheme ?? ''} onChange={(e) => onParamChange({ scheme: e.target.value === '' ? undefined : e.target.value as DiscretizationScheme })}>
+              <option value="">Model Default ({isLogNormal ? 'Log-Euler' : 'Euler'})</option>
+              <option value={DiscretizationScheme.EULER}>Euler-Maruyama</option>
+              <option value={DiscretizationScheme.MILSTEIN}>Milstein</option>
+              <option value={DiscretizationScheme.EXACT}>Exact Transition</option>
+              <option value={DiscretizationScheme.LOG_EULER}>Log-Euler</option>
+            </select>
+          </div>
+        )}
+
+        <div>
+          <label className={labelClass}>Random Seed</label>
+          <Tooltip text="Pin a seed to regenerate the exact same path. Leave empty to draw a fresh seed on every run." />
+          <div className="flex gap-2">
+            <input
+              type="number"
+              step="1"
+              placeholder="Random each run"
+              className={inputClass('seed')}
+              value={params.seed ?? ''}
+              onChange={(e) => {
+                // Blank or partial entries ("-") leave the seed unpinned rather than wrapping NaN to 0
+                const seed = parseInt(e.target.value);
+                onParamChange({ seed: Number.isNaN(seed) ? undefined : seed >>> 0 });
+              }}
+            />
+            <button
+              onClick={() => onParamChange({ seed: generateSeed() })}
+              title="Pin a new random seed"
+              className="px-2.5 rounded-md bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-700 text-xs font-bold transition-colors"
+            >
+              🎲
+            </button>
+          </div>
+        </div>
+
         <div>
            <label className={labelClass}>Drift (μ) Visual Check</label>
            <div className="flex items-center gap-3">
@@ -673,6 +1934,94 @@ const ModelControls: React.FC<ModelControlsProps> = ({
           </div>
         )}
 
+        {/* Heston κ_v, θ_v, ξ, ρ_sv */}
+        {isHeston && (
+          <div className="space-y-4 p-3 bg-indigo-50/30 dark:bg-indigo-900/10 rounded-lg border border-indigo-100 dark:border-indigo-800 animate-in fade-in slide-in-from-top-1">
+             <div className="flex items-center justify-between">
+               <h5 className="text-[9px] font-bold text-indigo-500 dark:text-indigo-400 uppercase tracking-widest">Stochastic Volatility Parameters</h5>
+               <span className={`text-[8px] font-bold px-1.5 py-0.5 rounded ${fellerSatisfied ? 'bg-emerald-50 dark:bg-emerald-900/30 text-emerald-600 dark:text-emerald-400' : 'bg-amber-50 dark:bg-amber-900/30 text-amber-600 dark:text-amber-400'}`}>
+                 {fellerSatisfied ? 'FELLER OK' : 'FELLER VIOLATED'}
+               </span>
+             </div>
+             <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className={labelClass}>Var. Speed (κ_v)</label>
+                  <Tooltip text="Speed at which variance reverts to its long-run level." />
+                  <input type="number" step="0.1" className={inputClass('kappaV')} value={params.kappaV ?? 2.0} onChange={(e) => onParamChange({ kappaV: parseFloat(e.target.value) })} />
+                  <ErrorMsg field="kappaV" />
+                </div>
+                <div>
+                  <label className={labelClass}>Long-Run Var (θ_v)</label>
+                  <Tooltip text="Long-run variance. 0.04 corresponds to 20% volatility. Initial variance is Realized σ squared." />
+                  <input type="number" step="0.005" className={inputClass('thetaV')} value={params.thetaV ?? 0.04} onChange={(e) => onParamChange({ thetaV: parseFloat(e.target.value) })} />
+                  <ErrorMsg field="thetaV" />
+                </div>
+             </div>
+             <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className={labelClass}>Vol of Vol (ξ)</label>
+                  <Tooltip text="Volatility of the variance process. Higher values fatten the tails and steepen the smile." />
+                  <input type="number" step="0.05" className={inputClass('xi')} value={params.xi ?? 0.3} onChange={(e) => onParamChange({ xi: parseFloat(e.target.value) })} />
+                  <ErrorMsg field="xi" />
+                </div>
+                <div>
+                  <label className={labelClass}>Spot-Vol ρ_sv</label>
+                  <Tooltip text="Correlation between price and variance shocks. Negative values produce the leverage effect." />
+                  <input type="number" step="0.05" className={inputClass('rhoSV')} value={params.rhoSV ?? -0.7} onChange={(e) => onParamChange({ rhoSV: parseFloat(e.target.value) })} />
+                  <ErrorMsg field="rhoSV" />
+                </div>
+             </div>
+          </div>
+        )}
+
+        {/* GARCH ω, α, β, γ, ν */}
+        {isGarch && (
+          <div className="space-y-4 p-3 bg-indigo-50/30 dark:bg-indigo-900/10 rounded-lg border border-indigo-100 dark:border-indigo-800 animate-in fade-in slide-in-from-top-1">
+             <div className="flex items-center justify-between">
+               <h5 className="text-[9px] font-bold text-indigo-500 dark:text-indigo-400 uppercase tracking-widest">Conditional Variance Parameters</h5>
+               <span className={`text-[8px] font-bold px-1.5 py-0.5 rounded ${garchPersistence < 1 ? 'bg-emerald-50 dark:bg-emerald-900/30 text-emerald-600 dark:text-emerald-400' : 'bg-amber-50 dark:bg-amber-900/30 text-amber-600 dark:text-amber-400'}`}>
+                 PERSISTENCE {garchPersistence.toFixed(3)}
+               </span>
+             </div>
+             <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className={labelClass}>Shock Loading (α)</label>
+                  <Tooltip text={isEgarch ? "Response of log-variance to the size of the standardized shock." : "Weight on last period's squared shock."} />
+                  <input type="number" step="0.01" className={inputClass('garchAlpha')} value={params.garchAlpha ?? 0.05} onChange={(e) => onParamChange({ garchAlpha: parseFloat(e.target.value) })} />
+                  <ErrorMsg field="garchAlpha" />
+                </div>
+                <div>
+                  <label className={labelClass}>Persistence (β)</label>
+                  <Tooltip text={isEgarch ? "Autoregressive weight on last period's log-variance." : "Weight on last period's conditional variance."} />
+                  <input type="number" step="0.01" className={inputClass('garchBeta')} value={params.garchBeta ?? 0.9} onChange={(e) => onParamChange({ garchBeta: parseFloat(e.target.value) })} />
+                  <ErrorMsg field="garchBeta" />
+                </div>
+             </div>
+             <div className="grid grid-cols-2 gap-4">
+                {params.modelType !== ModelType.GARCH && (
+                  <div>
+                    <label className={labelClass}>Leverage (γ)</label>
+                    <Tooltip text={isEgarch ? "Sign effect on log-variance. Negative values raise volatility after down moves." : "Extra loading on negative shocks."} />
+                    <input type="number" step="0.01" className={inputClass('garchGamma')} value={params.garchGamma ?? defaultGarchGamma} onChange={(e) => onParamChange({ garchGamma: parseFloat(e.target.value) })} />
+                    <ErrorMsg field="garchGamma" />
+                  </div>
+                )}
+                <div>
+                  <label className={labelClass}>Student-t ν</label>
+                  <Tooltip text="Degrees of freedom of the innovations. Lower values fatten the tails; large values approach the normal." />
+                  <input type="number" step="1" className={inputClass('studentNu')} value={params.studentNu ?? 8} onChange={(e) => onParamChange({ studentNu: parseFloat(e.target.value) })} />
+                  <ErrorMsg field="studentNu" />
+                </div>
+             </div>
+             <div>
+                <label className={labelClass}>Constant (ω)</label>
+                <Tooltip text="Per-step variance intercept. Leave blank to target a long-run volatility equal to Realized σ." />
+                <input type="number" step="0.000001" placeholder="Variance targeting" className={inputClass('garchOmega')} value={params.garchOmega ?? ''} onChange={(e) => onParamChange({ garchOmega: e.target.value === '' ? undefined : parseFloat(e.target.value) })} />
+                <ErrorMsg field="garchOmega" />
+             </div>
+          </div>
+        )}
+
         {/* Jump Diffusion λ, μ_j, σ_j */}
         {isMertonJump && (
           <div className="space-y-4 p-3 bg-indigo-50/30 dark:bg-indigo-900/10 rounded-lg border border-indigo-100 dark:border-indigo-800 animate-in fade-in slide-in-from-top-1">
@@ -696,6 +2045,178 @@ const ModelControls: React.FC<ModelControlsProps> = ({
              </div>
           </div>
         )}
+
+        {/* Jumps on scheduled dates */}
+        <div className="space-y-3 p-3 bg-slate-50 dark:bg-slate-900/50 rounded-lg border border-slate-100 dark:border-slate-800">
+          <div className="flex items-center justify-between">
+            <h5 className="text-[9px] font-bold text-slate-400 uppercase tracking-widest">Event Schedule</h5>
+            <div className="flex gap-1">
+              <button onClick={addEvent} className="px-2 py-0.5 text-[9px] font-bold rounded bg-indigo-50 dark:bg-indigo-900/30 text-indigo-600 dark:text-indigo-400 hover:bg-indigo-100 dark:hover:bg-indigo-900/50 transition-colors">+ Event</button>
+              {events.length > 0 && (
+                <button onClick={() => setEvents([])} className="px-2 py-0.5 text-[9px] font-bold rounded bg-slate-100 dark:bg-slate-800 text-slate-500 hover:bg-slate-200 dark:hover:bg-slate-700 transition-colors">Clear</button>
+              )}
+            </div>
+          </div>
+          {presetEventTypes.length > 0 && (
+            <div className="flex flex-wrap gap-1">
+              {presetEventTypes.map(type => (
+                <button key={type} onClick={() => addEventCalendar(type)} className="px-2 py-1 text-[8px] font-extrabold text-slate-500 dark:text-slate-400 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded hover:border-indigo-500 transition-colors uppercase">
+                  {EVENT_LABELS[type]} Calendar
+                </button>
+              ))}
+            </div>
+          )}
+          {events.length === 0 ? (
+            <p className="text-[10px] text-slate-400 dark:text-slate-500 leading-snug">
+              Jumps on known dates: earnings for equities, policy meetings for rates (25bp steps) and CPI prints for inflation. Custom events move any series.
+            </p>
+          ) : (
+            <>
+              <div className="grid grid-cols-[1fr_1fr_0.6fr_0.6fr_0.6fr_auto] gap-1 text-[8px] font-extrabold text-slate-400 uppercase">
+                <span>Date</span>
+                <span>Type</span>
+                <span>Shift</span>
+                <span>Jump μ</span>
+                <span className="flex items-center">Jump σ<Tooltip text="Move = shift + N(μ, σ²), drawn per path. A log return for prices; a level change in the series' units for rates and macro series (percent for the macro rates)." /></span>
+                <span></span>
+              </div>
+              <div className="space-y-1 max-h-64 overflow-y-auto custom-scrollbar">
+                {events.map((event, k) => (
+                  <div key={k}>
+                    <div className="grid grid-cols-[1fr_1fr_0.6fr_0.6fr_0.6fr_auto] gap-1 items-center">
+                      <input type="date" className={cellInputClass(`event-${k}-date`)} value={event.date} onChange={(e) => updateEvent(k, { date: e.target.value })} />
+                      <select className={cellInputClass(`event-${k}-type`)} value={event.type} onChange={(e) => updateEvent(k, { type: e.target.value as EventType })}>
+                        {Object.values(EventType).map(t => <option key={t} value={t}>{EVENT_LABELS[t]}</option>)}
+                      </select>
+                      <input type="number" step="0.01" className={cellInputClass(`event-${k}-shift`)} value={event.shift ?? 0} onChange={(e) => updateEvent(k, { shift: parseFloat(e.target.value) })} />
+                      <input type="number" step="0.01" className={cellInputClass(`event-${k}-jumpMu`)} value={event.jumpMu ?? 0} onChange={(e) => updateEvent(k, { jumpMu: parseFloat(e.target.value) })} />
+                      <input type="number" step="0.01" className={cellInputClass(`event-${k}-jumpSigma`)} value={event.jumpSigma ?? 0} onChange={(e) => updateEvent(k, { jumpSigma: parseFloat(e.target.value) })} />
+                      <button onClick={() => setEvents(events.filter((_, j) => j !== k))} title="Remove event" className="p-1 rounded text-slate-400 hover:text-rose-500 hover:bg-rose-50 dark:hover:bg-rose-900/20 transition-colors">
+                        <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" /></svg>
+                      </button>
+                    </div>
+                    <ErrorMsg field={`event-${k}-date`} />
+                    <ErrorMsg field={`event-${k}-jumpSigma`} />
+                    {!appliesTo(event.type, params.assetClass) && (
+                      <span className="text-[9px] font-bold text-amber-600 dark:text-amber-400">{EVENT_LABELS[event.type]} events do not move this asset class</span>
+                    )}
+                  </div>
+                ))}
+              </div>
+              <p className="text-[9px] font-mono text-slate-400">
+                {events.filter(e => appliesTo(e.type, params.assetClass) && e.date > runSpan.start && e.date <= runSpan.end).length} of {events.length} land inside {runSpan.start} → {runSpan.end}
+              </p>
+            </>
+          )}
+        </div>
+
+        {/* Markov regime switching over the selected model */}
+        <div className="space-y-3 p-3 bg-slate-50 dark:bg-slate-900/50 rounded-lg border border-slate-100 dark:border-slate-800">
+          <div className="flex items-center justify-between">
+            <h5 className="text-[9px] font-bold text-slate-400 uppercase tracking-widest">Regime Switching</h5>
+            <div className="flex gap-1">
+              {regimes.length < MAX_REGIMES && (
+                <button onClick={addRegime} className="px-2 py-0.5 text-[9px] font-bold rounded bg-indigo-50 dark:bg-indigo-900/30 text-indigo-600 dark:text-indigo-400 hover:bg-indigo-100 dark:hover:bg-indigo-900/50 transition-colors">+ Regime</button>
+              )}
+              {regimes.length > 0 && (
+                <button onClick={() => onParamChange({ regimes: undefined, regimeTransition: undefined, initialRegime: undefined })} className="px-2 py-0.5 text-[9px] font-bold rounded bg-slate-100 dark:bg-slate-800 text-slate-500 hover:bg-slate-200 dark:hover:bg-slate-700 transition-colors">Off</button>
+              )}
+            </div>
+          </div>
+          {regimes.length === 0 ? (
+            <p className="text-[10px] text-slate-400 dark:text-slate-500 leading-snug">
+              A hidden Markov chain switches the model's drift, volatility, reversion and jump intensity between regimes. Every point is labelled with its regime.
+            </p>
+          ) : (
+            <>
+              {regimes.map((regime, k) => (
+                <div key={k} className="p-2 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-lg shadow-sm space-y-2">
+                  <div className="flex items-center gap-2">
+                    <span className="text-[9px] font-mono font-bold text-slate-400">#{k}</span>
+                    <input type="text" className={inputClass(`regime-${k}-label`)} value={regime.label} onChange={(e) => updateRegime(k, { label: e.target.value })} />
+                    <button onClick={() => removeRegime(k)} title="Remove regime" className="p-1.5 rounded text-slate-400 hover:text-rose-500 hover:bg-rose-50 dark:hover:bg-rose-900/20 transition-colors">
+                      <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" /></svg>
+                    </button>
+                  </div>
+                  <div className="grid grid-cols-3 gap-2">
+                    <div>
+                      <label className={labelClass}>μ</label>
+                      <input type="number" step="0.01" className={inputClass(`regime-${k}-mu`)} value={regime.mu} onChange={(e) => updateRegime(k, { mu: parseFloat(e.target.value) })} />
+                      <ErrorMsg field={`regime-${k}-mu`} />
+                    </div>
+                    <div>
+                      <label className={labelClass}>σ</label>
+                      <input type="number" step="0.01" className={inputClass(`regime-${k}-sigma`)} value={regime.sigma} onChange={(e) => updateRegime(k, { sigma: parseFloat(e.target.value) })} />
+                      <ErrorMsg field={`regime-${k}-sigma`} />
+                    </div>
+                    <div>
+                      <label className={labelClass}>λ</label>
+                      <input type="number" step="0.5" className={inputClass(`regime-${k}-lambda`)} value={regime.lambda} onChange={(e) => updateRegime(k, { lambda: parseFloat(e.target.value) })} />
+                      <ErrorMsg field={`regime-${k}-lambda`} />
+                    </div>
+                    {isMeanReverting && (
+                      <>
+                        <div>
+                          <label className={labelClass}>κ</label>
+                          <input type="number" step="0.1" className={inputClass(`regime-${k}-kappa`)} value={regime.kappa} onChange={(e) => updateRegime(k, { kappa: parseFloat(e.target.value) })} />
+                          <ErrorMsg field={`regime-${k}-kappa`} />
+                        </div>
+                        <div>
+                          <label className={labelClass}>θ</label>
+                          <input type="number" step="0.001" className={inputClass(`regime-${k}-theta`)} value={regime.theta} onChange={(e) => updateRegime(k, { theta: parseFloat(e.target.value) })} />
+                          <ErrorMsg field={`regime-${k}-theta`} />
+                        </div>
+                      </>
+                    )}
+                  </div>
+                  {regimeStats && (
+                    <p className="text-[9px] font-mono text-slate-400">
+                      long-run {(regimeStats.stationary[k] * 100).toFixed(1)}% · {Number.isFinite(regimeStats.durations[k]) ? `${regimeStats.durations[k].toFixed(1)} steps per visit` : 'absorbing'}
+                    </p>
+                  )}
+                </div>
+              ))}
+              {regimes.length >= 2 && (
+                <>
+                  <div>
+                    <label className={labelClass}>Transition Matrix</label>
+                    <Tooltip text="Probability of moving from the row's regime to the column's over one step. Each row must sum to 1. λ only draws jumps under Merton jump diffusion; under Heston σ only sets the starting variance." />
+                    <div className="grid gap-1" style={{ gridTemplateColumns: `repeat(${regimes.length + 1}, minmax(0, 1fr))` }}>
+                      <div></div>
+                      {regimes.map((r, j) => (
+                        <div key={`col-${j}`} className="text-[8px] font-extrabold text-slate-400 uppercase text-center truncate">{r.label || `#${j}`}</div>
+                      ))}
+                      {regimeTransition.map((row, i) => (
+                        <React.Fragment key={`row-${i}`}>
+                          <div className="text-[8px] font-extrabold text-slate-400 uppercase flex items-center justify-end pr-1 truncate">{regimes[i].label || `#${i}`}</div>
+                          {row.map((p, j) => (
+                            <input
+                              key={`${i}-${j}`}
+                              type="number"
+                              step="0.01"
+                              min="0"
+                              max="1"
+                              className={`${cellInputClass('regimeTransition')} text-center`}
+                              value={p}
+                              onChange={(e) => handleTransitionChange(i, j, parseFloat(e.target.value))}
+                            />
+                          ))}
+                        </React.Fragment>
+                      ))}
+                    </div>
+                    <ErrorMsg field="regimeTransition" />
+                  </div>
+                  <div>
+                    <label className={labelClass}>Initial Regime</label>
+                    <select className={inputClass('initialRegime')} value={params.initialRegime ?? 0} onChange={(e) => onParamChange({ initialRegime: parseInt(e.target.value) })}>
+                      {regimes.map((r, k) => <option key={k} value={k}>{r.label || `#${k}`}</option>)}
+                    </select>
+                  </div>
+                </>
+              )}
+            </>
+          )}
+        </div>
       </div>
 
       <button
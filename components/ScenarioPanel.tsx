@@ -0,0 +1,153 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend, ReferenceLine } from 'recharts';
+import { AssetClass, ScenarioFactor, ScenarioMode, SynthesisResult } from '../types';
+import { applyScenario, HISTORICAL_SCENARIOS, SCENARIO_LIBRARY_VERSION, scenarioFactorFor, scenarioLength, scenarioTag, terminalMoves } from '../services/scenarioLibrary';
+import { convertToCSV, downloadFile } from '../services/synthesisEngine';
+
+interface ScenarioPanelProps {
+  result: SynthesisResult;
+  isDark: boolean;
+}
+
+const FACTOR_UNITS: Record<ScenarioFactor, string> = {
+  [ScenarioFactor.EQUITY]: '%',
+  [ScenarioFactor.RATES]: 'bp',
+  [ScenarioFactor.VOL]: ' pts',
+  [ScenarioFactor.FX]: '%'
+};
+
+const formatMove = (factor: ScenarioFactor, v: number) =>
+  `${v >= 0 ? '+' : ''}${factor === ScenarioFactor.RATES ? v.toFixed(0) : v.toFixed(1)}${FACTOR_UNITS[factor]}`;
+
+const ScenarioPanel: React.FC<ScenarioPanelProps> = ({ result, isDark }) => {
+  const { data, parameters, seed } = result;
+  const [scenarioId, setScenarioId] = useState(HISTORICAL_SCENARIOS[0].id);
+  const [mode, setMode] = useState<ScenarioMode>(ScenarioMode.OVERLAY);
+  const [startIndex, setStartIndex] = useState(0);
+
+  useEffect(() => {
+    setMode(ScenarioMode.OVERLAY);
+    setStartIndex(0);
+  }, [data]);
+
+  const scenario = HISTORICAL_SCENARIOS.find(s => s.id === scenarioId) ?? HISTORICAL_SCENARIOS[0];
+  const factor = scenarioFactorFor(parameters.assetClass);
+  const isDerivative = [AssetClass.OPTION, AssetClass.SWAP, AssetClass.SWAPTION].includes(parameters.assetClass);
+  const replay = useMemo(() => applyScenario(result, scenario, mode, startIndex), [result, scenario, mode, startIndex]);
+
+  const chartData = useMemo(() => data.map((d, i) => ({
+    timestamp: d.timestamp,
+    base: d.value,
+    stressed: replay.data[i].value
+  })), [data, replay]);
+
+  const diffs = replay.data.map((d, i) => d.value - data[i].value);
+  const terminalImpact = diffs[diffs.length - 1];
+  const worstImpact = Math.min(...diffs);
+  const terminal = terminalMoves(scenario);
+
+  const exportStressed = () => {
+    const csv = convertToCSV(replay.data, { seed, parameters, scenario: scenarioTag(scenario, mode, startIndex) });
+    downloadFile(csv, `quantsynth_${scenario.id}_${Date.now()}.csv`, 'text/csv');
+  };
+
+  const gridColor = isDark ? "#1e293b" : "#f1f5f9";
+  const axisColor = isDark ? "#475569" : "#94a3b8";
+  const tooltipBg = isDark ? "rgba(15, 23, 42, 0.95)" : "rgba(255, 255, 255, 0.95)";
+  const tooltipBorder = isDark ? "#334155" : "#e2e8f0";
+
+  return (
+    <div className="bg-white dark:bg-slate-900 p-6 rounded-xl border border-slate-200 dark:border-slate-800 shadow-sm transition-colors">
+      <div className="flex flex-col md:flex-row md:items-center justify-between mb-4 gap-3">
+        <div>
+          <h3 className="font-bold text-slate-800 dark:text-slate-100 uppercase tracking-wider text-xs">Historical Scenario Replay</h3>
+          <p className="text-[10px] text-slate-400 dark:text-slate-500 font-medium">
+            Library v{SCENARIO_LIBRARY_VERSION} · the {factor?.toLowerCase()} factor drives this run{isDerivative && <> · values {replay.repriced ? 'fully revalued' : 'from the Taylor estimate'} under the joint shock</>}
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <div className="flex gap-1">
+            {[ScenarioMode.OVERLAY, ScenarioMode.TERMINAL].map(m => (
+              <button
+                key={m}
+                onClick={() => { setMode(m); setStartIndex(m === ScenarioMode.TERMINAL ? data.length - 1 : 0); }}
+                className={`px-2 py-0.5 text-[9px] font-bold rounded uppercase transition-all ${mode === m ? 'bg-indigo-600 text-white' : 'bg-slate-100 dark:bg-slate-800 text-slate-500 hover:bg-slate-200 dark:hover:bg-slate-700'}`}
+              >
+                {m === ScenarioMode.OVERLAY ? 'Path Overlay' : 'Terminal Shock'}
+              </button>
+            ))}
+          </div>
+          <button
+            onClick={exportStressed}
+            className="px-2.5 py-1 text-[9px] font-bold text-slate-600 dark:text-slate-300 bg-slate-100 dark:bg-slate-800 hover:bg-slate-200 dark:hover:bg-slate-700 rounded-md transition-colors uppercase"
+          >
+            Export Stressed CSV
+          </button>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-1.5 mb-3">
+        {HISTORICAL_SCENARIOS.map(s => (
+          <button
+            key={s.id}
+            onClick={() => setScenarioId(s.id)}
+            className={`px-2 py-1 text-[8px] font-extrabold rounded border transition-colors uppercase ${s.id === scenario.id ? 'bg-indigo-600 text-white border-indigo-500' : 'text-slate-500 dark:text-slate-400 bg-slate-100 dark:bg-slate-800 border-slate-200 dark:border-slate-700 hover:border-indigo-500'}`}
+          >
+            {s.name}
+          </button>
+        ))}
+      </div>
+      <p className="text-[10px] text-slate-500 dark:text-slate-400 mb-4">
+        <span className="font-mono font-bold">{scenario.start} → {scenario.end}</span> · {scenarioLength(scenario)} business days · rev {scenario.revision} · {scenario.description}
+      </p>
+
+      <div className="grid grid-cols-2 md:grid-cols-6 gap-3 mb-4">
+        {Object.values(ScenarioFactor).map(f => (
+          <div key={f} className={`p-2 rounded-lg ${f === factor ? 'bg-indigo-50 dark:bg-indigo-900/20' : 'bg-slate-50 dark:bg-slate-800/50'}`}>
+            <p className="text-[8px] font-bold text-slate-400 uppercase tracking-widest">{f === ScenarioFactor.FX ? scenario.fxPair : f.toLowerCase()}</p>
+            <p className="text-xs font-mono font-bold text-slate-800 dark:text-slate-100">{formatMove(f, terminal[f])}</p>
+          </div>
+        ))}
+        <div className="p-2 rounded-lg bg-slate-50 dark:bg-slate-800/50">
+          <p className="text-[8px] font-bold text-slate-400 uppercase tracking-widest">Terminal Impact</p>
+          <p className={`text-xs font-mono font-bold ${terminalImpact >= 0 ? 'text-emerald-500' : 'text-rose-500'}`}>{terminalImpact >= 0 ? '+' : ''}{terminalImpact.toFixed(4)}</p>
+        </div>
+        <div className="p-2 rounded-lg bg-slate-50 dark:bg-slate-800/50">
+          <p className="text-[8px] font-bold text-slate-400 uppercase tracking-widest">Worst Impact</p>
+          <p className={`text-xs font-mono font-bold ${worstImpact >= 0 ? 'text-emerald-500' : 'text-rose-500'}`}>{worstImpact >= 0 ? '+' : ''}{worstImpact.toFixed(4)}</p>
+        </div>
+      </div>
+
+      <div className="flex items-center gap-3 mb-3">
+        <span className="text-[9px] font-bold text-slate-400 uppercase tracking-widest whitespace-nowrap">{mode === ScenarioMode.OVERLAY ? 'Episode Starts' : 'Shock At'}</span>
+        <input
+          type="range"
+          min={0}
+          max={data.length - 1}
+          step={1}
+          value={startIndex}
+          onChange={(e) => setStartIndex(parseInt(e.target.value))}
+          className="w-full h-2 bg-slate-200 dark:bg-slate-700 rounded-lg appearance-none cursor-pointer accent-indigo-600"
+        />
+        <span className="text-[10px] font-mono text-slate-500 dark:text-slate-400 whitespace-nowrap">{data[startIndex]?.timestamp}</span>
+      </div>
+
+      <div className="h-[220px] w-full">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={chartData} syncId="quantSync">
+            <CartesianGrid strokeDasharray="3 3" vertical={false} stroke={gridColor} />
+            <XAxis dataKey="timestamp" hide />
+            <YAxis tick={{fontSize: 9, fill: axisColor}} axisLine={false} tickLine={false} domain={['auto', 'auto']} width={50} />
+            <Tooltip contentStyle={{ borderRadius: '8px', border: `1px solid ${tooltipBorder}`, backgroundColor: tooltipBg, fontSize: '10px' }} formatter={(v: any) => Number(v).toFixed(4)} />
+            <Legend verticalAlign="top" height={24} iconType="circle" wrapperStyle={{ fontSize: '9px' }} />
+            <ReferenceLine x={data[startIndex]?.timestamp} stroke="#f59e0b" strokeDasharray="3 3" />
+            <Line type="monotone" dataKey="base" name="Simulated" stroke={axisColor} strokeWidth={1.2} dot={false} isAnimationActive={false} />
+            <Line type="monotone" dataKey="stressed" name={scenario.name} stroke="#f43f5e" strokeWidth={2} dot={false} isAnimationActive={false} />
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+};
+
+export default ScenarioPanel;
@@ -0,0 +1,178 @@
+import React, { useMemo, useState } from 'react';
+import { FactorShock, ShockFactor } from '../types';
+import { Revaluation, stressGrid, ZERO_SHOCK } from '../services/stressTesting';
+
+interface StressGridPanelProps {
+  revaluation: Revaluation;
+  presets: { id: string; label: string; values: FactorShock }[];
+  isDark: boolean;
+}
+
+type GridView = 'full' | 'taylor' | 'error';
+
+const FACTOR_LABELS: Record<ShockFactor, string> = {
+  asset: 'Spot',
+  vol: 'Vol',
+  time: 'Time',
+  rates: 'Rates'
+};
+const FACTORS = Object.keys(FACTOR_LABELS) as ShockFactor[];
+
+const signed = (v: number, digits: number = 4) => `${v >= 0 ? '+' : ''}${v.toFixed(digits)}`;
+
+const StressGridPanel: React.FC<StressGridPanelProps> = ({ revaluation, presets, isDark }) => {
+  const [base, setBase] = useState<FactorShock>(ZERO_SHOCK);
+  const [xFactor, setXFactor] = useState<ShockFactor>('asset');
+  const [yFactor, setYFactor] = useState<ShockFactor>('vol');
+  const [view, setView] = useState<GridView>('full');
+
+  const unit = (factor: ShockFactor) => {
+    if (factor === 'time') return 'd';
+    if (factor === 'vol') return revaluation.volUnit < 0.01 ? 'bp' : 'pt';
+    return factor === 'rates' ? 'pt' : '%';
+  };
+
+  const grid = useMemo(() => stressGrid(revaluation, xFactor, yFactor, base), [revaluation, xFactor, yFactor, base]);
+  const cellValue = (c: { taylor: number; full: number }) => (view === 'full' ? c.full : view === 'taylor' ? c.taylor : c.taylor - c.full);
+  const scale = Math.max(...grid.cells.flat().map(c => Math.abs(cellValue(c))), 1e-12);
+  const maxError = Math.max(...grid.cells.flat().map(c => Math.abs(c.taylor - c.full)));
+
+  const taylor = revaluation.taylor(base);
+  const full = revaluation.full!(base);
+
+  const pickAxis = (axis: 'x' | 'y', factor: ShockFactor) => {
+    // Swap the axes rather than plotting one factor against itself
+    if (axis === 'x') {
+      if (factor === yFactor) setYFactor(xFactor);
+      setXFactor(factor);
+    } else {
+      if (factor === xFactor) setXFactor(yFactor);
+      setYFactor(factor);
+    }
+  };
+
+  const cellStyle = (v: number) => {
+    const alpha = 0.1 + 0.7 * Math.min(1, Math.abs(v) / scale);
+    if (view === 'error') return { backgroundColor: `rgba(245, 158, 11, ${alpha})` };
+    return { backgroundColor: v >= 0 ? `rgba(16, 185, 129, ${alpha})` : `rgba(244, 63, 94, ${alpha})` };
+  };
+
+  const selectClass = "px-2 py-1 text-[10px] font-bold bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-md text-slate-700 dark:text-slate-200 focus:outline-none focus:ring-1 focus:ring-indigo-500";
+  const inputClass = "w-full px-2 py-1 text-[10px] font-mono bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-md text-slate-700 dark:text-slate-200 focus:outline-none focus:ring-1 focus:ring-indigo-500";
+
+  return (
+    <div className="bg-white dark:bg-slate-900 p-6 rounded-xl border border-slate-200 dark:border-slate-800 shadow-sm transition-colors">
+      <div className="flex flex-col md:flex-row md:items-center justify-between mb-4 gap-3">
+        <div>
+          <h3 className="font-bold text-slate-800 dark:text-slate-100 uppercase tracking-wider text-xs">Full Revaluation Stress</h3>
+          <p className="text-[10px] text-slate-400 dark:text-slate-500 font-medium">
+            Joint spot × vol × rates × time shocks repriced in closed form against the Greeks' Taylor estimate · smile held sticky-strike
+          </p>
+        </div>
+        <div className="flex gap-1">
+          {(['full', 'taylor', 'error'] as GridView[]).map(v => (
+            <button
+              key={v}
+              onClick={() => setView(v)}
+              className={`px-2 py-0.5 text-[9px] font-bold rounded uppercase transition-all ${view === v ? 'bg-indigo-600 text-white' : 'bg-slate-100 dark:bg-slate-800 text-slate-500 hover:bg-slate-200 dark:hover:bg-slate-700'}`}
+            >
+              {v === 'full' ? 'Full Reval' : v === 'taylor' ? 'Taylor' : 'Taylor Error'}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-1.5 mb-3">
+        {presets.map(preset => (
+          <button
+            key={preset.id}
+            onClick={() => setBase(preset.values)}
+            className="px-2 py-1 text-[8px] font-extrabold text-slate-500 dark:text-slate-400 bg-slate-100 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded hover:border-indigo-500 transition-colors uppercase"
+          >
+            {preset.label}
+          </button>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-4">
+        {FACTORS.map(f => (
+          <div key={f}>
+            <p className="text-[8px] font-bold text-slate-400 uppercase tracking-widest mb-1">{FACTOR_LABELS[f]} Shock ({unit(f)})</p>
+            <input
+              type="number"
+              step={f === 'rates' ? 0.25 : 1}
+              min={f === 'time' ? 0 : undefined}
+              className={inputClass}
+              value={base[f]}
+              onChange={(e) => setBase(prev => ({ ...prev, [f]: parseFloat(e.target.value) || 0 }))}
+            />
+          </div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-6">
+        <div className="p-2 rounded-lg bg-slate-50 dark:bg-slate-800/50">
+          <p className="text-[8px] font-bold text-slate-400 uppercase tracking-widest">Taylor P&L</p>
+          <p className={`text-xs font-mono font-bold ${taylor >= 0 ? 'text-emerald-500' : 'text-rose-500'}`}>{signed(taylor)}</p>
+        </div>
+        <div className="p-2 rounded-lg bg-indigo-50 dark:bg-indigo-900/20">
+          <p className="text-[8px] font-bold text-slate-400 uppercase tracking-widest">Full Reval P&L</p>
+          <p className={`text-xs font-mono font-bold ${full >= 0 ? 'text-emerald-500' : 'text-rose-500'}`}>{signed(full)}</p>
+        </div>
+        <div className="p-2 rounded-lg bg-amber-50 dark:bg-amber-900/20">
+          <p className="text-[8px] font-bold text-slate-400 uppercase tracking-widest">Taylor Error</p>
+          <p className="text-xs font-mono font-bold text-amber-600 dark:text-amber-400">{signed(taylor - full)}</p>
+        </div>
+        <div className="p-2 rounded-lg bg-slate-50 dark:bg-slate-800/50">
+          <p className="text-[8px] font-bold text-slate-400 uppercase tracking-widest">Max |Error| on Grid</p>
+          <p className="text-xs font-mono font-bold text-slate-800 dark:text-slate-100">{maxError.toFixed(4)}</p>
+        </div>
+      </div>
+
+      <div className="flex items-center gap-3 mb-3">
+        <span className="text-[9px] font-bold text-slate-400 uppercase tracking-widest">Rows</span>
+        <select className={selectClass} value={yFactor} onChange={(e) => pickAxis('y', e.target.value as ShockFactor)}>
+          {FACTORS.map(f => <option key={f} value={f}>{FACTOR_LABELS[f]}</option>)}
+        </select>
+        <span className="text-[9px] font-bold text-slate-400 uppercase tracking-widest">Columns</span>
+        <select className={selectClass} value={xFactor} onChange={(e) => pickAxis('x', e.target.value as ShockFactor)}>
+          {FACTORS.map(f => <option key={f} value={f}>{FACTOR_LABELS[f]}</option>)}
+        </select>
+        <span className="text-[9px] text-slate-400 dark:text-slate-500">other factors at the shocks above</span>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-[10px] border-separate" style={{ borderSpacing: 2 }}>
+          <thead>
+            <tr className="text-[8px] text-slate-400 uppercase">
+              <th className="text-left font-bold pb-1">{FACTOR_LABELS[yFactor]} \ {FACTOR_LABELS[xFactor]}</th>
+              {grid.xValues.map(x => <th key={x} className="text-center font-bold pb-1 font-mono">{x > 0 ? '+' : ''}{x}{unit(xFactor)}</th>)}
+            </tr>
+          </thead>
+          <tbody className="font-mono">
+            {grid.cells.map((row, j) => (
+              <tr key={grid.yValues[j]}>
+                <td className="pr-2 text-[8px] font-bold text-slate-400">{grid.yValues[j] > 0 ? '+' : ''}{grid.yValues[j]}{unit(yFactor)}</td>
+                {row.map(c => (
+                  <td
+                    key={c.x}
+                    className={`text-center py-1.5 rounded ${isDark ? 'text-slate-100' : 'text-slate-800'}`}
+                    style={cellStyle(cellValue(c))}
+                    title={`Full ${signed(c.full)} · Taylor ${signed(c.taylor)} · Error ${signed(c.taylor - c.full)}`}
+                  >
+                    {cellValue(c).toFixed(2)}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <p className="mt-2 text-[9px] text-slate-400 dark:text-slate-500">
+        Taylor error is the Greeks estimate minus the repriced P&L; it grows with the shock size as the higher-order spot terms and the vanna, volga and time cross terms left out of the expansion take over.
+      </p>
+    </div>
+  );
+};
+
+export default StressGridPanel;
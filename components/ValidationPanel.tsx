@@ -0,0 +1,149 @@
+import React, { useMemo, useState } from 'react';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine, Legend } from 'recharts';
+import { DataPoint, ReturnStatistics, HistoricalSeries } from '../types';
+import { buildValidationReport, convertValidationToCSV } from '../services/validation';
+import { parseHistoricalCSV, pickPriceSeries } from '../services/calibration';
+import { downloadFile } from '../services/synthesisEngine';
+
+interface ValidationPanelProps {
+  data: DataPoint[];
+  dt: number;
+  isDark: boolean;
+}
+
+const METRICS: { label: string; pick: (s: ReturnStatistics) => number; format: (v: number) => string; hint?: string }[] = [
+  { label: 'Mean (per step)', pick: s => s.mean, format: v => v.toExponential(3) },
+  { label: 'Std (per step)', pick: s => s.std, format: v => v.toExponential(3) },
+  { label: 'Annualized Vol', pick: s => s.annualizedVol, format: v => `${(v * 100).toFixed(2)}%` },
+  { label: 'Skewness', pick: s => s.skewness, format: v => v.toFixed(3), hint: '0 for normal returns' },
+  { label: 'Excess Kurtosis', pick: s => s.excessKurtosis, format: v => v.toFixed(3), hint: '> 0 means fat tails' },
+  { label: 'Jarque-Bera', pick: s => s.jarqueBera.statistic, format: v => v.toFixed(2) },
+  { label: 'JB p-value', pick: s => s.jarqueBera.pValue, format: v => v < 1e-4 ? '<0.0001' : v.toFixed(4), hint: '< 0.05 rejects normality' },
+  { label: 'Hurst Exponent', pick: s => s.hurst, format: v => Number.isFinite(v) ? v.toFixed(3) : '—', hint: '0.5 = no memory' },
+  { label: 'Max Drawdown', pick: s => s.maxDrawdown, format: v => v.toFixed(4) }
+];
+
+const ValidationPanel: React.FC<ValidationPanelProps> = ({ data, dt, isDark }) => {
+  const [reference, setReference] = useState<HistoricalSeries | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const report = useMemo(
+    () => buildValidationReport(data.map(d => d.value), dt, reference ?? undefined),
+    [data, dt, reference]
+  );
+
+  const acfData = useMemo(() => report.synthetic.acfReturns.map((r, k) => ({
+    lag: k + 1,
+    returns: r,
+    squared: report.synthetic.acfSquared[k],
+    refSquared: report.reference?.acfSquared[k]
+  })), [report]);
+  const confidenceBand = 1.96 / Math.sqrt(report.synthetic.count);
+
+  const handleReference = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const series = parseHistoricalCSV(await file.text());
+      setReference(series[pickPriceSeries(series)]);
+      setError(null);
+    } catch (err: any) {
+      setError(err?.message || 'Could not read reference CSV');
+    }
+  };
+
+  const exportReport = (format: 'csv' | 'json') => {
+    const stamp = Date.now();
+    if (format === 'csv') downloadFile(convertValidationToCSV(report), `quantsynth_validation_${stamp}.csv`, 'text/csv');
+    else downloadFile(JSON.stringify(report, null, 2), `quantsynth_validation_${stamp}.json`, 'application/json');
+  };
+
+  const gridColor = isDark ? "#1e293b" : "#f1f5f9";
+  const axisColor = isDark ? "#475569" : "#94a3b8";
+  const tooltipBg = isDark ? "rgba(15, 23, 42, 0.95)" : "rgba(255, 255, 255, 0.95)";
+  const tooltipBorder = isDark ? "#334155" : "#e2e8f0";
+  const buttonClass = "px-2.5 py-1 text-[9px] font-bold text-slate-600 dark:text-slate-300 bg-slate-100 dark:bg-slate-800 hover:bg-slate-200 dark:hover:bg-slate-700 rounded-md transition-colors uppercase";
+
+  return (
+    <div className="bg-white dark:bg-slate-900 p-6 rounded-xl border border-slate-200 dark:border-slate-800 shadow-sm transition-colors">
+      <div className="flex flex-col md:flex-row md:items-center justify-between mb-4 gap-3">
+        <div>
+          <h3 className="font-bold text-slate-800 dark:text-slate-100 uppercase tracking-wider text-xs">Statistical Validation</h3>
+          <p className="text-[10px] text-slate-400 dark:text-slate-500 font-medium">
+            Stylized facts of primary path {report.returnType === 'log' ? 'log-returns' : 'first differences'}
+            {reference && <> vs <span className="text-indigo-500 font-bold">{reference.name}</span></>}
+          </p>
+        </div>
+        <div className="flex flex-wrap gap-1.5">
+          <label className={`${buttonClass} cursor-pointer`}>
+            {reference ? 'Replace Reference' : 'Upload Reference'}
+            <input type="file" accept=".csv,text/csv,.txt" className="hidden" onChange={handleReference} />
+          </label>
+          {reference && <button onClick={() => setReference(null)} className={buttonClass}>Clear</button>}
+          <button onClick={() => exportReport('csv')} className={buttonClass}>Export CSV</button>
+          <button onClick={() => exportReport('json')} className={buttonClass}>Export JSON</button>
+        </div>
+      </div>
+
+      {error && <p className="mb-3 text-[10px] font-bold text-rose-500">{error}</p>}
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div>
+          <table className="w-full text-[10px]">
+            <thead>
+              <tr className="text-[8px] text-slate-400 uppercase">
+                <th className="text-left font-bold pb-1.5">Metric</th>
+                <th className="text-right font-bold pb-1.5">Synthetic</th>
+                {report.reference && <th className="text-right font-bold pb-1.5">Reference</th>}
+              </tr>
+            </thead>
+            <tbody className="font-mono text-slate-700 dark:text-slate-200">
+              {METRICS.map(m => (
+                <tr key={m.label} className="border-t border-slate-100 dark:border-slate-800">
+                  <td className="py-1 font-sans text-slate-500 dark:text-slate-400" title={m.hint}>{m.label}</td>
+                  <td className="py-1 text-right font-bold">{m.format(m.pick(report.synthetic))}</td>
+                  {report.reference && <td className="py-1 text-right">{m.format(m.pick(report.reference))}</td>}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          {report.ks && (
+            <div className={`mt-4 p-3 rounded-lg border ${report.ks.pValue < 0.05 ? 'bg-amber-50 dark:bg-amber-900/20 border-amber-200 dark:border-amber-800' : 'bg-emerald-50 dark:bg-emerald-900/20 border-emerald-200 dark:border-emerald-800'}`}>
+              <p className="text-[9px] font-bold text-slate-500 dark:text-slate-400 uppercase tracking-widest mb-1">Two-Sample KS Test</p>
+              <p className="text-[11px] font-mono font-bold text-slate-800 dark:text-slate-100">
+                D = {report.ks.statistic.toFixed(4)} · p = {report.ks.pValue < 1e-4 ? '<0.0001' : report.ks.pValue.toFixed(4)}
+              </p>
+              <p className="text-[9px] text-slate-500 dark:text-slate-400 mt-0.5">
+                {report.ks.pValue < 0.05 ? 'Return distributions differ at the 5% level' : 'No significant difference at the 5% level'}
+              </p>
+            </div>
+          )}
+        </div>
+
+        <div>
+          <p className="text-[9px] font-bold text-slate-400 uppercase tracking-widest mb-2">Autocorrelation (±1.96/√n band)</p>
+          <div className="h-[220px] w-full">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={acfData}>
+                <CartesianGrid strokeDasharray="3 3" vertical={false} stroke={gridColor} />
+                <XAxis dataKey="lag" tick={{fontSize: 9, fill: axisColor}} axisLine={false} tickLine={false} />
+                <YAxis tick={{fontSize: 9, fill: axisColor}} axisLine={false} tickLine={false} domain={[-0.3, 0.3]} allowDataOverflow />
+                <Tooltip contentStyle={{ borderRadius: '8px', border: `1px solid ${tooltipBorder}`, backgroundColor: tooltipBg, fontSize: '10px' }} formatter={(v: any) => Number(v).toFixed(4)} />
+                <Legend verticalAlign="top" height={24} iconType="circle" wrapperStyle={{ fontSize: '9px' }} />
+                <ReferenceLine y={confidenceBand} stroke={axisColor} strokeDasharray="4 4" />
+                <ReferenceLine y={-confidenceBand} stroke={axisColor} strokeDasharray="4 4" />
+                <Bar dataKey="returns" fill="#6366f1" name="Returns" isAnimationActive={false} />
+                <Bar dataKey="squared" fill="#f59e0b" name="Squared Returns" isAnimationActive={false} />
+                {report.reference && <Bar dataKey="refSquared" fill="#94a3b8" name="Reference Squared" isAnimationActive={false} />}
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ValidationPanel;
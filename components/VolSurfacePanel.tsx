@@ -0,0 +1,112 @@
+import React, { useMemo } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend } from 'recharts';
+import { DataPoint, VolSurfaceModel } from '../types';
+
+interface VolSurfacePanelProps {
+  data: DataPoint[];
+  range: { start: number; end: number };
+  model?: VolSurfaceModel;
+  isDark: boolean;
+}
+
+// Short expiries warm, long expiries cool
+const EXPIRY_COLORS = ['#f43f5e', '#f59e0b', '#10b981', '#6366f1', '#8b5cf6', '#0ea5e9', '#64748b'];
+
+const expiryLabel = (t: number) => (t < 1 ? `${Math.round(t * 12)}M` : `${+t.toFixed(2)}Y`);
+
+const VolSurfacePanel: React.FC<VolSurfacePanelProps> = ({ data, range, model, isDark }) => {
+  const visible = useMemo(() => data.slice(range.start, range.end + 1).filter(d => d.volSurface), [data, range]);
+
+  const factorData = useMemo(() => visible.map(d => ({
+    timestamp: d.timestamp,
+    atm: d.volSurface!.atmVol * 100,
+    skew: d.volSurface!.skew,
+    curvature: d.volSurface!.curvature
+  })), [visible]);
+
+  if (visible.length === 0) return null;
+  const last = visible[visible.length - 1].volSurface!;
+
+  // Smile at the end of the visible range: one line per expiry over moneyness
+  const smileData = last.moneyness.map((m, j) => {
+    const row: Record<string, number> = { moneyness: m };
+    last.expiries.forEach((t, e) => { row[expiryLabel(t)] = last.iv[e][j] * 100; });
+    return row;
+  });
+
+  const calendarSteps = visible.filter(d => d.volSurface!.calendarViolations > 0).length;
+  const butterflySteps = visible.filter(d => d.volSurface!.butterflyViolations > 0).length;
+
+  const gridColor = isDark ? "#1e293b" : "#f1f5f9";
+  const axisColor = isDark ? "#475569" : "#94a3b8";
+  const tooltipBg = isDark ? "rgba(15, 23, 42, 0.95)" : "rgba(255, 255, 255, 0.95)";
+  const tooltipBorder = isDark ? "#334155" : "#e2e8f0";
+
+  const stats = [
+    { label: 'ATM Vol', value: `${(last.atmVol * 100).toFixed(2)}%` },
+    { label: 'Skew (ρ)', value: last.skew.toFixed(3) },
+    { label: model === VolSurfaceModel.SABR ? 'Vol of Vol (ν)' : 'Curvature (η)', value: last.curvature.toFixed(3) },
+    { label: 'Calendar Arb', value: `${calendarSteps} / ${visible.length}`, alert: calendarSteps > 0 },
+    { label: 'Butterfly Arb', value: `${butterflySteps} / ${visible.length}`, alert: butterflySteps > 0 }
+  ];
+
+  return (
+    <div className="bg-white dark:bg-slate-900 p-6 rounded-xl border border-slate-200 dark:border-slate-800 shadow-sm transition-colors">
+      <div className="mb-4">
+        <h3 className="font-bold text-slate-800 dark:text-slate-100 uppercase tracking-wider text-xs">Implied Vol Surface</h3>
+        <p className="text-[10px] text-slate-400 dark:text-slate-500 font-medium">
+          {model === VolSurfaceModel.SABR ? 'Lognormal SABR' : 'SSVI'} smile on {last.expiries.length} expiries x {last.moneyness.length} strikes · arbitrage counts are steps with at least one failing cell
+        </p>
+      </div>
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-3 mb-4">
+        {stats.map(s => (
+          <div key={s.label} className={`p-2 rounded-lg ${s.alert ? 'bg-rose-50 dark:bg-rose-900/20' : 'bg-slate-50 dark:bg-slate-800/50'}`}>
+            <p className="text-[8px] font-bold text-slate-400 uppercase tracking-widest">{s.label}</p>
+            <p className={`text-xs font-mono font-bold ${s.alert ? 'text-rose-600 dark:text-rose-400' : 'text-slate-800 dark:text-slate-100'}`}>{s.value}</p>
+          </div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div>
+          <p className="text-[9px] font-bold text-slate-400 uppercase tracking-widest mb-2">Smile · {visible[visible.length - 1].timestamp}</p>
+          <div className="h-[200px] w-full">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={smileData}>
+                <CartesianGrid strokeDasharray="3 3" vertical={false} stroke={gridColor} />
+                <XAxis dataKey="moneyness" tick={{fontSize: 9, fill: axisColor}} axisLine={false} tickLine={false} />
+                <YAxis tick={{fontSize: 9, fill: axisColor}} axisLine={false} tickLine={false} domain={['auto', 'auto']} width={40} tickFormatter={(v: number) => `${v.toFixed(0)}%`} />
+                <Tooltip contentStyle={{ borderRadius: '8px', border: `1px solid ${tooltipBorder}`, backgroundColor: tooltipBg, fontSize: '10px' }} labelFormatter={(m: any) => `K/F ${m}`} formatter={(v: any) => `${Number(v).toFixed(2)}%`} />
+                <Legend verticalAlign="top" height={24} iconType="circle" wrapperStyle={{ fontSize: '9px' }} />
+                {last.expiries.map((t, e) => (
+                  <Line key={t} type="monotone" dataKey={expiryLabel(t)} stroke={EXPIRY_COLORS[e % EXPIRY_COLORS.length]} strokeWidth={1.5} dot={{ r: 1.5 }} isAnimationActive={false} />
+                ))}
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+
+        <div>
+          <p className="text-[9px] font-bold text-slate-400 uppercase tracking-widest mb-2">Smile Factors</p>
+          <div className="h-[200px] w-full">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={factorData} syncId="quantSync">
+                <CartesianGrid strokeDasharray="3 3" vertical={false} stroke={gridColor} />
+                <XAxis dataKey="timestamp" hide />
+                <YAxis yAxisId="atm" tick={{fontSize: 9, fill: axisColor}} axisLine={false} tickLine={false} domain={['auto', 'auto']} width={40} tickFormatter={(v: number) => `${v.toFixed(0)}%`} />
+                <YAxis yAxisId="shape" orientation="right" tick={{fontSize: 9, fill: axisColor}} axisLine={false} tickLine={false} domain={['auto', 'auto']} width={35} tickFormatter={(v: number) => v.toFixed(2)} />
+                <Tooltip contentStyle={{ borderRadius: '8px', border: `1px solid ${tooltipBorder}`, backgroundColor: tooltipBg, fontSize: '10px' }} formatter={(v: any, name: any) => (name === 'ATM Vol' ? `${Number(v).toFixed(2)}%` : Number(v).toFixed(3))} />
+                <Legend verticalAlign="top" height={24} iconType="circle" wrapperStyle={{ fontSize: '9px' }} />
+                <Line yAxisId="atm" type="monotone" dataKey="atm" name="ATM Vol" stroke="#6366f1" strokeWidth={1.5} dot={false} isAnimationActive={false} />
+                <Line yAxisId="shape" type="monotone" dataKey="skew" name="Skew" stroke="#f43f5e" strokeWidth={1.2} dot={false} isAnimationActive={false} />
+                <Line yAxisId="shape" type="monotone" dataKey="curvature" name="Curvature" stroke="#10b981" strokeWidth={1.2} dot={false} isAnimationActive={false} />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default VolSurfacePanel;
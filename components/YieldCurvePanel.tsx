@@ -0,0 +1,149 @@
+import React, { useMemo, useState } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend } from 'recharts';
+import { CurveSnapshot, DataPoint } from '../types';
+import { CURVE_TENORS, tenorLabel } from '../services/yieldCurve';
+
+interface YieldCurvePanelProps {
+  data: DataPoint[];
+  range: { start: number; end: number };
+  isDark: boolean;
+}
+
+type CurveMetric = 'zeroRates' | 'parRates' | 'discountFactors';
+
+const METRIC_LABELS: Record<CurveMetric, string> = {
+  zeroRates: 'Zero',
+  parRates: 'Par Swap',
+  discountFactors: 'Discount'
+};
+
+// Columns beyond this are averaged into buckets so the heatmap stays readable
+const MAX_COLUMNS = 120;
+
+const formatMetric = (metric: CurveMetric, v: number) =>
+  metric === 'discountFactors' ? v.toFixed(4) : `${(v * 100).toFixed(2)}%`;
+
+// Blue (low) through violet to red (high)
+const heatColor = (t: number) => `hsl(${230 - 220 * Math.max(0, Math.min(1, t))}, 70%, 55%)`;
+
+const YieldCurvePanel: React.FC<YieldCurvePanelProps> = ({ data, range, isDark }) => {
+  const [metric, setMetric] = useState<CurveMetric>('zeroRates');
+  const [selected, setSelected] = useState<number | null>(null);
+
+  const visible = useMemo(() => data.slice(range.start, range.end + 1).filter(d => d.curve), [data, range]);
+
+  // Time buckets of consecutive points, each averaged per tenor
+  const columns = useMemo(() => {
+    const size = Math.max(1, Math.ceil(visible.length / MAX_COLUMNS));
+    const buckets: { timestamp: string; values: number[] }[] = [];
+    for (let start = 0; start < visible.length; start += size) {
+      const slice = visible.slice(start, start + size);
+      buckets.push({
+        timestamp: slice[slice.length - 1].timestamp,
+        values: CURVE_TENORS.map((_, k) => slice.reduce((acc, d) => acc + d.curve![metric][k], 0) / slice.length)
+      });
+    }
+    return buckets;
+  }, [visible, metric]);
+
+  if (visible.length === 0) return null;
+
+  const all = columns.flatMap(c => c.values);
+  const lo = Math.min(...all), hi = Math.max(...all);
+  const scale = (v: number) => (hi - lo > 1e-12 ? (v - lo) / (hi - lo) : 0.5);
+
+  const first = visible[0];
+  const last = visible[visible.length - 1];
+  const picked = selected !== null && selected < columns.length ? columns[selected] : undefined;
+  const curveAt = (curve: CurveSnapshot | undefined, k: number) => curve?.[metric][k];
+  const snapshotData = CURVE_TENORS.map((tenor, k) => ({
+    tenor: tenorLabel(tenor),
+    start: curveAt(first.curve, k),
+    end: curveAt(last.curve, k),
+    selected: picked?.values[k]
+  }));
+
+  const gridColor = isDark ? "#1e293b" : "#f1f5f9";
+  const axisColor = isDark ? "#475569" : "#94a3b8";
+  const tooltipBg = isDark ? "rgba(15, 23, 42, 0.95)" : "rgba(255, 255, 255, 0.95)";
+  const tooltipBorder = isDark ? "#334155" : "#e2e8f0";
+
+  return (
+    <div className="bg-white dark:bg-slate-900 p-6 rounded-xl border border-slate-200 dark:border-slate-800 shadow-sm transition-colors">
+      <div className="flex flex-col md:flex-row md:items-center justify-between mb-4 gap-3">
+        <div>
+          <h3 className="font-bold text-slate-800 dark:text-slate-100 uppercase tracking-wider text-xs">Yield Curve Surface</h3>
+          <p className="text-[10px] text-slate-400 dark:text-slate-500 font-medium">
+            {METRIC_LABELS[metric]} {metric === 'discountFactors' ? 'factors' : 'rates'} by tenor over time
+            {columns.length < visible.length && <> · {Math.ceil(visible.length / columns.length)}-point averages</>}
+          </p>
+        </div>
+        <div className="flex gap-1">
+          {(Object.keys(METRIC_LABELS) as CurveMetric[]).map(m => (
+            <button
+              key={m}
+              onClick={() => setMetric(m)}
+              className={`px-2.5 py-1 text-[9px] font-bold rounded-md transition-colors uppercase ${metric === m ? 'bg-indigo-600 text-white' : 'text-slate-600 dark:text-slate-300 bg-slate-100 dark:bg-slate-800 hover:bg-slate-200 dark:hover:bg-slate-700'}`}
+            >
+              {METRIC_LABELS[m]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="lg:col-span-2">
+          <div className="flex">
+            {/* Long tenors at the top, like a term-structure surface seen from above */}
+            <div className="flex flex-col-reverse justify-between pr-2 text-[8px] font-mono text-slate-400 py-0.5">
+              {CURVE_TENORS.map(t => <span key={t} className="h-4 leading-4">{tenorLabel(t)}</span>)}
+            </div>
+            <div className="flex-1 flex" onMouseLeave={() => setSelected(null)}>
+              {columns.map((col, c) => (
+                <div key={c} className="flex-1 flex flex-col-reverse" onMouseEnter={() => setSelected(c)}>
+                  {col.values.map((v, k) => (
+                    <div
+                      key={k}
+                      className="h-4"
+                      style={{ backgroundColor: heatColor(scale(v)), opacity: selected === null || selected === c ? 1 : 0.75 }}
+                      title={`${col.timestamp} · ${tenorLabel(CURVE_TENORS[k])}: ${formatMetric(metric, v)}`}
+                    />
+                  ))}
+                </div>
+              ))}
+            </div>
+          </div>
+          <div className="flex justify-between mt-1.5 pl-8 text-[8px] font-mono text-slate-400">
+            <span>{columns[0].timestamp}</span>
+            <span>{columns[columns.length - 1].timestamp}</span>
+          </div>
+          <div className="flex items-center gap-2 mt-2 pl-8 text-[8px] font-mono text-slate-400">
+            <span>{formatMetric(metric, lo)}</span>
+            <div className="h-1.5 w-32 rounded" style={{ background: `linear-gradient(to right, ${heatColor(0)}, ${heatColor(0.5)}, ${heatColor(1)})` }} />
+            <span>{formatMetric(metric, hi)}</span>
+          </div>
+        </div>
+
+        <div>
+          <p className="text-[9px] font-bold text-slate-400 uppercase tracking-widest mb-2">Curve Snapshots{picked && <> · {picked.timestamp}</>}</p>
+          <div className="h-[200px] w-full">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={snapshotData}>
+                <CartesianGrid strokeDasharray="3 3" vertical={false} stroke={gridColor} />
+                <XAxis dataKey="tenor" tick={{fontSize: 9, fill: axisColor}} axisLine={false} tickLine={false} />
+                <YAxis tick={{fontSize: 9, fill: axisColor}} axisLine={false} tickLine={false} domain={['auto', 'auto']} width={45} tickFormatter={(v: number) => formatMetric(metric, v)} />
+                <Tooltip contentStyle={{ borderRadius: '8px', border: `1px solid ${tooltipBorder}`, backgroundColor: tooltipBg, fontSize: '10px' }} formatter={(v: any) => formatMetric(metric, Number(v))} />
+                <Legend verticalAlign="top" height={24} iconType="circle" wrapperStyle={{ fontSize: '9px' }} />
+                <Line type="monotone" dataKey="start" name={first.timestamp} stroke={axisColor} strokeDasharray="4 4" strokeWidth={1.5} dot={false} isAnimationActive={false} />
+                <Line type="monotone" dataKey="end" name={last.timestamp} stroke="#6366f1" strokeWidth={2} dot={{ r: 2 }} isAnimationActive={false} />
+                {picked && <Line type="monotone" dataKey="selected" name="Hovered" stroke="#f59e0b" strokeWidth={2} dot={false} isAnimationActive={false} />}
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default YieldCurvePanel;
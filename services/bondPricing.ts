@@ -0,0 +1,154 @@
+import { AssetClass, BondAnalytics, ModelType, SynthesisParameters } from '../types';
+
+export const BOND_MODELS = [ModelType.INTEREST_RATE_VASICEK, ModelType.INTEREST_RATE_CIR];
+
+/**
+ * Affine zero-coupon bond P(t, T) = A(τ) exp(-B(τ) r) under Vasicek or CIR
+ * short-rate dynamics, with τ = T - t. The simulation parameters are taken
+ * as risk-neutral (no market price of risk).
+ */
+export const affineZeroCoupon = (
+  modelType: ModelType,
+  r: number,
+  tau: number,
+  kappa: number,
+  theta: number,
+  sigma: number
+): { price: number; A: number; B: number } => {
+  if (tau <= 0) return { price: 1, A: 1, B: 0 };
+  const s2 = sigma * sigma;
+
+  if (modelType === ModelType.INTEREST_RATE_CIR) {
+    const h = Math.sqrt(kappa * kappa + 2 * s2);
+    const growth = Math.expm1(h * tau);
+    const denominator = (h + kappa) * growth + 2 * h;
+    const B = 2 * growth / denominator;
+    // Without volatility A reduces to exp(-θ(τ - B)), the deterministic limit
+    const A = s2 > 1e-14
+      ? Math.pow(2 * h * Math.exp((kappa + h) * tau / 2) / denominator, 2 * kappa * theta / s2)
+      : Math.exp(-theta * (tau - B));
+    return { price: A * Math.exp(-B * r), A, B };
+  }
+
+  // Vasicek; as κ → 0 the short rate is a Brownian motion with B = τ
+  if (kappa < 1e-8) {
+    const A = Math.exp(s2 * tau ** 3 / 6);
+    return { price: A * Math.exp(-tau * r), A, B: tau };
+  }
+  const B = -Math.expm1(-kappa * tau) / kappa;
+  const A = Math.exp((theta - s2 / (2 * kappa * kappa)) * (B - tau) - s2 * B * B / (4 * kappa));
+  return { price: A * Math.exp(-B * r), A, B };
+};
+
+export interface CashFlow {
+  time: number; // Years from the valuation date
+  amount: number;
+}
+
+/**
+ * Remaining cash flows of a bullet bond at time t (years from issue). Coupon
+ * dates are counted back from maturity, so the first period may be short.
+ */
+export const bondCashFlows = (maturity: number, couponRate: number, frequency: number, face: number, t: number): CashFlow[] => {
+  const flows: CashFlow[] = [];
+  const period = 1 / frequency;
+  for (let k = 0; maturity - k * period > t + 1e-9; k++) {
+    flows.push({ time: maturity - k * period - t, amount: face * couponRate * period });
+  }
+  if (flows.length > 0) flows[0].amount += face;
+  return flows.reverse();
+};
+
+// Price and its yield derivatives with compounding at the coupon frequency
+const priceAtYield = (flows: CashFlow[], y: number, frequency: number) => {
+  let price = 0, weighted = 0, curvature = 0;
+  const base = 1 + y / frequency;
+  for (const { time, amount } of flows) {
+    const pv = amount * Math.pow(base, -frequency * time);
+    price += pv;
+    weighted += time * pv;
+    curvature += time * (time + 1 / frequency) * pv;
+  }
+  return { price, weighted, curvature, base };
+};
+
+/**
+ * Yield to maturity (compounded at the coupon frequency) that reprices the
+ * flows to the given dirty price: Newton's method with a bisection fallback.
+ */
+export const yieldToMaturity = (price: number, flows: CashFlow[], frequency: number): number => {
+  let lo = -frequency + 1e-6, hi = 1;
+  while (priceAtYield(flows, hi, frequency).price > price && hi < 64) hi *= 2;
+
+  let y = 0.05;
+  for (let iter = 0; iter < 100; iter++) {
+    const { price: p, weighted, base } = priceAtYield(flows, y, frequency);
+    const diff = p - price;
+    if (Math.abs(diff) < 1e-10 * Math.max(price, 1)) return y;
+    if (diff > 0) lo = y; else hi = y;
+    // dP/dy = -Σ t PV / (1 + y/f)
+    const next = y + diff / (weighted / base);
+    y = next > lo && next < hi ? next : (lo + hi) / 2;
+  }
+  return y;
+};
+
+export interface BondSpec {
+  modelType: ModelType;
+  kappa: number;
+  theta: number;
+  sigma: number;
+  maturity: number;
+  couponRate: number;
+  frequency: number;
+  face: number;
+  spread: number; // Continuous credit spread added to every discount rate
+}
+
+/**
+ * Bond settings for FIXED_INCOME runs on an affine short-rate model, or
+ * undefined when bond prices are not available in closed form.
+ */
+export const resolveBondSpec = (params: SynthesisParameters): BondSpec | undefined => {
+  if (params.assetClass !== AssetClass.FIXED_INCOME || !BOND_MODELS.includes(params.modelType)) return undefined;
+  return {
+    modelType: params.modelType,
+    kappa: params.kappa ?? 2.0,
+    theta: params.theta ?? 0.05,
+    sigma: params.sigma,
+    maturity: Math.max(params.bondMaturity ?? 10, 1e-6),
+    couponRate: params.couponRate ?? 0.04,
+    frequency: Math.max(1, Math.round(params.couponFrequency ?? 2)),
+    face: params.faceValue ?? 100,
+    spread: (params.creditSpread ?? 0) + (params.cdsSpread ?? 0)
+  };
+};
+
+/**
+ * Coupon bond valued off the short rate r at time t (years from issue): each
+ * flow is discounted with the model's zero-coupon price, then yield, duration,
+ * convexity and DV01 follow from the resulting dirty price. Undefined once
+ * the bond has matured.
+ */
+export const bondAnalytics = (spec: BondSpec, r: number, t: number): BondAnalytics | undefined => {
+  const flows = bondCashFlows(spec.maturity, spec.couponRate, spec.frequency, spec.face, t);
+  if (flows.length === 0) return undefined;
+
+  const discount = (tau: number) =>
+    affineZeroCoupon(spec.modelType, r, tau, spec.kappa, spec.theta, spec.sigma).price * Math.exp(-spec.spread * tau);
+  const price = flows.reduce((acc, f) => acc + f.amount * discount(f.time), 0);
+  const ytm = yieldToMaturity(price, flows, spec.frequency);
+
+  const { weighted, curvature, base } = priceAtYield(flows, ytm, spec.frequency);
+  const macaulayDuration = weighted / price;
+  const modifiedDuration = macaulayDuration / base;
+  return {
+    zeroCouponPrice: discount(spec.maturity - t),
+    price,
+    ytm,
+    macaulayDuration,
+    modifiedDuration,
+    convexity: curvature / (price * base * base),
+    dv01: modifiedDuration * price * 1e-4
+  };
+};
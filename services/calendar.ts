@@ -0,0 +1,281 @@
+import { MarketCalendar, SamplingFrequency, SynthesisParameters } from '../types';
+
+// Year fractions accrue on business days
+export const BUSINESS_DAYS_PER_YEAR = 252;
+const DAY_MS = 86_400_000;
+
+/**
+ * Regular trading session in exchange-local minutes after midnight
+ */
+export const CALENDAR_SESSIONS: Record<MarketCalendar, { open: number; close: number }> = {
+  [MarketCalendar.WEEKDAYS]: { open: 9 * 60 + 30, close: 16 * 60 },
+  [MarketCalendar.NYSE]: { open: 9 * 60 + 30, close: 16 * 60 },
+  [MarketCalendar.TARGET]: { open: 9 * 60, close: 17 * 60 + 30 },
+  [MarketCalendar.LSE]: { open: 8 * 60, close: 16 * 60 + 30 },
+  [MarketCalendar.CUSTOM]: { open: 9 * 60 + 30, close: 16 * 60 }
+};
+
+// Unscheduled closures that no rule produces
+const NYSE_SPECIAL_CLOSURES = [
+  '2001-09-11', '2001-09-12', '2001-09-13', '2001-09-14', '2004-06-11', '2007-01-02',
+  '2012-10-29', '2012-10-30', '2018-12-05', '2025-01-09'
+];
+const LSE_SPECIAL_HOLIDAYS = ['1999-12-31', '2002-06-03', '2011-04-29', '2012-06-05', '2022-06-03', '2022-09-19', '2023-05-08'];
+// Years in which a regular UK bank holiday was moved
+const LSE_MOVED_HOLIDAYS: Record<number, { earlyMay?: string; spring?: string }> = {
+  1995: { earlyMay: '1995-05-08' },
+  2002: { spring: '2002-06-04' },
+  2012: { spring: '2012-06-04' },
+  2020: { earlyMay: '2020-05-08' },
+  2022: { spring: '2022-06-02' }
+};
+
+const utcDate = (year: number, month: number, day: number) => new Date(Date.UTC(year, month, day));
+const addDays = (date: Date, days: number) => new Date(date.getTime() + days * DAY_MS);
+const isWeekend = (date: Date) => date.getUTCDay() === 0 || date.getUTCDay() === 6;
+
+export const isoDate = (date: Date): string => date.toISOString().slice(0, 10);
+
+/**
+ * Parse an ISO yyyy-mm-dd date as UTC midnight, or undefined when invalid
+ */
+export const parseIsoDate = (value: string): Date | undefined => {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value.trim());
+  if (!match) return undefined;
+  const date = utcDate(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+  return isoDate(date) === value.trim() ? date : undefined;
+};
+
+// Anonymous Gregorian algorithm
+const easterSunday = (year: number): Date => {
+  const a = year % 19, b = Math.floor(year / 100), c = year % 100;
+  const d = Math.floor(b / 4), e = b % 4, f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4), k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return utcDate(year, month - 1, day);
+};
+
+/**
+ * n-th given weekday (0 = Sunday) of a month; n = -1 is the last one
+ */
+const nthWeekday = (year: number, month: number, weekday: number, n: number): Date => {
+  if (n < 0) {
+    const last = utcDate(year, month + 1, 0);
+    return addDays(last, -((last.getUTCDay() - weekday + 7) % 7));
+  }
+  const first = utcDate(year, month, 1);
+  return addDays(first, (weekday - first.getUTCDay() + 7) % 7 + 7 * (n - 1));
+};
+
+// US rule: Saturday holidays are observed on Friday, Sunday ones on Monday
+const usObserved = (date: Date): Date =>
+  date.getUTCDay() === 6 ? addDays(date, -1) : date.getUTCDay() === 0 ? addDays(date, 1) : date;
+
+const nyseHolidays = (year: number): Date[] => {
+  const easter = easterSunday(year);
+  const newYear = utcDate(year, 0, 1);
+  const holidays = [
+    // A Saturday New Year's Day is not moved into the previous year
+    ...(newYear.getUTCDay() === 6 ? [] : [usObserved(newYear)]),
+    nthWeekday(year, 1, 1, 3),
+    addDays(easter, -2),
+    nthWeekday(year, 4, 1, -1),
+    usObserved(utcDate(year, 6, 4)),
+    nthWeekday(year, 8, 1, 1),
+    nthWeekday(year, 10, 4, 4),
+    usObserved(utcDate(year, 11, 25))
+  ];
+  if (year >= 1998) holidays.push(nthWeekday(year, 0, 1, 3));
+  if (year >= 2022) holidays.push(usObserved(utcDate(year, 5, 19)));
+  return holidays;
+};
+
+const targetHolidays = (year: number): Date[] => {
+  const easter = easterSunday(year);
+  return [
+    utcDate(year, 0, 1),
+    addDays(easter, -2),
+    addDays(easter, 1),
+    utcDate(year, 4, 1),
+    utcDate(year, 11, 25),
+    utcDate(year, 11, 26)
+  ];
+};
+
+const lseHolidays = (year: number): Date[] => {
+  const easter = easterSunday(year);
+  const moved = LSE_MOVED_HOLIDAYS[year] ?? {};
+  const newYear = utcDate(year, 0, 1);
+  const christmas = utcDate(year, 11, 25);
+  // Weekend Christmas/Boxing Day are substituted by the next free weekdays
+  const christmasBreak = christmas.getUTCDay() === 6 ? [utcDate(year, 11, 27), utcDate(year, 11, 28)]
+    : christmas.getUTCDay() === 0 ? [utcDate(year, 11, 26), utcDate(year, 11, 27)]
+    : christmas.getUTCDay() === 5 ? [christmas, utcDate(year, 11, 28)]
+    : [christmas, utcDate(year, 11, 26)];
+
+  return [
+    isWeekend(newYear) ? nthWeekday(year, 0, 1, 1) : newYear,
+    addDays(easter, -2),
+    addDays(easter, 1),
+    moved.earlyMay ? parseIsoDate(moved.earlyMay)! : nthWeekday(year, 4, 1, 1),
+    moved.spring ? parseIsoDate(moved.spring)! : nthWeekday(year, 4, 1, -1),
+    nthWeekday(year, 7, 1, -1),
+    ...christmasBreak
+  ];
+};
+
+const holidayCache = new Map<string, Set<string>>();
+
+const holidaysFor = (calendar: MarketCalendar, year: number): Set<string> => {
+  const key = `${calendar}:${year}`;
+  let holidays = holidayCache.get(key);
+  if (!holidays) {
+    const dates = calendar === MarketCalendar.NYSE ? nyseHolidays(year)
+      : calendar === MarketCalendar.TARGET ? targetHolidays(year)
+      : calendar === MarketCalendar.LSE ? lseHolidays(year)
+      : [];
+    const special = calendar === MarketCalendar.NYSE ? NYSE_SPECIAL_CLOSURES
+      : calendar === MarketCalendar.LSE ? LSE_SPECIAL_HOLIDAYS
+      : [];
+    holidays = new Set([...dates.map(isoDate), ...special.filter(d => d.startsWith(`${year}-`))]);
+    holidayCache.set(key, holidays);
+  }
+  return holidays;
+};
+
+export const isBusinessDay = (date: Date, calendar: MarketCalendar, customHolidays: Set<string> = new Set()): boolean => {
+  if (isWeekend(date)) return false;
+  const iso = isoDate(date);
+  if (calendar === MarketCalendar.CUSTOM) return !customHolidays.has(iso);
+  return !holidaysFor(calendar, date.getUTCFullYear()).has(iso);
+};
+
+const barMinutes = (params: SynthesisParameters) => Math.max(1, Math.floor(params.intradayMinutes || 5));
+
+const barsPerSession = (calendar: MarketCalendar, minutes: number): number => {
+  const { open, close } = CALENDAR_SESSIONS[calendar];
+  return Math.max(1, Math.ceil((close - open) / minutes));
+};
+
+/**
+ * Nominal step length in years for the sampling frequency: a full intraday
+ * bar's share of its session's business day, a week, a month or a day. Each
+ * simulated step spans its own gap in the schedule's elapsed time, which
+ * differs for short closing bars and short weeks and months. The schedule is
+ * daily when no frequency is set, and so is the step.
+ */
+export const resolveStepSize = (params: SynthesisParameters): number => {
+  switch (params.frequency) {
+    case SamplingFrequency.INTRADAY: {
+      const { open, close } = CALENDAR_SESSIONS[params.calendar ?? MarketCalendar.WEEKDAYS];
+      return Math.min(barMinutes(params), close - open) / ((close - open) * BUSINESS_DAYS_PER_YEAR);
+    }
+    case SamplingFrequency.WEEKLY:
+      return 5 / BUSINESS_DAYS_PER_YEAR;
+    case SamplingFrequency.MONTHLY:
+      return 21 / BUSINESS_DAYS_PER_YEAR;
+    default:
+      return 1 / BUSINESS_DAYS_PER_YEAR;
+  }
+};
+
+export interface SessionWindow {
+  date: string;
+  start: number; // Exchange-local minutes after midnight
+  end: number;
+}
+
+export interface Schedule {
+  timestamps: string[];
+  elapsed: number[]; // Business-day year fraction since the first point; step i spans elapsed[i + 1] - elapsed[i]
+  windows?: SessionWindow[]; // INTRADAY only: the bar ending at each point (empty at the open)
+}
+
+const formatTime = (minutes: number) =>
+  `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+
+/**
+ * Timestamps and accrued year fractions for `steps + 1` points. Daily points
+ * are consecutive business days, weekly/monthly points the last business day
+ * of each period, and intraday points bar ends in exchange-local time.
+ */
+export const buildSchedule = (params: SynthesisParameters, steps: number): Schedule => {
+  const calendar = params.calendar ?? MarketCalendar.WEEKDAYS;
+  const frequency = params.frequency ?? SamplingFrequency.DAILY;
+  const custom = new Set((params.customHolidays ?? []).map(d => d.trim()));
+  const start = (params.startDate && parseIsoDate(params.startDate)) || parseIsoDate(isoDate(new Date()))!;
+  const isOpen = (date: Date) => isBusinessDay(date, calendar, custom);
+
+  const nextOpen = (date: Date): Date => {
+    let d = date;
+    while (!isOpen(d)) d = addDays(d, 1);
+    return d;
+  };
+  // Last business day on or before the end of the period containing `date`
+  const periodEnd = (date: Date): Date => {
+    let end = frequency === SamplingFrequency.WEEKLY
+      ? addDays(date, (5 - date.getUTCDay() + 7) % 7)
+      : utcDate(date.getUTCFullYear(), date.getUTCMonth() + 1, 0);
+    while (!isOpen(end)) end = addDays(end, -1);
+    return end;
+  };
+  // First sample after `date`; periods without business days (custom calendars) are skipped
+  const nextPeriodEnd = (date: Date): Date => {
+    let periodStart = date, end = date;
+    while (end <= date) {
+      periodStart = frequency === SamplingFrequency.WEEKLY
+        ? addDays(periodStart, (8 - periodStart.getUTCDay()) % 7 || 7)
+        : utcDate(periodStart.getUTCFullYear(), periodStart.getUTCMonth() + 1, 1);
+      end = periodEnd(periodStart);
+    }
+    return end;
+  };
+
+  const timestamps: string[] = [];
+  const elapsed: number[] = [];
+
+  if (frequency === SamplingFrequency.INTRADAY) {
+    const { open, close } = CALENDAR_SESSIONS[calendar];
+    const minutes = barMinutes(params);
+    const bars = barsPerSession(calendar, minutes);
+    const windows: SessionWindow[] = [];
+    let day = nextOpen(start);
+    let sessionMinutes = 0;
+    timestamps.push(`${isoDate(day)}T${formatTime(open)}`);
+    elapsed.push(0);
+    windows.push({ date: isoDate(day), start: open, end: open });
+    for (let i = 1; i <= steps; i++) {
+      const bar = (i - 1) % bars + 1;
+      if (bar === 1 && i > 1) day = nextOpen(addDays(day, 1));
+      // A session that is not a whole number of bars ends with a short bar at the close
+      const end = Math.min(open + bar * minutes, close);
+      timestamps.push(`${isoDate(day)}T${formatTime(end)}`);
+      // Each bar is its length's share of the business day, so a short closing bar accrues less
+      sessionMinutes += end - (open + (bar - 1) * minutes);
+      elapsed.push(sessionMinutes / ((close - open) * BUSINESS_DAYS_PER_YEAR));
+      windows.push({ date: isoDate(day), start: open + (bar - 1) * minutes, end });
+    }
+    return { timestamps, elapsed, windows };
+  }
+
+  let day = frequency === SamplingFrequency.DAILY ? nextOpen(start) : periodEnd(start);
+  // A period whose business days all precede the start date rolls into the next one
+  if (day < start) day = nextPeriodEnd(start);
+  let businessDays = 0;
+  timestamps.push(isoDate(day));
+  elapsed.push(0);
+
+  for (let i = 1; i <= steps; i++) {
+    const next = frequency === SamplingFrequency.DAILY ? nextOpen(addDays(day, 1)) : nextPeriodEnd(day);
+    for (let d = addDays(day, 1); d <= next; d = addDays(d, 1)) if (isOpen(d)) businessDays++;
+    day = next;
+    timestamps.push(isoDate(day));
+    elapsed.push(businessDays / BUSINESS_DAYS_PER_YEAR);
+  }
+  return { timestamps, elapsed };
+};
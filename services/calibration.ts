@@ -0,0 +1,389 @@
+import { CalibratedParameter, CalibrationResult, HistoricalSeries, ModelType, SynthesisParameters } from '../types';
+import { autocorrelation, sampleMoments } from './mathUtils';
+
+export const CALIBRATABLE_MODELS = [
+  ModelType.EQUITY_GBM,
+  ModelType.EQUITY_MERTON_JUMP,
+  ModelType.INTEREST_RATE_VASICEK,
+  ModelType.OU_PROCESS,
+  ModelType.INTEREST_RATE_CIR
+];
+
+const LOG_2PI = Math.log(2 * Math.PI);
+
+const normalLogDensity = (x: number, mean: number, variance: number): number =>
+  -0.5 * (LOG_2PI + Math.log(variance) + (x - mean) * (x - mean) / variance);
+
+const splitCSVLine = (line: string, delimiter: string): string[] =>
+  line.split(delimiter).map(cell => cell.trim().replace(/^"(.*)"$/, '$1'));
+
+const parseNumber = (cell: string): number => (cell === '' ? NaN : Number(cell));
+
+/**
+ * Parse an uploaded CSV into one series per numeric column. The first
+ * non-numeric column, if any, is used for timestamps. Files exported newest
+ * first are flipped into chronological order.
+ */
+export const parseHistoricalCSV = (text: string): HistoricalSeries[] => {
+  const lines = text.split(/\r?\n/).filter(l => l.trim() !== '' && !l.startsWith('#'));
+  if (lines.length < 3) throw new Error('CSV needs a header and at least two rows');
+
+  const delimiter = [',', ';', '\t'].reduce((best, d) => (lines[0].split(d).length > lines[0].split(best).length ? d : best), ',');
+  const firstRow = splitCSVLine(lines[0], delimiter);
+  const hasHeader = firstRow.some(cell => !Number.isFinite(parseNumber(cell)));
+  const header = hasHeader ? firstRow : firstRow.map((_, j) => `Column ${j + 1}`);
+  const rows = (hasHeader ? lines.slice(1) : lines).map(l => splitCSVLine(l, delimiter));
+
+  // Columns where at least 90% of cells parse as numbers
+  const numericCols = header
+    .map((_, j) => j)
+    .filter(j => rows.filter(r => Number.isFinite(parseNumber(r[j] ?? ''))).length >= 0.9 * rows.length);
+  const timeCol = header.findIndex((_, j) => !numericCols.includes(j));
+  if (numericCols.length === 0) throw new Error('No numeric columns found in CSV');
+
+  const firstTime = timeCol >= 0 ? Date.parse(rows[0][timeCol]) : NaN;
+  const lastTime = timeCol >= 0 ? Date.parse(rows[rows.length - 1][timeCol]) : NaN;
+  const ordered = firstTime > lastTime ? [...rows].reverse() : rows;
+
+  return numericCols.map(j => {
+    const kept = ordered.filter(r => Number.isFinite(parseNumber(r[j] ?? '')));
+    return {
+      name: header[j],
+      timestamps: kept.map((r, i) => (timeCol >= 0 ? r[timeCol] : String(i))),
+      values: kept.map(r => parseNumber(r[j]))
+    };
+  });
+};
+
+/**
+ * Index of the most price-like column (Close, Adj Close, Price, Rate, Value),
+ * falling back to the last numeric column.
+ */
+export const pickPriceSeries = (series: HistoricalSeries[]): number => {
+  const preferred = series.findIndex(s => /^(adj\.?\s*)?(close|price|rate|value)$/i.test(s.name));
+  return preferred >= 0 ? preferred : series.length - 1;
+};
+
+/**
+ * Inverse of a small dense matrix by Gauss-Jordan elimination with partial
+ * pivoting; null when singular.
+ */
+const invertMatrix = (m: number[][]): number[][] | null => {
+  const n = m.length;
+  const a = m.map((row, i) => [...row, ...row.map((_, j) => (i === j ? 1 : 0))]);
+
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let r = col + 1; r < n; r++) if (Math.abs(a[r][col]) > Math.abs(a[pivot][col])) pivot = r;
+    if (!Number.isFinite(a[pivot][col]) || Math.abs(a[pivot][col]) < 1e-14) return null;
+    [a[col], a[pivot]] = [a[pivot], a[col]];
+
+    const p = a[col][col];
+    for (let k = 0; k < 2 * n; k++) a[col][k] /= p;
+    for (let r = 0; r < n; r++) {
+      if (r === col) continue;
+      const f = a[r][col];
+      for (let k = 0; k < 2 * n; k++) a[r][k] -= f * a[col][k];
+    }
+  }
+
+  return a.map(row => row.slice(n));
+};
+
+/**
+ * Asymptotic standard errors from the inverse of the observed information,
+ * using a central-difference Hessian of the log-likelihood at the estimate.
+ */
+const standardErrors = (logLik: (theta: number[]) => number, theta: number[]): number[] => {
+  const k = theta.length;
+  const h = theta.map(t => 1e-4 * Math.max(Math.abs(t), 1e-3));
+  const shifted = (i: number, si: number, j: number, sj: number) => {
+    const t = [...theta];
+    t[i] += si * h[i];
+    t[j] += sj * h[j];
+    return logLik(t);
+  };
+
+  const information = Array.from({ length: k }, () => new Array<number>(k).fill(0));
+  for (let i = 0; i < k; i++) {
+    for (let j = i; j < k; j++) {
+      const d2 = (shifted(i, 1, j, 1) - shifted(i, 1, j, -1) - shifted(i, -1, j, 1) + shifted(i, -1, j, -1)) / (4 * h[i] * h[j]);
+      information[i][j] = information[j][i] = -d2;
+    }
+  }
+
+  const covariance = invertMatrix(information);
+  return theta.map((_, i) => {
+    const v = covariance?.[i][i];
+    return v !== undefined && v > 0 ? Math.sqrt(v) : NaN;
+  });
+};
+
+interface ModelFit {
+  method: string;
+  keys: (keyof SynthesisParameters)[];
+  labels: string[];
+  theta: number[];
+  logLik: (theta: number[]) => number;
+  residuals: number[]; // Standardized under the fitted model
+  extraDiagnostics: { label: string; value: string }[];
+  params: Partial<SynthesisParameters>;
+}
+
+const logReturns = (values: number[]): number[] => {
+  if (values.some(v => v <= 0)) throw new Error('Log-return models need strictly positive prices');
+  return values.slice(1).map((v, i) => Math.log(v / values[i]));
+};
+
+/**
+ * GBM: log-returns are i.i.d. N((μ - σ²/2)dt, σ²dt), so the MLE is closed form
+ */
+const fitGBM = (values: number[], dt: number): ModelFit => {
+  const r = logReturns(values);
+  const { mean, variance } = sampleMoments(r);
+  const sigma = Math.sqrt(variance / dt);
+  const mu = mean / dt + 0.5 * sigma * sigma;
+
+  return {
+    method: 'Closed-form MLE on log-returns',
+    keys: ['mu', 'sigma'],
+    labels: ['Drift (μ)', 'Volatility (σ)'],
+    theta: [mu, sigma],
+    logLik: ([m, s]) => r.reduce((acc, x) => acc + normalLogDensity(x, (m - 0.5 * s * s) * dt, s * s * dt), 0),
+    residuals: r.map(x => (x - mean) / Math.sqrt(variance)),
+    extraDiagnostics: [],
+    params: { mu, sigma }
+  };
+};
+
+/**
+ * Vasicek / OU: the exact transition is Gaussian AR(1),
+ * x' = θ + (x - θ)e^{-κdt} + ε with Var ε = σ²(1 - e^{-2κdt}) / 2κ,
+ * so the conditional MLE follows from OLS of x' on x.
+ */
+const fitOU = (values: number[], dt: number): ModelFit => {
+  const x = values.slice(0, -1);
+  const y = values.slice(1);
+  const n = x.length;
+  const mx = x.reduce((a, b) => a + b, 0) / n;
+  const my = y.reduce((a, b) => a + b, 0) / n;
+  let sxy = 0, sxx = 0;
+  for (let i = 0; i < n; i++) {
+    sxy += (x[i] - mx) * (y[i] - my);
+    sxx += (x[i] - mx) * (x[i] - mx);
+  }
+  const b = sxy / sxx;
+  if (!(b > 0 && b < 1)) throw new Error(`No mean reversion detected (AR(1) coefficient ${b.toFixed(4)} is outside (0, 1))`);
+
+  const a = my - b * mx;
+  const residualVar = y.reduce((acc, yi, i) => acc + Math.pow(yi - a - b * x[i], 2), 0) / n;
+  const kappa = -Math.log(b) / dt;
+  const theta = a / (1 - b);
+  const sigma = Math.sqrt(2 * kappa * residualVar / (1 - b * b));
+
+  const transition = (k: number, s: number) => {
+    const decay = Math.exp(-k * dt);
+    return { decay, variance: s * s * (1 - decay * decay) / (2 * k) };
+  };
+
+  return {
+    method: 'Exact-discretization MLE (AR(1))',
+    keys: ['kappa', 'theta', 'sigma'],
+    labels: ['Reversion Speed (κ)', 'Long-Term Mean (θ)', 'Volatility (σ)'],
+    theta: [kappa, theta, sigma],
+    logLik: ([k, th, s]) => {
+      const { decay, variance } = transition(k, s);
+      return y.reduce((acc, yi, i) => acc + normalLogDensity(yi, th + (x[i] - th) * decay, variance), 0);
+    },
+    residuals: y.map((yi, i) => (yi - a - b * x[i]) / Math.sqrt(residualVar)),
+    extraDiagnostics: [
+      { label: 'AR(1) coefficient', value: b.toFixed(4) },
+      { label: 'Half-life', value: `${(Math.LN2 / kappa).toFixed(3)}y` }
+    ],
+    params: { kappa, theta, sigma, mu: 0 }
+  };
+};
+
+/**
+ * CIR: OLS on the Euler scheme divided through by √x,
+ * Δx/√x = κθ·dt/√x - κ·dt√x + σ√dt·ε
+ */
+const fitCIR = (values: number[], dt: number): ModelFit => {
+  if (values.some(v => v <= 0)) throw new Error('CIR calibration needs strictly positive levels');
+  const x = values.slice(0, -1);
+  const dx = values.slice(1).map((v, i) => v - x[i]);
+  const n = x.length;
+
+  // Normal equations for y = c1·u1 + c2·u2 with u1 = dt/√x, u2 = dt√x
+  let s11 = 0, s12 = 0, s22 = 0, s1y = 0, s2y = 0;
+  for (let i = 0; i < n; i++) {
+    const sq = Math.sqrt(x[i]);
+    const u1 = dt / sq, u2 = dt * sq, yi = dx[i] / sq;
+    s11 += u1 * u1; s12 += u1 * u2; s22 += u2 * u2;
+    s1y += u1 * yi; s2y += u2 * yi;
+  }
+  const det = s11 * s22 - s12 * s12;
+  const c1 = (s22 * s1y - s12 * s2y) / det;
+  const c2 = (s11 * s2y - s12 * s1y) / det;
+  const kappa = -c2;
+  if (!(kappa > 0)) throw new Error('No mean reversion detected (estimated κ ≤ 0)');
+  const theta = c1 / kappa;
+
+  const drift = (k: number, th: number, xi: number) => k * (th - xi) * dt;
+  const rss = dx.reduce((acc, d, i) => acc + Math.pow(d - drift(kappa, theta, x[i]), 2) / x[i], 0);
+  const sigma = Math.sqrt(rss / (n * dt));
+  const feller = 2 * kappa * theta > sigma * sigma;
+
+  return {
+    method: 'OLS on the Euler discretization',
+    keys: ['kappa', 'theta', 'sigma'],
+    labels: ['Reversion Speed (κ)', 'Long-Term Mean (θ)', 'Volatility (σ)'],
+    theta: [kappa, theta, sigma],
+    // Gaussian quasi-likelihood of the Euler transition, consistent with the OLS estimate
+    logLik: ([k, th, s]) => dx.reduce((acc, d, i) => acc + normalLogDensity(d, drift(k, th, x[i]), s * s * x[i] * dt), 0),
+    residuals: dx.map((d, i) => (d - drift(kappa, theta, x[i])) / (sigma * Math.sqrt(x[i] * dt))),
+    extraDiagnostics: [
+      { label: 'Half-life', value: `${(Math.LN2 / kappa).toFixed(3)}y` },
+      { label: 'Feller 2κθ > σ²', value: feller ? 'Satisfied' : 'Violated' }
+    ],
+    params: { kappa, theta, sigma }
+  };
+};
+
+/**
+ * Merton: each step is a Bernoulli(λdt) mixture of a diffusion-only normal
+ * and a diffusion-plus-jump normal, matching the engine's discretization.
+ * Fitted by EM on the two-component mixture, initialized from a 3·MAD
+ * outlier split.
+ */
+const fitMerton = (values: number[], dt: number): ModelFit => {
+  const r = logReturns(values);
+  const n = r.length;
+  if (n < 20) throw new Error('Jump calibration needs at least 20 observations');
+
+  const sorted = [...r].sort((a, b) => a - b);
+  const median = sorted[Math.floor(n / 2)];
+  const mad = [...r].map(x => Math.abs(x - median)).sort((a, b) => a - b)[Math.floor(n / 2)] * 1.4826;
+  const isJump = r.map(x => Math.abs(x - median) > 3 * mad);
+  const weightedStats = (w: number[]) => {
+    const total = w.reduce((a, b) => a + b, 0);
+    const mean = w.reduce((acc, wi, i) => acc + wi * r[i], 0) / total;
+    const variance = w.reduce((acc, wi, i) => acc + wi * (r[i] - mean) ** 2, 0) / total;
+    return { total, mean, variance };
+  };
+
+  let w: number[] = isJump.map(j => (j ? 1 : 0));
+  const init0 = weightedStats(w.map(wi => 1 - wi));
+  const init1 = w.some(wi => wi > 0) ? weightedStats(w) : { total: 0, mean: init0.mean, variance: 9 * init0.variance };
+  let p = Math.max(init1.total / n, 1 / n);
+  let m0 = init0.mean, v0 = init0.variance, m1 = init1.mean, v1 = Math.max(init1.variance, 4 * v0);
+
+  const mixtureLogLik = (pp: number, a0: number, b0: number, a1: number, b1: number) =>
+    r.reduce((acc, x) => acc + Math.log((1 - pp) * Math.exp(normalLogDensity(x, a0, b0)) + pp * Math.exp(normalLogDensity(x, a1, b1)) + 1e-300), 0);
+
+  let previous = -Infinity;
+  for (let iter = 0; iter < 500; iter++) {
+    // E-step: posterior probability that each step contains a jump
+    w = r.map(x => {
+      const f0 = (1 - p) * Math.exp(normalLogDensity(x, m0, v0));
+      const f1 = p * Math.exp(normalLogDensity(x, m1, v1));
+      return f1 / (f0 + f1 + 1e-300);
+    });
+
+    // M-step
+    const c0 = weightedStats(w.map(wi => 1 - wi));
+    const c1 = weightedStats(w);
+    p = Math.min(Math.max(c1.total / n, 1e-6), 0.5);
+    m0 = c0.mean; v0 = Math.max(c0.variance, 1e-12);
+    m1 = c1.total > 1e-9 ? c1.mean : m0;
+    v1 = Math.max(c1.variance, v0);
+
+    const current = mixtureLogLik(p, m0, v0, m1, v1);
+    if (Math.abs(current - previous) < 1e-9 * Math.max(1, Math.abs(current))) break;
+    previous = current;
+  }
+
+  const sigma = Math.sqrt(v0 / dt);
+  const mu = m0 / dt + 0.5 * sigma * sigma;
+  const lambda = p / dt;
+  const jumpMu = m1 - m0;
+  const jumpSigma = Math.sqrt(Math.max(v1 - v0, 0));
+  const mixMean = (1 - p) * m0 + p * m1;
+  const mixVar = (1 - p) * (v0 + m0 * m0) + p * (v1 + m1 * m1) - mixMean * mixMean;
+
+  return {
+    method: 'EM on the Bernoulli jump mixture',
+    keys: ['mu', 'sigma', 'lambda', 'jumpMu', 'jumpSigma'],
+    labels: ['Drift (μ)', 'Diffusion Vol (σ)', 'Jump Intensity (λ)', 'Jump Mean (μ_j)', 'Jump Vol (σ_j)'],
+    theta: [mu, sigma, lambda, jumpMu, jumpSigma],
+    logLik: ([m, s, l, jm, js]) => {
+      const base = (m - 0.5 * s * s) * dt;
+      return mixtureLogLik(Math.min(Math.max(l * dt, 0), 1), base, s * s * dt, base + jm, s * s * dt + js * js);
+    },
+    residuals: r.map(x => (x - mixMean) / Math.sqrt(mixVar)),
+    extraDiagnostics: [
+      { label: 'Jump days (posterior > 0.5)', value: String(w.filter(wi => wi > 0.5).length) }
+    ],
+    params: { mu, sigma, lambda, jumpMu, jumpSigma }
+  };
+};
+
+/**
+ * Fit the selected model to a historical series observed every `dt` years.
+ * Throws with a user-facing message when the data cannot support the model.
+ */
+export const calibrateModel = (values: number[], modelType: ModelType, dt: number): CalibrationResult => {
+  if (values.length < 10) throw new Error('Need at least 10 observations to calibrate');
+
+  let fit: ModelFit;
+  switch (modelType) {
+    case ModelType.EQUITY_GBM:
+      fit = fitGBM(values, dt);
+      break;
+    case ModelType.EQUITY_MERTON_JUMP:
+      fit = fitMerton(values, dt);
+      break;
+    case ModelType.INTEREST_RATE_VASICEK:
+    case ModelType.OU_PROCESS:
+      fit = fitOU(values, dt);
+      break;
+    case ModelType.INTEREST_RATE_CIR:
+      fit = fitCIR(values, dt);
+      break;
+    default:
+      throw new Error('Calibration is not available for this model');
+  }
+
+  const numObservations = fit.residuals.length;
+  const logLikelihood = fit.logLik(fit.theta);
+  const errors = standardErrors(fit.logLik, fit.theta);
+  const estimates: CalibratedParameter[] = fit.keys.map((key, i) => ({
+    key,
+    label: fit.labels[i],
+    value: fit.theta[i],
+    stdError: errors[i]
+  }));
+
+  const k = fit.theta.length;
+  const moments = sampleMoments(fit.residuals);
+  const squared = fit.residuals.map(e => e * e);
+
+  return {
+    modelType,
+    method: fit.method,
+    dt,
+    numObservations,
+    estimates,
+    logLikelihood,
+    aic: 2 * k - 2 * logLikelihood,
+    bic: k * Math.log(numObservations) - 2 * logLikelihood,
+    diagnostics: [
+      { label: 'Residual skewness', value: moments.skewness.toFixed(3) },
+      { label: 'Residual excess kurtosis', value: moments.excessKurtosis.toFixed(3) },
+      { label: 'Residual ACF(1)', value: autocorrelation(fit.residuals, 1).toFixed(3) },
+      { label: 'Squared residual ACF(1)', value: autocorrelation(squared, 1).toFixed(3) },
+      ...fit.extraDiagnostics
+    ],
+    params: { modelType, initialValue: values[values.length - 1], ...fit.params }
+  };
+};
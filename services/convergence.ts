@@ -0,0 +1,133 @@
+import { ConvergenceReport, ConvergenceRow, DiscretizationScheme, ModelType, SynthesisParameters } from '../types';
+import { createSeededRandom, getStandardNormal } from './mathUtils';
+import { resolveRawProcess, terminalLevel } from './synthesisEngine';
+
+// Step sizes as multiples of the configured dt, coarsest first
+const DT_MULTIPLES = [8, 4, 2, 1];
+const DEFAULT_PATHS = 500;
+
+// Schemes that differ for each model: log-Euler is the exact lognormal step for
+// GBM, Milstein equals Euler under additive noise, and log-Euler falls back to
+// Euler for mean-reverting levels
+const { EULER, MILSTEIN, EXACT, LOG_EULER } = DiscretizationScheme;
+const DISTINCT_SCHEMES: Partial<Record<ModelType, DiscretizationScheme[]>> = {
+  [ModelType.EQUITY_GBM]: [EULER, MILSTEIN, LOG_EULER],
+  [ModelType.EQUITY_MERTON_JUMP]: [EULER, MILSTEIN, LOG_EULER],
+  [ModelType.INTEREST_RATE_VASICEK]: [EULER, EXACT],
+  [ModelType.OU_PROCESS]: [EULER, EXACT],
+  [ModelType.MACRO_INFLATION]: [EULER, EXACT],
+  [ModelType.INTEREST_RATE_CIR]: [EULER, MILSTEIN, EXACT]
+};
+
+/**
+ * Continuous-time mean and standard deviation of the level at T, where known
+ * in closed form.
+ */
+const analyticMoments = (params: SynthesisParameters, T: number): { mean?: number; std?: number } => {
+  const { initialValue: x0, mu = 0.05, sigma = 0.2, kappa = 2.0, theta = 0.05, lambda = 0, jumpMu = 0, jumpSigma = 0 } = params;
+
+  switch (params.modelType) {
+    case ModelType.EQUITY_GBM:
+    case ModelType.EQUITY_MERTON_JUMP:
+      // Jumps are uncompensated, so they shift the mean by λT(E[J] - 1) in the exponent
+      const jumpLogMean = lambda * T * (Math.exp(jumpMu + 0.5 * jumpSigma * jumpSigma) - 1);
+      const jumpLogSecond = lambda * T * (Math.exp(2 * jumpMu + 2 * jumpSigma * jumpSigma) - 1);
+      const meanGBM = x0 * Math.exp(mu * T + jumpLogMean);
+      const secondGBM = x0 * x0 * Math.exp((2 * mu + sigma * sigma) * T + jumpLogSecond);
+      return { mean: meanGBM, std: Math.sqrt(Math.max(secondGBM - meanGBM * meanGBM, 0)) };
+
+    case ModelType.INTEREST_RATE_VASICEK:
+    case ModelType.OU_PROCESS:
+    case ModelType.MACRO_INFLATION:
+      const ouDrift = params.modelType === ModelType.INTEREST_RATE_VASICEK ? 0 : mu;
+      if (kappa <= 1e-8) return { mean: x0 + ouDrift * T, std: sigma * Math.sqrt(T) };
+      const longRun = theta + ouDrift / kappa;
+      return {
+        mean: longRun + (x0 - longRun) * Math.exp(-kappa * T),
+        std: sigma * Math.sqrt((1 - Math.exp(-2 * kappa * T)) / (2 * kappa))
+      };
+
+    case ModelType.INTEREST_RATE_CIR:
+      if (kappa <= 1e-8) return {};
+      const decay = Math.exp(-kappa * T);
+      const varianceCIR = x0 * sigma * sigma / kappa * (decay - decay * decay) + theta * sigma * sigma / (2 * kappa) * (1 - decay) ** 2;
+      return { mean: theta + (x0 - theta) * decay, std: Math.sqrt(Math.max(varianceCIR, 0)) };
+
+    case ModelType.HESTON:
+      return { mean: x0 * Math.exp(mu * T) };
+
+    default:
+      return {};
+  }
+};
+
+/**
+ * Re-simulate the model's bare process over the same horizon at dt×8, ×4, ×2
+ * and ×1 with each scheme that behaves differently for it, and compare
+ * terminal moments with their continuous-time values. Every run of a path is
+ * driven by the same Brownian motion, each coarse increment summing the fine
+ * ones it spans, so differences across dt and schemes are discretization
+ * error rather than Monte Carlo noise. Draws internal to a model (jumps,
+ * variance shocks, Student-t scaling, CIR's exact transition) come from a
+ * stream seeded alike for every run but are only coupled where two runs
+ * consume them identically.
+ */
+export const runConvergenceCheck = (
+  params: SynthesisParameters,
+  numPaths: number = DEFAULT_PATHS,
+  onProgress?: (completedPaths: number, totalPaths: number) => void
+): ConvergenceReport => {
+  const paths = Math.max(2, Math.floor(numPaths) || DEFAULT_PATHS);
+  const horizon = params.timeHorizon * params.dt;
+  const seed = params.seed ?? 1;
+  const { mean: analyticMean, std: analyticStd } = analyticMoments(params, horizon);
+  const schemes: (DiscretizationScheme | undefined)[] = DISTINCT_SCHEMES[params.modelType] ?? [undefined];
+
+  // Finest grid is a whole number of the coarsest steps so every coarse step spans whole fine ones
+  const coarsest = DT_MULTIPLES[0];
+  const fineSteps = coarsest * Math.max(1, Math.round(params.timeHorizon / coarsest));
+  const runs = schemes.flatMap(scheme => DT_MULTIPLES.map(multiple => ({
+    scheme,
+    multiple,
+    steps: fineSteps / multiple,
+    dt: horizon * multiple / fineSteps,
+    process: resolveRawProcess(params, scheme),
+    modelRng: createSeededRandom(0xc0de ^ seed),
+    shocks: new Float64Array(fineSteps / multiple),
+    terminal: new Float64Array(paths)
+  })));
+
+  const rng = createSeededRandom(seed);
+  const fine = new Float64Array(fineSteps);
+  for (let p = 0; p < paths; p++) {
+    for (let k = 0; k < fineSteps; k++) fine[k] = getStandardNormal(rng);
+    for (const run of runs) {
+      const scale = 1 / Math.sqrt(run.multiple);
+      for (let k = 0; k < run.steps; k++) {
+        let sum = 0;
+        for (let j = k * run.multiple; j < (k + 1) * run.multiple; j++) sum += fine[j];
+        run.shocks[k] = sum * scale;
+      }
+      run.terminal[p] = terminalLevel(run.process, params.initialValue, run.dt, run.shocks, run.modelRng);
+    }
+    onProgress?.(p + 1, paths);
+  }
+
+  const rows: ConvergenceRow[] = runs.map(({ scheme, dt, steps, terminal }) => {
+    const mean = terminal.reduce((a, v) => a + v, 0) / paths;
+    const std = Math.sqrt(terminal.reduce((a, v) => a + (v - mean) ** 2, 0) / (paths - 1));
+    return {
+      scheme,
+      dt,
+      steps,
+      mean,
+      std,
+      meanBias: analyticMean !== undefined ? mean - analyticMean : undefined,
+      stdBias: analyticStd !== undefined ? std - analyticStd : undefined,
+      standardError: std / Math.sqrt(paths),
+      negativeShare: terminal.filter(v => v < 0).length / paths
+    };
+  });
+
+  return { horizon, numPaths: paths, analyticMean, analyticStd, rows };
+};
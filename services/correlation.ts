@@ -0,0 +1,178 @@
+import { AssetClass, AssetSpec, CorrelationFactors, ModelType } from '../types';
+
+// Standard market cross-correlations used to seed the factor matrix
+export const MARKET_CROSS_CORRS: Record<string, number> = {
+  equity_rates: 0.15,
+  equity_volatility: -0.72,
+  commodity_equity: 0.25,
+  rates_volatility: -0.10,
+  commodity_rates: 0.05,
+  commodity_volatility: -0.15
+};
+
+export const FACTOR_IDS: (keyof CorrelationFactors)[] = ['equity', 'rates', 'volatility', 'commodity'];
+
+/**
+ * The four market factors as jointly simulated assets, used when the user
+ * starts editing the factor matrix.
+ */
+export const DEFAULT_FACTOR_ASSETS: AssetSpec[] = [
+  { id: 'equity', label: 'Equity Index', modelType: ModelType.EQUITY_GBM, assetClass: AssetClass.EQUITY, initialValue: 100, mu: 0.06, sigma: 0.15 },
+  { id: 'rates', label: 'Treasury Rates', modelType: ModelType.INTEREST_RATE_VASICEK, assetClass: AssetClass.FIXED_INCOME, initialValue: 0.04, mu: 0, sigma: 0.01, kappa: 0.5, theta: 0.04 },
+  { id: 'volatility', label: 'Volatility (VIX)', modelType: ModelType.OU_PROCESS, assetClass: AssetClass.EQUITY, initialValue: 18, mu: 0, sigma: 15, kappa: 3, theta: 18 },
+  { id: 'commodity', label: 'Commodity Basket', modelType: ModelType.EQUITY_GBM, assetClass: AssetClass.COMMODITY, initialValue: 100, mu: 0.03, sigma: 0.25 }
+];
+
+/**
+ * Primary asset + four market factors, with the primary row taken from the
+ * factor sliders and the cross terms from MARKET_CROSS_CORRS.
+ */
+export const buildFactorCorrelationMatrix = (correlations: CorrelationFactors): number[][] => {
+  const ids = ['asset', ...FACTOR_IDS];
+  return ids.map(row => ids.map(col => {
+    if (row === col) return 1;
+    if (row === 'asset' || col === 'asset') {
+      const other = (row === 'asset' ? col : row) as keyof CorrelationFactors;
+      return correlations[other] ?? 0;
+    }
+    return MARKET_CROSS_CORRS[[row, col].sort().join('_')] ?? 0;
+  }));
+};
+
+export const identityMatrix = (n: number): number[][] =>
+  Array.from({ length: n }, (_, i) => Array.from({ length: n }, (_, j) => (i === j ? 1 : 0)));
+
+/**
+ * Grow or shrink a correlation matrix to n assets, keeping the overlapping block
+ */
+export const resizeCorrelationMatrix = (matrix: number[][] | undefined, n: number): number[][] =>
+  Array.from({ length: n }, (_, i) => Array.from({ length: n }, (_, j) => (i === j ? 1 : matrix?.[i]?.[j] ?? 0)));
+
+/**
+ * Cyclic Jacobi eigendecomposition of a symmetric matrix.
+ * Returns eigenvalues and eigenvectors as columns of `vectors`.
+ */
+export const symmetricEigen = (matrix: number[][]): { values: number[]; vectors: number[][] } => {
+  const n = matrix.length;
+  const a = matrix.map(row => [...row]);
+  const v = identityMatrix(n);
+
+  for (let sweep = 0; sweep < 100; sweep++) {
+    let offDiagonal = 0;
+    for (let p = 0; p < n; p++) for (let q = p + 1; q < n; q++) offDiagonal += a[p][q] * a[p][q];
+    if (offDiagonal < 1e-22) break;
+
+    for (let p = 0; p < n; p++) {
+      for (let q = p + 1; q < n; q++) {
+        if (Math.abs(a[p][q]) < 1e-300) continue;
+        const tau = (a[q][q] - a[p][p]) / (2 * a[p][q]);
+        const t = Math.sign(tau || 1) / (Math.abs(tau) + Math.sqrt(1 + tau * tau));
+        const c = 1 / Math.sqrt(1 + t * t);
+        const s = t * c;
+
+        for (let k = 0; k < n; k++) {
+          const akp = a[k][p], akq = a[k][q];
+          a[k][p] = c * akp - s * akq;
+          a[k][q] = s * akp + c * akq;
+        }
+        for (let k = 0; k < n; k++) {
+          const apk = a[p][k], aqk = a[q][k];
+          a[p][k] = c * apk - s * aqk;
+          a[q][k] = s * apk + c * aqk;
+        }
+        for (let k = 0; k < n; k++) {
+          const vkp = v[k][p], vkq = v[k][q];
+          v[k][p] = c * vkp - s * vkq;
+          v[k][q] = s * vkp + c * vkq;
+        }
+      }
+    }
+  }
+
+  return { values: a.map((row, i) => row[i]), vectors: v };
+};
+
+const symmetrize = (m: number[][]): number[][] =>
+  m.map((row, i) => row.map((val, j) => (val + m[j][i]) / 2));
+
+// Projection onto the PSD cone: clip negative eigenvalues to zero
+const projectPSD = (m: number[][]): number[][] => {
+  const { values, vectors } = symmetricEigen(m);
+  const n = m.length;
+  return Array.from({ length: n }, (_, i) => Array.from({ length: n }, (_, j) => {
+    let sum = 0;
+    for (let k = 0; k < n; k++) sum += vectors[i][k] * Math.max(values[k], 0) * vectors[j][k];
+    return sum;
+  }));
+};
+
+export const minEigenvalue = (matrix: number[][]): number =>
+  matrix.length === 0 ? 1 : Math.min(...symmetricEigen(matrix).values);
+
+/**
+ * Nearest correlation matrix in the Frobenius norm (Higham 2002): alternating
+ * projections onto the PSD cone and the unit-diagonal set, with Dykstra's
+ * correction.
+ */
+export const nearestCorrelationMatrix = (matrix: number[][], maxIterations = 200, tolerance = 1e-10): number[][] => {
+  const n = matrix.length;
+  let y = symmetrize(matrix);
+  let correction = Array.from({ length: n }, () => new Array<number>(n).fill(0));
+
+  for (let iter = 0; iter < maxIterations; iter++) {
+    const r = y.map((row, i) => row.map((val, j) => val - correction[i][j]));
+    const x = projectPSD(r);
+    correction = x.map((row, i) => row.map((val, j) => val - r[i][j]));
+    const next = x.map((row, i) => row.map((val, j) => (i === j ? 1 : val)));
+
+    let change = 0;
+    for (let i = 0; i < n; i++) for (let j = 0; j < n; j++) change = Math.max(change, Math.abs(next[i][j] - y[i][j]));
+    y = next;
+    if (change < tolerance) break;
+  }
+
+  return y.map((row, i) => row.map((val, j) => (i === j ? 1 : Math.max(-1, Math.min(1, val)))));
+};
+
+/**
+ * Lower-triangular Cholesky factor. Pivots that vanish (singular PSD input)
+ * are zeroed instead of failing, which keeps repaired matrices usable.
+ */
+export const choleskyDecompose = (matrix: number[][]): number[][] => {
+  const n = matrix.length;
+  const L = Array.from({ length: n }, () => new Array<number>(n).fill(0));
+
+  for (let j = 0; j < n; j++) {
+    let diag = matrix[j][j];
+    for (let k = 0; k < j; k++) diag -= L[j][k] * L[j][k];
+    if (diag < -1e-8) throw new Error('Matrix is not positive semi-definite');
+    L[j][j] = diag > 1e-12 ? Math.sqrt(diag) : 0;
+
+    for (let i = j + 1; i < n; i++) {
+      let sum = matrix[i][j];
+      for (let k = 0; k < j; k++) sum -= L[i][k] * L[j][k];
+      L[i][j] = L[j][j] > 0 ? sum / L[j][j] : 0;
+    }
+  }
+
+  return L;
+};
+
+export interface PreparedCorrelation {
+  matrix: number[][]; // Matrix actually used (repaired if needed)
+  cholesky: number[][];
+  repaired: boolean;
+  minEigenvalue: number; // Of the matrix as supplied
+}
+
+/**
+ * Validate a user-supplied correlation matrix, repairing it to the nearest
+ * correlation matrix when it is not PSD, and factor it for sampling.
+ */
+export const prepareCorrelation = (input: number[][]): PreparedCorrelation => {
+  const cleaned = symmetrize(input).map((row, i) => row.map((val, j) => (i === j ? 1 : Math.max(-1, Math.min(1, val || 0)))));
+  const lambdaMin = minEigenvalue(cleaned);
+  const repaired = lambdaMin < -1e-10;
+  const matrix = repaired ? nearestCorrelationMatrix(cleaned) : cleaned;
+  return { matrix, cholesky: choleskyDecompose(matrix), repaired, minEigenvalue: lambdaMin };
+};
@@ -0,0 +1,128 @@
+import { AssetClass, EventType, ScheduledEvent, SynthesisParameters } from '../types';
+import { isoDate, parseIsoDate } from './calendar';
+import { getStandardNormal, RandomSource } from './mathUtils';
+
+/**
+ * Asset classes each event type moves; CUSTOM events move any series
+ */
+export const EVENT_TARGETS: Record<EventType, AssetClass[] | undefined> = {
+  [EventType.EARNINGS]: [AssetClass.EQUITY, AssetClass.OPTION],
+  [EventType.CENTRAL_BANK]: [AssetClass.CENTRAL_BANK_RATE, AssetClass.FIXED_INCOME, AssetClass.SWAP, AssetClass.SWAPTION],
+  [EventType.CPI]: [AssetClass.INFLATION_RATE],
+  [EventType.CUSTOM]: undefined
+};
+
+export const EVENT_LABELS: Record<EventType, string> = {
+  [EventType.EARNINGS]: 'Earnings',
+  [EventType.CENTRAL_BANK]: 'Central Bank',
+  [EventType.CPI]: 'CPI',
+  [EventType.CUSTOM]: 'Custom'
+};
+
+// Recurring dates (MM-DD) for the calendar presets: results a few weeks after
+// quarter end, eight policy meetings a year on typical FOMC dates, and monthly CPI prints
+const EVENT_CALENDARS: Record<EventType, string[]> = {
+  [EventType.EARNINGS]: ['01-25', '04-25', '07-25', '10-25'],
+  [EventType.CENTRAL_BANK]: ['01-29', '03-19', '05-07', '06-18', '07-30', '09-17', '11-05', '12-10'],
+  [EventType.CPI]: ['01-12', '02-12', '03-12', '04-12', '05-12', '06-12', '07-12', '08-12', '09-12', '10-12', '11-12', '12-12'],
+  [EventType.CUSTOM]: []
+};
+
+// Series quoted as levels rather than prices; their moves are additive
+const LEVEL_ASSET_CLASSES = [
+  AssetClass.FIXED_INCOME, AssetClass.SWAP, AssetClass.SWAPTION, AssetClass.CENTRAL_BANK_RATE,
+  AssetClass.INFLATION_RATE, AssetClass.UNEMPLOYMENT_RATE, AssetClass.GDP_GROWTH, AssetClass.TOTAL_PRODUCTIVITY
+];
+
+// One basis point in level units for the rate series; macro rates are quoted in percent
+const RATE_BP: Partial<Record<AssetClass, number>> = {
+  [AssetClass.CENTRAL_BANK_RATE]: 0.01,
+  [AssetClass.FIXED_INCOME]: 0.0001,
+  [AssetClass.SWAP]: 0.0001,
+  [AssetClass.SWAPTION]: 0.0001
+};
+const POLICY_STEP_BP = 25;
+
+export interface EventSpec {
+  byIndex: Map<number, ScheduledEvent[]>; // Events by the point they land on
+  logSpace: boolean; // Moves are log returns rather than level changes
+  policyStep?: number; // Central bank moves are rounded to multiples of this
+}
+
+export const appliesTo = (type: EventType, assetClass: AssetClass): boolean =>
+  EVENT_TARGETS[type]?.includes(assetClass) ?? true;
+
+export const isLevelSeries = (assetClass: AssetClass): boolean => LEVEL_ASSET_CLASSES.includes(assetClass);
+
+/**
+ * Typical move sizes per event type for the run's asset class: a 5% earnings
+ * surprise, one 25bp policy step and a 10bp CPI surprise, all mean zero.
+ */
+export const defaultEventTerms = (type: EventType, assetClass: AssetClass): Pick<ScheduledEvent, 'shift' | 'jumpMu' | 'jumpSigma'> => {
+  if (type === EventType.EARNINGS) return { shift: 0, jumpMu: 0, jumpSigma: 0.05 };
+  if (type === EventType.CENTRAL_BANK) return { shift: 0, jumpMu: 0, jumpSigma: POLICY_STEP_BP * (RATE_BP[assetClass] ?? 0.0001) };
+  if (type === EventType.CPI) return { shift: 0, jumpMu: 0, jumpSigma: 0.1 };
+  return { shift: 0, jumpMu: 0, jumpSigma: 0 };
+};
+
+/**
+ * Preset events of one type on every recurring date strictly after `start`
+ * and up to `end` (ISO dates)
+ */
+export const eventCalendar = (type: EventType, assetClass: AssetClass, start: string, end: string): ScheduledEvent[] => {
+  const from = parseIsoDate(start.slice(0, 10));
+  const to = parseIsoDate(end.slice(0, 10));
+  if (!from || !to) return [];
+  const terms = defaultEventTerms(type, assetClass);
+  const events: ScheduledEvent[] = [];
+  for (let year = from.getUTCFullYear(); year <= to.getUTCFullYear(); year++) {
+    EVENT_CALENDARS[type].forEach(day => {
+      const date = `${year}-${day}`;
+      if (date > isoDate(from) && date <= isoDate(to)) events.push({ date, type, ...terms });
+    });
+  }
+  return events;
+};
+
+/**
+ * Index of the first point on or after an ISO date, given the points' dates;
+ * -1 past the horizon
+ */
+export const landingIndex = (dates: string[], date: string): number => dates.findIndex(d => d >= date);
+
+/**
+ * Events that move this run, keyed by the index of the first timestamp on or
+ * after their date. Events of types that do not target the asset class, on
+ * the start date or past the horizon are left out. Undefined when none land.
+ */
+export const resolveEventSpec = (params: SynthesisParameters, timestamps: string[]): EventSpec | undefined => {
+  const byIndex = new Map<number, ScheduledEvent[]>();
+  const dates = timestamps.map(t => t.slice(0, 10));
+  (params.events ?? []).forEach(event => {
+    if (!appliesTo(event.type, params.assetClass) || !parseIsoDate(event.date)) return;
+    const index = landingIndex(dates, event.date);
+    if (index <= 0) return;
+    byIndex.set(index, [...(byIndex.get(index) ?? []), event]);
+  });
+  if (byIndex.size === 0) return undefined;
+  const bp = RATE_BP[params.assetClass];
+  return {
+    byIndex,
+    logSpace: !isLevelSeries(params.assetClass),
+    policyStep: bp !== undefined ? POLICY_STEP_BP * bp : undefined
+  };
+};
+
+/**
+ * Draw one event's move. Central bank moves on rate series are rounded to
+ * whole 25bp steps after the draw, so draws under half a step are holds.
+ */
+export const eventMove = (spec: EventSpec, event: ScheduledEvent, rng: RandomSource): number => {
+  const { shift = 0, jumpMu = 0, jumpSigma = 0 } = event;
+  const move = shift + jumpMu + (jumpSigma > 0 ? jumpSigma * getStandardNormal(rng) : 0);
+  if (event.type === EventType.CENTRAL_BANK && spec.policyStep) return Math.round(move / spec.policyStep) * spec.policyStep;
+  return move;
+};
+
+export const applyEventMove = (spec: EventSpec, level: number, move: number): number =>
+  spec.logSpace ? level * Math.exp(move) : level + move;
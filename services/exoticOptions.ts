@@ -0,0 +1,371 @@
+import { AssetClass, BarrierType, Greeks, OptionStyle, SynthesisParameters } from '../types';
+import { calculateBS, CND, createSeededRandom, getStandardNormal } from './mathUtils';
+
+// Broadie-Glasserman-Kou: shifting the barrier by e^(±βσ√Δt) turns the
+// continuous-monitoring formula into a discrete one, β = ζ(1/2)/√(2π)
+const BGK_BETA = 0.5826;
+
+// Cap on the Asian growth factors cached per run, in doubles
+const ASIAN_CACHE_DOUBLES = 4_000_000;
+
+/**
+ * One CRR lattice from the run start to expiry, which ensemble paths read
+ * American values off instead of building a tree at every point
+ */
+interface AmericanLattice {
+  r: number;
+  sigma: number;
+  dt: number;
+  logStep: number; // σ√dt; nodes of a layer sit 2σ√dt apart in log-spot
+  layers: Float64Array[]; // layers[n][j]: value n·dt into the run at spot S0·u^(2j-n)
+}
+
+export interface ExoticSpec {
+  style: OptionStyle;
+  strike: number;
+  expiry: number;
+  isCall: boolean;
+  barrier: number;
+  barrierType: BarrierType;
+  monitoringDt: number; // The simulation step, at which barriers and extremes are observed
+  payout: number;
+  treeSteps: number;
+  fixingTimes: number[]; // Asian averaging dates, years from the run start
+  pairs: number; // Antithetic pairs for the Asian Monte Carlo
+  normals: Float64Array; // pairs x fixings, reused at every step so prices and bumps share shocks
+  initialSpot: number; // Root of the American lattice
+  // Shared by every path of a run: Asian growth factors per point, keyed by the pricing inputs
+  asianGrowth: Map<string, Float64Array>;
+  lattice?: AmericanLattice; // Built on first use by an ensemble path
+}
+
+/**
+ * Path-dependent state observed on the simulated underlying
+ */
+export interface ExoticState {
+  min: number;
+  max: number;
+  knocked: boolean;
+  fixingSum: number;
+  fixingCount: number;
+}
+
+/**
+ * Exotic option terms for OPTION runs, or undefined for European options,
+ * which are priced in closed form by calculateBS.
+ */
+export const resolveExoticSpec = (params: SynthesisParameters): ExoticSpec | undefined => {
+  const style = params.optionStyle ?? OptionStyle.EUROPEAN;
+  if (params.assetClass !== AssetClass.OPTION || style === OptionStyle.EUROPEAN) return undefined;
+  const expiry = Math.max(params.expiryTime ?? 1.0, 1e-4);
+  const strike = params.strikePrice ?? 100;
+  const fixings = style === OptionStyle.ASIAN ? Math.max(1, Math.round(params.asianFixings ?? 52)) : 0;
+  const pairs = style === OptionStyle.ASIAN ? Math.max(1, Math.round((params.exoticPaths ?? 1000) / 2)) : 0;
+
+  // A fixed stream, independent of the path's generator, so the estimate is smooth along the path
+  const rng = createSeededRandom(0x5eed ^ (params.seed ?? 0));
+  const normals = new Float64Array(pairs * fixings);
+  for (let k = 0; k < normals.length; k++) normals[k] = getStandardNormal(rng);
+
+  return {
+    style,
+    strike,
+    expiry,
+    isCall: params.isCall ?? true,
+    barrier: params.barrierLevel ?? strike * 1.2,
+    barrierType: params.barrierType ?? BarrierType.UP_AND_OUT,
+    monitoringDt: params.dt,
+    payout: params.digitalPayout ?? 1,
+    treeSteps: Math.max(10, Math.round(params.treeSteps ?? 100)),
+    fixingTimes: Array.from({ length: fixings }, (_, k) => expiry * (k + 1) / fixings),
+    pairs,
+    normals,
+    initialSpot: params.initialValue,
+    asianGrowth: new Map()
+  };
+};
+
+export const initialExoticState = (S0: number): ExoticState => ({ min: S0, max: S0, knocked: false, fixingSum: 0, fixingCount: 0 });
+
+const isUpBarrier = (type: BarrierType) => type === BarrierType.UP_AND_OUT || type === BarrierType.UP_AND_IN;
+const isKnockIn = (type: BarrierType) => type === BarrierType.UP_AND_IN || type === BarrierType.DOWN_AND_IN;
+
+const breaches = (spec: ExoticSpec, S: number) => (isUpBarrier(spec.barrierType) ? S >= spec.barrier : S <= spec.barrier);
+
+/**
+ * Record the underlying at a simulated point t years into the run: running
+ * extremes, barrier hits, and every Asian fixing due by t.
+ */
+export const observeExotic = (spec: ExoticSpec, state: ExoticState, S: number, t: number): void => {
+  if (t > spec.expiry + 1e-9) return;
+  state.min = Math.min(state.min, S);
+  state.max = Math.max(state.max, S);
+  if (breaches(spec, S)) state.knocked = true;
+  while (state.fixingCount < spec.fixingTimes.length && spec.fixingTimes[state.fixingCount] <= t + 1e-9) {
+    state.fixingSum += S;
+    state.fixingCount++;
+  }
+};
+
+/**
+ * CRR binomial tree with early exercise at every node
+ */
+export const americanTree = (S: number, K: number, T: number, r: number, sigma: number, isCall: boolean, steps: number): number => {
+  const dt = T / steps;
+  const u = Math.exp(sigma * Math.sqrt(dt)), d = 1 / u;
+  const growth = Math.exp(r * dt);
+  const p = Math.min(1, Math.max(0, (growth - d) / (u - d)));
+  const payoff = (spot: number) => Math.max(0, isCall ? spot - K : K - spot);
+
+  const values = new Float64Array(steps + 1);
+  for (let j = 0; j <= steps; j++) values[j] = payoff(S * Math.pow(u, 2 * j - steps));
+  for (let n = steps - 1; n >= 0; n--) {
+    for (let j = 0; j <= n; j++) {
+      const continuation = (p * values[j + 1] + (1 - p) * values[j]) / growth;
+      values[j] = Math.max(continuation, payoff(S * Math.pow(u, 2 * j - n)));
+    }
+  }
+  return values[0];
+};
+
+const buildLattice = (spec: ExoticSpec, r: number, sigma: number): AmericanLattice => {
+  const steps = spec.treeSteps;
+  const dt = spec.expiry / steps;
+  const logStep = sigma * Math.sqrt(dt);
+  const u = Math.exp(logStep), d = 1 / u;
+  const growth = Math.exp(r * dt);
+  const p = Math.min(1, Math.max(0, (growth - d) / (u - d)));
+  const payoff = (n: number, j: number) => {
+    const spot = spec.initialSpot * Math.exp((2 * j - n) * logStep);
+    return Math.max(0, spec.isCall ? spot - spec.strike : spec.strike - spot);
+  };
+
+  const layers: Float64Array[] = [];
+  layers[steps] = Float64Array.from({ length: steps + 1 }, (_, j) => payoff(steps, j));
+  for (let n = steps - 1; n >= 0; n--) {
+    const next = layers[n + 1];
+    layers[n] = Float64Array.from({ length: n + 1 }, (_, j) => Math.max((p * next[j + 1] + (1 - p) * next[j]) / growth, payoff(n, j)));
+  }
+  return { r, sigma, dt, logStep, layers };
+};
+
+// Value at S within layer n, linear in log-spot, or undefined off the layer's nodes
+const layerValue = (lattice: AmericanLattice, n: number, logMoneyness: number): number | undefined => {
+  const layer = lattice.layers[n];
+  const position = (logMoneyness / lattice.logStep + n) / 2;
+  if (n === 0) return Math.abs(position) < 1e-9 ? layer[0] : undefined;
+  if (!(position >= 0 && position <= n)) return undefined;
+  const j = Math.min(Math.floor(position), n - 1);
+  const w = position - j;
+  return layer[j] * (1 - w) + layer[j + 1] * w;
+};
+
+/**
+ * American value off the run's shared lattice, interpolated between layers in
+ * time and between nodes in log-spot. Undefined where the lattice doesn't
+ * reach the spot, or was built for another rate or vol (a surface-driven vol
+ * varies point to point); those points price their own tree.
+ */
+const latticeValue = (spec: ExoticSpec, S: number, T: number, r: number, sigma: number): number | undefined => {
+  spec.lattice ??= buildLattice(spec, r, sigma);
+  const lattice = spec.lattice;
+  if (lattice.r !== r || lattice.sigma !== sigma) return undefined;
+  const position = (spec.expiry - T) / lattice.dt;
+  const n = Math.floor(position);
+  if (n < 0 || n >= spec.treeSteps) return undefined;
+  const logMoneyness = Math.log(S / spec.initialSpot);
+  const now = layerValue(lattice, n, logMoneyness), next = layerValue(lattice, n + 1, logMoneyness);
+  if (now === undefined || next === undefined) return undefined;
+  const w = position - n;
+  return now * (1 - w) + next * w;
+};
+
+/**
+ * Knock-in value under continuous monitoring (Reiner-Rubinstein, no rebate,
+ * no carry beyond r). Knock-outs follow from in-out parity.
+ */
+const knockInValue = (S: number, K: number, H: number, T: number, r: number, sigma: number, isCall: boolean, isUp: boolean): number => {
+  const sT = sigma * Math.sqrt(T);
+  const mu = (r - sigma * sigma / 2) / (sigma * sigma);
+  const phi = isCall ? 1 : -1, eta = isUp ? -1 : 1;
+  const df = Math.exp(-r * T);
+  const x1 = Math.log(S / K) / sT + (1 + mu) * sT;
+  const x2 = Math.log(S / H) / sT + (1 + mu) * sT;
+  const y1 = Math.log(H * H / (S * K)) / sT + (1 + mu) * sT;
+  const y2 = Math.log(H / S) / sT + (1 + mu) * sT;
+  const reflect = Math.pow(H / S, 2 * (mu + 1)), reflectK = Math.pow(H / S, 2 * mu);
+
+  const A = phi * S * CND(phi * x1) - phi * K * df * CND(phi * x1 - phi * sT);
+  const B = phi * S * CND(phi * x2) - phi * K * df * CND(phi * x2 - phi * sT);
+  const C = phi * S * reflect * CND(eta * y1) - phi * K * df * reflectK * CND(eta * y1 - eta * sT);
+  const D = phi * S * reflect * CND(eta * y2) - phi * K * df * reflectK * CND(eta * y2 - eta * sT);
+
+  if (isCall) {
+    if (!isUp) return K > H ? C : A - B + D;
+    return K > H ? A : B - C + D;
+  }
+  if (!isUp) return K > H ? B - C + D : A;
+  return K > H ? A - B + D : C;
+};
+
+const barrierPrice = (spec: ExoticSpec, state: ExoticState, S: number, T: number, r: number, sigma: number): number => {
+  const vanilla = calculateBS(S, spec.strike, T, r, sigma, spec.isCall).price;
+  const knockIn = isKnockIn(spec.barrierType);
+  // Once the barrier has traded, an out option is dead and an in option is a vanilla
+  if (state.knocked || breaches(spec, S)) return knockIn ? vanilla : 0;
+  if (T <= 1e-4) return knockIn ? 0 : vanilla;
+
+  const up = isUpBarrier(spec.barrierType);
+  const shift = Math.exp((up ? 1 : -1) * BGK_BETA * sigma * Math.sqrt(spec.monitoringDt));
+  const inValue = Math.max(0, knockInValue(S, spec.strike, spec.barrier * shift, T, r, sigma, spec.isCall, up));
+  return knockIn ? Math.min(inValue, vanilla) : Math.max(0, vanilla - inValue);
+};
+
+/**
+ * Floating-strike lookback (Goldman-Sosin-Gatto): a call pays S_T - min,
+ * a put max - S_T, with the extremes observed so far. Continuous monitoring.
+ */
+const continuousLookback = (isCall: boolean, S: number, min: number, max: number, T: number, r: number, sigma: number): number => {
+  if (T <= 1e-4) return isCall ? S - Math.min(min, S) : Math.max(max, S) - S;
+  // The closed form divides by r; nudge it off zero
+  const rate = Math.abs(r) < 1e-6 ? 1e-6 : r;
+  const sT = sigma * Math.sqrt(T);
+  const df = Math.exp(-rate * T);
+  const scale = S * df * sigma * sigma / (2 * rate);
+  const power = -2 * rate / (sigma * sigma);
+  const drift = 2 * rate * Math.sqrt(T) / sigma;
+
+  if (isCall) {
+    const m = Math.min(min, S);
+    const a1 = (Math.log(S / m) + (rate + sigma * sigma / 2) * T) / sT;
+    return S * CND(a1) - m * df * CND(a1 - sT) + scale * (Math.pow(S / m, power) * CND(-a1 + drift) - Math.exp(rate * T) * CND(-a1));
+  }
+  const M = Math.max(max, S);
+  const b1 = (Math.log(S / M) + (rate + sigma * sigma / 2) * T) / sT;
+  return M * df * CND(-(b1 - sT)) - S * CND(-b1) + scale * (-Math.pow(S / M, power) * CND(b1 - drift) + Math.exp(rate * T) * CND(b1));
+};
+
+/**
+ * Lookback observed at the simulation step: by BGK the discrete extreme sits
+ * e^(βσ√Δt) inside the continuous one, so the continuous formula is applied
+ * to the shifted running extreme and the expected extreme shifted back.
+ */
+const lookbackPrice = (spec: ExoticSpec, state: ExoticState, S: number, T: number, r: number, sigma: number): number => {
+  if (T <= 1e-4) return continuousLookback(spec.isCall, S, state.min, state.max, T, r, sigma);
+  const shift = Math.exp(BGK_BETA * sigma * Math.sqrt(spec.monitoringDt));
+  // With no carry beyond r, E[e^(-rT) S_T] = S, so V = S - E[e^(-rT) min] for a call and E[e^(-rT) max] - S for a put
+  if (spec.isCall) {
+    const continuous = continuousLookback(true, S, Math.min(state.min, S) / shift, state.max, T, r, sigma);
+    return Math.max(0, S - shift * (S - continuous));
+  }
+  const continuous = continuousLookback(false, S, state.min, Math.max(state.max, S) * shift, T, r, sigma);
+  return Math.max(0, (continuous + S) / shift - S);
+};
+
+/**
+ * Sum over the remaining fixings of S_fixing / S for each antithetic draw
+ * (up and down interleaved). It depends on the point but not on S or the
+ * fixings so far, so every path and spot bump at a point shares it.
+ */
+const asianGrowth = (spec: ExoticSpec, fixingCount: number, T: number, r: number, sigma: number): Float64Array => {
+  const key = `${fixingCount}:${T}:${r}:${sigma}`;
+  const cached = spec.asianGrowth.get(key);
+  if (cached) return cached;
+
+  const { fixingTimes, pairs, normals } = spec;
+  const n = fixingTimes.length;
+  const drifts: number[] = [], vols: number[] = [];
+  let previous = spec.expiry - T;
+  for (let j = fixingCount; j < n; j++) {
+    const gap = Math.max(fixingTimes[j] - previous, 0);
+    drifts.push((r - sigma * sigma / 2) * gap);
+    vols.push(sigma * Math.sqrt(gap));
+    previous = Math.max(fixingTimes[j], previous);
+  }
+
+  const growth = new Float64Array(2 * pairs);
+  for (let p = 0; p < pairs; p++) {
+    let logUp = 0, logDown = 0, sumUp = 0, sumDown = 0;
+    for (let j = 0; j < drifts.length; j++) {
+      const z = normals[p * n + fixingCount + j];
+      logUp += drifts[j] + vols[j] * z;
+      logDown += drifts[j] - vols[j] * z;
+      sumUp += Math.exp(logUp);
+      sumDown += Math.exp(logDown);
+    }
+    growth[2 * p] = sumUp;
+    growth[2 * p + 1] = sumDown;
+  }
+  if ((spec.asianGrowth.size + 1) * growth.length <= ASIAN_CACHE_DOUBLES) spec.asianGrowth.set(key, growth);
+  return growth;
+};
+
+/**
+ * Arithmetic Asian by Monte Carlo: fixings still to come are simulated from
+ * S with antithetic shocks and averaged with those already observed.
+ */
+const asianPrice = (spec: ExoticSpec, state: ExoticState, S: number, T: number, r: number, sigma: number): number => {
+  const { fixingTimes, pairs, strike, isCall } = spec;
+  const n = fixingTimes.length;
+  const df = Math.exp(-r * T);
+  const payoff = (average: number) => Math.max(0, isCall ? average - strike : strike - average);
+  if (state.fixingCount >= n) return df * payoff(state.fixingSum / n);
+
+  const growth = asianGrowth(spec, state.fixingCount, T, r, sigma);
+  let total = 0;
+  for (let k = 0; k < growth.length; k++) total += payoff((state.fixingSum + S * growth[k]) / n);
+  return df * total / (2 * pairs);
+};
+
+const exoticValue = (spec: ExoticSpec, state: ExoticState, S: number, T: number, r: number, sigma: number, shared: boolean): number => {
+  switch (spec.style) {
+    case OptionStyle.AMERICAN:
+      return (shared ? latticeValue(spec, S, T, r, sigma) : undefined) ?? americanTree(S, spec.strike, T, r, sigma, spec.isCall, spec.treeSteps);
+    case OptionStyle.BARRIER:
+      return barrierPrice(spec, state, S, T, r, sigma);
+    case OptionStyle.ASIAN:
+      return asianPrice(spec, state, S, T, r, sigma);
+    case OptionStyle.DIGITAL: {
+      if (T <= 1e-4) return (spec.isCall ? S > spec.strike : S < spec.strike) ? spec.payout : 0;
+      const d2 = (Math.log(S / spec.strike) + (r - sigma * sigma / 2) * T) / (sigma * Math.sqrt(T));
+      return spec.payout * Math.exp(-r * T) * CND(spec.isCall ? d2 : -d2);
+    }
+    case OptionStyle.LOOKBACK:
+      return lookbackPrice(spec, state, S, T, r, sigma);
+    default:
+      return calculateBS(S, spec.strike, T, r, sigma, spec.isCall).price;
+  }
+};
+
+/**
+ * Price and bump-and-reprice Greeks in calculateBS units: vega per unit vol,
+ * theta per year, rho per unit rate. The path state is held fixed under every
+ * bump. Greeks are skipped (undefined) when not requested, as on ensemble
+ * paths, which also read American values off the run's shared lattice.
+ */
+export const priceExotic = (
+  spec: ExoticSpec,
+  state: ExoticState,
+  S: number,
+  T: number,
+  r: number,
+  sigma: number,
+  withGreeks: boolean
+): { price: number; greeks?: Greeks } => {
+  const value = (s: number, tau: number, rate: number, vol: number) => exoticValue(spec, state, s, Math.max(tau, 1e-4), rate, Math.max(vol, 1e-4), !withGreeks);
+  const price = value(S, T, r, sigma);
+  if (!withGreeks) return { price };
+
+  const h = 0.01 * S, dVol = 0.01, dRate = 1e-4, dT = 1 / 365;
+  const up = value(S + h, T, r, sigma), down = value(S - h, T, r, sigma);
+  return {
+    price,
+    greeks: {
+      delta: (up - down) / (2 * h),
+      gamma: (up - 2 * price + down) / (h * h),
+      vega: (value(S, T, r, sigma + dVol) - value(S, T, r, sigma - dVol)) / (2 * dVol),
+      theta: T > dT ? (value(S, T - dT, r, sigma) - price) / dT : 0,
+      rho: (value(S, T, r + dRate, sigma) - value(S, T, r - dRate, sigma)) / (2 * dRate)
+    }
+  };
+};
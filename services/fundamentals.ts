@@ -0,0 +1,97 @@
+import { AssetClass, EventType, FundamentalSeries, FundamentalsSnapshot, SynthesisParameters } from '../types';
+import { eventCalendar, landingIndex } from './eventSchedule';
+import { getStandardNormal, RandomSource } from './mathUtils';
+
+// Log std of the net margin around its mean, redrawn at every report
+const MARGIN_DISPERSION = 0.1;
+
+export const DEFAULT_FUNDAMENTALS = {
+  earningsGrowth: 0.03,
+  earningsVol: 0.15,
+  earningsCorrelation: 0.5,
+  surpriseSigma: 0.03,
+  surpriseReaction: 2,
+  payoutRatio: 0.4,
+  netMargin: 0.1
+};
+
+export interface FundamentalsSpec {
+  growth: number;
+  vol: number;
+  correlation: number;
+  surpriseSigma: number;
+  reaction: number;
+  reportIndices: Set<number>; // Points that carry a quarterly report
+  series: FundamentalSeries[];
+  payoutRatio: number;
+  netMargin: number;
+}
+
+export interface FundamentalsState {
+  power: number; // Latent EPS, which consensus tracks
+  reported: number; // Last reported EPS
+  bookValue: number;
+  margin: number;
+}
+
+/**
+ * Earnings process for EQUITY runs with stochasticEarnings, or undefined.
+ * Reports land on the quarterly dates of the earnings calendar preset.
+ */
+export const resolveFundamentalsSpec = (params: SynthesisParameters, timestamps: string[]): FundamentalsSpec | undefined => {
+  if (params.assetClass !== AssetClass.EQUITY || !params.stochasticEarnings) return undefined;
+  const dates = timestamps.map(t => t.slice(0, 10));
+  const reports = eventCalendar(EventType.EARNINGS, params.assetClass, dates[0], dates[dates.length - 1]);
+  return {
+    growth: params.earningsGrowth ?? DEFAULT_FUNDAMENTALS.earningsGrowth,
+    vol: Math.max(0, params.earningsVol ?? DEFAULT_FUNDAMENTALS.earningsVol),
+    correlation: Math.max(-1, Math.min(1, params.earningsCorrelation ?? DEFAULT_FUNDAMENTALS.earningsCorrelation)),
+    surpriseSigma: Math.max(0, params.surpriseSigma ?? DEFAULT_FUNDAMENTALS.surpriseSigma),
+    reaction: params.surpriseReaction ?? DEFAULT_FUNDAMENTALS.surpriseReaction,
+    reportIndices: new Set(reports.map(e => landingIndex(dates, e.date)).filter(i => i > 0)),
+    series: params.fundamentalSeries ?? [],
+    payoutRatio: Math.max(0, Math.min(1, params.payoutRatio ?? DEFAULT_FUNDAMENTALS.payoutRatio)),
+    netMargin: params.netMargin ?? DEFAULT_FUNDAMENTALS.netMargin
+  };
+};
+
+export const initialFundamentalsState = (spec: FundamentalsSpec, eps: number, bookValue: number): FundamentalsState =>
+  ({ power: eps, reported: eps, bookValue, margin: spec.netMargin });
+
+/**
+ * Move latent EPS one step with shocks correlated to the price shock, and
+ * accrue retained earnings to book value
+ */
+export const stepFundamentals = (spec: FundamentalsSpec, state: FundamentalsState, priceEpsilon: number, dt: number, rng: RandomSource) => {
+  const z = spec.correlation * priceEpsilon + Math.sqrt(1 - spec.correlation * spec.correlation) * getStandardNormal(rng);
+  state.power *= Math.exp((spec.growth - 0.5 * spec.vol * spec.vol) * dt + spec.vol * Math.sqrt(dt) * z);
+  state.bookValue += state.reported * (1 - spec.payoutRatio) * dt;
+};
+
+/**
+ * Publish a report: EPS comes in at consensus times a lognormal surprise and
+ * consensus resets to it. Returns the surprise as a fraction of consensus.
+ */
+export const reportEarnings = (spec: FundamentalsSpec, state: FundamentalsState, rng: RandomSource): number => {
+  const logSurprise = spec.surpriseSigma * getStandardNormal(rng);
+  state.reported = state.power * Math.exp(logSurprise);
+  state.power = state.reported;
+  if (spec.series.includes(FundamentalSeries.REVENUE)) {
+    state.margin = spec.netMargin * Math.exp(MARGIN_DISPERSION * getStandardNormal(rng) - 0.5 * MARGIN_DISPERSION * MARGIN_DISPERSION);
+  }
+  return Math.exp(logSurprise) - 1;
+};
+
+// Scheduled earnings events move latent and reported EPS together
+export const scaleEarnings = (state: FundamentalsState, factor: number) => {
+  state.power *= factor;
+  state.reported *= factor;
+};
+
+export const fundamentalsSnapshot = (spec: FundamentalsSpec, state: FundamentalsState, surprise?: number): FundamentalsSnapshot => ({
+  earningsPower: state.power,
+  surprise,
+  dividend: spec.series.includes(FundamentalSeries.DIVIDENDS) ? state.reported * spec.payoutRatio : undefined,
+  bookValue: spec.series.includes(FundamentalSeries.BOOK_VALUE) ? state.bookValue : undefined,
+  revenue: spec.series.includes(FundamentalSeries.REVENUE) && state.margin > 0 ? state.reported / state.margin : undefined
+});
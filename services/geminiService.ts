@@ -15,7 +15,7 @@ export const getEconomicScenario = async (scenarioPrompt: string) => {
     Return a JSON object with:
     - name: Short title
     - description: One sentence rationale
-    - modelType: [EQUITY_GBM, EQUITY_MERTON_JUMP, INTEREST_RATE_VASICEK, INTEREST_RATE_CIR, MACRO_INFLATION, OU_PROCESS]
+    - modelType: [EQUITY_GBM, EQUITY_MERTON_JUMP, INTEREST_RATE_VASICEK, INTEREST_RATE_CIR, MACRO_INFLATION, OU_PROCESS, HESTON, GARCH, GJR_GARCH, EGARCH]
     - assetClass: [EQUITY, FIXED_INCOME, FX, COMMODITY, FORWARD, FUTURE, OPTION, SWAP, SWAPTION, CENTRAL_BANK_RATE, INFLATION_RATE, UNEMPLOYMENT_RATE, TOTAL_PRODUCTIVITY, GDP_GROWTH]
     - parameters: { initialValue, mu, sigma, kappa, theta, lambda, jumpMu, jumpSigma, seasonalAmplitude, riskFreeRate, impliedVol, cdsSpread, domesticRate, foreignRate, peRatio, expectedEarnings }`,
     config: {
@@ -0,0 +1,148 @@
+import { AssetClass, DataPoint, HedgeErrorReport, HedgeSettings, HedgeStep, LegType, SynthesisParameters } from '../types';
+import { buildSchedule } from './calendar';
+import { quantileSorted } from './mathUtils';
+import { generateSynthesizedData } from './synthesisEngine';
+
+export const DEFAULT_HEDGE_SETTINGS: HedgeSettings = { rebalanceEvery: 1, costBps: 5, fixedCost: 0 };
+const COMPARISON_INTERVALS = [1, 2, 5, 10, 20];
+const DEFAULT_PATHS = 200;
+
+export const canHedge = (params: SynthesisParameters, data: DataPoint[]): boolean =>
+  params.assetClass === AssetClass.OPTION && !!data[0]?.greeks;
+
+// Hedging stops at the last expiry; later points only mark expired options at intrinsic
+const hedgeExpiry = (params: SynthesisParameters): number => {
+  const legExpiries = (params.portfolio ?? []).filter(l => l.type !== LegType.UNDERLYING).map(l => l.expiry);
+  return legExpiries.length > 0 ? Math.max(...legExpiries) : params.expiryTime ?? 1.0;
+};
+
+/**
+ * Short one unit of the run's option (or book) and hold delta shares,
+ * rebalancing every few steps and paying costs on each trade. Each step's
+ * change in the hedged book is split into Taylor terms from the previous
+ * point's Greeks; vega uses the change in ATM vol when a surface is simulated,
+ * and whatever the expansion misses is residual.
+ */
+export const simulateDeltaHedge = (data: DataPoint[], params: SynthesisParameters, settings: HedgeSettings): HedgeStep[] => {
+  const { elapsed } = buildSchedule(params, data.length - 1);
+  const expiry = hedgeExpiry(params);
+  const r = params.riskFreeRate ?? 0.03;
+  const every = Math.max(1, Math.round(settings.rebalanceEvery));
+  const tradeCost = (trade: number, spot: number) =>
+    trade === 0 ? 0 : Math.abs(trade) * spot * settings.costBps / 10_000 + settings.fixedCost;
+
+  const steps: HedgeStep[] = [];
+  let shares = 0, cash = 0;
+  for (let i = 0; i < data.length && elapsed[i] <= expiry + 1e-9; i++) {
+    const d = data[i];
+    const spot = d.underlyingValue ?? d.value;
+    const prev = steps[i - 1];
+    const dt = i > 0 ? elapsed[i] - elapsed[i - 1] : 0;
+
+    // Interest on the cash account accrues before any trade at this point
+    const interest = cash * Math.expm1(r * dt);
+    cash += interest;
+
+    const rebalance = i % every === 0;
+    const target = rebalance ? d.greeks?.delta ?? 0 : shares;
+    const costs = -tradeCost(target - shares, spot);
+    // The option premium is received at inception
+    cash += (i === 0 ? d.value : 0) - (target - shares) * spot + costs;
+    shares = target;
+
+    const book = cash + shares * spot - d.value;
+    const step: HedgeStep = {
+      index: d.index,
+      timestamp: d.timestamp,
+      spot,
+      optionValue: d.value,
+      shares,
+      cash,
+      book,
+      pnl: i > 0 ? book - prev.book : book,
+      delta: 0,
+      gamma: 0,
+      theta: 0,
+      vega: 0,
+      costs,
+      residual: 0,
+      rebalanced: rebalance
+    };
+
+    if (i > 0) {
+      const g = data[i - 1].greeks ?? {};
+      const dS = spot - prev.spot;
+      const dVol = d.volSurface && data[i - 1].volSurface ? d.volSurface.atmVol - data[i - 1].volSurface!.atmVol : 0;
+      step.delta = (prev.shares - (g.delta ?? 0)) * dS;
+      step.gamma = -0.5 * (g.gamma ?? 0) * dS * dS;
+      step.theta = -(g.theta ?? 0) * dt + interest;
+      step.vega = -(g.vega ?? 0) * dVol;
+      step.residual = step.pnl - step.delta - step.gamma - step.theta - step.vega - step.costs;
+    } else {
+      step.residual = step.pnl - step.costs;
+    }
+    steps.push(step);
+  }
+  return steps;
+};
+
+// Terminal hedged P&L and total costs paid over one ledger
+const terminal = (ledger: HedgeStep[]) => ({
+  error: ledger[ledger.length - 1]?.book ?? 0,
+  cost: -ledger.reduce((acc, s) => acc + s.costs, 0)
+});
+
+const meanStd = (values: number[]) => {
+  const mean = values.reduce((a, v) => a + v, 0) / values.length;
+  const std = Math.sqrt(values.reduce((a, v) => a + (v - mean) ** 2, 0) / Math.max(values.length - 1, 1));
+  return { mean, std };
+};
+
+/**
+ * Terminal hedging error over fresh paths of the same model (seeds following
+ * the run's), at the chosen settings and at a ladder of rebalance intervals
+ * re-hedged on the same paths. Paths are hedged as they are generated, so
+ * only their terminal results are kept.
+ */
+export const runHedgeErrorDistribution = (
+  params: SynthesisParameters,
+  settings: HedgeSettings,
+  numPaths: number = DEFAULT_PATHS,
+  onProgress?: (completedPaths: number, totalPaths: number) => void
+): HedgeErrorReport => {
+  const seed = params.seed ?? 1;
+  const intervals = Array.from(new Set<number>([...COMPARISON_INTERVALS, Math.max(1, Math.round(settings.rebalanceEvery))])).sort((a, b) => a - b);
+  const errors: number[] = [], costs: number[] = [];
+  const ladder = intervals.map(() => ({ errors: [] as number[], costs: [] as number[] }));
+
+  for (let p = 0; p < numPaths; p++) {
+    const data = generateSynthesizedData({ ...params, numPaths: 1, seed: (seed + p + 1) >>> 0, generateBars: false, generateTicks: false }).data;
+    const chosen = terminal(simulateDeltaHedge(data, params, settings));
+    errors.push(chosen.error);
+    costs.push(chosen.cost);
+    intervals.forEach((rebalanceEvery, k) => {
+      const result = terminal(simulateDeltaHedge(data, params, { ...settings, rebalanceEvery }));
+      ladder[k].errors.push(result.error);
+      ladder[k].costs.push(result.cost);
+    });
+    onProgress?.(p + 1, numPaths);
+  }
+
+  const sorted = [...errors].sort((a, b) => a - b);
+  const { mean, std } = meanStd(errors);
+  return {
+    numPaths,
+    errors,
+    mean,
+    std,
+    p5: quantileSorted(sorted, 0.05),
+    p50: quantileSorted(sorted, 0.5),
+    p95: quantileSorted(sorted, 0.95),
+    meanCost: meanStd(costs).mean,
+    byInterval: intervals.map((rebalanceEvery, k) => ({
+      rebalanceEvery,
+      ...meanStd(ladder[k].errors),
+      meanCost: meanStd(ladder[k].costs).mean
+    }))
+  };
+};
@@ -0,0 +1,128 @@
+import { MarketCalendar, OHLCVBar, Tick } from '../types';
+import { getPoisson, getStandardNormal, RandomSource } from './mathUtils';
+import { CALENDAR_SESSIONS, Schedule, SessionWindow } from './calendar';
+
+const MAX_USHAPE = 0.5;
+
+/**
+ * Mean of the U-shaped profile 1 + a(3(2u - 1)² - 1) over session positions
+ * [from, to]. It averages to 1 over the whole session, so daily volume and
+ * variance are unchanged; with a = 0.5 the open and close run at 4x midday.
+ */
+export const uShapeWeight = (from: number, to: number, strength: number): number => {
+  const a = Math.max(0, Math.min(MAX_USHAPE, strength));
+  if (to - from < 1e-12) return 1 + a * (3 * (2 * from - 1) ** 2 - 1);
+  const cube = (u: number) => (2 * u - 1) ** 3 / 2;
+  return 1 + a * ((cube(to) - cube(from)) / (to - from) - 1);
+};
+
+/**
+ * Per-step intraday profile weights from the schedule's session windows, or
+ * undefined for non-intraday schedules.
+ */
+export const sessionProfile = (schedule: Schedule, calendar: MarketCalendar, strength: number): number[] | undefined => {
+  if (!schedule.windows || strength <= 0) return undefined;
+  const { open, close } = CALENDAR_SESSIONS[calendar];
+  const position = (minute: number) => (minute - open) / (close - open);
+  return schedule.windows.map(w => uShapeWeight(position(w.start), position(w.end), strength));
+};
+
+export interface TickSettings {
+  window: SessionWindow;
+  expectedCount: number;
+  tickSize: number;
+  spreadBps: number;
+  noiseBps: number;
+}
+
+export interface BarInput {
+  barIndex: number;
+  from: number; // Underlying at the start of the bar
+  to: number; // Underlying at the end of the bar
+  variance: number; // Diffusion variance over the bar, of ln(level) when logSpace
+  logSpace: boolean;
+  subSteps: number;
+  expectedVolume: number;
+  ticks?: TickSettings;
+}
+
+const formatClock = (minutes: number): string => {
+  const ms = Math.round(minutes * 60_000);
+  const pad = (n: number, width = 2) => String(n).padStart(width, '0');
+  return `${pad(Math.floor(ms / 3_600_000))}:${pad(Math.floor(ms / 60_000) % 60)}:${pad(Math.floor(ms / 1000) % 60)}.${pad(ms % 1000, 3)}`;
+};
+
+// Snap to the tick grid without binary floating-point residue
+const onGrid = (price: number, tickSize: number, round: (x: number) => number): number =>
+  Number((round(price / tickSize) * tickSize).toFixed(10));
+
+/**
+ * OHLCV bar (and optional trades) between two simulated levels. The path
+ * inside the bar is a Brownian bridge pinned to both ends, sampled
+ * sequentially on the union of the sub-step grid and the trade times, so the
+ * bar's close is exactly the engine's next point. Volume rises with the size
+ * of the bar's move and carries lognormal noise.
+ */
+export const buildBar = (input: BarInput, rng: RandomSource): { bar: OHLCVBar; ticks: Tick[] } => {
+  const { from, to, logSpace, subSteps, ticks: tickSettings } = input;
+  const variance = Math.max(input.variance, 0);
+  const toSpace = (x: number) => (logSpace ? Math.log(x) : x);
+  const fromSpace = (x: number) => (logSpace ? Math.exp(x) : x);
+  const x0 = toSpace(from), x1 = toSpace(to);
+
+  const tradeTimes = tickSettings
+    ? Array.from({ length: getPoisson(tickSettings.expectedCount, rng) }, () => rng()).sort((a, b) => a - b)
+    : [];
+  const grid = Array.from({ length: Math.max(0, subSteps - 1) }, (_, k) => (k + 1) / subSteps);
+  const times = [...grid.map(t => ({ t, trade: false })), ...tradeTimes.map(t => ({ t, trade: true }))].sort((a, b) => a.t - b.t);
+
+  let high = Math.max(from, to), low = Math.min(from, to);
+  let tPrev = 0, xPrev = x0;
+  const efficientAtTrades: number[] = [];
+  for (const { t, trade } of times) {
+    const remaining = 1 - tPrev;
+    const mean = xPrev + (t - tPrev) / remaining * (x1 - xPrev);
+    const std = Math.sqrt(Math.max(variance * (t - tPrev) * (1 - t) / remaining, 0));
+    xPrev = mean + std * getStandardNormal(rng);
+    tPrev = t;
+    const level = fromSpace(xPrev);
+    high = Math.max(high, level);
+    low = Math.min(low, level);
+    if (trade) efficientAtTrades.push(level);
+  }
+
+  // |move| / expected |move| has mean 1, so the volume-volatility link leaves expected volume unchanged
+  const moveScale = variance > 0 ? Math.abs(x1 - x0) / Math.sqrt(variance * 2 / Math.PI) : 1;
+  let volume = Math.round(input.expectedVolume * (0.5 + 0.5 * moveScale) * Math.exp(0.25 * getStandardNormal(rng) - 0.03125));
+
+  const ticks: Tick[] = [];
+  if (tickSettings && efficientAtTrades.length > 0) {
+    const { window, tickSize, spreadBps, noiseBps } = tickSettings;
+    // Exponential weights split the bar's volume across its trades
+    const weights = efficientAtTrades.map(() => -Math.log(1 - rng()));
+    const totalWeight = weights.reduce((a, w) => a + w, 0);
+    const barVolume = volume;
+    volume = 0;
+
+    efficientAtTrades.forEach((efficient, k) => {
+      const mid = efficient + Math.abs(efficient) * (noiseBps / 1e4) * getStandardNormal(rng);
+      const half = Math.max(Math.abs(mid) * spreadBps / 2e4, tickSize / 2);
+      const bid = onGrid(mid - half, tickSize, Math.floor);
+      const ask = Math.max(onGrid(mid + half, tickSize, Math.ceil), onGrid(bid + tickSize, tickSize, Math.round));
+      const side = rng() < 0.5 ? 'buy' : 'sell';
+      const size = Math.max(1, Math.round(barVolume * weights[k] / totalWeight));
+      volume += size;
+      ticks.push({
+        timestamp: `${window.date}T${formatClock(window.start + tradeTimes[k] * (window.end - window.start))}`,
+        barIndex: input.barIndex,
+        price: side === 'buy' ? ask : bid,
+        size,
+        side,
+        bid,
+        ask
+      });
+    });
+  }
+
+  return { bar: { open: from, high, low, close: to, volume }, ticks };
+};
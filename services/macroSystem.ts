@@ -0,0 +1,241 @@
+import { AssetClass, MacroStructure, MacroSystem, SynthesisParameters } from '../types';
+import { getStandardNormal, RandomSource } from './mathUtils';
+
+/**
+ * Panel order for the joint macro engines; VAR arrays and shock vols follow it
+ */
+export const MACRO_VARIABLES: AssetClass[] = [
+  AssetClass.CENTRAL_BANK_RATE,
+  AssetClass.INFLATION_RATE,
+  AssetClass.UNEMPLOYMENT_RATE,
+  AssetClass.GDP_GROWTH,
+  AssetClass.TOTAL_PRODUCTIVITY
+];
+
+export const MACRO_LABELS: Partial<Record<AssetClass, string>> = {
+  [AssetClass.CENTRAL_BANK_RATE]: 'Policy Rate',
+  [AssetClass.INFLATION_RATE]: 'Inflation',
+  [AssetClass.UNEMPLOYMENT_RATE]: 'Unemployment',
+  [AssetClass.GDP_GROWTH]: 'GDP Growth',
+  [AssetClass.TOTAL_PRODUCTIVITY]: 'TFP Growth'
+};
+
+export const MAX_VAR_LAGS = 4;
+
+export const DEFAULT_MACRO_STRUCTURE: MacroStructure = {
+  neutralRate: 0.5,
+  inflationTarget: 2.0,
+  naturalUnemployment: 4.5,
+  potentialGrowth: 2.0,
+  productivityGrowth: 1.0,
+  taylorInflation: 0.5,
+  taylorOutput: 0.5,
+  rateSmoothing: 2.0,
+  phillipsSlope: 0.3,
+  inflationReversion: 0.5,
+  okunCoefficient: 2.0,
+  rateSensitivity: 0.5,
+  growthReversion: 2.0,
+  productivityReversion: 0.5,
+  shockVol: [0.25, 0.5, 0.3, 1.5, 0.5]
+};
+
+export interface VarModel {
+  intercept: number[];
+  coefficients: number[][][]; // One matrix per lag, row = equation
+  shockVol: number[]; // Per-period shock std
+}
+
+export interface MacroSpec {
+  system: MacroSystem;
+  primary: number; // Index of the run's own asset class in MACRO_VARIABLES
+  mean: number[]; // Long-run level; the other variables start here
+  jacobian?: number[][]; // STRUCTURAL: annual drift per unit of deviation from the mean
+  var?: VarModel; // VAR
+  shockVol: number[]; // Annual (STRUCTURAL) or per period (VAR)
+}
+
+export interface MacroState {
+  history: number[][]; // Latest first, one entry per VAR lag
+}
+
+/**
+ * Steady state of the structural model: inflation on target, unemployment at
+ * its natural rate, growth at potential and the policy rate at neutral
+ */
+export const structuralSteadyState = (s: MacroStructure): number[] =>
+  [s.neutralRate + s.inflationTarget, s.inflationTarget, s.naturalUnemployment, s.potentialGrowth, s.productivityGrowth];
+
+/**
+ * Linear drift of the structural model around its steady state, one row per
+ * variable in MACRO_VARIABLES order:
+ *   policy rate  di = ρ(r* + π + φ_π(π - π*) + φ_y·gap - i) dt   (Taylor rule, smoothed)
+ *   inflation    dπ = (κ_π(π* - π) - λ(u - u*)) dt               (Phillips curve)
+ *   unemployment du = -(g - potential) / okun dt                  (Okun's law)
+ *   GDP growth   dg = (κ_g(potential - g) - β(i - π - r*)) dt    (IS curve)
+ *   TFP growth   da = κ_a(ā - a) dt
+ * with gap = -okun(u - u*) and potential = g* + (a - ā).
+ */
+export const structuralJacobian = (s: MacroStructure): number[][] => {
+  const rho = s.rateSmoothing;
+  const okun = s.okunCoefficient;
+  return [
+    [-rho, rho * (1 + s.taylorInflation), -rho * s.taylorOutput * okun, 0, 0],
+    [0, -s.inflationReversion, -s.phillipsSlope, 0, 0],
+    [0, 0, 0, -1 / okun, 1 / okun],
+    [-s.rateSensitivity, s.rateSensitivity, 0, -s.growthReversion, s.growthReversion],
+    [0, 0, 0, 0, -s.productivityReversion]
+  ];
+};
+
+/**
+ * The structural model as a VAR(1) over one step of dt years (Euler), so a
+ * VAR run can start from coefficients that already hang together
+ */
+export const structuralVar = (s: MacroStructure, dt: number): VarModel => {
+  const jacobian = structuralJacobian(s);
+  const mean = structuralSteadyState(s);
+  const A = jacobian.map((row, i) => row.map((j, k) => (i === k ? 1 : 0) + j * dt));
+  return {
+    intercept: jacobian.map(row => -dt * row.reduce((acc, j, k) => acc + j * mean[k], 0)),
+    coefficients: [A],
+    shockVol: s.shockVol.map(v => v * Math.sqrt(dt))
+  };
+};
+
+/**
+ * First problem with a VAR, or undefined when it has 1 to MAX_VAR_LAGS square
+ * lag matrices and intercept and shock vols of the panel's size
+ */
+export const varError = (model: VarModel): string | undefined => {
+  const n = MACRO_VARIABLES.length;
+  const { intercept, coefficients, shockVol } = model;
+  if (coefficients.length < 1 || coefficients.length > MAX_VAR_LAGS) return `Needs 1 to ${MAX_VAR_LAGS} lag matrices`;
+  const lag = coefficients.findIndex(A => A.length !== n || A.some(row => row.length !== n || row.some(a => !Number.isFinite(a))));
+  if (lag >= 0) return `Lag ${lag + 1} must be a ${n}x${n} matrix of numbers`;
+  if (intercept.length !== n || intercept.some(c => !Number.isFinite(c))) return `Intercept needs ${n} numbers`;
+  if (shockVol.length !== n || shockVol.some(v => !(v >= 0))) return `Shock vols need ${n} non-negative numbers`;
+  return undefined;
+};
+
+const multiply = (a: number[][], b: number[][]): number[][] =>
+  a.map(row => b[0].map((_, j) => row.reduce((acc, v, k) => acc + v * b[k][j], 0)));
+
+const maxRowSum = (m: number[][]): number => Math.max(...m.map(row => row.reduce((acc, v) => acc + Math.abs(v), 0)));
+
+/**
+ * Spectral radius of the VAR's companion matrix, by Gelfand's formula over
+ * repeated squaring. Below 1 the VAR is stationary; at or above 1 it drifts
+ * off or explodes.
+ */
+export const varSpectralRadius = (coefficients: number[][][]): number => {
+  const n = MACRO_VARIABLES.length;
+  const size = n * coefficients.length;
+  // First block row holds the lag matrices; the rest shifts the history down
+  let m = Array.from({ length: size }, (_, i) => Array.from({ length: size }, (_, j) =>
+    i < n ? coefficients[Math.floor(j / n)][i][j % n] : (j === i - n ? 1 : 0)));
+  let logScale = 0;
+  const squarings = 20;
+  for (let k = 0; k < squarings; k++) {
+    const norm = maxRowSum(m);
+    if (norm === 0) return 0;
+    m = m.map(row => row.map(v => v / norm));
+    logScale = 2 * (logScale + Math.log(norm));
+    m = multiply(m, m);
+  }
+  return Math.exp((logScale + Math.log(Math.max(maxRowSum(m), 1e-300))) / 2 ** squarings);
+};
+
+/**
+ * Unconditional mean (I - A_1 - ... - A_p)^-1 c by Gaussian elimination, or
+ * undefined for a unit root
+ */
+export const varMean = (model: VarModel): number[] | undefined => {
+  const n = MACRO_VARIABLES.length;
+  const rows = Array.from({ length: n }, (_, i) => [
+    ...Array.from({ length: n }, (_, j) => (i === j ? 1 : 0) - model.coefficients.reduce((acc, A) => acc + A[i][j], 0)),
+    model.intercept[i]
+  ]);
+  for (let col = 0; col < n; col++) {
+    const pivot = rows.slice(col).reduce((best, row, k) => (Math.abs(row[col]) > Math.abs(rows[best][col]) ? col + k : best), col);
+    if (Math.abs(rows[pivot][col]) < 1e-10) return undefined;
+    [rows[col], rows[pivot]] = [rows[pivot], rows[col]];
+    for (let r = 0; r < n; r++) {
+      if (r === col) continue;
+      const f = rows[r][col] / rows[col][col];
+      rows[r] = rows[r].map((v, k) => v - f * rows[col][k]);
+    }
+  }
+  return rows.map((row, i) => row[n] / row[i]);
+};
+
+/**
+ * The VAR a config asks for; pieces left out come from the structural model
+ * at the run's step
+ */
+export const requestedVar = (params: SynthesisParameters): VarModel => {
+  const fallback = structuralVar({ ...DEFAULT_MACRO_STRUCTURE, ...params.macroStructure }, params.dt);
+  return {
+    intercept: params.varIntercept ?? fallback.intercept,
+    coefficients: params.varCoefficients ?? fallback.coefficients,
+    shockVol: params.varShockVol ?? fallback.shockVol
+  };
+};
+
+/**
+ * Joint macro engine for runs on a macro asset class with macroSystem set, or
+ * undefined. A malformed VAR falls back to the structural model's entirely.
+ */
+export const resolveMacroSpec = (params: SynthesisParameters): MacroSpec | undefined => {
+  const primary = MACRO_VARIABLES.indexOf(params.assetClass);
+  if (!params.macroSystem || primary < 0) return undefined;
+  const structure: MacroStructure = { ...DEFAULT_MACRO_STRUCTURE, ...params.macroStructure };
+  const steadyState = structuralSteadyState(structure);
+  if (params.macroSystem === MacroSystem.STRUCTURAL) {
+    return { system: params.macroSystem, primary, mean: steadyState, jacobian: structuralJacobian(structure), shockVol: structure.shockVol };
+  }
+  const requested = requestedVar(params);
+  const model = varError(requested) ? structuralVar(structure, params.dt) : requested;
+  return { system: params.macroSystem, primary, mean: varMean(model) ?? steadyState, var: model, shockVol: model.shockVol };
+};
+
+/**
+ * Everything but the run's own variable starts at the long-run mean; VAR lags
+ * start flat at the initial point
+ */
+export const initialMacroState = (spec: MacroSpec, initialValue: number): MacroState => {
+  const start = spec.mean.map((m, k) => (k === spec.primary ? initialValue : m));
+  return { history: Array.from({ length: spec.var?.coefficients.length ?? 1 }, () => [...start]) };
+};
+
+/**
+ * Advance the panel one step. The run's own variable takes the primary shock,
+ * so the market proxy coupling still applies to it; the rest draw their own.
+ */
+export const stepMacro = (spec: MacroSpec, state: MacroState, primaryEpsilon: number, dt: number, rng: RandomSource) => {
+  const shocks = spec.shockVol.map((_, k) => (k === spec.primary ? primaryEpsilon : getStandardNormal(rng)));
+  const current = state.history[0];
+  let next: number[];
+  if (spec.var) {
+    const { intercept, coefficients } = spec.var;
+    next = intercept.map((c, i) => c
+      + coefficients.reduce((acc, A, lag) => acc + A[i].reduce((sum, a, k) => sum + a * state.history[lag][k], 0), 0)
+      + spec.shockVol[i] * shocks[i]);
+  } else {
+    next = current.map((y, i) => y
+      + spec.jacobian![i].reduce((acc, j, k) => acc + j * (current[k] - spec.mean[k]), 0) * dt
+      + spec.shockVol[i] * Math.sqrt(dt) * shocks[i]);
+  }
+  state.history.unshift(next);
+  state.history.pop();
+};
+
+export const macroValue = (spec: MacroSpec, state: MacroState): number => state.history[0][spec.primary];
+
+// Scheduled events move the run's own variable; the rest of the panel responds from the next step
+export const setMacroValue = (spec: MacroSpec, state: MacroState, value: number) => {
+  state.history[0][spec.primary] = value;
+};
+
+export const macroSnapshot = (state: MacroState): Partial<Record<AssetClass, number>> =>
+  Object.fromEntries(MACRO_VARIABLES.map((v, k) => [v, state.history[0][k]]));
@@ -1,14 +1,143 @@
 
+/**
+ * Uniform [0, 1) generator. Every draw in the engine goes through one of these
+ * so a run can be replayed from its seed.
+ */
+export type RandomSource = () => number;
+
+/**
+ * Fresh 32-bit seed for runs where the user has not pinned one
+ */
+export const generateSeed = (): number => Math.floor(Math.random() * 0x100000000) >>> 0;
+
+/**
+ * xoshiro128** PRNG, state expanded from a 32-bit seed with splitmix32
+ */
+export const createSeededRandom = (seed: number): RandomSource => {
+  let x = seed >>> 0;
+  const splitmix32 = () => {
+    x = (x + 0x9e3779b9) >>> 0;
+    let z = x;
+    z = Math.imul(z ^ (z >>> 16), 0x85ebca6b);
+    z = Math.imul(z ^ (z >>> 13), 0xc2b2ae35);
+    return (z ^ (z >>> 16)) >>> 0;
+  };
+
+  let s0 = splitmix32(), s1 = splitmix32(), s2 = splitmix32(), s3 = splitmix32();
+
+  return () => {
+    const result = Math.imul(rotl(Math.imul(s1, 5), 7), 9) >>> 0;
+    const t = s1 << 9;
+    s2 ^= s0;
+    s3 ^= s1;
+    s1 ^= s2;
+    s0 ^= s3;
+    s2 ^= t;
+    s3 = rotl(s3, 11);
+    return result / 0x100000000;
+  };
+};
+
+const rotl = (x: number, k: number): number => (x << k) | (x >>> (32 - k));
+
 /**
  * Box-Muller transform to generate normally distributed random numbers
  */
-export const getStandardNormal = (): number => {
+export const getStandardNormal = (rng: RandomSource = Math.random): number => {
   let u = 0, v = 0;
-  while (u === 0) u = Math.random();
-  while (v === 0) v = Math.random();
+  while (u === 0) u = rng();
+  while (v === 0) v = rng();
   return Math.sqrt(-2.0 * Math.log(u)) * Math.cos(2.0 * Math.PI * v);
 };
 
+/**
+ * Gamma(shape, 1) variate via Marsaglia-Tsang; shape < 1 uses the
+ * U^(1/shape) boost.
+ */
+export const getGamma = (shape: number, rng: RandomSource = Math.random): number => {
+  if (shape < 1) {
+    let u = 0;
+    while (u === 0) u = rng();
+    return getGamma(shape + 1, rng) * Math.pow(u, 1 / shape);
+  }
+  const d = shape - 1 / 3;
+  const c = 1 / Math.sqrt(9 * d);
+  for (;;) {
+    let x: number, v: number;
+    do {
+      x = getStandardNormal(rng);
+      v = 1 + c * x;
+    } while (v <= 0);
+    v = v * v * v;
+    const u = rng();
+    if (u < 1 - 0.0331 * x * x * x * x) return d * v;
+    if (Math.log(u) < 0.5 * x * x + d * (1 - v + Math.log(v))) return d * v;
+  }
+};
+
+export const getChiSquare = (dof: number, rng: RandomSource = Math.random): number => 2 * getGamma(dof / 2, rng);
+
+/**
+ * Poisson variate: Knuth's product method for small means, Hörmann's PTRS
+ * transformed rejection otherwise.
+ */
+export const getPoisson = (mean: number, rng: RandomSource = Math.random): number => {
+  if (mean <= 0) return 0;
+  if (mean < 30) {
+    const limit = Math.exp(-mean);
+    let k = 0, p = rng();
+    while (p > limit) {
+      k++;
+      p *= rng();
+    }
+    return k;
+  }
+
+  const smu = Math.sqrt(mean);
+  const b = 0.931 + 2.53 * smu;
+  const a = -0.059 + 0.02483 * b;
+  const invAlpha = 1.1239 + 1.1328 / (b - 3.4);
+  const vr = 0.9277 - 3.6224 / (b - 2);
+  for (;;) {
+    const u = rng() - 0.5;
+    const v = rng();
+    const us = 0.5 - Math.abs(u);
+    const k = Math.floor((2 * a / us + b) * u + mean + 0.43);
+    if (us >= 0.07 && v <= vr) return k;
+    if (k < 0 || (us < 0.013 && v > us)) continue;
+    if (Math.log(v) + Math.log(invAlpha) - Math.log(a / (us * us) + b) <= -mean + k * Math.log(mean) - logGamma(k + 1)) return k;
+  }
+};
+
+/**
+ * Noncentral chi-square variate. For dof > 1 it is (Z + √λ)² + χ²(dof - 1),
+ * so a caller-supplied normal can carry correlation; otherwise a Poisson
+ * mixture of central chi-squares.
+ */
+export const getNoncentralChiSquare = (dof: number, noncentrality: number, rng: RandomSource = Math.random, z: number = getStandardNormal(rng)): number => {
+  if (dof > 1) {
+    const shifted = z + Math.sqrt(noncentrality);
+    return shifted * shifted + getChiSquare(dof - 1, rng);
+  }
+  return getChiSquare(dof + 2 * getPoisson(noncentrality / 2, rng), rng);
+};
+
+/**
+ * Log-gamma via the Lanczos approximation (g = 7)
+ */
+export const logGamma = (x: number): number => {
+  const coef = [
+    0.99999999999980993, 676.5203681218851, -1259.1392167224028, 771.32342877765313,
+    -176.61502916214059, 12.507343278686905, -0.13857109526572012, 9.9843695780195716e-6, 1.5056327351493116e-7
+  ];
+  if (x < 0.5) return Math.log(Math.PI / Math.abs(Math.sin(Math.PI * x))) - logGamma(1 - x);
+  x -= 1;
+  let a = coef[0];
+  const t = x + 7.5;
+  for (let i = 1; i < 9; i++) a += coef[i] / (x + i);
+  return 0.5 * Math.log(2 * Math.PI) + (x + 0.5) * Math.log(t) - t + Math.log(a);
+};
+
 export const formatCurrency = (val: number) => {
   return new Intl.NumberFormat('en-US', {
     style: 'currency',
@@ -31,10 +160,61 @@ export const calculateSummary = (data: number[]) => {
   return { max, min, avg, vol };
 };
 
+/**
+ * Mean, variance (population) and standardized third/fourth moments of a sample
+ */
+export const sampleMoments = (data: ArrayLike<number>) => {
+  const n = data.length;
+  let mean = 0;
+  for (let i = 0; i < n; i++) mean += data[i];
+  mean /= n;
+
+  let m2 = 0, m3 = 0, m4 = 0;
+  for (let i = 0; i < n; i++) {
+    const d = data[i] - mean;
+    m2 += d * d;
+    m3 += d * d * d;
+    m4 += d * d * d * d;
+  }
+  m2 /= n; m3 /= n; m4 /= n;
+
+  return {
+    mean,
+    variance: m2,
+    skewness: m2 > 0 ? m3 / Math.pow(m2, 1.5) : 0,
+    excessKurtosis: m2 > 0 ? m4 / (m2 * m2) - 3 : 0
+  };
+};
+
+/**
+ * Sample autocorrelation at the given lag
+ */
+export const autocorrelation = (data: ArrayLike<number>, lag: number): number => {
+  const n = data.length;
+  if (lag >= n) return NaN;
+  const { mean, variance } = sampleMoments(data);
+  if (variance === 0) return 0;
+  let sum = 0;
+  for (let i = lag; i < n; i++) sum += (data[i] - mean) * (data[i - lag] - mean);
+  return sum / (n * variance);
+};
+
+/**
+ * Linearly interpolated quantile of an ascending-sorted sample
+ */
+export const quantileSorted = (sorted: ArrayLike<number>, p: number): number => {
+  const n = sorted.length;
+  if (n === 0) return NaN;
+  const pos = (n - 1) * p;
+  const lo = Math.floor(pos);
+  const hi = Math.min(n - 1, lo + 1);
+  return sorted[lo] + (sorted[hi] - sorted[lo]) * (pos - lo);
+};
+
 /**
  * Standard Normal Cumulative Distribution Function
  */
-const CND = (x: number): number => {
+export const CND = (x: number): number => {
   const a1 = 0.31938153, a2 = -0.356563782, a3 = 1.781477937;
   const a4 = -1.821255978, a5 = 1.330274429;
   const L = Math.abs(x);
@@ -56,6 +236,18 @@ const normalPDF = (x: number): number => {
  */
 export const calculateBS = (S: number, K: number, T: number, r: number, sigma: number, isCall: boolean = true) => {
   if (T <= 0) return { price: Math.max(0, isCall ? S - K : K - S), greeks: { delta: isCall ? (S > K ? 1 : 0) : (S < K ? -1 : 0), gamma: 0, vega: 0, theta: 0, rho: 0 } };
+  if (sigma <= 0) {
+    // Without volatility the option is worth its intrinsic value against the discounted strike
+    const discountedK = K * Math.exp(-r * T);
+    const inTheMoney = isCall ? S > discountedK : S < discountedK;
+    const sign = isCall ? 1 : -1;
+    return {
+      price: inTheMoney ? sign * (S - discountedK) : 0,
+      greeks: inTheMoney
+        ? { delta: sign, gamma: 0, vega: 0, theta: -sign * r * discountedK, rho: sign * T * discountedK }
+        : { delta: 0, gamma: 0, vega: 0, theta: 0, rho: 0 }
+    };
+  }
   
   const d1 = (Math.log(S / K) + (r + sigma * sigma / 2.0) * T) / (sigma * Math.sqrt(T));
   const d2 = d1 - sigma * Math.sqrt(T);
@@ -77,27 +269,57 @@ export const calculateBS = (S: number, K: number, T: number, r: number, sigma: n
   return { price, greeks: { delta, gamma, vega, theta, rho } };
 };
 
+// Value at expiry (or without volatility): the annuity times the exercise payoff
+const swaptionIntrinsic = (F: number, K: number, annuity: number, dAnnuity: number, isPayer: boolean) => {
+  const payoff = Math.max(0, isPayer ? F - K : K - F);
+  const inTheMoney = payoff > 0;
+  return {
+    price: annuity * payoff,
+    greeks: { delta: inTheMoney ? (isPayer ? annuity : -annuity) : 0, gamma: 0, vega: 0, theta: 0, rho: dAnnuity * payoff }
+  };
+};
+
 /**
- * Black's Model for Swaptions (Price is based on swap rates)
+ * Black's model for swaptions on the forward swap rate F. Prices and Greeks
+ * are per unit notional: the annuity A (the underlying swap's fixed-leg PV
+ * per unit rate, already discounted to today) scales the Black formula, and
+ * dAnnuity (∂A/∂r for a parallel rate shift) gives rho.
  */
-export const calculateBlackSwaption = (F: number, K: number, T: number, r: number, sigma: number, isPayer: boolean = true) => {
-  if (T <= 0) return { price: Math.max(0, isPayer ? F - K : K - F), greeks: { delta: isPayer ? (F > K ? 1 : 0) : (F < K ? -1 : 0), gamma: 0, vega: 0, theta: 0, rho: 0 } };
+export const calculateBlackSwaption = (F: number, K: number, T: number, annuity: number, sigma: number, isPayer: boolean = true, dAnnuity: number = 0) => {
+  // Lognormal dynamics need positive rates; degenerate inputs fall back to intrinsic value
+  if (T <= 0 || sigma <= 0 || F <= 0 || K <= 0) return swaptionIntrinsic(F, K, annuity, dAnnuity, isPayer);
 
-  // F: Forward Swap Rate, K: Strike Swap Rate
   const d1 = (Math.log(F / K) + (sigma * sigma / 2.0) * T) / (sigma * Math.sqrt(T));
   const d2 = d1 - sigma * Math.sqrt(T);
+  const bracket = isPayer ? (F * CND(d1) - K * CND(d2)) : (K * CND(-d2) - F * CND(-d1));
 
-  // Simplified Annuity factor for swaption approximation
-  const annuity = (1 - Math.exp(-r * 5)) / r; // Assuming a 5-year underlying swap for scale
+  // Greeks relative to the forward swap rate
+  const delta = annuity * (isPayer ? CND(d1) : CND(d1) - 1);
+  const gamma = annuity * normalPDF(d1) / (F * sigma * Math.sqrt(T));
+  const vega = annuity * F * normalPDF(d1) * Math.sqrt(T);
+  const theta = -(annuity * F * normalPDF(d1) * sigma) / (2 * Math.sqrt(T));
+  const rho = dAnnuity * bracket;
 
-  const price = annuity * Math.exp(-r * T) * (isPayer ? (F * CND(d1) - K * CND(d2)) : (K * CND(-d2) - F * CND(-d1)));
+  return { price: annuity * bracket, greeks: { delta, gamma, vega, theta, rho } };
+};
+
+/**
+ * Bachelier (normal) model for swaptions: sigma is an absolute rate vol, so
+ * negative forwards and strikes are priced. Same conventions as
+ * calculateBlackSwaption.
+ */
+export const calculateBachelierSwaption = (F: number, K: number, T: number, annuity: number, sigma: number, isPayer: boolean = true, dAnnuity: number = 0) => {
+  if (T <= 0 || sigma <= 0) return swaptionIntrinsic(F, K, annuity, dAnnuity, isPayer);
 
-  // Greeks for Black's model (relative to forward rate)
-  const delta = isPayer ? Math.exp(-r * T) * CND(d1) : -Math.exp(-r * T) * CND(-d1);
-  const gamma = (Math.exp(-r * T) * normalPDF(d1)) / (F * sigma * Math.sqrt(T));
-  const vega = annuity * Math.exp(-r * T) * F * normalPDF(d1) * Math.sqrt(T);
-  const theta = -(annuity * Math.exp(-r * T) * F * normalPDF(d1) * sigma) / (2 * Math.sqrt(T));
-  const rho = -T * price; // Simplified duration approximation
+  const stdDev = sigma * Math.sqrt(T);
+  const d = (F - K) / stdDev;
+  const bracket = isPayer ? (F - K) * CND(d) + stdDev * normalPDF(d) : (K - F) * CND(-d) + stdDev * normalPDF(d);
 
-  return { price, greeks: { delta, gamma, vega, theta, rho } };
+  const delta = annuity * (isPayer ? CND(d) : CND(d) - 1);
+  const gamma = annuity * normalPDF(d) / stdDev;
+  const vega = annuity * Math.sqrt(T) * normalPDF(d);
+  const theta = -(annuity * sigma * normalPDF(d)) / (2 * Math.sqrt(T));
+  const rho = dAnnuity * bracket;
+
+  return { price: annuity * bracket, greeks: { delta, gamma, vega, theta, rho } };
 };
@@ -0,0 +1,227 @@
+/**
+ * Minimal Parquet writer: one row group, one uncompressed PLAIN data page per
+ * column. Enough for flat numeric/string tables without pulling in a
+ * dependency; nulls are supported on double columns via definition levels.
+ */
+
+export type ParquetColumn =
+  | { name: string; type: 'double'; values: (number | undefined)[] }
+  | { name: string; type: 'int64'; values: number[] }
+  | { name: string; type: 'string'; values: string[] };
+
+// parquet.thrift enums
+const PHYSICAL_TYPE = { int64: 2, double: 5, string: 6 } as const;
+const REPETITION = { required: 0, optional: 1 };
+const ENCODING = { plain: 0, rle: 3 };
+const CONVERTED_TYPE_UTF8 = 0;
+const PAGE_TYPE_DATA = 0;
+const CODEC_UNCOMPRESSED = 0;
+
+type ThriftValue =
+  | { t: 'i32' | 'i64'; v: number }
+  | { t: 'string'; v: string }
+  | { t: 'struct'; v: ThriftField[] }
+  | { t: 'list'; elem: 'i32' | 'string' | 'struct'; v: ThriftValue[] };
+type ThriftField = [number, ThriftValue];
+
+// Thrift compact protocol type ids
+const COMPACT_TYPE = { i32: 5, i64: 6, string: 8, list: 9, struct: 12 } as const;
+
+const encoder = new TextEncoder();
+
+// Unsigned LEB128; plain arithmetic keeps offsets above 2^31 exact
+const writeVarint = (out: number[], n: number) => {
+  while (n >= 0x80) {
+    out.push((n % 0x80) | 0x80);
+    n = Math.floor(n / 0x80);
+  }
+  out.push(n);
+};
+
+const zigzag = (n: number): number => (n >= 0 ? 2 * n : -2 * n - 1);
+
+const writeThriftValue = (out: number[], value: ThriftValue) => {
+  switch (value.t) {
+    case 'i32':
+    case 'i64':
+      writeVarint(out, zigzag(value.v));
+      break;
+    case 'string': {
+      const bytes = encoder.encode(value.v);
+      writeVarint(out, bytes.length);
+      for (const b of bytes) out.push(b);
+      break;
+    }
+    case 'struct':
+      writeThriftStruct(out, value.v);
+      break;
+    case 'list': {
+      const size = value.v.length;
+      const elem = COMPACT_TYPE[value.elem];
+      if (size < 15) out.push((size << 4) | elem);
+      else {
+        out.push(0xf0 | elem);
+        writeVarint(out, size);
+      }
+      value.v.forEach(v => writeThriftValue(out, v));
+      break;
+    }
+  }
+};
+
+const writeThriftStruct = (out: number[], fields: ThriftField[]) => {
+  let lastId = 0;
+  for (const [id, value] of fields) {
+    const type = COMPACT_TYPE[value.t];
+    const delta = id - lastId;
+    if (delta > 0 && delta <= 15) out.push((delta << 4) | type);
+    else {
+      out.push(type);
+      writeVarint(out, zigzag(id));
+    }
+    writeThriftValue(out, value);
+    lastId = id;
+  }
+  out.push(0); // Stop field
+};
+
+const i32 = (v: number): ThriftValue => ({ t: 'i32', v });
+const i64 = (v: number): ThriftValue => ({ t: 'i64', v });
+const str = (v: string): ThriftValue => ({ t: 'string', v });
+const struct = (v: ThriftField[]): ThriftValue => ({ t: 'struct', v });
+
+const isOptional = (column: ParquetColumn) =>
+  column.type === 'double' && column.values.some(v => v === undefined || !Number.isFinite(v));
+
+/**
+ * Definition levels (0 = null, 1 = present) as a single bit-packed run of the
+ * RLE/bit-packing hybrid, prefixed with its byte length as DataPage v1 expects.
+ */
+const encodeDefinitionLevels = (present: boolean[]): Uint8Array => {
+  const groups = Math.ceil(present.length / 8);
+  const header: number[] = [];
+  writeVarint(header, (groups << 1) | 1);
+  const body = new Uint8Array(4 + header.length + groups);
+  new DataView(body.buffer).setUint32(0, header.length + groups, true);
+  body.set(header, 4);
+  present.forEach((p, i) => { if (p) body[4 + header.length + (i >> 3)] |= 1 << (i & 7); });
+  return body;
+};
+
+const encodePlainValues = (column: ParquetColumn): Uint8Array => {
+  if (column.type === 'string') {
+    const encoded = column.values.map(v => encoder.encode(v));
+    const out = new Uint8Array(encoded.reduce((acc, b) => acc + 4 + b.length, 0));
+    const view = new DataView(out.buffer);
+    let offset = 0;
+    for (const b of encoded) {
+      view.setUint32(offset, b.length, true);
+      out.set(b, offset + 4);
+      offset += 4 + b.length;
+    }
+    return out;
+  }
+
+  const present = column.type === 'double'
+    ? column.values.filter((v): v is number => v !== undefined && Number.isFinite(v))
+    : column.values;
+  const out = new Uint8Array(present.length * 8);
+  const view = new DataView(out.buffer);
+  present.forEach((v, i) => {
+    if (column.type === 'int64') view.setBigInt64(i * 8, BigInt(Math.trunc(v)), true);
+    else view.setFloat64(i * 8, v, true);
+  });
+  return out;
+};
+
+const concatBytes = (parts: (Uint8Array | number[])[]): Uint8Array => {
+  const out = new Uint8Array(parts.reduce((acc, p) => acc + p.length, 0));
+  let offset = 0;
+  for (const p of parts) {
+    out.set(p, offset);
+    offset += p.length;
+  }
+  return out;
+};
+
+/**
+ * Serialize equal-length columns to a Parquet file. `metadata` is stored in
+ * the footer's key/value metadata.
+ */
+export const writeParquet = (columns: ParquetColumn[], metadata: Record<string, string> = {}): Uint8Array => {
+  const numRows = columns[0]?.values.length ?? 0;
+  if (columns.some(c => c.values.length !== numRows)) throw new Error('Parquet columns must have equal length');
+
+  const magic = encoder.encode('PAR1');
+  const chunks: Uint8Array[] = [magic];
+  let offset = magic.length;
+  const columnChunks: ThriftValue[] = [];
+
+  for (const column of columns) {
+    const optional = isOptional(column);
+    const levels = optional
+      ? encodeDefinitionLevels((column.values as (number | undefined)[]).map(v => v !== undefined && Number.isFinite(v)))
+      : new Uint8Array(0);
+    const body = concatBytes([levels, encodePlainValues(column)]);
+
+    const pageHeader: number[] = [];
+    writeThriftStruct(pageHeader, [
+      [1, i32(PAGE_TYPE_DATA)],
+      [2, i32(body.length)],
+      [3, i32(body.length)],
+      [5, struct([
+        [1, i32(numRows)],
+        [2, i32(ENCODING.plain)],
+        [3, i32(ENCODING.rle)],
+        [4, i32(ENCODING.rle)]
+      ])]
+    ]);
+
+    const chunkSize = pageHeader.length + body.length;
+    columnChunks.push(struct([
+      [2, i64(offset)],
+      [3, struct([
+        [1, i32(PHYSICAL_TYPE[column.type])],
+        [2, { t: 'list', elem: 'i32', v: [i32(ENCODING.plain), i32(ENCODING.rle)] }],
+        [3, { t: 'list', elem: 'string', v: [str(column.name)] }],
+        [4, i32(CODEC_UNCOMPRESSED)],
+        [5, i64(numRows)],
+        [6, i64(chunkSize)],
+        [7, i64(chunkSize)],
+        [9, i64(offset)]
+      ])]
+    ]));
+
+    chunks.push(Uint8Array.from(pageHeader), body);
+    offset += chunkSize;
+  }
+
+  const schema: ThriftValue[] = [
+    struct([[4, str('schema')], [5, i32(columns.length)]]),
+    ...columns.map(column => struct([
+      [1, i32(PHYSICAL_TYPE[column.type])],
+      [3, i32(isOptional(column) ? REPETITION.optional : REPETITION.required)],
+      [4, str(column.name)],
+      ...(column.type === 'string' ? [[6, i32(CONVERTED_TYPE_UTF8)] as ThriftField] : [])
+    ]))
+  ];
+
+  const footer: number[] = [];
+  writeThriftStruct(footer, [
+    [1, i32(1)],
+    [2, { t: 'list', elem: 'struct', v: schema }],
+    [3, i64(numRows)],
+    [4, { t: 'list', elem: 'struct', v: [struct([
+      [1, { t: 'list', elem: 'struct', v: columnChunks }],
+      [2, i64(offset - magic.length)],
+      [3, i64(numRows)]
+    ])] }],
+    [5, { t: 'list', elem: 'struct', v: Object.entries(metadata).map(([key, value]) => struct([[1, str(key)], [2, str(value)]])) }],
+    [6, str('quantsynth')]
+  ]);
+
+  const footerLength = new Uint8Array(4);
+  new DataView(footerLength.buffer).setUint32(0, footer.length, true);
+  chunks.push(Uint8Array.from(footer), footerLength, magic);
+  return concatBytes(chunks);
+};
@@ -0,0 +1,177 @@
+import { AssetClass, Greeks, LegType, LegValuation, OptionLeg, OptionStyle, SynthesisParameters } from '../types';
+import { calculateBS } from './mathUtils';
+import { ExoticSpec, ExoticState, initialExoticState, observeExotic, priceExotic, resolveExoticSpec } from './exoticOptions';
+
+interface BookLeg {
+  leg: OptionLeg;
+  exotic?: ExoticSpec; // Non-European option legs
+}
+
+export interface PortfolioSpec {
+  legs: BookLeg[];
+}
+
+/**
+ * Book of legs for OPTION runs with a non-empty portfolio, or undefined when
+ * the run prices the single option described by the top-level parameters.
+ */
+export const resolvePortfolioSpec = (params: SynthesisParameters): PortfolioSpec | undefined => {
+  if (params.assetClass !== AssetClass.OPTION || !params.portfolio?.length) return undefined;
+  return {
+    legs: params.portfolio.map(leg => ({
+      leg,
+      exotic: leg.type === LegType.UNDERLYING ? undefined : resolveExoticSpec({
+        ...params,
+        optionStyle: leg.style,
+        strikePrice: leg.strike,
+        expiryTime: leg.expiry,
+        isCall: leg.type === LegType.CALL
+      })
+    }))
+  };
+};
+
+// Path state per leg; only exotic legs carry one
+export const initialBookState = (spec: PortfolioSpec, S0: number): (ExoticState | undefined)[] =>
+  spec.legs.map(l => (l.exotic ? initialExoticState(S0) : undefined));
+
+const ZERO_GREEKS: Greeks = { delta: 0, gamma: 0, vega: 0, theta: 0, rho: 0 };
+
+const scaleGreeks = (g: Greeks, quantity: number): Greeks => ({
+  delta: (g.delta ?? 0) * quantity,
+  gamma: (g.gamma ?? 0) * quantity,
+  vega: (g.vega ?? 0) * quantity,
+  theta: (g.theta ?? 0) * quantity,
+  rho: (g.rho ?? 0) * quantity
+});
+
+/**
+ * Value every leg at spot S, t years into the run, and sum the book. volAt
+ * gives the pricing vol for a strike and time to expiry, so legs pick up the
+ * smile when a surface is simulated. Greeks are summed only when requested.
+ */
+export const priceBook = (
+  spec: PortfolioSpec,
+  states: (ExoticState | undefined)[],
+  S: number,
+  t: number,
+  r: number,
+  volAt: (strike: number, T: number) => number,
+  withGreeks: boolean
+): { value: number; greeks?: Greeks; legs: LegValuation[] } => {
+  const total: Greeks = { ...ZERO_GREEKS };
+  let value = 0;
+
+  const legs = spec.legs.map(({ leg, exotic }, k): LegValuation => {
+    let unit: { price: number; greeks?: Greeks };
+    if (leg.type === LegType.UNDERLYING) {
+      unit = { price: S, greeks: { ...ZERO_GREEKS, delta: 1 } };
+    } else {
+      const T = Math.max(0.0001, leg.expiry - t);
+      const vol = volAt(leg.strike, T);
+      if (exotic) {
+        observeExotic(exotic, states[k]!, S, t);
+        unit = priceExotic(exotic, states[k]!, S, T, r, vol, withGreeks);
+      } else {
+        unit = calculateBS(S, leg.strike, T, r, vol, leg.type === LegType.CALL);
+      }
+    }
+
+    const position: LegValuation = { id: leg.id, value: unit.price * leg.quantity };
+    value += position.value;
+    if (withGreeks && unit.greeks) {
+      position.greeks = scaleGreeks(unit.greeks, leg.quantity);
+      (Object.keys(total) as (keyof Greeks)[]).forEach(g => { total[g] = (total[g] ?? 0) + (position.greeks![g] ?? 0); });
+    }
+    return position;
+  });
+
+  return { value, greeks: withGreeks ? total : undefined, legs };
+};
+
+type LegTemplate = Omit<OptionLeg, 'id'>;
+
+/**
+ * Common strategies around the run's strike and expiry. Strangle, spread and
+ * collar wings sit 10% away from the strike.
+ */
+export const STRATEGY_PRESETS: { id: string; label: string; build: (params: SynthesisParameters) => LegTemplate[] }[] = [
+  {
+    id: 'straddle',
+    label: 'Long Straddle',
+    build: ({ strikePrice: K = 100, expiryTime: T = 1 }) => [
+      { type: LegType.CALL, quantity: 1, strike: K, expiry: T },
+      { type: LegType.PUT, quantity: 1, strike: K, expiry: T }
+    ]
+  },
+  {
+    id: 'strangle',
+    label: 'Long Strangle',
+    build: ({ strikePrice: K = 100, expiryTime: T = 1 }) => [
+      { type: LegType.PUT, quantity: 1, strike: K * 0.9, expiry: T },
+      { type: LegType.CALL, quantity: 1, strike: K * 1.1, expiry: T }
+    ]
+  },
+  {
+    id: 'bull-call',
+    label: 'Bull Call Spread',
+    build: ({ strikePrice: K = 100, expiryTime: T = 1 }) => [
+      { type: LegType.CALL, quantity: 1, strike: K, expiry: T },
+      { type: LegType.CALL, quantity: -1, strike: K * 1.1, expiry: T }
+    ]
+  },
+  {
+    id: 'bear-put',
+    label: 'Bear Put Spread',
+    build: ({ strikePrice: K = 100, expiryTime: T = 1 }) => [
+      { type: LegType.PUT, quantity: 1, strike: K, expiry: T },
+      { type: LegType.PUT, quantity: -1, strike: K * 0.9, expiry: T }
+    ]
+  },
+  {
+    id: 'butterfly',
+    label: 'Call Butterfly',
+    build: ({ strikePrice: K = 100, expiryTime: T = 1 }) => [
+      { type: LegType.CALL, quantity: 1, strike: K * 0.9, expiry: T },
+      { type: LegType.CALL, quantity: -2, strike: K, expiry: T },
+      { type: LegType.CALL, quantity: 1, strike: K * 1.1, expiry: T }
+    ]
+  },
+  {
+    id: 'collar',
+    label: 'Collar',
+    build: ({ strikePrice: K = 100, expiryTime: T = 1 }) => [
+      { type: LegType.UNDERLYING, quantity: 1, strike: 0, expiry: T },
+      { type: LegType.PUT, quantity: 1, strike: K * 0.9, expiry: T },
+      { type: LegType.CALL, quantity: -1, strike: K * 1.1, expiry: T }
+    ]
+  },
+  {
+    id: 'delta-hedged',
+    label: 'Delta-Hedged Call',
+    // Hedged once at inception, at the Black-Scholes delta
+    build: ({ initialValue, strikePrice: K = 100, expiryTime: T = 1, riskFreeRate = 0.03, impliedVol = 0.2 }) => {
+      const delta = calculateBS(initialValue, K, T, riskFreeRate, impliedVol, true).greeks.delta;
+      return [
+        { type: LegType.CALL, quantity: 1, strike: K, expiry: T },
+        { type: LegType.UNDERLYING, quantity: -Number(delta.toFixed(4)), strike: 0, expiry: T }
+      ];
+    }
+  }
+];
+
+/**
+ * Ids leg-1, leg-2, ... that do not collide with the given legs
+ */
+export const nextLegId = (legs: OptionLeg[]): string => {
+  let n = legs.length + 1;
+  while (legs.some(l => l.id === `leg-${n}`)) n++;
+  return `leg-${n}`;
+};
+
+export const legLabel = (leg: OptionLeg): string => {
+  const side = leg.quantity >= 0 ? '+' : '';
+  if (leg.type === LegType.UNDERLYING) return `${side}${leg.quantity} Underlying`;
+  const style = leg.style && leg.style !== OptionStyle.EUROPEAN ? ` ${leg.style.toLowerCase()}` : '';
+  return `${side}${leg.quantity} ${+leg.strike.toFixed(2)} ${leg.type === LegType.CALL ? 'Call' : 'Put'}${style} ${+leg.expiry.toFixed(2)}y`;
+};
@@ -0,0 +1,128 @@
+import { DataPoint, RegimeSpec, SynthesisParameters } from '../types';
+import { RandomSource } from './mathUtils';
+
+export const MAX_REGIMES = 4;
+const ROW_TOLERANCE = 1e-6;
+
+export interface RegimeSwitchSpec {
+  regimes: RegimeSpec[];
+  transition: number[][]; // Row-stochastic, one row per regime
+  cumulative: number[][]; // Running row sums for drawing the next regime
+  initial: number;
+}
+
+/**
+ * A contiguous run of points in one regime, inclusive of both ends
+ */
+export interface RegimeSpan {
+  regime: number;
+  start: number;
+  end: number;
+}
+
+/**
+ * Calm and stressed regimes around the run's own parameters: the stressed one
+ * sells off with two and a half times the volatility and twice the jumps.
+ */
+export const defaultRegimes = (params: SynthesisParameters): RegimeSpec[] => {
+  const { mu = 0.05, sigma = 0.2, kappa = 2.0, theta = 0.05, lambda = 0 } = params;
+  return [
+    { label: 'Calm', mu, sigma, kappa, theta, lambda },
+    { label: 'Stressed', mu: mu - 0.3, sigma: sigma * 2.5, kappa, theta, lambda: Math.max(2 * lambda, 1) }
+  ];
+};
+
+/**
+ * Transition matrix for n regimes that stays put with probability `stay` per
+ * step and otherwise moves to one of the other regimes uniformly.
+ */
+export const defaultTransition = (n: number, stay: number = 0.98): number[][] =>
+  Array.from({ length: n }, (_, i) => Array.from({ length: n }, (_, j) => (i === j ? stay : (1 - stay) / (n - 1))));
+
+/**
+ * First problem with a transition matrix for n regimes, or undefined when it
+ * is square, non-negative and every row sums to 1.
+ */
+export const transitionError = (matrix: number[][] | undefined, n: number): string | undefined => {
+  if (!matrix || matrix.length !== n || matrix.some(row => row.length !== n)) return `Transition matrix must be ${n}x${n}`;
+  for (let i = 0; i < n; i++) {
+    if (matrix[i].some(p => !Number.isFinite(p) || p < 0 || p > 1)) return `Row ${i + 1} has a probability outside [0, 1]`;
+    const sum = matrix[i].reduce((acc, p) => acc + p, 0);
+    if (Math.abs(sum - 1) > ROW_TOLERANCE) return `Row ${i + 1} sums to ${sum.toFixed(4)}, not 1`;
+  }
+  return undefined;
+};
+
+/**
+ * Regime layer for runs with at least two regimes, or undefined for a single
+ * process. A missing or malformed matrix falls back to defaultTransition.
+ */
+export const resolveRegimeSpec = (params: SynthesisParameters): RegimeSwitchSpec | undefined => {
+  const regimes = params.regimes ?? [];
+  if (regimes.length < 2) return undefined;
+  const n = regimes.length;
+  const transition = transitionError(params.regimeTransition, n) ? defaultTransition(n) : params.regimeTransition!;
+  const cumulative = transition.map(row => {
+    let acc = 0;
+    return row.map(p => (acc += p));
+  });
+  const initial = Math.max(0, Math.min(n - 1, Math.floor(params.initialRegime ?? 0)));
+  return { regimes, transition, cumulative, initial };
+};
+
+/**
+ * Draw the regime for the next step from the current one's row
+ */
+export const nextRegime = (spec: RegimeSwitchSpec, current: number, rng: RandomSource): number => {
+  const row = spec.cumulative[current];
+  const u = rng() * row[row.length - 1];
+  const next = row.findIndex(c => u < c);
+  return next < 0 ? current : next;
+};
+
+/**
+ * Long-run share of steps spent in each regime, by power iteration from the
+ * uniform distribution. Reducible chains converge to one of their limits.
+ */
+export const stationaryDistribution = (transition: number[][]): number[] => {
+  const n = transition.length;
+  let pi = new Array<number>(n).fill(1 / n);
+  for (let iter = 0; iter < 10_000; iter++) {
+    const next = pi.map((_, j) => pi.reduce((acc, p, i) => acc + p * transition[i][j], 0));
+    const change = next.reduce((acc, p, j) => acc + Math.abs(p - pi[j]), 0);
+    pi = next;
+    if (change < 1e-12) break;
+  }
+  return pi;
+};
+
+/**
+ * Expected steps per visit to each regime, 1 / (1 - p_ii); Infinity when absorbing
+ */
+export const expectedDurations = (transition: number[][]): number[] =>
+  transition.map((row, i) => (row[i] >= 1 ? Infinity : 1 / (1 - row[i])));
+
+export const regimeSpans = (data: DataPoint[]): RegimeSpan[] => {
+  const spans: RegimeSpan[] = [];
+  data.forEach((d, i) => {
+    if (d.regime === undefined) return;
+    const last = spans[spans.length - 1];
+    if (last && last.regime === d.regime && last.end === i - 1) last.end = i;
+    else spans.push({ regime: d.regime, start: i, end: i });
+  });
+  return spans;
+};
+
+/**
+ * Share of points labelled with each of n regimes
+ */
+export const regimeOccupancy = (data: DataPoint[], n: number): number[] => {
+  const counts = new Array<number>(n).fill(0);
+  let labelled = 0;
+  data.forEach(d => {
+    if (d.regime === undefined || d.regime >= n) return;
+    counts[d.regime]++;
+    labelled++;
+  });
+  return counts.map(c => (labelled > 0 ? c / labelled : 0));
+};
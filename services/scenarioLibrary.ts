@@ -0,0 +1,240 @@
+import { AssetClass, DataPoint, FactorShock, HistoricalScenario, ScenarioFactor, ScenarioMode, SynthesisParameters, SynthesisResult } from '../types';
+import { buildSchedule, BUSINESS_DAYS_PER_YEAR } from './calendar';
+import { revaluationAt } from './stressTesting';
+
+/**
+ * Library version, bumped with any episode's revision. Moves are approximate
+ * closing levels: S&P 500 (SMI for the CHF de-peg), the 10y government yield,
+ * VIX (VXO before 1990, VSMI for the CHF de-peg) and the episode's FX pair.
+ */
+export const SCENARIO_LIBRARY_VERSION = '1.0.0';
+
+export const HISTORICAL_SCENARIOS: HistoricalScenario[] = [
+  {
+    id: 'black-monday-1987',
+    name: 'Black Monday 1987',
+    start: '1987-10-13',
+    end: '1987-10-20',
+    revision: 1,
+    description: 'Program selling and portfolio insurance drove a 20.5% one-day fall on 19 October after a weak week; Treasuries rallied as the Fed promised liquidity.',
+    fxPair: 'USD/DEM',
+    moves: {
+      [ScenarioFactor.EQUITY]: [[0, 0], [1, -3.0], [2, -5.2], [3, -10.1], [4, -28.5], [5, -24.7]],
+      [ScenarioFactor.RATES]: [[0, 0], [3, 25], [4, -5], [5, -95]],
+      [ScenarioFactor.VOL]: [[0, 0], [3, 14], [4, 128], [5, 118]],
+      [ScenarioFactor.FX]: [[0, 0], [4, -1.5], [5, -3.0]]
+    }
+  },
+  {
+    id: 'gfc-2008',
+    name: '2008 Global Financial Crisis',
+    start: '2008-09-12',
+    end: '2009-03-09',
+    revision: 1,
+    description: 'From the Friday before the Lehman bankruptcy to the March 2009 equity low: a credit freeze, record implied vol in November and a flight to Treasuries and the dollar.',
+    fxPair: 'DXY',
+    moves: {
+      [ScenarioFactor.EQUITY]: [[0, 0], [20, -28.2], [49, -39.9], [80, -25.3], [121, -46.0]],
+      [ScenarioFactor.RATES]: [[0, 0], [22, 30], [68, -164], [121, -85]],
+      [ScenarioFactor.VOL]: [[0, 0], [30, 53], [49, 55], [80, 13], [121, 24]],
+      [ScenarioFactor.FX]: [[0, 0], [49, 11.4], [68, -0.6], [121, 12.6]]
+    }
+  },
+  {
+    id: 'covid-2020',
+    name: '2020 COVID Crash',
+    start: '2020-02-19',
+    end: '2020-03-23',
+    revision: 1,
+    description: 'The fastest 30% bear market on record, from the February high to the low on the day the Fed announced unlimited asset purchases; a dash for dollar cash late in the sell-off.',
+    fxPair: 'DXY',
+    moves: {
+      [ScenarioFactor.EQUITY]: [[0, 0], [6, -12.0], [13, -18.9], [16, -26.7], [18, -29.5], [23, -33.9]],
+      [ScenarioFactor.RATES]: [[0, 0], [13, -102], [20, -38], [23, -80]],
+      [ScenarioFactor.VOL]: [[0, 0], [7, 26], [18, 68], [23, 47]],
+      [ScenarioFactor.FX]: [[0, 0], [13, -4.7], [21, 3.1], [23, 2.8]]
+    }
+  },
+  {
+    id: 'rate-shock-2022',
+    name: '2022 Rate Shock',
+    start: '2022-01-03',
+    end: '2022-10-21',
+    revision: 1,
+    description: 'Inflation-driven hiking cycle: the 10y yield rose about 260bp to its October peak while equities and bonds fell together and the dollar hit a 20-year high.',
+    fxPair: 'DXY',
+    moves: {
+      [ScenarioFactor.EQUITY]: [[0, 0], [115, -23.5], [158, -10.2], [195, -25.4], [203, -21.8]],
+      [ScenarioFactor.RATES]: [[0, 0], [113, 185], [147, 97], [203, 259]],
+      [ScenarioFactor.VOL]: [[0, 0], [44, 20], [158, 3], [203, 13]],
+      [ScenarioFactor.FX]: [[0, 0], [187, 19.2], [203, 16.9]]
+    }
+  },
+  {
+    id: 'chf-depeg-2015',
+    name: '2015 CHF De-peg',
+    start: '2015-01-14',
+    end: '2015-01-16',
+    revision: 1,
+    description: 'The SNB abandoned the 1.20 EUR/CHF floor without warning and cut its deposit rate to -0.75%; the pair briefly traded near 0.85 intraday before settling around 1.00.',
+    fxPair: 'EUR/CHF',
+    moves: {
+      [ScenarioFactor.EQUITY]: [[0, 0], [1, -8.7], [2, -14.1]],
+      [ScenarioFactor.RATES]: [[0, 0], [1, -25], [2, -30]],
+      [ScenarioFactor.VOL]: [[0, 0], [1, 9], [2, 7]],
+      [ScenarioFactor.FX]: [[0, 0], [1, -14.5], [2, -16.5]]
+    }
+  }
+];
+
+export const findScenario = (id: string): HistoricalScenario | undefined => HISTORICAL_SCENARIOS.find(s => s.id === id);
+
+// Tag written into exports so a stressed file names the exact episode data it used
+export const scenarioTag = (scenario: HistoricalScenario, mode: ScenarioMode, startIndex: number): string =>
+  `${scenario.id}@${SCENARIO_LIBRARY_VERSION}r${scenario.revision} mode=${mode} start=${startIndex}`;
+
+export const scenarioLength = (scenario: HistoricalScenario): number =>
+  Math.max(...Object.values(scenario.moves).map(anchors => anchors[anchors.length - 1][0]));
+
+const interpolate = (anchors: [number, number][], day: number): number => {
+  if (day <= anchors[0][0]) return anchors[0][1];
+  for (let k = 1; k < anchors.length; k++) {
+    const [d1, m1] = anchors[k];
+    if (day <= d1) {
+      const [d0, m0] = anchors[k - 1];
+      return m0 + (m1 - m0) * (day - d0) / (d1 - d0);
+    }
+  }
+  return anchors[anchors.length - 1][1];
+};
+
+/**
+ * Cumulative moves of every factor a given number of business days into the
+ * episode; past the end the terminal moves hold.
+ */
+export const scenarioMovesAt = (scenario: HistoricalScenario, day: number): Record<ScenarioFactor, number> => ({
+  [ScenarioFactor.EQUITY]: interpolate(scenario.moves[ScenarioFactor.EQUITY], day),
+  [ScenarioFactor.RATES]: interpolate(scenario.moves[ScenarioFactor.RATES], day),
+  [ScenarioFactor.VOL]: interpolate(scenario.moves[ScenarioFactor.VOL], day),
+  [ScenarioFactor.FX]: interpolate(scenario.moves[ScenarioFactor.FX], day)
+});
+
+export const terminalMoves = (scenario: HistoricalScenario): Record<ScenarioFactor, number> =>
+  scenarioMovesAt(scenario, Infinity);
+
+// Factor that moves each asset class's level (or an option's underlying)
+const LEVEL_FACTORS: Partial<Record<AssetClass, ScenarioFactor>> = {
+  [AssetClass.EQUITY]: ScenarioFactor.EQUITY,
+  [AssetClass.COMMODITY]: ScenarioFactor.EQUITY,
+  [AssetClass.FORWARD]: ScenarioFactor.EQUITY,
+  [AssetClass.FUTURE]: ScenarioFactor.EQUITY,
+  [AssetClass.OPTION]: ScenarioFactor.EQUITY,
+  [AssetClass.FX]: ScenarioFactor.FX,
+  [AssetClass.FIXED_INCOME]: ScenarioFactor.RATES,
+  [AssetClass.SWAP]: ScenarioFactor.RATES,
+  [AssetClass.SWAPTION]: ScenarioFactor.RATES,
+  [AssetClass.CENTRAL_BANK_RATE]: ScenarioFactor.RATES
+};
+
+export const scenarioFactorFor = (assetClass: AssetClass): ScenarioFactor | undefined => LEVEL_FACTORS[assetClass];
+
+// Rate levels are decimals, except macro rate series which are quoted in percent
+const levelPerBp = (assetClass: AssetClass) => (assetClass === AssetClass.CENTRAL_BANK_RATE ? 0.01 : 0.0001);
+
+/**
+ * Level under the episode's moves: percentage factors scale it, rate moves
+ * shift it. Identity for asset classes without a factor.
+ */
+const shiftLevel = (assetClass: AssetClass, moves: Record<ScenarioFactor, number>) => {
+  const factor = LEVEL_FACTORS[assetClass];
+  if (factor === ScenarioFactor.RATES) return (x: number) => x + moves[ScenarioFactor.RATES] * levelPerBp(assetClass);
+  if (factor) return (x: number) => x * (1 + moves[factor] / 100);
+  return (x: number) => x;
+};
+
+/**
+ * Episode moves as a joint shock for the stress tools. Options take the
+ * equity and vol moves; swaps and swaptions see the rate move on the forward
+ * swap rate and in discounting. The episode is applied instantaneously, so
+ * no time passes.
+ */
+export const scenarioShock = (moves: Record<ScenarioFactor, number>, params: SynthesisParameters, spot: number): FactorShock => {
+  const rates = moves[ScenarioFactor.RATES] / 100;
+  if (params.assetClass === AssetClass.OPTION) {
+    return { asset: moves[ScenarioFactor.EQUITY], vol: moves[ScenarioFactor.VOL], time: 0, rates };
+  }
+  return { asset: spot !== 0 ? moves[ScenarioFactor.RATES] * 0.0001 / spot * 100 : 0, vol: 0, time: 0, rates };
+};
+
+export interface ScenarioReplay {
+  data: DataPoint[];
+  moves: Record<ScenarioFactor, number>[]; // Cumulative episode moves applied at each point
+  repriced: boolean; // Derivative values came from full revaluation rather than the Taylor estimate
+}
+
+/**
+ * Stressed copy of a run. OVERLAY adds the episode's path from startIndex
+ * (episode days are business days of the run's schedule) and holds the
+ * terminal moves after it ends; TERMINAL applies the whole move at startIndex.
+ * Levels move with their factor; option, swap and swaption values are
+ * revalued at each point under the joint shock. Greeks, legs and the curve,
+ * surface and bond snapshots are left as simulated.
+ */
+export const applyScenario = (result: SynthesisResult, scenario: HistoricalScenario, mode: ScenarioMode, startIndex: number): ScenarioReplay => {
+  const { data, parameters } = result;
+  const { elapsed } = buildSchedule(parameters, data.length - 1);
+  const start = Math.max(0, Math.min(data.length - 1, Math.round(startIndex)));
+  const isDerivative = [AssetClass.OPTION, AssetClass.SWAP, AssetClass.SWAPTION].includes(parameters.assetClass);
+  const zero = scenarioMovesAt(scenario, 0);
+  const terminal = terminalMoves(scenario);
+  let repriced = isDerivative;
+
+  const moves = data.map((_, i) => {
+    if (i < start) return zero;
+    if (mode === ScenarioMode.TERMINAL) return terminal;
+    return scenarioMovesAt(scenario, (elapsed[i] - elapsed[start]) * BUSINESS_DAYS_PER_YEAR);
+  });
+
+  const stressed = data.map((d, i): DataPoint => {
+    if (i < start) return d;
+    const m = moves[i];
+    const underlying = shiftLevel(parameters.assetClass, m);
+    const point: DataPoint = {
+      ...d,
+      underlyingValue: d.underlyingValue !== undefined ? underlying(d.underlyingValue) : undefined,
+      bar: d.bar && { ...d.bar, open: underlying(d.bar.open), high: underlying(d.bar.high), low: underlying(d.bar.low), close: underlying(d.bar.close) }
+    };
+
+    if (isDerivative) {
+      const revaluation = revaluationAt(result, elapsed, i);
+      if (revaluation) {
+        const shock = scenarioShock(m, parameters, d.underlyingValue ?? 0);
+        if (!revaluation.full) repriced = false;
+        point.value = d.value + (revaluation.full ?? revaluation.taylor)(shock);
+      }
+    } else {
+      point.value = underlying(d.value);
+      if (d.peRatio !== undefined && d.expectedEarnings) point.peRatio = point.value / d.expectedEarnings;
+    }
+
+    if (d.assetValues) {
+      point.assetValues = {};
+      (parameters.assets ?? []).forEach(a => {
+        if (d.assetValues![a.id] !== undefined) point.assetValues![a.id] = shiftLevel(a.assetClass, m)(d.assetValues![a.id]);
+      });
+    }
+    return point;
+  });
+
+  return { data: stressed, moves, repriced };
+};
+
+/**
+ * Prompt for the AI assistant describing the episode, so a model can be
+ * calibrated to its character rather than replayed.
+ */
+export const scenarioPrompt = (scenario: HistoricalScenario): string => {
+  const t = terminalMoves(scenario);
+  const days = scenarioLength(scenario);
+  return `${scenario.name} (${scenario.start} to ${scenario.end}, ${days} business days): equities ${t.EQUITY.toFixed(1)}%, 10y yield ${t.RATES >= 0 ? '+' : ''}${t.RATES.toFixed(0)}bp, implied vol ${t.VOL >= 0 ? '+' : ''}${t.VOL.toFixed(0)} points, ${scenario.fxPair} ${t.FX >= 0 ? '+' : ''}${t.FX.toFixed(1)}%. ${scenario.description}`;
+};
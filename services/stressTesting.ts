@@ -0,0 +1,129 @@
+import { AssetClass, FactorShock, Greeks, LegType, OptionStyle, ShockFactor, StressGrid, SwaptionVolModel, SynthesisResult } from '../types';
+import { buildSchedule } from './calendar';
+import { calculateBS } from './mathUtils';
+import { DEFAULT_NOTIONAL, priceSwaption, resolveSwapSpec, swaptionVol } from './swapPricing';
+import { resolveSurfaceSpec, surfaceVol } from './volSurface';
+
+export const ZERO_SHOCK: FactorShock = { asset: 0, vol: 0, time: 0, rates: 0 };
+
+// Theta is per year, time shocks are calendar days
+const DAYS_PER_YEAR = 365;
+const MIN_VOL = 1e-4;
+
+/**
+ * Shock grids per factor for the heatmap axes. Normal vols are quoted in
+ * basis points, so BACHELIER swaptions get their own vol ladder.
+ */
+export const SHOCK_LADDERS: Record<ShockFactor, number[]> = {
+  asset: [-30, -20, -10, -5, 0, 5, 10, 20, 30],
+  vol: [-20, -10, -5, 0, 5, 10, 20],
+  time: [0, 7, 30, 90, 180],
+  rates: [-3, -2, -1, -0.5, 0, 0.5, 1, 2, 3]
+};
+const NORMAL_VOL_LADDER = [-50, -25, -10, 0, 10, 25, 50];
+
+export interface Revaluation {
+  value: number; // Position value at the shocked point
+  volUnit: number; // Vol change per unit of shock.vol
+  taylor: (shock: FactorShock) => number;
+  legTaylor: (shock: FactorShock) => { id: string; pnl: number }[];
+  full?: (shock: FactorShock) => number; // Only where every instrument has a closed-form reprice
+}
+
+/**
+ * Shock machinery for one point of a run with Greeks. The Taylor
+ * estimate is second order in spot and first order in vol, time and rates.
+ * Full revaluation reprices European options (and books of them) with
+ * calculateBS and swaptions with the Black/Bachelier pricer, holding the
+ * smile sticky-strike; swaps and exotic styles only get the Taylor estimate.
+ */
+export const revaluationAt = (result: SynthesisResult, elapsed: number[], index: number): Revaluation | undefined => {
+  const { data, parameters } = result;
+  const point = data[index];
+  const { assetClass } = parameters;
+  if (!point?.greeks || ![AssetClass.OPTION, AssetClass.SWAP, AssetClass.SWAPTION].includes(assetClass)) return undefined;
+
+  // Swap and swaption Greeks are per unit notional while their values are for the full notional
+  const notional = parameters.notional ?? DEFAULT_NOTIONAL;
+  const greekScale = assetClass === AssetClass.OPTION ? 1 : notional;
+  const isNormalVol = assetClass === AssetClass.SWAPTION && parameters.swaptionVolModel === SwaptionVolModel.BACHELIER;
+  const volUnit = isNormalVol ? 0.0001 : 0.01;
+  const spot = point.underlyingValue || parameters.initialValue;
+
+  const expand = ({ delta = 0, gamma = 0, vega = 0, theta = 0, rho = 0 }: Greeks, shock: FactorShock) => {
+    const dS = spot * shock.asset / 100;
+    return (delta * dS + 0.5 * gamma * dS * dS + vega * shock.vol * volUnit + theta * shock.time / DAYS_PER_YEAR + rho * shock.rates / 100) * greekScale;
+  };
+
+  const revaluation: Revaluation = {
+    value: point.value,
+    volUnit,
+    taylor: shock => expand(point.greeks!, shock),
+    legTaylor: shock => (point.legs ?? []).map(l => ({ id: l.id, pnl: l.greeks ? expand(l.greeks, shock) : 0 }))
+  };
+
+  const t = elapsed[index];
+  const r = parameters.riskFreeRate ?? 0.03;
+  const baseVol = assetClass === AssetClass.SWAPTION ? swaptionVol(parameters) : parameters.impliedVol ?? 0.2;
+
+  if (assetClass === AssetClass.OPTION) {
+    const legs = parameters.portfolio ?? [];
+    const isEuropean = (style?: OptionStyle) => !style || style === OptionStyle.EUROPEAN;
+    if (legs.length > 0 ? !legs.every(l => l.type === LegType.UNDERLYING || isEuropean(l.style)) : !isEuropean(parameters.optionStyle)) return revaluation;
+
+    // Vol each strike was priced at, off the surface snapshot at the point when one is simulated
+    const surface = resolveSurfaceSpec(parameters);
+    const volAt = (strike: number, tau: number) => (surface && point.volSurface
+      ? surfaceVol(surface, point.volSurface, Math.log(strike / (spot * Math.exp(r * tau))), tau)
+      : baseVol);
+    const reprice = (strike: number, expiry: number, isCall: boolean, shock: FactorShock) => {
+      const T = Math.max(0.0001, expiry - t - shock.time / DAYS_PER_YEAR);
+      const vol = Math.max(MIN_VOL, volAt(strike, T) + shock.vol * volUnit);
+      return calculateBS(spot * (1 + shock.asset / 100), strike, T, r + shock.rates / 100, vol, isCall).price;
+    };
+
+    const { strikePrice = 100, expiryTime = 1.0, isCall = true } = parameters;
+    revaluation.full = legs.length > 0
+      ? shock => legs.reduce((acc, leg) => acc + leg.quantity * (leg.type === LegType.UNDERLYING
+          ? spot * (1 + shock.asset / 100)
+          : reprice(leg.strike, leg.expiry, leg.type === LegType.CALL, shock)), 0) - point.value
+      : shock => reprice(strikePrice, expiryTime, isCall, shock) - point.value;
+  } else if (assetClass === AssetClass.SWAPTION) {
+    const spec = resolveSwapSpec(parameters, parameters.startDate ?? data[0].timestamp.slice(0, 10))!;
+    // Spot shocks move the forward swap rate; rate shocks only rediscount the annuity, as rho does
+    revaluation.full = shock => priceSwaption(
+      spec,
+      spot * (1 + shock.asset / 100),
+      t + shock.time / DAYS_PER_YEAR,
+      r + shock.rates / 100,
+      Math.max(0, baseVol + shock.vol * volUnit) // The pricers fall back to intrinsic value at zero vol
+    ).price - point.value;
+  }
+  return revaluation;
+};
+
+export const buildRevaluation = (result: SynthesisResult): Revaluation | undefined =>
+  revaluationAt(result, buildSchedule(result.parameters, result.data.length - 1).elapsed, result.data.length - 1);
+
+export const shockLadder = (factor: ShockFactor, volUnit: number): number[] =>
+  factor === 'vol' && volUnit < 0.01 ? NORMAL_VOL_LADDER : SHOCK_LADDERS[factor];
+
+/**
+ * Taylor and full-revaluation P&L over two factors' ladders, with the other
+ * two factors held at the base shock.
+ */
+export const stressGrid = (revaluation: Revaluation, xFactor: ShockFactor, yFactor: ShockFactor, base: FactorShock): StressGrid => {
+  const full = revaluation.full!;
+  const xValues = shockLadder(xFactor, revaluation.volUnit);
+  const yValues = shockLadder(yFactor, revaluation.volUnit);
+  return {
+    xFactor,
+    yFactor,
+    xValues,
+    yValues,
+    cells: yValues.map(y => xValues.map(x => {
+      const shock = { ...base, [xFactor]: x, [yFactor]: y };
+      return { x, y, taylor: revaluation.taylor(shock), full: full(shock) };
+    }))
+  };
+};
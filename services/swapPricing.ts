@@ -0,0 +1,190 @@
+import { AssetClass, DayCount, Greeks, SwaptionVolModel, SynthesisParameters } from '../types';
+import { calculateBachelierSwaption, calculateBlackSwaption } from './mathUtils';
+import { isoDate, parseIsoDate } from './calendar';
+
+const DAY_MS = 86_400_000;
+export const DEFAULT_NOTIONAL = 1_000_000;
+export const DEFAULT_NORMAL_VOL = 0.008;
+
+/**
+ * Accrual fraction between two dates under the day-count convention
+ */
+export const yearFraction = (start: Date, end: Date, dayCount: DayCount): number => {
+  if (dayCount === DayCount.THIRTY_360) {
+    const d1 = Math.min(start.getUTCDate(), 30);
+    const d2 = end.getUTCDate() === 31 && d1 === 30 ? 30 : end.getUTCDate();
+    return ((end.getUTCFullYear() - start.getUTCFullYear()) * 360 + (end.getUTCMonth() - start.getUTCMonth()) * 30 + (d2 - d1)) / 360;
+  }
+  const days = Math.round((end.getTime() - start.getTime()) / DAY_MS);
+  return days / (dayCount === DayCount.ACT_360 ? 360 : 365);
+};
+
+// Same day of month, clamped to the month's last day
+const addMonths = (date: Date, months: number): Date => {
+  const year = date.getUTCFullYear(), month = date.getUTCMonth() + months;
+  const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  return new Date(Date.UTC(year, month, Math.min(date.getUTCDate(), lastDay)));
+};
+
+export interface SwapSchedule {
+  startTime: number; // Years from the run start when accrual begins
+  payTimes: number[]; // Years from the run start, one per period
+  accruals: number[]; // Day-count fractions, one per period
+}
+
+/**
+ * Regular schedule of a swap starting startTime years after startDate. Period
+ * ends are whole months apart; times on the run's clock are nominal years,
+ * while the accrual fractions follow the actual dates and day count.
+ */
+export const buildSwapSchedule = (startDate: string, startTime: number, tenor: number, frequency: number, dayCount: DayCount): SwapSchedule => {
+  const monthsPerPeriod = Math.max(1, Math.round(12 / frequency));
+  const periods = Math.max(1, Math.round(tenor * 12 / monthsPerPeriod));
+  const origin = parseIsoDate(startDate) ?? parseIsoDate(isoDate(new Date()))!;
+  const startMonths = Math.round(startTime * 12);
+  const accrualStart = addMonths(origin, startMonths);
+
+  const payTimes: number[] = [], accruals: number[] = [];
+  let previous = accrualStart;
+  for (let k = 1; k <= periods; k++) {
+    const end = addMonths(origin, startMonths + k * monthsPerPeriod);
+    accruals.push(yearFraction(previous, end, dayCount));
+    payTimes.push((startMonths + k * monthsPerPeriod) / 12);
+    previous = end;
+  }
+  return { startTime: startMonths / 12, payTimes, accruals };
+};
+
+export interface SwapSpec {
+  schedule: SwapSchedule;
+  notional: number;
+  strike: number; // Fixed rate as a decimal
+  isPayer: boolean; // Pay fixed, receive float
+  volModel: SwaptionVolModel;
+}
+
+/**
+ * Swap terms for SWAP (spot-starting) and SWAPTION (starting at expiry) runs.
+ * Strikes keep the app's convention of strikePrice in tenths of a percent.
+ */
+export const resolveSwapSpec = (params: SynthesisParameters, startDate: string): SwapSpec | undefined => {
+  if (params.assetClass !== AssetClass.SWAP && params.assetClass !== AssetClass.SWAPTION) return undefined;
+  const startTime = params.assetClass === AssetClass.SWAPTION ? params.expiryTime ?? 1.0 : 0;
+  return {
+    schedule: buildSwapSchedule(startDate, startTime, params.swapTenor ?? 5, Math.max(1, params.paymentFrequency ?? 2), params.dayCount ?? DayCount.ACT_360),
+    notional: params.notional ?? DEFAULT_NOTIONAL,
+    strike: params.strikePrice / 1000 || 0.03,
+    isPayer: params.isCall ?? true,
+    volModel: params.swaptionVolModel ?? SwaptionVolModel.BLACK
+  };
+};
+
+/**
+ * Vol a swaption run prices at: normalVol under BACHELIER, otherwise the
+ * lognormal impliedVol. Zero is a valid quote and prices at intrinsic value.
+ */
+export const swaptionVol = (params: SynthesisParameters): number =>
+  params.swaptionVolModel === SwaptionVolModel.BACHELIER
+    ? params.normalVol ?? DEFAULT_NORMAL_VOL
+    : params.impliedVol ?? 0.2;
+
+// Discount factor from the valuation time to tau years ahead
+export type Discount = (tau: number) => number;
+
+/**
+ * Fixed-leg PV per unit rate and notional over the periods still to pay at t
+ */
+export const swapAnnuity = (schedule: SwapSchedule, t: number, discount: Discount): number =>
+  schedule.payTimes.reduce((acc, pay, k) => (pay > t + 1e-9 ? acc + schedule.accruals[k] * discount(pay - t) : acc), 0);
+
+/**
+ * Index of the period accruing at t, or -1 before the swap starts / after it ends
+ */
+export const currentPeriod = (schedule: SwapSchedule, t: number): number => {
+  if (t < schedule.startTime - 1e-9) return -1;
+  return schedule.payTimes.findIndex(pay => pay > t + 1e-9);
+};
+
+/**
+ * Simple forward rate for period k as seen at t, used to fix the float leg at
+ * the period's start
+ */
+export const forwardFixing = (schedule: SwapSchedule, k: number, t: number, discount: Discount): number => {
+  const start = k === 0 ? schedule.startTime : schedule.payTimes[k - 1];
+  const ratio = discount(Math.max(start - t, 0)) / discount(schedule.payTimes[k] - t);
+  return (ratio - 1) / schedule.accruals[k];
+};
+
+/**
+ * Mark-to-market of the swap at t from discounted legs. The float leg is
+ * worth par at the next reset, plus the already fixed coupon when a period
+ * is accruing; the fixed leg is strike times the annuity.
+ */
+export const swapValue = (spec: SwapSpec, t: number, discount: Discount, fixing?: number) => {
+  const { schedule, notional, strike, isPayer } = spec;
+  const annuity = swapAnnuity(schedule, t, discount);
+  const last = schedule.payTimes[schedule.payTimes.length - 1];
+  if (annuity === 0) return { value: 0, parRate: strike, annuity: 0 };
+
+  const k = currentPeriod(schedule, t);
+  let floatLeg: number;
+  if (k < 0) {
+    // Forward starting: float leg = P(start) - P(end)
+    floatLeg = discount(Math.max(schedule.startTime - t, 0)) - discount(last - t);
+  } else {
+    const coupon = schedule.accruals[k] * (fixing ?? forwardFixing(schedule, k, t, discount));
+    floatLeg = discount(schedule.payTimes[k] - t) * (1 + coupon) - discount(last - t);
+  }
+  const legs = floatLeg - strike * annuity;
+  return { value: notional * (isPayer ? legs : -legs), parRate: floatLeg / annuity, annuity };
+};
+
+/**
+ * Swap value and Greeks per unit notional: delta to the par rate (the
+ * annuity), rho and gamma to a parallel shift of continuously compounded
+ * rates, theta as roll-down at an unchanged curve.
+ */
+export const priceSwap = (spec: SwapSpec, t: number, discount: Discount, fixing?: number): { price: number; parRate: number; greeks: Greeks } => {
+  const h = 1e-4;
+  const shifted = (shift: number): Discount => (tau) => discount(tau) * Math.exp(-shift * tau);
+  const base = swapValue(spec, t, discount, fixing);
+  const up = swapValue(spec, t, shifted(h), fixing).value;
+  const down = swapValue(spec, t, shifted(-h), fixing).value;
+  const dt = 1 / 365;
+  // Rolling forward shortens every payment time by a day on the same curve; a new period fixes afresh
+  const samePeriod = currentPeriod(spec.schedule, t + dt) === currentPeriod(spec.schedule, t);
+  const rolled = swapValue(spec, t + dt, discount, samePeriod ? fixing : undefined).value;
+  const perUnit = 1 / spec.notional;
+
+  return {
+    price: base.value,
+    parRate: base.parRate,
+    greeks: {
+      delta: (spec.isPayer ? 1 : -1) * base.annuity,
+      gamma: (up - 2 * base.value + down) / (h * h) * perUnit,
+      vega: 0,
+      theta: (rolled - base.value) / dt * perUnit,
+      rho: (up - down) / (2 * h) * perUnit
+    }
+  };
+};
+
+/**
+ * Swaption on the forward swap rate F, discounted flat at r. Price is for the
+ * full notional; Greeks are per unit notional.
+ */
+export const priceSwaption = (spec: SwapSpec, F: number, t: number, r: number, sigma: number): { price: number; greeks: Greeks } => {
+  const { schedule, notional, strike, isPayer, volModel } = spec;
+  const T = Math.max(0, schedule.startTime - t);
+  let annuity = 0, dAnnuity = 0;
+  schedule.payTimes.forEach((pay, k) => {
+    if (pay <= t + 1e-9) return;
+    const pv = schedule.accruals[k] * Math.exp(-r * (pay - t));
+    annuity += pv;
+    dAnnuity -= (pay - t) * pv;
+  });
+
+  const pricer = volModel === SwaptionVolModel.BACHELIER ? calculateBachelierSwaption : calculateBlackSwaption;
+  const unit = pricer(F, strike, T, annuity, sigma, isPayer, dAnnuity);
+  return { price: notional * unit.price, greeks: unit.greeks };
+};
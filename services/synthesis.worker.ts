@@ -0,0 +1,54 @@
+import { ConvergenceReport, HedgeErrorReport, HedgeSettings, SynthesisParameters, SynthesisResult } from '../types';
+import { generateSynthesizedData } from './synthesisEngine';
+import { runConvergenceCheck } from './convergence';
+import { runHedgeErrorDistribution } from './hedging';
+
+export type WorkerRequest =
+  | { type: 'run'; params: SynthesisParameters }
+  | { type: 'convergence'; params: SynthesisParameters; numPaths?: number }
+  | { type: 'hedge'; params: SynthesisParameters; settings: HedgeSettings; numPaths?: number };
+
+export type WorkerResponse =
+  | { type: 'progress'; completed: number; total: number }
+  | { type: 'partial'; result: SynthesisResult }
+  | { type: 'done'; result: SynthesisResult }
+  | { type: 'report'; report: ConvergenceReport | HedgeErrorReport }
+  | { type: 'error'; message: string };
+
+// Typed as Worker so postMessage takes a transfer list rather than the Window signature
+const ctx = self as unknown as Worker;
+
+const transferables = (result: SynthesisResult): Transferable[] =>
+  result.ensemble ? [result.ensemble.paths.buffer] : [];
+
+ctx.onmessage = (event: MessageEvent<WorkerRequest>) => {
+  const request = event.data;
+  const post = (message: WorkerResponse, transfer: Transferable[] = []) => ctx.postMessage(message, transfer);
+
+  // Only report whole-percent changes so large ensembles don't flood the main thread
+  let lastPercent = -1;
+  const onProgress = (completed: number, total: number) => {
+    const percent = Math.floor((completed / total) * 100);
+    if (percent === lastPercent) return;
+    lastPercent = percent;
+    post({ type: 'progress', completed, total });
+  };
+
+  try {
+    if (request.type === 'convergence') {
+      post({ type: 'report', report: runConvergenceCheck(request.params, request.numPaths, onProgress) });
+      return;
+    }
+    if (request.type === 'hedge') {
+      post({ type: 'report', report: runHedgeErrorDistribution(request.params, request.settings, request.numPaths, onProgress) });
+      return;
+    }
+    const result = generateSynthesizedData(request.params, {
+      onProgress,
+      onPartial: partial => post({ type: 'partial', result: partial }, transferables(partial))
+    });
+    post({ type: 'done', result }, transferables(result));
+  } catch (err: any) {
+    post({ type: 'error', message: err?.message || 'Synthesis failed' });
+  }
+};
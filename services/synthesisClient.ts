@@ -0,0 +1,90 @@
+import { ConvergenceReport, HedgeErrorReport, HedgeSettings, SynthesisParameters, SynthesisResult } from '../types';
+import type { WorkerRequest, WorkerResponse } from './synthesis.worker';
+
+export interface SynthesisRunOptions {
+  onProgress?: (completedPaths: number, totalPaths: number) => void;
+  onPartial?: (partial: SynthesisResult) => void;
+  signal?: AbortSignal;
+}
+
+/**
+ * Posts one request to a fresh worker and settles on its final message. Each
+ * run gets its own worker, so aborting simply terminates it mid-simulation.
+ */
+const runInWorker = <T>(request: WorkerRequest, options: SynthesisRunOptions): Promise<T> => {
+  const { onProgress, onPartial, signal } = options;
+
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('Synthesis cancelled', 'AbortError'));
+      return;
+    }
+
+    const worker = new Worker(new URL('./synthesis.worker.ts', import.meta.url), { type: 'module' });
+
+    const cleanup = () => {
+      worker.terminate();
+      signal?.removeEventListener('abort', onAbort);
+    };
+
+    const onAbort = () => {
+      cleanup();
+      reject(new DOMException('Synthesis cancelled', 'AbortError'));
+    };
+    signal?.addEventListener('abort', onAbort);
+
+    worker.onmessage = (event: MessageEvent<WorkerResponse>) => {
+      const message = event.data;
+      switch (message.type) {
+        case 'progress':
+          onProgress?.(message.completed, message.total);
+          break;
+        case 'partial':
+          onPartial?.(message.result);
+          break;
+        case 'done':
+          cleanup();
+          resolve(message.result as T);
+          break;
+        case 'report':
+          cleanup();
+          resolve(message.report as T);
+          break;
+        case 'error':
+          cleanup();
+          reject(new Error(message.message));
+          break;
+      }
+    };
+
+    worker.onerror = (event: ErrorEvent) => {
+      cleanup();
+      reject(new Error(event.message || 'Synthesis worker crashed'));
+    };
+
+    worker.postMessage(request);
+  });
+};
+
+/**
+ * Runs the synthesis engine off the main thread
+ */
+export const runSynthesisInWorker = (params: SynthesisParameters, options: SynthesisRunOptions = {}): Promise<SynthesisResult> =>
+  runInWorker<SynthesisResult>({ type: 'run', params }, options);
+
+/**
+ * Runs the discretization convergence check off the main thread, reporting
+ * progress in paths
+ */
+export const runConvergenceInWorker = (params: SynthesisParameters, numPaths?: number, options: SynthesisRunOptions = {}): Promise<ConvergenceReport> =>
+  runInWorker<ConvergenceReport>({ type: 'convergence', params, numPaths }, options);
+
+/**
+ * Runs the hedge-error distribution off the main thread, reporting progress
+ * in paths
+ */
+export const runHedgeInWorker = (params: SynthesisParameters, settings: HedgeSettings, numPaths?: number, options: SynthesisRunOptions = {}): Promise<HedgeErrorReport> =>
+  runInWorker<HedgeErrorReport>({ type: 'hedge', params, settings, numPaths }, options);
+
+export const isAbortError = (err: unknown): boolean =>
+  err instanceof DOMException && err.name === 'AbortError';
@@ -1,28 +1,340 @@
 
-import { ModelType, SynthesisParameters, DataPoint, SynthesisResult, AssetClass } from '../types';
-import { getStandardNormal, calculateSummary, calculateBS, calculateBlackSwaption } from './mathUtils';
+import { ModelType, SynthesisParameters, DataPoint, SynthesisResult, AssetClass, AssetSpec, EnsembleResult, QuantileBand, DiscretizationScheme, MarketCalendar, SamplingFrequency, OHLCVBar, Tick, LegValuation, HedgeStep, EventType, FundamentalsSnapshot } from '../types';
+import { getStandardNormal, calculateSummary, calculateBS, createSeededRandom, generateSeed, quantileSorted, RandomSource, getChiSquare, logGamma, getNoncentralChiSquare } from './mathUtils';
+import { prepareCorrelation, resizeCorrelationMatrix, PreparedCorrelation } from './correlation';
+import { buildSchedule, isoDate, resolveStepSize, Schedule, BUSINESS_DAYS_PER_YEAR } from './calendar';
+import { buildBar, sessionProfile } from './intraday';
+import { bondAnalytics, BondSpec, resolveBondSpec } from './bondPricing';
+import { CURVE_TENORS, curveSnapshot, CurveSpec, curveZeroRate, initialCurveState, resolveCurveSpec, stepCurveFactors, tenorLabel } from './yieldCurve';
+import { currentPeriod, Discount, forwardFixing, priceSwap, priceSwaption, resolveSwapSpec, SwapSpec, swaptionVol } from './swapPricing';
+import { ExoticSpec, initialExoticState, observeExotic, priceExotic, resolveExoticSpec } from './exoticOptions';
+import { initialBookState, PortfolioSpec, priceBook, resolvePortfolioSpec } from './portfolio';
+import { initialSurfaceState, resolveSurfaceSpec, stepSurface, surfaceSnapshot, SurfaceSpec, surfaceVol } from './volSurface';
+import { nextRegime, resolveRegimeSpec, RegimeSwitchSpec } from './regimeSwitching';
+import { applyEventMove, EventSpec, eventMove, resolveEventSpec } from './eventSchedule';
+import { FundamentalsSpec, fundamentalsSnapshot, initialFundamentalsState, reportEarnings, resolveFundamentalsSpec, scaleEarnings, stepFundamentals } from './fundamentals';
+import { initialMacroState, MACRO_VARIABLES, macroSnapshot, MacroSpec, macroValue, resolveMacroSpec, setMacroValue, stepMacro } from './macroSystem';
 
-export const generateSynthesizedData = (params: SynthesisParameters): SynthesisResult => {
-  const { 
-    modelType, 
+// Upper bound on stored path matrix cells (paths x steps), ~80MB as Float32
+export const MAX_ENSEMBLE_CELLS = 20_000_000;
+
+export interface ProcessSpec {
+  modelType: ModelType;
+  scheme?: DiscretizationScheme; // Native scheme per model when unset
+  effectiveMu: number;
+  sigma: number;
+  kappa: number;
+  theta: number;
+  lambda: number;
+  jumpMu: number;
+  jumpSigma: number;
+  kappaV: number;
+  thetaV: number;
+  xi: number;
+  rhoSV: number;
+  garchOmega?: number; // Derived by variance targeting when unset
+  garchAlpha: number;
+  garchBeta: number;
+  garchGamma?: number; // Model-specific default when unset
+  studentNu: number;
+}
+
+/**
+ * Mutable per-path state of one simulated process
+ */
+interface ProcessState {
+  spot: number;
+  variance?: number; // Stochastic volatility models only
+  condVariance?: number; // GARCH family, per-step (not annualized)
+}
+
+const GARCH_MODELS = [ModelType.GARCH, ModelType.GJR_GARCH, ModelType.EGARCH];
+
+const initialProcessState = (spot: number, proc: ProcessSpec, dt: number): ProcessState => {
+  if (proc.modelType === ModelType.HESTON) return { spot, variance: proc.sigma * proc.sigma };
+  if (GARCH_MODELS.includes(proc.modelType)) return { spot, condVariance: proc.sigma * proc.sigma * dt };
+  return { spot };
+};
+
+/**
+ * Rescale a standard normal into a unit-variance Student-t draw. Using the
+ * normal as numerator keeps any correlation already applied to it.
+ */
+const studentize = (epsilon: number, nu: number, rng: RandomSource): number =>
+  epsilon * Math.sqrt((nu - 2) / getChiSquare(nu, rng));
+
+// E|z| for a unit-variance Student-t with nu degrees of freedom
+const expectedAbsStudentT = (nu: number): number =>
+  Math.sqrt(nu - 2) * Math.exp(logGamma((nu - 1) / 2) - logGamma(nu / 2)) / Math.sqrt(Math.PI);
+
+/**
+ * Next-step conditional variance for the GARCH family. When omega is not
+ * given it is set so the unconditional variance equals sigma^2 * dt.
+ */
+const nextGarchVariance = (proc: ProcessSpec, h: number, z: number, dt: number): number => {
+  const { garchAlpha: alpha, garchBeta: beta, studentNu: nu } = proc;
+  const target = proc.sigma * proc.sigma * dt;
+
+  switch (proc.modelType) {
+    case ModelType.GJR_GARCH: {
+      const gamma = proc.garchGamma ?? 0.06;
+      const omega = Math.max(proc.garchOmega ?? target * (1 - alpha - gamma / 2 - beta), 0);
+      return omega + (alpha + (z < 0 ? gamma : 0)) * h * z * z + beta * h;
+    }
+    case ModelType.EGARCH: {
+      const gamma = proc.garchGamma ?? -0.1;
+      const omega = proc.garchOmega ?? (1 - beta) * Math.log(target);
+      return Math.exp(omega + beta * Math.log(h) + alpha * (Math.abs(z) - expectedAbsStudentT(nu)) + gamma * z);
+    }
+    default: {
+      const omega = Math.max(proc.garchOmega ?? target * (1 - alpha - beta), 0);
+      return omega + alpha * h * z * z + beta * h;
+    }
+  }
+};
+
+/**
+ * Exact Gaussian transition of dx = κ(m - x) dt + σ dW over dt
+ */
+const ouExactStep = (x: number, kappa: number, longRun: number, sigma: number, dt: number, epsilon: number): number => {
+  const decay = Math.exp(-kappa * dt);
+  const std = sigma * Math.sqrt((1 - decay * decay) / (2 * kappa));
+  return longRun + (x - longRun) * decay + std * epsilon;
+};
+
+/**
+ * Exact CIR transition: x' = c · χ'²(d, λ) with c = σ²(1 - e^{-κdt})/4κ,
+ * d = 4κθ/σ² and λ = x e^{-κdt}/c. The shock drives the noncentral part so
+ * correlations survive whenever d > 1.
+ */
+const cirExactStep = (x: number, kappa: number, theta: number, sigma: number, dt: number, epsilon: number, rng: RandomSource): number => {
+  const decay = Math.exp(-kappa * dt);
+  if (sigma <= 0) return theta + (x - theta) * decay;
+  const c = sigma * sigma * (1 - decay) / (4 * kappa);
+  const dof = 4 * kappa * theta / (sigma * sigma);
+  return c * getNoncentralChiSquare(dof, Math.max(x, 0) * decay / c, rng, epsilon);
+};
+
+interface CarryInputs {
+  dividendYield?: number;
+  domesticRate?: number;
+  foreignRate?: number;
+  storageCost?: number;
+  convenienceYield?: number;
+  riskFreeRate?: number;
+}
+
+/**
+ * Effective drift by category (carry adjustments on top of μ)
+ */
+const effectiveDrift = (assetClass: AssetClass, mu: number, carry: CarryInputs): number => {
+  const { dividendYield = 0, domesticRate = 0, foreignRate = 0, storageCost = 0, convenienceYield = 0, riskFreeRate = 0.03 } = carry;
+  if (assetClass === AssetClass.EQUITY) {
+    return mu - dividendYield;
+  } else if (assetClass === AssetClass.FX) {
+    // Interest Rate Parity Adjustment: effective drift = risk premium + (r_domestic - r_foreign)
+    return mu + (domesticRate - foreignRate);
+  } else if (assetClass === AssetClass.COMMODITY) {
+    return mu + (storageCost - convenienceYield);
+  } else if (assetClass === AssetClass.FORWARD || assetClass === AssetClass.FUTURE) {
+    return riskFreeRate - dividendYield;
+  } else if (assetClass === AssetClass.UNEMPLOYMENT_RATE) {
+    return 0;
+  }
+  return mu;
+};
+
+// Joint assets carry at the run's rates and yields, like the primary asset
+const resolveAssetProcess = (asset: AssetSpec, params: SynthesisParameters): ProcessSpec => ({
+  modelType: asset.modelType,
+  scheme: params.scheme,
+  effectiveMu: effectiveDrift(asset.assetClass, asset.mu ?? 0.05, params),
+  sigma: asset.sigma ?? 0.2,
+  kappa: asset.kappa ?? 2.0,
+  theta: asset.theta ?? 0.05,
+  lambda: asset.lambda ?? 0,
+  jumpMu: asset.jumpMu ?? 0,
+  jumpSigma: asset.jumpSigma ?? 0,
+  kappaV: 2.0,
+  thetaV: 0.04,
+  xi: 0.3,
+  rhoSV: -0.7,
+  garchAlpha: 0.05,
+  garchBeta: 0.9,
+  studentNu: 8
+});
+
+/**
+ * Advance one step of the selected stochastic process given its (already
+ * correlated) standard normal shock. Updates the state in place.
+ */
+const stepProcess = (state: ProcessState, proc: ProcessSpec, assetEpsilon: number, dt: number, rng: RandomSource): void => {
+  const { effectiveMu, sigma, kappa, theta, lambda, jumpMu, jumpSigma, scheme } = proc;
+  const currentSpot = state.spot;
+  // Negligible mean reversion has no usable exact transition; Euler is exact for the random walk left
+  const exactReverting = scheme === DiscretizationScheme.EXACT && kappa > 1e-8;
+
+  switch (proc.modelType) {
+    case ModelType.EQUITY_GBM:
+    case ModelType.EQUITY_MERTON_JUMP:
+      let jumpFactor = 1.0;
+      if (proc.modelType === ModelType.EQUITY_MERTON_JUMP && rng() < (lambda * dt)) {
+          const jumpEpsilon = getStandardNormal(rng);
+          jumpFactor = Math.exp(jumpMu + jumpSigma * jumpEpsilon);
+      }
+      const diffusionGBM = sigma * Math.sqrt(dt) * assetEpsilon;
+      if (scheme === DiscretizationScheme.EULER || scheme === DiscretizationScheme.MILSTEIN) {
+        // Level-space schemes; Milstein adds ½σ²S(ΔW² - dt) for the multiplicative noise
+        const milsteinGBM = scheme === DiscretizationScheme.MILSTEIN ? 0.5 * sigma * sigma * dt * (assetEpsilon * assetEpsilon - 1) : 0;
+        state.spot = currentSpot * (1 + effectiveMu * dt + diffusionGBM + milsteinGBM) * jumpFactor;
+      } else {
+        // Log-Euler coincides with the exact lognormal transition
+        const driftGBM = (effectiveMu - 0.5 * Math.pow(sigma, 2)) * dt;
+        state.spot = currentSpot * Math.exp(driftGBM + diffusionGBM) * jumpFactor;
+      }
+      break;
+
+    case ModelType.INTEREST_RATE_VASICEK:
+    case ModelType.MACRO_INFLATION:
+    case ModelType.OU_PROCESS:
+      // Vasicek carries no extra drift; OU/macro add μ, shifting the long-run mean to θ + μ/κ
+      const ouDrift = proc.modelType === ModelType.INTEREST_RATE_VASICEK ? 0 : effectiveMu;
+      const ouLevelDrift = ouDrift + kappa * (theta - currentSpot);
+      if (exactReverting) {
+        state.spot = ouExactStep(currentSpot, kappa, theta + ouDrift / kappa, sigma, dt, assetEpsilon);
+      } else {
+        // Additive noise: Milstein's correction vanishes. Levels may cross zero, so log-Euler is Euler too
+        state.spot = currentSpot + ouLevelDrift * dt + sigma * Math.sqrt(dt) * assetEpsilon;
+      }
+      break;
+
+    case ModelType.INTEREST_RATE_CIR:
+      // Full truncation: negative levels are floored wherever they feed drift or diffusion
+      const levelPlus = Math.max(currentSpot, 0);
+      const meanReversionCIR = kappa * (theta - levelPlus) * dt;
+      const rateDiffusionCIR = sigma * Math.sqrt(levelPlus * dt) * assetEpsilon;
+      if (exactReverting) {
+        state.spot = cirExactStep(currentSpot, kappa, theta, sigma, dt, assetEpsilon, rng);
+      } else if (scheme === DiscretizationScheme.MILSTEIN) {
+        state.spot = currentSpot + meanReversionCIR + rateDiffusionCIR + 0.25 * sigma * sigma * dt * (assetEpsilon * assetEpsilon - 1);
+      } else {
+        // Euler; log-Euler is unstable near zero here, so it maps to Euler as well
+        state.spot = currentSpot + meanReversionCIR + rateDiffusionCIR;
+      }
+      break;
+
+    case ModelType.HESTON:
+      // Full truncation Euler: negative variance is floored wherever it feeds drift or diffusion
+      const { kappaV, thetaV, xi, rhoSV } = proc;
+      const vPlus = Math.max(state.variance ?? 0, 0);
+      const varianceEpsilon = rhoSV * assetEpsilon + Math.sqrt(1 - rhoSV * rhoSV) * getStandardNormal(rng);
+      state.spot = currentSpot * Math.exp((effectiveMu - 0.5 * vPlus) * dt + Math.sqrt(vPlus * dt) * assetEpsilon);
+      state.variance = (state.variance ?? 0) + kappaV * (thetaV - vPlus) * dt + xi * Math.sqrt(vPlus * dt) * varianceEpsilon;
+      break;
+
+    case ModelType.GARCH:
+    case ModelType.GJR_GARCH:
+    case ModelType.EGARCH:
+      // Log-return r = μdt - h/2 + √h z with Student-t z; h is the per-step conditional variance
+      const h = state.condVariance ?? sigma * sigma * dt;
+      const zGarch = studentize(assetEpsilon, proc.studentNu, rng);
+      state.spot = currentSpot * Math.exp(effectiveMu * dt - 0.5 * h + Math.sqrt(h) * zGarch);
+      state.condVariance = nextGarchVariance(proc, h, zGarch, dt);
+      break;
+  }
+};
+
+/**
+ * Diffusion variance of one step, in log space for multiplicative models and
+ * in level space for additive/square-root ones. Feeds the intra-bar bridge.
+ */
+const stepDiffusionVariance = (state: ProcessState, proc: ProcessSpec, dt: number, nominalDt: number): { variance: number; logSpace: boolean } => {
+  switch (proc.modelType) {
+    case ModelType.HESTON:
+      return { variance: Math.max(state.variance ?? 0, 0) * dt, logSpace: true };
+    case ModelType.GARCH:
+    case ModelType.GJR_GARCH:
+    case ModelType.EGARCH:
+      return { variance: (state.condVariance ?? proc.sigma * proc.sigma * nominalDt) * dt / nominalDt, logSpace: true };
+    case ModelType.INTEREST_RATE_CIR:
+      return { variance: proc.sigma * proc.sigma * Math.max(state.spot, 0) * dt, logSpace: false };
+    case ModelType.INTEREST_RATE_VASICEK:
+    case ModelType.OU_PROCESS:
+    case ModelType.MACRO_INFLATION:
+      return { variance: proc.sigma * proc.sigma * dt, logSpace: false };
+    default:
+      return { variance: proc.sigma * proc.sigma * dt, logSpace: true };
+  }
+};
+
+/**
+ * The run's model with the given scheme and drift
+ */
+const resolveProcess = (params: SynthesisParameters, scheme: DiscretizationScheme | undefined, effectiveMu: number): ProcessSpec => {
+  const {
+    modelType, sigma = 0.2, kappa = 2.0, theta = 0.05, lambda = 0, jumpMu = 0, jumpSigma = 0,
+    kappaV = 2.0, thetaV = 0.04, xi = 0.3, rhoSV = -0.7,
+    garchOmega, garchAlpha = 0.05, garchBeta = 0.9, garchGamma, studentNu = 8
+  } = params;
+  return {
+    modelType, scheme, effectiveMu,
+    sigma, kappa, theta, lambda, jumpMu, jumpSigma,
+    kappaV, thetaV, xi, rhoSV: Math.max(-1, Math.min(1, rhoSV)),
+    garchOmega, garchAlpha, garchBeta, garchGamma, studentNu: Math.max(2.1, studentNu)
+  };
+};
+
+/**
+ * The bare stochastic process of a run: μ as the drift and none of the asset
+ * class transforms, carry, regimes, events, fundamentals or macro panel
+ */
+export const resolveRawProcess = (params: SynthesisParameters, scheme?: DiscretizationScheme): ProcessSpec =>
+  resolveProcess(params, scheme, params.mu ?? 0.05);
+
+/**
+ * Level after stepping a process through the given standard normal shocks,
+ * one per step of dt. Draws internal to the model (jumps, variance shocks,
+ * Student-t scaling, CIR's exact transition) come from rng.
+ */
+export const terminalLevel = (proc: ProcessSpec, initialValue: number, dt: number, shocks: ArrayLike<number>, rng: RandomSource): number => {
+  const state = initialProcessState(initialValue, proc, dt);
+  for (let k = 0; k < shocks.length; k++) stepProcess(state, proc, shocks[k], dt, rng);
+  return state.spot;
+};
+
+/**
+ * State shared by every path of one generation run
+ */
+interface PathContext {
+  rng: RandomSource;
+  schedule: Schedule; // Timestamps and accrued year fractions, shared by all paths
+  profile?: number[]; // Intraday U-shape weight of the step ending at each point
+  correlation?: PreparedCorrelation; // Present in multi-asset mode
+  curve?: CurveSpec; // Term-structure factors, stepped on every path
+  swap?: SwapSpec; // Swap or swaption terms
+  surface?: SurfaceSpec; // Implied vol surface factors, stepped on every path
+  exotic?: ExoticSpec; // Non-European option terms; path-dependent state lives on each path
+  portfolio?: PortfolioSpec; // Multi-leg book, replacing the single option
+  regimes?: RegimeSwitchSpec; // Markov regime layer; each path draws its own regime sequence
+  events?: EventSpec; // Scheduled jumps; each path draws its own move sizes
+  fundamentals?: FundamentalsSpec; // Stochastic earnings and per-share fundamentals (EQUITY)
+  macro?: MacroSpec; // Joint macro panel, replacing the run's own process for macro asset classes
+  primary?: boolean; // The displayed path: bars, curve and surface snapshots and bond analytics are built only here
+  ticks?: Tick[]; // Primary path only: receives the bars' trades
+  barRng?: RandomSource; // Primary path only: bar and tick sampling, kept off the path stream
+  bond?: BondSpec; // Primary path only: coupon bond analytics at every point
+}
+
+const simulatePath = (params: SynthesisParameters, ctx: PathContext): DataPoint[] => {
+  const {
     assetClass,
-    initialValue, 
-    timeHorizon, 
-    dt, 
-    mu = 0.05, 
-    sigma = 0.2, 
-    kappa = 2.0, 
-    theta = 0.05,
-    lambda = 0,
-    jumpMu = 0,
-    jumpSigma = 0,
+    initialValue,
+    timeHorizon,
+    dt,
+    mu = 0.05,
     dividendYield = 0,
-    peRatio = 15,
     expectedEarnings = 5.0,
-    foreignRate = 0,
-    domesticRate = 0,
-    convenienceYield = 0,
-    storageCost = 0,
+    earningsGrowth = 0.03,
     seasonalAmplitude = 0,
     creditSpread = 0.01,
     cdsSpread = 0,
@@ -31,36 +343,59 @@ export const generateSynthesizedData = (params: SynthesisParameters): SynthesisR
     expiryTime = 1.0,
     isCall = true,
     impliedVol = 0.2,
-    correlations = {}
+    correlations = {},
+    assets = [],
+    barSubSteps = 20,
+    dailyVolume = 1_000_000,
+    ticksPerBar = 20,
+    tickSize = 0.01,
+    spreadBps = 5,
+    microNoiseBps = 2
   } = params;
+  const { rng, schedule, profile, correlation } = ctx;
+  const withBars = !!params.generateBars && !!ctx.primary;
+  const withTicks = withBars && !!params.generateTicks && schedule.windows !== undefined;
   
-  // Pricing volatility for derivatives
-  const pricingVol = impliedVol || sigma;
+  // Pricing volatility for derivatives; zero is a valid quote and prices at intrinsic value
+  const pricingVol = impliedVol;
 
   const data: DataPoint[] = [];
-  let currentSpot = initialValue;
   
   // Market Proxy Path starts at the same initial value for easier visual overlay
   let marketProxy = initialValue; 
   const marketMu = 0.06;
   const marketSigma = 0.15;
 
-  const startDate = new Date();
+  const primaryProcess = resolveProcess(params, params.scheme, effectiveDrift(assetClass, mu, params));
+  // Each regime swaps its own drift, vol, mean reversion and jump intensity into the process
+  const regimeProcesses = ctx.regimes?.regimes.map(r => ({
+    ...primaryProcess,
+    effectiveMu: effectiveDrift(assetClass, r.mu, params),
+    sigma: r.sigma, kappa: r.kappa, theta: r.theta, lambda: r.lambda
+  }));
+  let regime = ctx.regimes?.initial;
+  let activeProcess = regimeProcesses ? regimeProcesses[regime!] : primaryProcess;
+  const primaryState = initialProcessState(initialValue, activeProcess, dt);
+  // Forward earnings before trend growth; earnings events step it with the price
+  let earningsLevel = expectedEarnings;
+  const fundamentalsState = ctx.fundamentals
+    ? initialFundamentalsState(ctx.fundamentals, expectedEarnings, params.bookValue ?? initialValue / 3)
+    : undefined;
+  let reportSurprise: number | undefined; // Surprise of a report landing on the next point
+  const macroState = ctx.macro ? initialMacroState(ctx.macro, initialValue) : undefined;
 
-  // Effective Drift Calculation based on Category
-  let effectiveMu = mu;
-  if (assetClass === AssetClass.EQUITY) {
-    effectiveMu = mu - dividendYield;
-  } else if (assetClass === AssetClass.FX) {
-    // Interest Rate Parity Adjustment: effective drift = risk premium + (r_domestic - r_foreign)
-    effectiveMu = mu + (domesticRate - foreignRate);
-  } else if (assetClass === AssetClass.COMMODITY) {
-    effectiveMu = mu + (storageCost - convenienceYield);
-  } else if (assetClass === AssetClass.FORWARD || assetClass === AssetClass.FUTURE) {
-    effectiveMu = riskFreeRate - dividendYield;
-  } else if (assetClass === AssetClass.UNEMPLOYMENT_RATE) {
-    effectiveMu = 0; 
-  }
+  // Multi-asset mode: the full matrix replaces the market proxy coupling
+  const jointProcesses = correlation ? assets.map(a => resolveAssetProcess(a, params)) : [];
+  const jointStates = jointProcesses.map((proc, k) => initialProcessState(assets[k].initialValue, proc, dt));
+  const independentShocks = new Array<number>(jointProcesses.length + 1).fill(0);
+  // Bar ending at the next point; the first point is a flat bar at the initial level
+  const curveState = ctx.curve ? initialCurveState(ctx.curve) : undefined;
+  const surfaceState = ctx.surface ? initialSurfaceState(ctx.surface) : undefined;
+  const exoticState = ctx.exotic ? initialExoticState(initialValue) : undefined;
+  const bookState = ctx.portfolio ? initialBookState(ctx.portfolio, initialValue) : undefined;
+  // Float rate fixed at the start of the swap period currently accruing
+  let floatFixing: { period: number; rate: number } | undefined;
+  let pendingBar: OHLCVBar | undefined = withBars ? { open: initialValue, high: initialValue, low: initialValue, close: initialValue, volume: 0 } : undefined;
 
   // Calculate Aggregated Correlation Factor (Effective rho)
   const factorKeys = Object.keys(correlations) as (keyof typeof correlations)[];
@@ -69,19 +404,21 @@ export const generateSynthesizedData = (params: SynthesisParameters): SynthesisR
     : 0;
 
   for (let i = 0; i <= timeHorizon; i++) {
-    const currentDate = new Date(startDate);
-    currentDate.setDate(startDate.getDate() + i);
-    const T = Math.max(0.0001, expiryTime - (i / 365));
+    const currentSpot = primaryState.spot;
+    // Time accrues on the calendar's business days, not on calendar days
+    const elapsed = schedule.elapsed[i];
+    const T = Math.max(0.0001, expiryTime - elapsed);
     
     // Seasonal factor (Annual cycle)
     let seasonalShift = 0;
     const isMacroSeasonal = [AssetClass.COMMODITY, AssetClass.INFLATION_RATE, AssetClass.GDP_GROWTH].includes(assetClass);
     if (isMacroSeasonal && seasonalAmplitude > 0) {
-      seasonalShift = Math.sin(2 * Math.PI * i / 252) * seasonalAmplitude;
+      seasonalShift = Math.sin(2 * Math.PI * elapsed) * seasonalAmplitude;
     }
 
     let displayValue = currentSpot + seasonalShift;
     let greeks = undefined;
+    let legs: LegValuation[] | undefined = undefined;
     let secondary = undefined;
     let pointPe = undefined;
     let pointEarnings = undefined;
@@ -91,111 +428,450 @@ export const generateSynthesizedData = (params: SynthesisParameters): SynthesisR
       displayValue = riskFreeRate + creditSpread + cdsSpread + currentSpot;
       secondary = cdsSpread;
     } else if (assetClass === AssetClass.OPTION) {
-      const bs = calculateBS(currentSpot, strikePrice, T, riskFreeRate, pricingVol, isCall);
-      displayValue = bs.price;
-      greeks = bs.greeks;
+      // Off the surface, each strike's vol moves with the smile as spot and the factors evolve
+      const volAt = (strike: number, tau: number) => (surfaceState
+        ? surfaceVol(ctx.surface!, surfaceState, Math.log(strike / (currentSpot * Math.exp(riskFreeRate * tau))), tau)
+        : pricingVol);
+      if (ctx.portfolio) {
+        const book = priceBook(ctx.portfolio, bookState!, currentSpot, elapsed, riskFreeRate, volAt, !!ctx.primary);
+        displayValue = book.value;
+        greeks = book.greeks;
+        legs = book.legs;
+      } else if (ctx.exotic) {
+        // Greeks take several reprices each, so only the displayed path gets them
+        observeExotic(ctx.exotic, exoticState!, currentSpot, elapsed);
+        const exotic = priceExotic(ctx.exotic, exoticState!, currentSpot, T, riskFreeRate, volAt(strikePrice, T), !!ctx.primary);
+        displayValue = exotic.price;
+        greeks = exotic.greeks;
+      } else {
+        const bs = calculateBS(currentSpot, strikePrice, T, riskFreeRate, volAt(strikePrice, T), isCall);
+        displayValue = bs.price;
+        greeks = bs.greeks;
+      }
       secondary = strikePrice;
     } else if (assetClass === AssetClass.FORWARD || assetClass === AssetClass.FUTURE) {
       displayValue = currentSpot * Math.exp((riskFreeRate - dividendYield) * T);
       secondary = currentSpot;
-    } else if (assetClass === AssetClass.SWAP) {
-      displayValue = (currentSpot - (strikePrice / 1000 || 0.03)) * 10000;
+    } else if (assetClass === AssetClass.SWAP && ctx.swap) {
+      // Discount off the simulated curve when one is configured, else flat at the simulated rate
+      const discount: Discount = curveState
+        ? (tau) => Math.exp(-curveZeroRate(ctx.curve!, curveState, tau) * tau)
+        : (tau) => Math.exp(-currentSpot * tau);
+      const period = currentPeriod(ctx.swap.schedule, elapsed);
+      if (period >= 0 && floatFixing?.period !== period) {
+        floatFixing = { period, rate: forwardFixing(ctx.swap.schedule, period, elapsed, discount) };
+      }
+      const swapPrice = priceSwap(ctx.swap, elapsed, discount, period >= 0 ? floatFixing!.rate : undefined);
+      displayValue = swapPrice.price;
+      greeks = swapPrice.greeks;
       secondary = strikePrice;
-    } else if (assetClass === AssetClass.SWAPTION) {
-      const black = calculateBlackSwaption(currentSpot, (strikePrice / 1000 || 0.03), T, riskFreeRate, pricingVol, isCall);
-      displayValue = black.price;
-      greeks = black.greeks;
+    } else if (assetClass === AssetClass.SWAPTION && ctx.swap) {
+      // currentSpot is the forward swap rate of the underlying
+      const swaption = priceSwaption(ctx.swap, currentSpot, elapsed, riskFreeRate, swaptionVol(params));
+      displayValue = swaption.price;
+      greeks = swaption.greeks;
       secondary = strikePrice;
     } else if (assetClass === AssetClass.UNEMPLOYMENT_RATE) {
       displayValue = Math.max(2.0, currentSpot + seasonalShift);
     } else if (assetClass === AssetClass.INFLATION_RATE) {
       displayValue = currentSpot + seasonalShift;
     } else if (assetClass === AssetClass.EQUITY) {
-      pointEarnings = expectedEarnings * Math.exp(0.03 * (i/252)); // 3% growth
+      // Reported EPS steps on report dates; otherwise a smooth trend
+      pointEarnings = fundamentalsState ? fundamentalsState.reported : earningsLevel * Math.exp(earningsGrowth * elapsed);
       pointPe = displayValue / pointEarnings;
     }
 
+    let assetValues: Record<string, number> | undefined = undefined;
+    if (correlation) {
+      assetValues = {};
+      assets.forEach((a, k) => { assetValues![a.id] = jointStates[k].spot; });
+    }
+
     data.push({
       index: i,
-      timestamp: currentDate.toISOString().split('T')[0],
+      timestamp: schedule.timestamps[i],
       value: displayValue,
       underlyingValue: currentSpot,
       secondaryValue: secondary,
       peRatio: pointPe,
       expectedEarnings: pointEarnings,
-      benchmarkValue: marketProxy,
-      greeks
+      benchmarkValue: correlation ? undefined : marketProxy,
+      // Emit the truncated variance, which is what actually drives the price
+      variance: primaryState.variance !== undefined ? Math.max(primaryState.variance, 0) : undefined,
+      conditionalVol: primaryState.condVariance !== undefined ? Math.sqrt(primaryState.condVariance / dt) : undefined,
+      greeks,
+      assetValues,
+      bar: pendingBar,
+      curve: curveState && ctx.primary ? curveSnapshot(ctx.curve!, curveState) : undefined,
+      bond: ctx.bond && bondAnalytics(ctx.bond, currentSpot, elapsed),
+      volSurface: surfaceState && ctx.primary ? surfaceSnapshot(ctx.surface!, surfaceState, currentSpot, riskFreeRate, isCall) : undefined,
+      legs,
+      regime,
+      events: ctx.events?.byIndex.get(i)?.map(e => e.type),
+      fundamentals: fundamentalsState && fundamentalsSnapshot(ctx.fundamentals!, fundamentalsState, reportSurprise),
+      macro: macroState && macroSnapshot(macroState)
     });
+    reportSurprise = undefined;
+    if (i === timeHorizon) break;
 
-    // Generate Correlated Random Shocks
-    const marketEpsilon = getStandardNormal();
-    const idiosyncraticEpsilon = getStandardNormal();
-    
-    // Correlation coupling formula: Z_asset = rho * Z_market + sqrt(1 - rho^2) * Z_idiosyncratic
-    const assetEpsilon = (rho * marketEpsilon) + (Math.sqrt(1 - rho * rho) * idiosyncraticEpsilon);
+    // Business time: each step spans its gap in the schedule (a short closing bar, week or month
+    // accrues less), and intraday the session's busy open and close get more variance
+    const gap = schedule.elapsed[i + 1] - schedule.elapsed[i];
+    const stepDt = profile ? gap * profile[i + 1] : gap;
+    const barDiffusion = withBars ? stepDiffusionVariance(primaryState, activeProcess, stepDt, dt) : undefined;
 
-    // Update Market Proxy (Geometric Brownian Motion)
-    marketProxy = marketProxy * Math.exp((marketMu - 0.5 * marketSigma ** 2) * dt + marketSigma * Math.sqrt(dt) * marketEpsilon);
+    let assetEpsilon: number;
+    if (correlation) {
+      // Correlated shocks for all assets: eps = L z
+      const L = correlation.cholesky;
+      for (let k = 0; k < independentShocks.length; k++) independentShocks[k] = getStandardNormal(rng);
+      const shocks = L.map(row => row.reduce((acc, l, k) => acc + l * independentShocks[k], 0));
+      assetEpsilon = shocks[0];
+      for (let k = 0; k < jointProcesses.length; k++) {
+        stepProcess(jointStates[k], jointProcesses[k], shocks[k + 1], stepDt, rng);
+      }
+    } else {
+      // Generate Correlated Random Shocks
+      const marketEpsilon = getStandardNormal(rng);
+      const idiosyncraticEpsilon = getStandardNormal(rng);
+      
+      // Correlation coupling formula: Z_asset = rho * Z_market + sqrt(1 - rho^2) * Z_idiosyncratic
+      assetEpsilon = (rho * marketEpsilon) + (Math.sqrt(1 - rho * rho) * idiosyncraticEpsilon);
+
+      // Update Market Proxy (Geometric Brownian Motion)
+      marketProxy = marketProxy * Math.exp((marketMu - 0.5 * marketSigma ** 2) * stepDt + marketSigma * Math.sqrt(stepDt) * marketEpsilon);
+    }
 
     // Update Primary Asset based on selected Stochastic Process
-    switch (modelType) {
-      case ModelType.EQUITY_GBM:
-        const driftGBM = (effectiveMu - 0.5 * Math.pow(sigma, 2)) * dt;
-        const diffusionGBM = sigma * Math.sqrt(dt) * assetEpsilon;
-        currentSpot = currentSpot * Math.exp(driftGBM + diffusionGBM);
-        break;
-
-      case ModelType.EQUITY_MERTON_JUMP:
-        const jumpOccurred = Math.random() < (lambda * dt);
-        let jumpFactor = 1.0;
-        if (jumpOccurred) {
-            const jumpEpsilon = getStandardNormal();
-            jumpFactor = Math.exp(jumpMu + jumpSigma * jumpEpsilon);
-        }
-        const driftMerton = (effectiveMu - 0.5 * Math.pow(sigma, 2)) * dt;
-        const diffusionMerton = sigma * Math.sqrt(dt) * assetEpsilon;
-        currentSpot = currentSpot * Math.exp(driftMerton + diffusionMerton) * jumpFactor;
-        break;
-
-      case ModelType.INTEREST_RATE_VASICEK:
-        const meanReversionVas = kappa * (theta - currentSpot) * dt;
-        const rateDiffusionVas = sigma * Math.sqrt(dt) * assetEpsilon;
-        currentSpot = currentSpot + meanReversionVas + rateDiffusionVas;
-        break;
-
-      case ModelType.INTEREST_RATE_CIR:
-        const currentLevel = Math.max(currentSpot, 0.0001);
-        const meanReversionCIR = kappa * (theta - currentLevel) * dt;
-        const rateDiffusionCIR = sigma * Math.sqrt(currentLevel) * Math.sqrt(dt) * assetEpsilon;
-        currentSpot = currentLevel + meanReversionCIR + rateDiffusionCIR;
-        break;
-
-      case ModelType.MACRO_INFLATION:
-      case ModelType.OU_PROCESS:
-        const ouReversion = kappa * (theta - currentSpot) * dt;
-        const ouNoise = sigma * Math.sqrt(dt) * assetEpsilon;
-        currentSpot = currentSpot + (effectiveMu * dt) + ouReversion + ouNoise;
-        break;
+    if (macroState) {
+      stepMacro(ctx.macro!, macroState, assetEpsilon, stepDt, rng);
+      primaryState.spot = macroValue(ctx.macro!, macroState);
+    } else {
+      stepProcess(primaryState, activeProcess, assetEpsilon, stepDt, rng);
+    }
+    ctx.events?.byIndex.get(i + 1)?.forEach(event => {
+      const move = eventMove(ctx.events!, event, rng);
+      primaryState.spot = applyEventMove(ctx.events!, primaryState.spot, move);
+      if (event.type === EventType.EARNINGS) {
+        earningsLevel *= Math.exp(move);
+        if (fundamentalsState) scaleEarnings(fundamentalsState, Math.exp(move));
+      }
+    });
+    if (macroState) setMacroValue(ctx.macro!, macroState, primaryState.spot);
+    if (fundamentalsState) {
+      stepFundamentals(ctx.fundamentals!, fundamentalsState, assetEpsilon, stepDt, rng);
+      if (ctx.fundamentals!.reportIndices.has(i + 1)) {
+        // The price reprices the surprise on the report date
+        reportSurprise = reportEarnings(ctx.fundamentals!, fundamentalsState, rng);
+        primaryState.spot *= Math.exp(ctx.fundamentals!.reaction * Math.log1p(reportSurprise));
+      }
+    }
+    if (ctx.regimes) {
+      regime = nextRegime(ctx.regimes, regime!, rng);
+      activeProcess = regimeProcesses![regime];
+    }
+
+    if (curveState) stepCurveFactors(ctx.curve!, curveState, stepDt, rng);
+    if (surfaceState) stepSurface(ctx.surface!, surfaceState, assetEpsilon, stepDt, rng);
+
+    if (barDiffusion) {
+      const window = schedule.windows?.[i + 1];
+      const { bar, ticks } = buildBar({
+        barIndex: i + 1,
+        from: currentSpot,
+        to: primaryState.spot,
+        variance: barDiffusion.variance,
+        logSpace: barDiffusion.logSpace && currentSpot > 0 && primaryState.spot > 0,
+        subSteps: Math.max(1, Math.floor(barSubSteps)),
+        expectedVolume: dailyVolume * stepDt * BUSINESS_DAYS_PER_YEAR,
+        ticks: withTicks && window ? {
+          window,
+          expectedCount: ticksPerBar * (profile?.[i + 1] ?? 1),
+          tickSize,
+          spreadBps,
+          noiseBps: microNoiseBps
+        } : undefined
+      }, ctx.barRng!);
+      pendingBar = bar;
+      ctx.ticks!.push(...ticks);
+    }
+  }
+
+  return data;
+};
+
+/**
+ * Per-timestep percentile bands across the path matrix
+ */
+export const computeQuantileBands = (paths: Float32Array, numPaths: number, reference: DataPoint[]): QuantileBand[] => {
+  const steps = reference.length;
+  const column = new Float64Array(numPaths);
+  const bands: QuantileBand[] = [];
+
+  for (let t = 0; t < steps; t++) {
+    let sum = 0;
+    for (let p = 0; p < numPaths; p++) {
+      column[p] = paths[p * steps + t];
+      sum += column[p];
     }
+    column.sort();
+    bands.push({
+      index: reference[t].index,
+      timestamp: reference[t].timestamp,
+      p5: quantileSorted(column, 0.05),
+      p25: quantileSorted(column, 0.25),
+      p50: quantileSorted(column, 0.5),
+      p75: quantileSorted(column, 0.75),
+      p95: quantileSorted(column, 0.95),
+      mean: sum / numPaths
+    });
   }
 
+  return bands;
+};
+
+export interface SynthesisHooks {
+  onProgress?: (completedPaths: number, totalPaths: number) => void;
+  // Receives snapshots of the result while ensemble paths are still being added
+  onPartial?: (partial: SynthesisResult) => void;
+}
+
+/**
+ * Monte Carlo ensemble. Path 0 is the primary path; the rest continue drawing
+ * from the same generator so the whole matrix is reproducible from one seed.
+ */
+const simulateEnsemble = (
+  params: SynthesisParameters,
+  ctx: PathContext,
+  primary: DataPoint[],
+  numPaths: number,
+  onProgress?: (completedPaths: number, totalPaths: number) => void,
+  onSnapshot?: (partial: EnsembleResult) => void
+): EnsembleResult => {
+  const steps = primary.length;
+  const paths = new Float32Array(numPaths * steps);
+  primary.forEach((d, t) => { paths[t] = d.value; });
+  const partialEvery = Math.max(1, Math.floor(numPaths / 20));
+
+  for (let p = 1; p < numPaths; p++) {
+    const path = simulatePath(params, ctx);
+    const offset = p * steps;
+    for (let t = 0; t < steps; t++) paths[offset + t] = path[t].value;
+
+    const completed = p + 1;
+    onProgress?.(completed, numPaths);
+    if (onSnapshot && completed % partialEvery === 0 && completed < numPaths) {
+      // Copy so the snapshot stays valid (and transferable) while the matrix keeps filling
+      const done = paths.slice(0, completed * steps);
+      onSnapshot({ numPaths: completed, steps, paths: done, bands: computeQuantileBands(done, completed, primary) });
+    }
+  }
+
+  return { numPaths, steps, paths, bands: computeQuantileBands(paths, numPaths, primary) };
+};
+
+export const generateSynthesizedData = (requested: SynthesisParameters, hooks: SynthesisHooks = {}): SynthesisResult => {
+  const seed = requested.seed ?? generateSeed();
+  const rng = createSeededRandom(seed);
+  // Pin the start date and the frequency's step size so the stored parameters regenerate this run
+  const params: SynthesisParameters = {
+    ...requested,
+    startDate: requested.startDate || isoDate(new Date()),
+    dt: resolveStepSize(requested)
+  };
+  const schedule = buildSchedule(params, params.timeHorizon);
+
+  const assetCount = (params.assets?.length ?? 0) + 1;
+  const correlation = assetCount > 1
+    ? prepareCorrelation(resizeCorrelationMatrix(params.correlationMatrix, assetCount))
+    : undefined;
+  const profile = params.frequency === SamplingFrequency.INTRADAY
+    ? sessionProfile(schedule, params.calendar ?? MarketCalendar.WEEKDAYS, params.intradayUShape ?? 0.4)
+    : undefined;
+  const ctx: PathContext = { rng, schedule, profile, correlation, curve: resolveCurveSpec(params), swap: resolveSwapSpec(params, params.startDate!), surface: resolveSurfaceSpec(params), exotic: resolveExoticSpec(params), portfolio: resolvePortfolioSpec(params), regimes: resolveRegimeSpec(params), events: resolveEventSpec(params, schedule.timestamps), fundamentals: resolveFundamentalsSpec(params, schedule.timestamps), macro: resolveMacroSpec(params) };
+
+  // Bars, ticks, curve and surface snapshots and bond analytics are built for the displayed path only, not for ensemble members
+  const ticks: Tick[] = [];
+  // Bars draw from their own stream so turning them on leaves the path unchanged for the same seed
+  const barRng = createSeededRandom(0xba25 ^ seed);
+  const data = simulatePath(params, { ...ctx, primary: true, ticks, barRng, bond: resolveBondSpec(params) });
   const values = data.map(d => d.value);
   const summary = calculateSummary(values);
 
-  return {
-    parameters: params,
-    data,
-    summary
-  };
+  const numPaths = Math.max(1, Math.floor(params.numPaths ?? 1));
+  if (numPaths * data.length > MAX_ENSEMBLE_CELLS) {
+    throw new Error(`Ensemble too large: ${numPaths} paths x ${data.length} steps exceeds ${MAX_ENSEMBLE_CELLS} cells`);
+  }
+
+  const base: SynthesisResult = { parameters: { ...params, seed }, seed, data, summary };
+  if (params.generateBars && params.generateTicks && schedule.windows) base.ticks = ticks;
+  if (correlation) {
+    base.correlation = { matrix: correlation.matrix, repaired: correlation.repaired, minEigenvalue: correlation.minEigenvalue };
+  }
+  hooks.onProgress?.(1, numPaths);
+  if (numPaths === 1) return base;
+
+  hooks.onPartial?.(base);
+  const onSnapshot = hooks.onPartial && ((partial: EnsembleResult) => hooks.onPartial!({ ...base, ensemble: partial }));
+  const ensemble = simulateEnsemble(params, ctx, data, numPaths, hooks.onProgress, onSnapshot);
+  return { ...base, ensemble };
 };
 
-export const convertToCSV = (data: DataPoint[]): string => {
-  const headers = "Index,Date,Value,Underlying,PE_Ratio,Earnings,MarketProxy,Delta,Gamma,Vega,Theta,Rho\n";
+export interface CSVMetadata {
+  seed?: number;
+  parameters?: SynthesisParameters;
+  scenario?: string; // Historical episode applied on top of the run
+}
+
+/**
+ * Metadata is written as leading '#' comment lines so the file carries what is
+ * needed to regenerate it.
+ */
+const metadataPreamble = (meta: CSVMetadata): string => {
+  let preamble = "";
+  if (meta.seed !== undefined) preamble += `# seed=${meta.seed}\n`;
+  if (meta.parameters) preamble += `# parameters=${JSON.stringify(meta.parameters)}\n`;
+  if (meta.scenario) preamble += `# scenario=${meta.scenario}\n`;
+  return preamble;
+};
+
+export const FUNDAMENTAL_HEADERS: Record<keyof FundamentalsSnapshot, string> = {
+  earningsPower: 'EarningsPower',
+  surprise: 'Surprise',
+  dividend: 'Dividend',
+  bookValue: 'BookValue',
+  revenue: 'Revenue'
+};
+
+// Column names for the joint macro panel, in MACRO_VARIABLES order
+export const MACRO_HEADERS: Partial<Record<AssetClass, string>> = {
+  [AssetClass.CENTRAL_BANK_RATE]: 'PolicyRate',
+  [AssetClass.INFLATION_RATE]: 'Inflation',
+  [AssetClass.UNEMPLOYMENT_RATE]: 'Unemployment',
+  [AssetClass.GDP_GROWTH]: 'GDPGrowth',
+  [AssetClass.TOTAL_PRODUCTIVITY]: 'Productivity'
+};
+
+export const macroColumns = (data: DataPoint[]): AssetClass[] => (data[0]?.macro ? MACRO_VARIABLES : []);
+
+/**
+ * Fundamentals fields a run emits; the surprise is sparse, so it is kept
+ * whenever the run has fundamentals at all
+ */
+export const fundamentalColumns = (data: DataPoint[]): (keyof FundamentalsSnapshot)[] => {
+  const f = data[0]?.fundamentals;
+  if (!f) return [];
+  return (Object.keys(FUNDAMENTAL_HEADERS) as (keyof FundamentalsSnapshot)[]).filter(k => k === 'surprise' || f[k] !== undefined);
+};
+
+export const convertToCSV = (data: DataPoint[], meta: CSVMetadata = {}): string => {
+  const preamble = metadataPreamble(meta);
+  // Joint assets get one column each, named by asset id
+  const assetIds = Object.keys(data[0]?.assetValues || {});
+  const assetHeaders = assetIds.map(id => `,Asset_${id}`).join('');
+  // Curve runs add zero rate, discount factor and par rate columns per tenor
+  const hasCurve = !!data[0]?.curve;
+  const hasBond = !!data[0]?.bond;
+  const bondHeaders = hasBond ? ',BondPrice,YTM,MacaulayDur,ModifiedDur,Convexity,DV01,ZCB' : '';
+  // Portfolio runs add each leg's position value
+  const legIds = (data[0]?.legs ?? []).map(l => l.id);
+  const legHeaders = legIds.map(id => `,Leg_${id}`).join('');
+  // Regime-switching runs label every row with the regime index
+  const hasRegime = data[0]?.regime !== undefined;
+  // Runs with a schedule name the events that landed on each row
+  const hasEvents = data.some(d => d.events);
+  // Stochastic fundamentals add latent EPS, the report surprise and any extra per-share series
+  const fundamentalKeys = fundamentalColumns(data);
+  // Joint macro runs carry the whole panel, not just the displayed series
+  const macroKeys = macroColumns(data);
+  const curveHeaders = hasCurve ? CURVE_TENORS.map(tenorLabel).map(l => `,Zero_${l},DF_${l},Par_${l}`).join('') : '';
+  const headers = `Index,Date,Value,Underlying,PE_Ratio,Earnings,MarketProxy,Variance,CondVol,Delta,Gamma,Vega,Theta,Rho${assetHeaders}${legHeaders}${curveHeaders}${bondHeaders}${fundamentalKeys.map(k => `,${FUNDAMENTAL_HEADERS[k]}`).join('')}${macroKeys.map(k => `,${MACRO_HEADERS[k]}`).join('')}${hasRegime ? ',Regime' : ''}${hasEvents ? ',Events' : ''}\n`;
   const rows = data.map(d => {
     const g = d.greeks || {};
-    return `${d.index},${d.timestamp},${d.value.toFixed(6)},${d.underlyingValue?.toFixed(6) || ''},${d.peRatio?.toFixed(4)||''},${d.expectedEarnings?.toFixed(4)||''},${d.benchmarkValue?.toFixed(6) || ''},${g.delta?.toFixed(4)||''},${g.gamma?.toFixed(4)||''},${g.vega?.toFixed(4)||''},${g.theta?.toFixed(4)||''},${g.rho?.toFixed(4)||''}`;
+    const assetCells = assetIds.map(id => `,${d.assetValues?.[id]?.toFixed(6) ?? ''}`).join('');
+    const legCells = legIds.map((_, k) => `,${d.legs?.[k]?.value.toFixed(6) ?? ''}`).join('');
+    const curveCells = hasCurve ? CURVE_TENORS.map((_, k) => `,${d.curve?.zeroRates[k].toFixed(6) ?? ''},${d.curve?.discountFactors[k].toFixed(6) ?? ''},${d.curve?.parRates[k].toFixed(6) ?? ''}`).join('') : '';
+    const b = d.bond;
+    const bondCells = hasBond ? `,${b?.price.toFixed(6) ?? ''},${b?.ytm.toFixed(6) ?? ''},${b?.macaulayDuration.toFixed(4) ?? ''},${b?.modifiedDuration.toFixed(4) ?? ''},${b?.convexity.toFixed(4) ?? ''},${b?.dv01.toFixed(6) ?? ''},${b?.zeroCouponPrice.toFixed(6) ?? ''}` : '';
+    return `${d.index},${d.timestamp},${d.value.toFixed(6)},${d.underlyingValue?.toFixed(6) || ''},${d.peRatio?.toFixed(4)||''},${d.expectedEarnings?.toFixed(4)||''},${d.benchmarkValue?.toFixed(6) || ''},${d.variance?.toFixed(6) ?? ''},${d.conditionalVol?.toFixed(6) ?? ''},${g.delta?.toFixed(4)||''},${g.gamma?.toFixed(4)||''},${g.vega?.toFixed(4)||''},${g.theta?.toFixed(4)||''},${g.rho?.toFixed(4)||''}${assetCells}${legCells}${curveCells}${bondCells}${fundamentalKeys.map(k => `,${d.fundamentals?.[k]?.toFixed(6) ?? ''}`).join('')}${macroKeys.map(k => `,${d.macro?.[k]?.toFixed(6) ?? ''}`).join('')}${hasRegime ? `,${d.regime ?? ''}` : ''}${hasEvents ? `,${d.events?.join('|') ?? ''}` : ''}`;
+  }).join("\n");
+  return preamble + headers + rows;
+};
+
+/**
+ * OHLCV bars of the underlying, one row per point. The first point has no
+ * preceding interval, so its bar is flat with zero volume.
+ */
+export const convertBarsToCSV = (data: DataPoint[], meta: CSVMetadata = {}): string => {
+  const headers = "Index,Date,Open,High,Low,Close,Volume\n";
+  const rows = data.filter(d => d.bar).map(d => {
+    const b = d.bar!;
+    return `${d.index},${d.timestamp},${b.open.toFixed(6)},${b.high.toFixed(6)},${b.low.toFixed(6)},${b.close.toFixed(6)},${b.volume}`;
   }).join("\n");
-  return headers + rows;
+  return metadataPreamble(meta) + headers + rows;
+};
+
+export const convertTicksToCSV = (ticks: Tick[], meta: CSVMetadata = {}): string => {
+  const headers = "Timestamp,Bar,Price,Size,Side,Bid,Ask\n";
+  const rows = ticks.map(t => `${t.timestamp},${t.barIndex},${t.price},${t.size},${t.side},${t.bid},${t.ask}`).join("\n");
+  return metadataPreamble(meta) + headers + rows;
+};
+
+/**
+ * Implied vol surface in long format, one row per point, expiry and strike.
+ * Expiries are constant maturities rolling with the run; prices follow isCall.
+ */
+export const convertSurfaceToCSV = (data: DataPoint[], meta: CSVMetadata = {}): string => {
+  const headers = "Date,Expiry,Moneyness,Strike,IV,Price\n";
+  const lines: string[] = [];
+  data.forEach(d => {
+    const s = d.volSurface;
+    if (!s) return;
+    s.expiries.forEach((expiry, e) => {
+      s.moneyness.forEach((m, j) => {
+        lines.push(`${d.timestamp},${expiry.toFixed(6)},${m},${s.strikes[e][j].toFixed(6)},${s.iv[e][j].toFixed(6)},${s.prices[e][j].toFixed(6)}`);
+      });
+    });
+  });
+  return metadataPreamble(meta) + headers + lines.join("\n");
+};
+
+/**
+ * Delta-hedge ledger, one row per point up to expiry, with the step P&L and
+ * its attribution. Costs are negative; Rebalanced is 1 on trade points.
+ */
+export const convertHedgeToCSV = (steps: HedgeStep[], meta: CSVMetadata = {}): string => {
+  const headers = "Index,Date,Spot,OptionValue,Shares,Cash,Book,PnL,Delta_PnL,Gamma_PnL,Theta_PnL,Vega_PnL,Costs,Residual,Rebalanced\n";
+  const rows = steps.map(s =>
+    `${s.index},${s.timestamp},${s.spot.toFixed(6)},${s.optionValue.toFixed(6)},${s.shares.toFixed(6)},${s.cash.toFixed(6)},${s.book.toFixed(6)},${s.pnl.toFixed(6)},${s.delta.toFixed(6)},${s.gamma.toFixed(6)},${s.theta.toFixed(6)},${s.vega.toFixed(6)},${s.costs.toFixed(6)},${s.residual.toFixed(6)},${s.rebalanced ? 1 : 0}`
+  ).join("\n");
+  return metadataPreamble(meta) + headers + rows;
+};
+
+/**
+ * Ensemble export: either the full path matrix (one column per path) or only
+ * the percentile bands.
+ */
+export const convertEnsembleToCSV = (ensemble: EnsembleResult, mode: 'paths' | 'bands', meta: CSVMetadata = {}): string => {
+  const preamble = metadataPreamble(meta);
+
+  if (mode === 'bands') {
+    const headers = "Index,Date,P5,P25,P50,P75,P95,Mean\n";
+    const rows = ensemble.bands.map(b =>
+      `${b.index},${b.timestamp},${b.p5.toFixed(6)},${b.p25.toFixed(6)},${b.p50.toFixed(6)},${b.p75.toFixed(6)},${b.p95.toFixed(6)},${b.mean.toFixed(6)}`
+    ).join("\n");
+    return preamble + headers + rows;
+  }
+
+  const { numPaths, steps, paths, bands } = ensemble;
+  const pathHeaders = Array.from({ length: numPaths }, (_, p) => `Path_${p}`).join(',');
+  const lines: string[] = [];
+  for (let t = 0; t < steps; t++) {
+    const cells = new Array<string>(numPaths);
+    for (let p = 0; p < numPaths; p++) cells[p] = paths[p * steps + t].toFixed(6);
+    lines.push(`${bands[t].index},${bands[t].timestamp},${cells.join(',')}`);
+  }
+  return preamble + `Index,Date,${pathHeaders}\n` + lines.join("\n");
 };
 
 export const downloadFile = (content: string, fileName: string, contentType: string) => {
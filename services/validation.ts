@@ -0,0 +1,153 @@
+import { ReturnStatistics, ValidationReport } from '../types';
+import { autocorrelation, sampleMoments } from './mathUtils';
+
+export const ACF_LAGS = 20;
+
+const toReturns = (values: number[], type: ValidationReport['returnType']): number[] =>
+  values.slice(1).map((v, i) => (type === 'log' ? Math.log(v / values[i]) : v - values[i]));
+
+/**
+ * Hurst exponent by rescaled-range analysis: slope of log(R/S) against
+ * log(window) over dyadic windows. ~0.5 for uncorrelated returns.
+ */
+export const hurstExponent = (returns: number[]): number => {
+  const points: { x: number; y: number }[] = [];
+
+  for (let w = 8; w <= returns.length / 2; w *= 2) {
+    let total = 0, count = 0;
+    for (let start = 0; start + w <= returns.length; start += w) {
+      const chunk = returns.slice(start, start + w);
+      const { mean, variance } = sampleMoments(chunk);
+      if (variance <= 0) continue;
+      let cum = 0, max = 0, min = 0;
+      for (const r of chunk) {
+        cum += r - mean;
+        max = Math.max(max, cum);
+        min = Math.min(min, cum);
+      }
+      total += (max - min) / Math.sqrt(variance);
+      count++;
+    }
+    if (count > 0) points.push({ x: Math.log(w), y: Math.log(total / count) });
+  }
+
+  if (points.length < 2) return NaN;
+  const mx = points.reduce((a, p) => a + p.x, 0) / points.length;
+  const my = points.reduce((a, p) => a + p.y, 0) / points.length;
+  const sxy = points.reduce((a, p) => a + (p.x - mx) * (p.y - my), 0);
+  const sxx = points.reduce((a, p) => a + (p.x - mx) ** 2, 0);
+  return sxy / sxx;
+};
+
+/**
+ * Largest peak-to-trough decline, relative to the peak when `relative`
+ */
+export const maxDrawdown = (values: number[], relative: boolean): number => {
+  let peak = -Infinity, worst = 0;
+  for (const v of values) {
+    peak = Math.max(peak, v);
+    worst = Math.max(worst, relative ? (peak - v) / peak : peak - v);
+  }
+  return worst;
+};
+
+/**
+ * Two-sample Kolmogorov-Smirnov test with the asymptotic p-value
+ * (Stephens' small-sample correction on the effective size).
+ */
+export const kolmogorovSmirnov = (a: number[], b: number[]): { statistic: number; pValue: number } => {
+  const x = [...a].sort((p, q) => p - q);
+  const y = [...b].sort((p, q) => p - q);
+  let i = 0, j = 0, d = 0;
+  while (i < x.length && j < y.length) {
+    const v = Math.min(x[i], y[j]);
+    while (i < x.length && x[i] <= v) i++;
+    while (j < y.length && y[j] <= v) j++;
+    d = Math.max(d, Math.abs(i / x.length - j / y.length));
+  }
+
+  const ne = Math.sqrt((x.length * y.length) / (x.length + y.length));
+  const lambda = (ne + 0.12 + 0.11 / ne) * d;
+  let pValue = 0;
+  for (let k = 1; k <= 100; k++) {
+    const term = 2 * Math.pow(-1, k - 1) * Math.exp(-2 * k * k * lambda * lambda);
+    pValue += term;
+    if (Math.abs(term) < 1e-10) break;
+  }
+
+  return { statistic: d, pValue: Math.min(1, Math.max(0, pValue)) };
+};
+
+const returnStatistics = (values: number[], type: ValidationReport['returnType'], dt: number): ReturnStatistics => {
+  const returns = toReturns(values, type);
+  const n = returns.length;
+  const { mean, variance, skewness, excessKurtosis } = sampleMoments(returns);
+  // Jarque-Bera is χ²(2) under normality, whose survival function is exp(-x/2)
+  const jb = (n / 6) * (skewness * skewness + excessKurtosis * excessKurtosis / 4);
+  const squared = returns.map(r => r * r);
+  const lags = Array.from({ length: Math.min(ACF_LAGS, n - 1) }, (_, k) => k + 1);
+
+  return {
+    count: n,
+    mean,
+    std: Math.sqrt(variance),
+    annualizedVol: Math.sqrt(variance / dt),
+    skewness,
+    excessKurtosis,
+    jarqueBera: { statistic: jb, pValue: Math.exp(-jb / 2) },
+    acfReturns: lags.map(k => autocorrelation(returns, k)),
+    acfSquared: lags.map(k => autocorrelation(squared, k)),
+    hurst: hurstExponent(returns),
+    maxDrawdown: maxDrawdown(values, type === 'log')
+  };
+};
+
+/**
+ * Stylized-fact report on the returns of a synthetic series, optionally
+ * side by side with a reference series and a KS test between the two.
+ * Log returns are used when every level is positive, differences otherwise.
+ */
+export const buildValidationReport = (
+  values: number[],
+  dt: number,
+  reference?: { name: string; values: number[] }
+): ValidationReport => {
+  if (values.length < 3) throw new Error('Need at least three points to validate');
+  const positive = values.every(v => v > 0) && (!reference || reference.values.every(v => v > 0));
+  const returnType = positive ? 'log' : 'difference';
+
+  const report: ValidationReport = { returnType, synthetic: returnStatistics(values, returnType, dt) };
+  if (reference && reference.values.length >= 3) {
+    report.reference = { name: reference.name, ...returnStatistics(reference.values, returnType, dt) };
+    report.ks = kolmogorovSmirnov(toReturns(values, returnType), toReturns(reference.values, returnType));
+  }
+  return report;
+};
+
+/**
+ * Flat metric,synthetic,reference table for export
+ */
+export const convertValidationToCSV = (report: ValidationReport): string => {
+  const { synthetic, reference, ks } = report;
+  const row = (label: string, pick: (s: ReturnStatistics) => number | undefined) =>
+    `${label},${pick(synthetic) ?? ''},${reference ? pick(reference) ?? '' : ''}`;
+
+  const rows = [
+    `# Return type: ${report.returnType}`,
+    `Metric,Synthetic,${reference ? `Reference (${reference.name.replace(/,/g, ' ')})` : 'Reference'}`,
+    row('Observations', s => s.count),
+    row('Mean', s => s.mean),
+    row('Std', s => s.std),
+    row('AnnualizedVol', s => s.annualizedVol),
+    row('Skewness', s => s.skewness),
+    row('ExcessKurtosis', s => s.excessKurtosis),
+    row('JarqueBera', s => s.jarqueBera.statistic),
+    row('JarqueBeraPValue', s => s.jarqueBera.pValue),
+    row('Hurst', s => s.hurst),
+    row('MaxDrawdown', s => s.maxDrawdown),
+    ...synthetic.acfReturns.map((_, k) => row(`ACF_${k + 1}`, s => s.acfReturns[k])),
+    ...synthetic.acfSquared.map((_, k) => row(`ACF2_${k + 1}`, s => s.acfSquared[k]))
+  ];
+  if (ks) rows.push(`KS_Statistic,${ks.statistic},`, `KS_PValue,${ks.pValue},`);
+  return rows.join('\n');
+};
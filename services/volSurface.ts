@@ -0,0 +1,165 @@
+import { AssetClass, SynthesisParameters, VolSurfaceModel, VolSurfaceSnapshot } from '../types';
+import { calculateBS, getStandardNormal, RandomSource } from './mathUtils';
+
+export const DEFAULT_SURFACE_EXPIRIES = [1 / 12, 0.25, 0.5, 1, 2];
+export const DEFAULT_SURFACE_MONEYNESS = [0.7, 0.8, 0.9, 0.95, 1, 1.05, 1.1, 1.2, 1.3];
+
+export const DEFAULT_SURFACE_CURVATURE: Record<VolSurfaceModel, number> = {
+  [VolSurfaceModel.SVI]: 1.0, // SSVI eta; eta^2 (1 + |rho|) <= 4 keeps the smile butterfly-free
+  [VolSurfaceModel.SABR]: 0.6 // Vol-of-vol nu
+};
+
+// SSVI power-law exponent; 1/2 is the case with a closed-form no-arbitrage bound
+const SSVI_GAMMA = 0.5;
+const MAX_SKEW = 0.999;
+
+export interface SurfaceSpec {
+  model: VolSurfaceModel;
+  expiries: number[];
+  moneyness: number[];
+  atmVol: number; // Long-run ATM level
+  skew: number;
+  curvature: number;
+  volOfVol: number;
+  kappa: number;
+  spotVolCorrelation: number;
+}
+
+/**
+ * The three smile factors. Each mean-reverts in a transformed space so it
+ * stays in range: log ATM vol, atanh of the skew, log curvature.
+ */
+export interface SurfaceState {
+  atmVol: number;
+  skew: number;
+  curvature: number;
+}
+
+/**
+ * Surface settings for OPTION runs with a volSurfaceModel, or undefined when
+ * the option is priced at a flat implied vol.
+ */
+export const resolveSurfaceSpec = (params: SynthesisParameters): SurfaceSpec | undefined => {
+  const model = params.volSurfaceModel;
+  if (!model || params.assetClass !== AssetClass.OPTION) return undefined;
+  const expiries = (params.surfaceExpiries?.length ? params.surfaceExpiries : DEFAULT_SURFACE_EXPIRIES).filter(t => t > 0);
+  const moneyness = (params.surfaceMoneyness?.length ? params.surfaceMoneyness : DEFAULT_SURFACE_MONEYNESS).filter(m => m > 0);
+  return {
+    model,
+    expiries: [...expiries].sort((a, b) => a - b),
+    moneyness: [...moneyness].sort((a, b) => a - b),
+    atmVol: Math.max(params.impliedVol ?? 0.2, 1e-4),
+    skew: Math.max(-MAX_SKEW, Math.min(MAX_SKEW, params.surfaceSkew ?? -0.4)),
+    curvature: Math.max(params.surfaceCurvature ?? DEFAULT_SURFACE_CURVATURE[model], 1e-4),
+    volOfVol: Math.max(params.surfaceVolOfVol ?? 0.8, 0),
+    kappa: Math.max(params.surfaceMeanReversion ?? 3.0, 0),
+    spotVolCorrelation: Math.max(-1, Math.min(1, params.spotVolCorrelation ?? -0.6))
+  };
+};
+
+export const initialSurfaceState = (spec: SurfaceSpec): SurfaceState => ({
+  atmVol: spec.atmVol,
+  skew: spec.skew,
+  curvature: spec.curvature
+});
+
+const ouStep = (x: number, longRun: number, kappa: number, sigma: number, dt: number, epsilon: number): number => {
+  if (kappa < 1e-8) return x + sigma * Math.sqrt(dt) * epsilon;
+  const decay = Math.exp(-kappa * dt);
+  return longRun + (x - longRun) * decay + sigma * Math.sqrt((1 - decay * decay) / (2 * kappa)) * epsilon;
+};
+
+/**
+ * Advance the smile factors over dt. ATM vol shocks load on the spot shock
+ * through spotVolCorrelation (the leverage effect); skew and curvature move
+ * independently at half the ATM vol-of-vol.
+ */
+export const stepSurface = (spec: SurfaceSpec, state: SurfaceState, spotEpsilon: number, dt: number, rng: RandomSource): void => {
+  const { kappa, volOfVol, spotVolCorrelation: rho } = spec;
+  const atmEpsilon = rho * spotEpsilon + Math.sqrt(1 - rho * rho) * getStandardNormal(rng);
+  state.atmVol = Math.exp(ouStep(Math.log(state.atmVol), Math.log(spec.atmVol), kappa, volOfVol, dt, atmEpsilon));
+  const skew = ouStep(Math.atanh(state.skew), Math.atanh(spec.skew), kappa, volOfVol / 2, dt, getStandardNormal(rng));
+  state.skew = Math.max(-MAX_SKEW, Math.min(MAX_SKEW, Math.tanh(skew)));
+  state.curvature = Math.exp(ouStep(Math.log(state.curvature), Math.log(spec.curvature), kappa, volOfVol / 2, dt, getStandardNormal(rng)));
+};
+
+// SSVI total variance at log-moneyness k for ATM total variance theta
+const ssviTotalVariance = (theta: number, rho: number, eta: number, k: number): number => {
+  const phi = eta / (Math.pow(theta, SSVI_GAMMA) * Math.pow(1 + theta, 1 - SSVI_GAMMA));
+  const x = phi * k + rho;
+  return theta / 2 * (1 + rho * phi * k + Math.sqrt(x * x + 1 - rho * rho));
+};
+
+// Hagan's ATM correction for beta = 1
+const sabrCorrection = (alpha: number, rho: number, nu: number, T: number): number =>
+  Math.max(1 + (rho * nu * alpha / 4 + (2 - 3 * rho * rho) * nu * nu / 24) * T, 0.2);
+
+/**
+ * Lognormal SABR (beta = 1) vol at log-moneyness k, with alpha solved so the
+ * ATM vol matches atmVol at this expiry.
+ */
+const sabrVol = (atmVol: number, rho: number, nu: number, k: number, T: number): number => {
+  let alpha = atmVol;
+  for (let iter = 0; iter < 20; iter++) alpha = atmVol / sabrCorrection(alpha, rho, nu, T);
+  const z = -nu / alpha * k;
+  const x = Math.log((Math.sqrt(1 - 2 * rho * z + z * z) + z - rho) / (1 - rho));
+  const ratio = Math.abs(z) < 1e-8 ? 1 : z / x;
+  return alpha * ratio * sabrCorrection(alpha, rho, nu, T);
+};
+
+/**
+ * Implied vol at log-moneyness k = ln(K / F) and expiry T (years)
+ */
+export const surfaceVol = (spec: SurfaceSpec, state: SurfaceState, k: number, T: number): number => {
+  const t = Math.max(T, 1e-4);
+  if (spec.model === VolSurfaceModel.SABR) return sabrVol(state.atmVol, state.skew, state.curvature, k, t);
+  return Math.sqrt(ssviTotalVariance(state.atmVol * state.atmVol * t, state.skew, state.curvature, k) / t);
+};
+
+/**
+ * Implied vols and option prices on the grid at spot S. Strikes are set off
+ * the forward, so calendar arbitrage is checked on total variance at fixed
+ * moneyness and butterfly arbitrage on undiscounted call prices per expiry.
+ */
+export const surfaceSnapshot = (spec: SurfaceSpec, state: SurfaceState, S: number, r: number, isCall: boolean): VolSurfaceSnapshot => {
+  const { expiries, moneyness } = spec;
+  const strikes: number[][] = [], iv: number[][] = [], prices: number[][] = [];
+  let calendarViolations = 0, butterflyViolations = 0;
+  let previousVariance: number[] | undefined;
+
+  expiries.forEach(T => {
+    const F = S * Math.exp(r * T);
+    const row = moneyness.map(m => surfaceVol(spec, state, Math.log(m), T));
+    const rowStrikes = moneyness.map(m => m * F);
+    strikes.push(rowStrikes);
+    iv.push(row);
+    prices.push(row.map((vol, j) => calculateBS(S, rowStrikes[j], T, r, vol, isCall).price));
+
+    const variance = row.map(vol => vol * vol * T);
+    if (previousVariance) variance.forEach((w, j) => { if (w < previousVariance![j] - 1e-10) calendarViolations++; });
+    previousVariance = variance;
+
+    // Slopes of the call price in strike must lie in [-1, 0] and increase
+    const calls = row.map((vol, j) => calculateBS(F, rowStrikes[j], T, 0, vol, true).price);
+    const tolerance = 1e-10 * F;
+    let previousSlope = -1;
+    for (let j = 1; j < calls.length; j++) {
+      const slope = (calls[j] - calls[j - 1]) / (rowStrikes[j] - rowStrikes[j - 1]);
+      if (slope > tolerance || slope < -1 - tolerance || slope < previousSlope - tolerance) butterflyViolations++;
+      previousSlope = slope;
+    }
+  });
+
+  return {
+    atmVol: state.atmVol,
+    skew: state.skew,
+    curvature: state.curvature,
+    expiries,
+    moneyness,
+    strikes,
+    iv,
+    prices,
+    calendarViolations,
+    butterflyViolations
+  };
+};
@@ -0,0 +1,152 @@
+import { AssetClass, CurveFactorSpec, CurveModel, CurveSnapshot, SynthesisParameters } from '../types';
+import { getStandardNormal, RandomSource } from './mathUtils';
+import { prepareCorrelation, resizeCorrelationMatrix } from './correlation';
+
+// Standard curve tenors in years; every CurveSnapshot array is aligned with these
+export const CURVE_TENORS = [0.25, 0.5, 1, 2, 3, 5, 7, 10, 20, 30];
+
+export const tenorLabel = (tenor: number): string => (tenor < 1 ? `${Math.round(tenor * 12)}M` : `${tenor}Y`);
+
+export const CURVE_ASSET_CLASSES = [AssetClass.FIXED_INCOME, AssetClass.SWAP];
+
+export const DEFAULT_CURVE_FACTORS: Record<CurveModel, CurveFactorSpec[]> = {
+  [CurveModel.NSS]: [
+    { initial: 0.04, kappa: 0.3, theta: 0.04, sigma: 0.008 }, // beta0: long-end level
+    { initial: -0.01, kappa: 0.6, theta: -0.01, sigma: 0.01 }, // beta1: slope (short minus long)
+    { initial: 0.01, kappa: 1.0, theta: 0, sigma: 0.015 }, // beta2: medium-term hump
+    { initial: 0, kappa: 1.0, theta: 0, sigma: 0.015 } // beta3: second hump
+  ],
+  [CurveModel.GAUSSIAN_SHORT_RATE]: [
+    { initial: 0.03, kappa: 0.1, theta: 0.035, sigma: 0.006 }, // Slow, persistent factor
+    { initial: 0.005, kappa: 1.0, theta: 0, sigma: 0.012 } // Fast factor, mostly moves the front end
+  ]
+};
+
+export const DEFAULT_CURVE_CORRELATION: Record<CurveModel, number[][]> = {
+  [CurveModel.NSS]: [
+    [1, -0.3, 0, 0],
+    [-0.3, 1, 0.2, 0],
+    [0, 0.2, 1, 0],
+    [0, 0, 0, 1]
+  ],
+  [CurveModel.GAUSSIAN_SHORT_RATE]: [
+    [1, -0.7],
+    [-0.7, 1]
+  ]
+};
+
+export const CURVE_FACTOR_LABELS: Record<CurveModel, string[]> = {
+  [CurveModel.NSS]: ['β0 Level', 'β1 Slope', 'β2 Curvature', 'β3 Curvature 2'],
+  [CurveModel.GAUSSIAN_SHORT_RATE]: ['x Slow', 'y Fast']
+};
+
+export interface CurveSpec {
+  model: CurveModel;
+  factors: CurveFactorSpec[];
+  correlation: number[][]; // Repaired to the nearest correlation matrix if needed
+  cholesky: number[][];
+  tau1: number;
+  tau2: number;
+}
+
+/**
+ * Curve settings with defaults filled in, or undefined when the run has no
+ * curve (no curveModel, or an asset class without a term structure).
+ */
+export const resolveCurveSpec = (params: SynthesisParameters): CurveSpec | undefined => {
+  const model = params.curveModel;
+  if (!model || !CURVE_ASSET_CLASSES.includes(params.assetClass)) return undefined;
+  const factors = params.curveFactors?.length ? params.curveFactors : DEFAULT_CURVE_FACTORS[model];
+  const correlation = prepareCorrelation(resizeCorrelationMatrix(params.curveCorrelation ?? DEFAULT_CURVE_CORRELATION[model], factors.length));
+  return {
+    model,
+    factors,
+    correlation: correlation.matrix,
+    cholesky: correlation.cholesky,
+    tau1: Math.max(params.nssTau1 ?? 2, 0.01),
+    tau2: Math.max(params.nssTau2 ?? 8, 0.01)
+  };
+};
+
+export const initialCurveState = (spec: CurveSpec): number[] => spec.factors.map(f => f.initial);
+
+/**
+ * Advance every factor by its exact OU transition, driven by correlated shocks
+ */
+export const stepCurveFactors = (spec: CurveSpec, state: number[], dt: number, rng: RandomSource): void => {
+  const z = spec.factors.map(() => getStandardNormal(rng));
+  spec.factors.forEach((f, i) => {
+    const epsilon = spec.cholesky[i].reduce((acc, l, k) => acc + l * z[k], 0);
+    if (f.kappa > 1e-8) {
+      const decay = Math.exp(-f.kappa * dt);
+      state[i] = f.theta + (state[i] - f.theta) * decay + f.sigma * Math.sqrt((1 - decay * decay) / (2 * f.kappa)) * epsilon;
+    } else {
+      state[i] += f.sigma * Math.sqrt(dt) * epsilon;
+    }
+  });
+};
+
+// ∫₀^τ e^(-κu) du, with its κ → 0 limit
+const decayIntegral = (kappa: number, tau: number): number =>
+  kappa > 1e-8 ? (1 - Math.exp(-kappa * tau)) / kappa : tau;
+
+const nssLoading = (tau: number, lambda: number): [number, number] => {
+  const x = tau / lambda;
+  const slope = x > 1e-8 ? (1 - Math.exp(-x)) / x : 1;
+  return [slope, slope - Math.exp(-x)];
+};
+
+/**
+ * Gaussian short rate r = Σ xᵢ: the zero rate is E[∫r] less half its variance
+ * over τ, both in closed form for correlated OU factors.
+ */
+const gaussianZeroRate = (spec: CurveSpec, state: number[], tau: number): number => {
+  const { factors, correlation } = spec;
+  let mean = 0;
+  factors.forEach((f, i) => { mean += f.theta * tau + (state[i] - f.theta) * decayIntegral(f.kappa, tau); });
+
+  let variance = 0;
+  factors.forEach((fi, i) => {
+    factors.forEach((fj, j) => {
+      // Clamped away from zero: the closed form cancels catastrophically as κ → 0
+      const ki = Math.max(fi.kappa, 1e-4), kj = Math.max(fj.kappa, 1e-4);
+      const integrated = (tau - decayIntegral(ki, tau) - decayIntegral(kj, tau) + decayIntegral(ki + kj, tau)) / (ki * kj);
+      variance += correlation[i][j] * fi.sigma * fj.sigma * integrated;
+    });
+  });
+
+  return (mean - 0.5 * variance) / tau;
+};
+
+/**
+ * Continuously compounded zero rate for maturity tau (years) under the curve
+ * model, given the current factor values.
+ */
+export const curveZeroRate = (spec: CurveSpec, state: number[], tau: number): number => {
+  const t = Math.max(tau, 1e-6);
+  if (spec.model === CurveModel.GAUSSIAN_SHORT_RATE) return gaussianZeroRate(spec, state, t);
+  const [b0 = 0, b1 = 0, b2 = 0, b3 = 0] = state;
+  const [slope1, hump1] = nssLoading(t, spec.tau1);
+  const [, hump2] = nssLoading(t, spec.tau2);
+  return b0 + b1 * slope1 + b2 * hump1 + b3 * hump2;
+};
+
+/**
+ * Par rate of a swap maturing at tenor with annual fixed payments, counted
+ * back from maturity so a short first period absorbs any broken year.
+ */
+export const parSwapRate = (discount: (t: number) => number, tenor: number): number => {
+  let annuity = 0;
+  for (let t = tenor; t > 1e-9; t -= 1) annuity += Math.min(1, t) * discount(t);
+  return (1 - discount(tenor)) / annuity;
+};
+
+export const curveSnapshot = (spec: CurveSpec, state: number[]): CurveSnapshot => {
+  const discount = (t: number) => Math.exp(-curveZeroRate(spec, state, t) * t);
+  const zeroRates = CURVE_TENORS.map(t => curveZeroRate(spec, state, t));
+  return {
+    zeroRates,
+    discountFactors: CURVE_TENORS.map((t, k) => Math.exp(-zeroRates[k] * t)),
+    parRates: CURVE_TENORS.map(t => parSwapRate(discount, t))
+  };
+};
@@ -5,7 +5,11 @@ export enum ModelType {
   INTEREST_RATE_VASICEK = 'INTEREST_RATE_VASICEK',
   INTEREST_RATE_CIR = 'INTEREST_RATE_CIR',
   MACRO_INFLATION = 'MACRO_INFLATION',
-  OU_PROCESS = 'OU_PROCESS'
+  OU_PROCESS = 'OU_PROCESS',
+  HESTON = 'HESTON',
+  GARCH = 'GARCH',
+  GJR_GARCH = 'GJR_GARCH',
+  EGARCH = 'EGARCH'
 }
 
 export enum AssetClass {
@@ -26,6 +30,96 @@ export enum AssetClass {
   GDP_GROWTH = 'GDP_GROWTH'
 }
 
+/**
+ * Time-stepping scheme for the diffusion part of a process. Models without a
+ * meaningful choice (Heston, GARCH family) ignore it.
+ */
+export enum DiscretizationScheme {
+  EULER = 'EULER',
+  MILSTEIN = 'MILSTEIN',
+  EXACT = 'EXACT', // Exact transition density (GBM, OU/Vasicek, CIR)
+  LOG_EULER = 'LOG_EULER' // Euler on the log of the level; mean-reverting models fall back to Euler
+}
+
+/**
+ * Business-day calendar used for timestamps and year-fraction accrual.
+ * Weekends are never business days.
+ */
+export enum MarketCalendar {
+  WEEKDAYS = 'WEEKDAYS', // Weekends only, no holidays
+  NYSE = 'NYSE',
+  TARGET = 'TARGET',
+  LSE = 'LSE',
+  CUSTOM = 'CUSTOM' // Weekends plus customHolidays
+}
+
+export enum SamplingFrequency {
+  INTRADAY = 'INTRADAY',
+  DAILY = 'DAILY',
+  WEEKLY = 'WEEKLY', // Last business day of each week
+  MONTHLY = 'MONTHLY' // Last business day of each month
+}
+
+/**
+ * Term-structure model for FIXED_INCOME and SWAP curves
+ */
+export enum CurveModel {
+  NSS = 'NSS', // Nelson-Siegel-Svensson factors (level, slope, two curvatures) as correlated OU processes
+  GAUSSIAN_SHORT_RATE = 'GAUSSIAN_SHORT_RATE' // Short rate as a sum of correlated OU factors (G2++ with two)
+}
+
+/**
+ * One OU-driven curve factor: dX = kappa (theta - X) dt + sigma dW
+ */
+export interface CurveFactorSpec {
+  initial: number;
+  kappa: number;
+  theta: number;
+  sigma: number;
+}
+
+/**
+ * Accrual convention for swap coupon periods
+ */
+export enum DayCount {
+  ACT_360 = 'ACT_360',
+  ACT_365 = 'ACT_365', // Actual/365 Fixed
+  THIRTY_360 = 'THIRTY_360' // 30/360 bond basis
+}
+
+export enum SwaptionVolModel {
+  BLACK = 'BLACK', // Lognormal vol on the forward swap rate
+  BACHELIER = 'BACHELIER' // Normal (absolute) vol; prices negative rates and strikes
+}
+
+/**
+ * Payoff of the OPTION asset class. Path-dependent styles observe the
+ * simulated underlying from the start of the run.
+ */
+export enum OptionStyle {
+  EUROPEAN = 'EUROPEAN',
+  AMERICAN = 'AMERICAN', // CRR binomial tree with early exercise
+  BARRIER = 'BARRIER', // Knock-in/out, closed form with a discrete-monitoring shift
+  ASIAN = 'ASIAN', // Arithmetic average of fixings, Monte Carlo
+  DIGITAL = 'DIGITAL', // Cash-or-nothing
+  LOOKBACK = 'LOOKBACK' // Floating strike: pays against the running min (call) or max (put)
+}
+
+export enum BarrierType {
+  UP_AND_OUT = 'UP_AND_OUT',
+  UP_AND_IN = 'UP_AND_IN',
+  DOWN_AND_OUT = 'DOWN_AND_OUT',
+  DOWN_AND_IN = 'DOWN_AND_IN'
+}
+
+/**
+ * Parametric smile used for the OPTION implied-vol surface
+ */
+export enum VolSurfaceModel {
+  SVI = 'SVI', // Surface SVI (SSVI) in total variance, power-law curvature
+  SABR = 'SABR' // Hagan's lognormal SABR expansion with beta = 1
+}
+
 export interface Greeks {
   delta?: number;
   gamma?: number;
@@ -41,12 +135,160 @@ export interface CorrelationFactors {
   commodity?: number;
 }
 
+/**
+ * An additional asset simulated jointly with the primary one. Unset model
+ * parameters fall back to the engine defaults, not to the primary's values.
+ */
+export interface AssetSpec {
+  id: string;
+  label: string;
+  modelType: ModelType;
+  assetClass: AssetClass;
+  initialValue: number;
+  mu?: number;
+  sigma?: number;
+  kappa?: number;
+  theta?: number;
+  lambda?: number;
+  jumpMu?: number;
+  jumpSigma?: number;
+}
+
+/**
+ * One state of a Markov regime-switching run. The regime's values replace the
+ * top-level drift, volatility, mean reversion and jump intensity while it is
+ * in force; every other model parameter is shared across regimes.
+ */
+export interface RegimeSpec {
+  label: string;
+  mu: number;
+  sigma: number;
+  kappa: number;
+  theta: number;
+  lambda: number; // Jump intensity; only Merton jump diffusion draws jumps
+}
+
+export enum EventType {
+  EARNINGS = 'EARNINGS', // Quarterly results; EQUITY and OPTION underlyings, also steps expectedEarnings
+  CENTRAL_BANK = 'CENTRAL_BANK', // Policy meetings; rate asset classes, moves quantized to 25bp
+  CPI = 'CPI', // Inflation prints; INFLATION_RATE
+  CUSTOM = 'CUSTOM' // Any asset class
+}
+
+/**
+ * A scheduled jump on a known date. The move is shift + N(jumpMu, jumpSigma²),
+ * a log return for price series and a level change in the series' own units
+ * for rates and macro series. It lands on the first point on or after the
+ * date; events on the start date or after the horizon are dropped.
+ */
+export interface ScheduledEvent {
+  date: string; // ISO yyyy-mm-dd
+  type: EventType;
+  shift?: number; // Deterministic part of the move
+  jumpMu?: number; // Mean of the random part
+  jumpSigma?: number; // Std of the random part; 0 or unset for a purely deterministic move
+}
+
+export enum FundamentalSeries {
+  DIVIDENDS = 'DIVIDENDS', // Dividend per share at the payout ratio
+  BOOK_VALUE = 'BOOK_VALUE', // Book value per share, growing with retained earnings
+  REVENUE = 'REVENUE' // Revenue per share behind the reported earnings
+}
+
+/**
+ * Stochastic fundamentals at a point of an EQUITY run. Per-share amounts are
+ * annual run rates; reported figures step only on report dates.
+ */
+export interface FundamentalsSnapshot {
+  earningsPower: number; // Latent EPS the consensus tracks between reports
+  surprise?: number; // Reported over consensus minus 1, on report dates only
+  dividend?: number;
+  bookValue?: number;
+  revenue?: number;
+}
+
+/**
+ * Joint engines that move the five macro asset classes together
+ */
+export enum MacroSystem {
+  VAR = 'VAR', // y_t = c + A_1 y_{t-1} + ... + A_p y_{t-p} + e_t, one period per step
+  STRUCTURAL = 'STRUCTURAL' // IS curve, Phillips curve, Taylor rule and Okun's law
+}
+
+/**
+ * Small structural macro model; levels and growth rates in percent, speeds per year
+ */
+export interface MacroStructure {
+  neutralRate: number; // Real policy rate at the steady state
+  inflationTarget: number;
+  naturalUnemployment: number;
+  potentialGrowth: number; // Real GDP growth at the steady state
+  productivityGrowth: number; // Mean TFP growth; deviations move potential growth
+  taylorInflation: number; // Extra policy response per point of inflation gap
+  taylorOutput: number; // Policy response per point of output gap
+  rateSmoothing: number; // Speed the policy rate closes on the Taylor rule
+  phillipsSlope: number; // Inflation drift per point of unemployment gap
+  inflationReversion: number; // Pull of anchored expectations toward target
+  okunCoefficient: number; // Output gap per point of unemployment gap
+  rateSensitivity: number; // IS curve: growth drift per point of real rate gap
+  growthReversion: number; // Speed growth returns to potential
+  productivityReversion: number;
+  shockVol: number[]; // Annual shock std per variable, in MACRO_VARIABLES order
+}
+
+export enum LegType {
+  CALL = 'CALL',
+  PUT = 'PUT',
+  UNDERLYING = 'UNDERLYING' // Shares of the simulated underlying, e.g. a delta hedge
+}
+
+/**
+ * One position of an option book on the simulated underlying. Exotic styles
+ * take their barrier, fixing and payout terms from the run's parameters.
+ */
+export interface OptionLeg {
+  id: string;
+  type: LegType;
+  quantity: number; // Signed: negative for short positions
+  strike: number; // Ignored for UNDERLYING
+  expiry: number; // Years from the run start; ignored for UNDERLYING
+  style?: OptionStyle; // EUROPEAN when unset
+}
+
+/**
+ * Position value and Greeks of a leg (quantity included)
+ */
+export interface LegValuation {
+  id: string;
+  value: number;
+  greeks?: Greeks;
+}
+
 export interface SynthesisParameters {
   modelType: ModelType;
   assetClass: AssetClass;
   initialValue: number;
-  timeHorizon: number; // in days
-  dt: number; // time step (usually 1/252 for daily)
+  timeHorizon: number; // Number of steps at the sampling frequency
+  dt: number; // Nominal time step in years, derived from frequency (1/252 when that is unset)
+  startDate?: string; // ISO date of the first point; today when omitted
+  calendar?: MarketCalendar; // Defaults to WEEKDAYS
+  customHolidays?: string[]; // ISO dates, CUSTOM calendar only
+  frequency?: SamplingFrequency; // Daily business days when omitted
+  intradayMinutes?: number; // Bar length for INTRADAY sampling
+
+  // Intraday microstructure (bars are built on the simulated underlying)
+  generateBars?: boolean; // OHLCV per step from a sub-step Brownian bridge
+  barSubSteps?: number; // Bridge points inside each bar
+  dailyVolume?: number; // Expected shares per business day
+  intradayUShape?: number; // 0 (flat) - 0.5; U-shaped volume/volatility over the session, INTRADAY only
+  generateTicks?: boolean; // Trade/quote stream, INTRADAY only
+  ticksPerBar?: number; // Expected trades per bar before the intraday profile
+  tickSize?: number; // Price increment for quotes
+  spreadBps?: number; // Quoted bid/ask spread
+  microNoiseBps?: number; // Std of microstructure noise around the efficient price
+  scheme?: DiscretizationScheme; // Model's native scheme when omitted
+  seed?: number; // PRNG seed; a fresh one is drawn per run when omitted
+  numPaths?: number; // Monte Carlo paths (1 = single path)
   
   // Model specific
   mu?: number; // Drift / Expected Return
@@ -55,7 +297,9 @@ export interface SynthesisParameters {
   theta?: number; // Long-term mean
 
   // Correlation Matrix
-  correlations?: CorrelationFactors;
+  correlations?: CorrelationFactors; // Primary vs. market proxy loadings (single-asset mode)
+  assets?: AssetSpec[]; // Jointly simulated assets; enables multi-asset mode
+  correlationMatrix?: number[][]; // Over [primary, ...assets]; repaired to nearest PSD if needed
 
   // Asset Specific Factors
   dividendYield?: number; // Equities
@@ -72,6 +316,25 @@ export interface SynthesisParameters {
   creditSpread?: number; // Spread over risk-free
   cdsSpread?: number; // Credit Default Swap spread component
   baseRate?: number; 
+  bondMaturity?: number; // Years from the start date; Vasicek/CIR bond analytics
+  couponRate?: number; // Annual coupon as a fraction of face
+  couponFrequency?: number; // Coupons per year
+  faceValue?: number;
+
+  // Yield curve (FIXED_INCOME and SWAP); no curve when curveModel is unset
+  curveModel?: CurveModel;
+  curveFactors?: CurveFactorSpec[]; // NSS: [beta0, beta1, beta2, beta3]; Gaussian: one per short-rate factor
+  curveCorrelation?: number[][]; // Between factor shocks; repaired to nearest PSD if needed
+  nssTau1?: number; // NSS decay of beta1/beta2, in years
+  nssTau2?: number; // NSS decay of beta3, in years
+
+  // Swaps and swaptions (a swaption's underlying swap starts at expiry)
+  swapTenor?: number; // Years
+  paymentFrequency?: number; // Payments per year on both legs
+  notional?: number; // Values scale with it; Greeks are per unit notional
+  dayCount?: DayCount; // Accrual fractions of coupon periods
+  swaptionVolModel?: SwaptionVolModel; // BLACK prices at impliedVol, BACHELIER at normalVol
+  normalVol?: number; // Absolute vol of the forward swap rate under BACHELIER (0.008 = 80bp a year)
 
   // Derivative Specific
   strikePrice?: number;
@@ -79,11 +342,69 @@ export interface SynthesisParameters {
   expiryTime?: number; // in years
   isCall?: boolean;
   impliedVol?: number; // Implied volatility used for pricing (may differ from sigma)
+  optionStyle?: OptionStyle; // EUROPEAN when unset
+  barrierLevel?: number;
+  barrierType?: BarrierType;
+  digitalPayout?: number; // Cash paid when a digital finishes in the money
+  asianFixings?: number; // Equally spaced averaging dates over the option's life
+  treeSteps?: number; // Binomial steps for American options
+  exoticPaths?: number; // Monte Carlo paths for Asian options
+  portfolio?: OptionLeg[]; // OPTION only: the point value is the whole book when non-empty
+
+  // Implied vol surface (OPTION); the option is priced off the surface when set
+  volSurfaceModel?: VolSurfaceModel;
+  surfaceExpiries?: number[]; // Constant-maturity expiries in years
+  surfaceMoneyness?: number[]; // Strikes as multiples of the forward
+  surfaceSkew?: number; // Long-run smile skew: SSVI / SABR rho in (-1, 1)
+  surfaceCurvature?: number; // Long-run curvature: SSVI eta or SABR vol-of-vol nu
+  surfaceVolOfVol?: number; // Volatility of log ATM vol
+  surfaceMeanReversion?: number; // Speed shared by the ATM, skew and curvature factors
+  spotVolCorrelation?: number; // Between spot shocks and ATM vol shocks
   
   // Jump Diffusion specific
   lambda?: number; 
   jumpMu?: number; 
   jumpSigma?: number; 
+
+  // Heston specific (initial variance is sigma^2)
+  kappaV?: number; // Variance mean reversion speed
+  thetaV?: number; // Long-run variance
+  xi?: number; // Vol of vol
+  rhoSV?: number; // Spot/variance shock correlation
+
+  // GARCH family (per-step variance; omega defaults to targeting sigma^2 * dt)
+  garchOmega?: number;
+  garchAlpha?: number; // ARCH (shock) loading
+  garchBeta?: number; // Variance persistence
+  garchGamma?: number; // Leverage term (GJR / EGARCH)
+  studentNu?: number; // Student-t degrees of freedom for innovations (> 2)
+
+  // Markov regime switching over the selected model; off with fewer than two regimes
+  regimes?: RegimeSpec[];
+  regimeTransition?: number[][]; // Per-step probabilities, row i from regime i; rows sum to 1
+  initialRegime?: number; // Index into regimes; 0 when omitted
+
+  // Jumps on known dates, on top of the model's own dynamics
+  events?: ScheduledEvent[];
+
+  // Stochastic fundamentals (EQUITY); forward EPS grows at a flat 3% when off
+  stochasticEarnings?: boolean; // Reported EPS steps quarterly off a latent earnings process
+  earningsGrowth?: number; // Annual EPS drift; also the deterministic trend when stochasticEarnings is off
+  earningsVol?: number; // Annual volatility of latent EPS
+  earningsCorrelation?: number; // Between latent EPS shocks and price shocks
+  surpriseSigma?: number; // Std of the reported surprise, as a fraction of consensus
+  surpriseReaction?: number; // Log price move per unit of surprise on report dates
+  fundamentalSeries?: FundamentalSeries[]; // Extra per-share series to emit
+  payoutRatio?: number; // Share of earnings paid out; retained earnings grow book value
+  bookValue?: number; // Initial book value per share
+  netMargin?: number; // Average earnings over revenue
+
+  // Joint macro panel (macro asset classes); off when unset. VAR arrays follow MACRO_VARIABLES order
+  macroSystem?: MacroSystem;
+  macroStructure?: Partial<MacroStructure>;
+  varCoefficients?: number[][][]; // One matrix per lag, row = equation
+  varIntercept?: number[];
+  varShockVol?: number[]; // Per-period shock std
 }
 
 export interface DataPoint {
@@ -94,12 +415,101 @@ export interface DataPoint {
   peRatio?: number; // Dynamic fundamental factor
   expectedEarnings?: number; // Dynamic fundamental factor
   benchmarkValue?: number; // Correlated Market Factor path
+  variance?: number; // Instantaneous variance (stochastic volatility models)
+  conditionalVol?: number; // Annualized GARCH conditional volatility
   greeks?: Greeks;
+  assetValues?: Record<string, number>; // Joint asset levels keyed by AssetSpec.id
+  bar?: OHLCVBar; // Underlying over (previous point, this point]
+  curve?: CurveSnapshot; // Term structure at this point, aligned with CURVE_TENORS
+  bond?: BondAnalytics; // Coupon bond off the simulated short rate (FIXED_INCOME, Vasicek/CIR)
+  volSurface?: VolSurfaceSnapshot; // Implied vol grid at this point (OPTION with a surface model)
+  legs?: LegValuation[]; // Per-leg breakdown of a portfolio run, in OptionLeg order
+  regime?: number; // Regime in force over the step starting at this point, index into regimes
+  events?: EventType[]; // Scheduled events that landed on this point
+  fundamentals?: FundamentalsSnapshot; // EQUITY runs with stochasticEarnings
+  macro?: Partial<Record<AssetClass, number>>; // Full panel of a joint macro run
+  index: number;
+}
+
+export interface OHLCVBar {
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+/**
+ * Zero rates are continuously compounded; par rates are for swaps with annual
+ * fixed payments against a float leg worth par.
+ */
+export interface CurveSnapshot {
+  zeroRates: number[];
+  discountFactors: number[];
+  parRates: number[];
+}
+
+/**
+ * Prices are dirty and per faceValue; yields compound at the coupon frequency
+ */
+export interface BondAnalytics {
+  zeroCouponPrice: number; // Affine P(t, maturity) per unit face, spread-adjusted
+  price: number;
+  ytm: number;
+  macaulayDuration: number; // Years
+  modifiedDuration: number;
+  convexity: number;
+  dv01: number; // Price change per 1bp fall in yield
+}
+
+/**
+ * Implied vols and prices on the expiry x moneyness grid, rows by expiry.
+ * Arbitrage counts are grid cells failing the check.
+ */
+export interface VolSurfaceSnapshot {
+  atmVol: number;
+  skew: number;
+  curvature: number;
+  expiries: number[];
+  moneyness: number[];
+  strikes: number[][];
+  iv: number[][];
+  prices: number[][]; // Per unit underlying position, call or put as isCall
+  calendarViolations: number; // Total variance falling with expiry at fixed moneyness
+  butterflyViolations: number; // Call prices not decreasing and convex in strike
+}
+
+export interface Tick {
+  timestamp: string; // Exchange-local, millisecond precision
+  barIndex: number; // DataPoint.index of the bar containing the trade
+  price: number; // Trade price, at the bid or the ask
+  size: number;
+  side: 'buy' | 'sell'; // Aggressor side
+  bid: number;
+  ask: number;
+}
+
+export interface QuantileBand {
   index: number;
+  timestamp: string;
+  p5: number;
+  p25: number;
+  p50: number;
+  p75: number;
+  p95: number;
+  mean: number;
+}
+
+export interface EnsembleResult {
+  numPaths: number;
+  steps: number;
+  paths: Float32Array; // Row-major: paths[path * steps + step]
+  bands: QuantileBand[];
 }
 
 export interface SynthesisResult {
   parameters: SynthesisParameters;
+  seed: number; // Seed actually used, so the run can be regenerated exactly
   data: DataPoint[];
   summary: {
     max: number;
@@ -107,4 +517,183 @@ export interface SynthesisResult {
     avg: number;
     vol: number;
   };
+  ensemble?: EnsembleResult;
+  ticks?: Tick[]; // Primary path only, when generateTicks is set
+  correlation?: {
+    matrix: number[][]; // Matrix used for sampling
+    repaired: boolean; // Input was not PSD and was replaced by the nearest correlation matrix
+    minEigenvalue: number;
+  };
+}
+
+export interface HistoricalSeries {
+  name: string; // Column header
+  timestamps: string[];
+  values: number[];
+}
+
+export interface CalibratedParameter {
+  key: keyof SynthesisParameters;
+  label: string;
+  value: number;
+  stdError: number; // NaN when the information matrix is singular
+}
+
+export interface CalibrationResult {
+  modelType: ModelType;
+  method: string;
+  dt: number; // Observation spacing in years
+  numObservations: number;
+  estimates: CalibratedParameter[];
+  logLikelihood: number;
+  aic: number;
+  bic: number;
+  diagnostics: { label: string; value: string }[];
+  params: Partial<SynthesisParameters>; // Ready to merge into the current parameters
+}
+
+export interface ReturnStatistics {
+  count: number;
+  mean: number; // Per step
+  std: number; // Per step
+  annualizedVol: number;
+  skewness: number;
+  excessKurtosis: number;
+  jarqueBera: { statistic: number; pValue: number };
+  acfReturns: number[]; // Lags 1..n
+  acfSquared: number[]; // Lags 1..n, volatility clustering
+  hurst: number;
+  maxDrawdown: number; // Fraction of peak for log returns, level units otherwise
+}
+
+export interface ValidationReport {
+  returnType: 'log' | 'difference'; // Differences are used when levels can be non-positive (rates)
+  synthetic: ReturnStatistics;
+  reference?: ReturnStatistics & { name: string };
+  ks?: { statistic: number; pValue: number }; // Two-sample test, synthetic vs reference returns
+}
+
+export interface HedgeSettings {
+  rebalanceEvery: number; // Steps between rebalances
+  costBps: number; // Proportional cost on traded notional
+  fixedCost: number; // Per rebalance that trades
+}
+
+/**
+ * One point of a short option position hedged with the underlying. P&L
+ * components explain the change in the hedged book since the previous point;
+ * theta includes the interest earned on the cash account.
+ */
+export interface HedgeStep {
+  index: number;
+  timestamp: string;
+  spot: number;
+  optionValue: number;
+  shares: number; // Held after any rebalance at this point
+  cash: number;
+  book: number; // Cumulative hedged P&L: cash + shares x spot - option value
+  pnl: number;
+  delta: number; // Unhedged delta exposure times the spot move
+  gamma: number;
+  theta: number;
+  vega: number;
+  costs: number; // Negative: transaction costs paid at this point
+  residual: number;
+  rebalanced: boolean;
+}
+
+export interface HedgeIntervalRow {
+  rebalanceEvery: number;
+  mean: number;
+  std: number;
+  meanCost: number;
+}
+
+export interface HedgeErrorReport {
+  numPaths: number;
+  errors: number[]; // Terminal hedged P&L per path at the chosen settings
+  mean: number;
+  std: number;
+  p5: number;
+  p50: number;
+  p95: number;
+  meanCost: number;
+  byInterval: HedgeIntervalRow[]; // Same paths re-hedged at other frequencies
+}
+
+export enum ScenarioFactor {
+  EQUITY = 'EQUITY', // Broad equity index, % change
+  RATES = 'RATES', // Benchmark government yield, bp change
+  VOL = 'VOL', // Equity implied vol index, vol points
+  FX = 'FX' // Quoted exchange rate of the episode's pair, % change
+}
+
+/**
+ * A historical stress episode as cumulative factor moves. Each factor is a
+ * list of [business days since start, cumulative move] anchors, interpolated
+ * linearly; the last anchor is the terminal move.
+ */
+export interface HistoricalScenario {
+  id: string;
+  name: string;
+  start: string; // ISO date of the pre-episode close the moves are measured from
+  end: string;
+  revision: number; // Bumped whenever the episode's data changes
+  description: string;
+  fxPair: string; // Pair the FX moves refer to
+  moves: Record<ScenarioFactor, [number, number][]>;
+}
+
+export enum ScenarioMode {
+  OVERLAY = 'OVERLAY', // Episode path added on top of the run from a start point
+  TERMINAL = 'TERMINAL' // Whole episode move applied at once
+}
+
+/**
+ * Joint instantaneous shock to an option or swaption position: spot in % of
+ * the underlying, vol in points (basis points of normal vol under
+ * BACHELIER), time in calendar days and rates in percentage points.
+ */
+export interface FactorShock {
+  asset: number;
+  vol: number;
+  time: number;
+  rates: number;
+}
+
+export type ShockFactor = keyof FactorShock;
+
+export interface StressCell {
+  x: number;
+  y: number;
+  taylor: number; // Second-order Greeks estimate of the P&L
+  full: number; // P&L from repricing under the shock
+}
+
+export interface StressGrid {
+  xFactor: ShockFactor;
+  yFactor: ShockFactor;
+  xValues: number[];
+  yValues: number[];
+  cells: StressCell[][]; // [y][x]
+}
+
+export interface ConvergenceRow {
+  scheme?: DiscretizationScheme; // Undefined for models that only have their native scheme
+  dt: number;
+  steps: number;
+  mean: number; // Monte Carlo terminal mean
+  std: number; // Monte Carlo terminal standard deviation
+  meanBias?: number; // Against the analytic moment, when one exists
+  stdBias?: number;
+  standardError: number; // Of the MC mean, to judge whether a bias is noise
+  negativeShare: number; // Fraction of terminal values below zero
+}
+
+export interface ConvergenceReport {
+  horizon: number; // Years, held fixed across step sizes
+  numPaths: number;
+  analyticMean?: number;
+  analyticStd?: number;
+  rows: ConvergenceRow[];
 }